@@ -4,9 +4,10 @@ import createNextIntlPlugin from 'next-intl/plugin';
 const withNextIntl = createNextIntlPlugin('./src/i18n.ts');
 
 const nextConfig: NextConfig = {
+  // ENCRYPTION_KEY is deliberately not inlined: src/lib/encryption.ts reads it at runtime,
+  // so a build made without it can't end up using the development key
   env: {
     DATABASE_PATH: process.env.DATABASE_PATH,
-    ENCRYPTION_KEY: process.env.ENCRYPTION_KEY,
     SESSION_SECRET: process.env.SESSION_SECRET,
   },
   // Enable standalone output for Docker
@@ -7,9 +7,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { Plus, Edit, Trash, Wallet, TrendingUp, RefreshCw, Calculator, BarChart3, BadgeCheck, Undo2 } from "lucide-react"
+import { Plus, Edit, Trash, Wallet, TrendingUp, RefreshCw, Calculator, BarChart3, BadgeCheck, Undo2, Lock, Eye, Users } from "lucide-react"
 import { AccountForm } from "@/components/accounts/account-form"
 import { BalanceForm } from "@/components/accounts/balance-form"
+import { AccountSharing } from "@/components/accounts/account-sharing"
 import { useTranslations } from 'next-intl'
 import type { AccountWithBalance } from "@/types"
 
@@ -24,6 +25,10 @@ export default function AccountsPage() {
   const [loadingAmortization, setLoadingAmortization] = useState(false)
   const [showRecordBalance, setShowRecordBalance] = useState(false)
   const [recordBalanceAccount, setRecordBalanceAccount] = useState<AccountWithBalance | null>(null)
+  const [sharingAccount, setSharingAccount] = useState<AccountWithBalance | null>(null)
+
+  // Members with view access only see the account; owners also manage its sharing
+  const canEdit = (account: AccountWithBalance) => account.access === 'owner' || account.access === 'edit'
 
   useEffect(() => {
     fetchAccounts()
@@ -264,17 +269,31 @@ export default function AccountsPage() {
                           {t('debt.settled')}
                         </span>
                       )}
+                      {account.family_access === 'none' && (
+                        <span className="text-xs font-medium px-2 py-1 rounded-full whitespace-nowrap bg-gray-100 text-gray-700 flex items-center gap-1">
+                          <Lock className="h-3 w-3" />
+                          {t('accounts.private')}
+                        </span>
+                      )}
+                      {account.access === 'view' && (
+                        <span className="text-xs font-medium px-2 py-1 rounded-full whitespace-nowrap bg-amber-100 text-amber-700 flex items-center gap-1">
+                          <Eye className="h-3 w-3" />
+                          {t('accounts.viewOnly')}
+                        </span>
+                      )}
                     </div>
                     <div className="flex space-x-1 flex-shrink-0">
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        onClick={() => handleRecordBalance(account)}
-                        className="h-8 w-8 p-0"
-                        title="Record balance"
-                      >
-                        <BarChart3 className="h-4 w-4 text-purple-600" />
-                      </Button>
+                      {canEdit(account) && (
+                        <Button 
+                          variant="ghost" 
+                          size="sm"
+                          onClick={() => handleRecordBalance(account)}
+                          className="h-8 w-8 p-0"
+                          title="Record balance"
+                        >
+                          <BarChart3 className="h-4 w-4 text-purple-600" />
+                        </Button>
+                      )}
                       {account.category === 'Debt' && (
                         <Button 
                           variant="ghost" 
@@ -286,7 +305,7 @@ export default function AccountsPage() {
                           <Calculator className="h-4 w-4 text-green-600" />
                         </Button>
                       )}
-                      {account.category === 'Debt' && !!(account as any).auto_update_enabled && !account.is_settled && (
+                      {canEdit(account) && account.category === 'Debt' && !!(account as any).auto_update_enabled && !account.is_settled && (
                         <Button
                           variant="ghost"
                           size="sm"
@@ -297,7 +316,7 @@ export default function AccountsPage() {
                           <RefreshCw className="h-4 w-4 text-blue-600" />
                         </Button>
                       )}
-                      {account.category === 'Debt' && !account.is_settled && (
+                      {canEdit(account) && account.category === 'Debt' && !account.is_settled && (
                         <Button
                           variant="ghost"
                           size="sm"
@@ -308,7 +327,7 @@ export default function AccountsPage() {
                           <BadgeCheck className="h-4 w-4 text-emerald-600" />
                         </Button>
                       )}
-                      {account.category === 'Debt' && !!account.is_settled && (
+                      {canEdit(account) && account.category === 'Debt' && !!account.is_settled && (
                         <Button
                           variant="ghost"
                           size="sm"
@@ -319,22 +338,37 @@ export default function AccountsPage() {
                           <Undo2 className="h-4 w-4 text-amber-600" />
                         </Button>
                       )}
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        onClick={() => setEditingAccount(account)}
-                        className="h-8 w-8 p-0"
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        onClick={() => handleDeleteAccount(account.id)}
-                        className="h-8 w-8 p-0"
-                      >
-                        <Trash className="h-4 w-4 text-red-600" />
-                      </Button>
+                      {account.access === 'owner' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSharingAccount(account)}
+                          className="h-8 w-8 p-0"
+                          title={t('accounts.share')}
+                        >
+                          <Users className="h-4 w-4 text-gray-600" />
+                        </Button>
+                      )}
+                      {canEdit(account) && (
+                        <>
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={() => setEditingAccount(account)}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            onClick={() => handleDeleteAccount(account.id)}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Trash className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </>
+                      )}
                     </div>
                   </div>
                   <CardTitle className="text-base sm:text-lg truncate">{account.name}</CardTitle>
@@ -566,6 +600,27 @@ export default function AccountsPage() {
             )}
           </DialogContent>
         </Dialog>
+
+        {/* Account Sharing Modal */}
+        <Dialog open={!!sharingAccount} onOpenChange={() => setSharingAccount(null)}>
+          <DialogContent className="w-[95vw] max-w-md mx-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {t('accountSharing.title')} - {sharingAccount?.name}
+              </DialogTitle>
+            </DialogHeader>
+            {sharingAccount && (
+              <AccountSharing
+                account={sharingAccount}
+                onSuccess={() => {
+                  setSharingAccount(null)
+                  fetchAccounts()
+                }}
+                onCancel={() => setSharingAccount(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </MainLayout>
     </AuthGuard>
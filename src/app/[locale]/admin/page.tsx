@@ -9,16 +9,19 @@ import {
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs"
-import { Mail, Users, Shield, Settings, FileText } from "lucide-react"
+import { Mail, Users, Shield, Settings, FileText, KeyRound } from "lucide-react"
 import { useTranslations } from 'next-intl'
 import { UserManagement } from "@/components/admin/user-management"
+import { LockedAccounts } from "@/components/admin/locked-accounts"
 import { NotificationManagement } from "@/components/admin/notification-management"
 import { RegistrationManagement } from "@/components/admin/registration-management"
 import { SystemLogs } from "@/components/admin/system-logs"
+import { EncryptionManagement } from "@/components/admin/encryption-management"
 
 function AdminContent() {
   const t = useTranslations("navigation")
   const tSettings = useTranslations("settings")
+  const tEncryption = useTranslations("encryption")
   
   return (
     <div className="container mx-auto py-6">
@@ -47,6 +50,10 @@ function AdminContent() {
               <Settings className="h-4 w-4" />
               Registration
             </TabsTrigger>
+            <TabsTrigger value="encryption" className="flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              {tEncryption("tab")}
+            </TabsTrigger>
             <TabsTrigger value="logs" className="flex items-center gap-2">
               <FileText className="h-4 w-4" />
               System Logs
@@ -57,7 +64,8 @@ function AdminContent() {
             <NotificationManagement />
           </TabsContent>
 
-          <TabsContent value="users">
+          <TabsContent value="users" className="space-y-6">
+            <LockedAccounts />
             <UserManagement />
           </TabsContent>
 
@@ -65,6 +73,10 @@ function AdminContent() {
             <RegistrationManagement />
           </TabsContent>
 
+          <TabsContent value="encryption">
+            <EncryptionManagement />
+          </TabsContent>
+
           <TabsContent value="logs">
             <SystemLogs />
           </TabsContent>
@@ -0,0 +1,391 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { MainLayout } from "@/components/layout/main-layout"
+import { AuthGuard } from "@/components/auth/auth-guard"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { BellRing, BellOff, Check, CheckCheck, Plus, RefreshCw, Trash2 } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import type { Account, Alert, AlertRule, AlertRuleType, TransactionCategory } from "@/types"
+
+const RULE_TYPES: AlertRuleType[] = ["balance_below", "category_spending_above", "transaction_above", "stale_balance", "debt_milestone"]
+
+// Rule types where the account can be left empty to watch every account
+const OPTIONAL_ACCOUNT: AlertRuleType[] = ["transaction_above", "stale_balance"]
+
+const EMPTY_FORM = { name: "", type: "balance_below" as AlertRuleType, accountId: "", categoryId: "", threshold: "" }
+
+export default function AlertsPage() {
+  const t = useTranslations("alerts")
+  const locale = useLocale()
+  const [alerts, setAlerts] = useState<Alert[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [categories, setCategories] = useState<TransactionCategory[]>([])
+  const [loading, setLoading] = useState(true)
+  const [checking, setChecking] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const formatCurrency = (amount: number, currency = "EUR") => {
+    return new Intl.NumberFormat(locale === "es" ? "es-ES" : "en-US", {
+      style: "currency",
+      currency,
+    }).format(amount)
+  }
+
+  const formatDateTime = (date: string) => {
+    return new Date(date.includes("T") ? date : `${date.replace(" ", "T")}Z`).toLocaleString(locale === "es" ? "es-ES" : "en-US", {
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const [alertsRes, rulesRes] = await Promise.all([fetch("/api/alerts"), fetch("/api/alerts/rules")])
+      if (alertsRes.ok) {
+        const data = await alertsRes.json()
+        setAlerts(data.alerts)
+        setUnreadCount(data.unreadCount)
+      }
+      if (rulesRes.ok) setRules(await rulesRes.json())
+    } catch (err) {
+      console.error("Failed to fetch alerts:", err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchAlerts()
+    Promise.all([fetch("/api/accounts"), fetch("/api/transactions/categories")])
+      .then(async ([accountsRes, categoriesRes]) => {
+        if (accountsRes.ok) setAccounts(await accountsRes.json())
+        if (categoriesRes.ok) setCategories(await categoriesRes.json())
+      })
+      .catch(err => console.error("Failed to fetch accounts and categories:", err))
+  }, [fetchAlerts])
+
+  const handleCheckNow = async () => {
+    setChecking(true)
+    try {
+      await fetch("/api/alerts/evaluate", { method: "POST" })
+      await fetchAlerts()
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const markRead = async (alert: Alert) => {
+    const res = await fetch(`/api/alerts/${alert.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ read: true }),
+    })
+    if (res.ok) fetchAlerts()
+  }
+
+  const markAllRead = async () => {
+    const res = await fetch("/api/alerts/read-all", { method: "POST" })
+    if (res.ok) fetchAlerts()
+  }
+
+  const updateRule = async (id: number, body: { is_active?: boolean; snooze_days?: number }) => {
+    const res = await fetch(`/api/alerts/rules/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+    if (res.ok) fetchAlerts()
+  }
+
+  const deleteRule = async (rule: AlertRule) => {
+    if (!confirm(t("deleteConfirm", { name: rule.name }))) return
+    const res = await fetch(`/api/alerts/rules/${rule.id}`, { method: "DELETE" })
+    if (res.ok) fetchAlerts()
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setFormError(null)
+    const res = await fetch("/api/alerts/rules", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: form.name,
+        type: form.type,
+        account_id: form.accountId ? Number(form.accountId) : null,
+        category_id: form.categoryId ? Number(form.categoryId) : null,
+        threshold: form.threshold === "" ? NaN : Number(form.threshold),
+      }),
+    })
+    if (res.ok) {
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      fetchAlerts()
+    } else {
+      const data = await res.json().catch(() => ({}))
+      setFormError(data.error || t("createFailed"))
+    }
+  }
+
+  const renderMessage = (alert: Alert) => {
+    const { details } = alert
+    const money = (amount?: number) => formatCurrency(amount ?? 0, details.currency || "EUR")
+    return t(`messages.${alert.rule_type}`, {
+      account: details.accountName ?? "",
+      category: details.categoryName ?? "",
+      description: details.description ?? "",
+      amount: money(details.amount),
+      threshold: alert.rule_type === "stale_balance" || alert.rule_type === "debt_milestone" ? details.threshold : money(details.threshold),
+      date: details.date ?? "",
+      days: details.days ?? 0,
+      months: details.remainingMonths ?? 0,
+    })
+  }
+
+  const describeRule = (rule: AlertRule) => {
+    const threshold = rule.type === "stale_balance" || rule.type === "debt_milestone"
+      ? rule.threshold
+      : formatCurrency(rule.threshold)
+    return t(`ruleSummary.${rule.type}`, {
+      account: rule.account_name ?? t("allAccounts"),
+      category: rule.category_name ?? "",
+      threshold,
+    })
+  }
+
+  const isSnoozed = (rule: AlertRule) =>
+    !!rule.snoozed_until && new Date(`${rule.snoozed_until.replace(" ", "T")}Z`) > new Date()
+
+  const accountOptions = form.type === "debt_milestone" ? accounts.filter(a => a.category === "Debt") : accounts
+
+  return (
+    <AuthGuard>
+      <MainLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex flex-col space-y-4 sm:flex-row sm:justify-between sm:items-center sm:space-y-0">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{t("title")}</h1>
+              <p className="text-gray-600">{t("subtitle")}</p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleCheckNow} disabled={checking}>
+                <RefreshCw className={`mr-2 h-4 w-4 ${checking ? "animate-spin" : ""}`} />
+                {t("checkNow")}
+              </Button>
+              <Button onClick={() => setShowForm(!showForm)}>
+                <Plus className="mr-2 h-4 w-4" />
+                {t("newRule")}
+              </Button>
+            </div>
+          </div>
+
+          {showForm && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{t("newRule")}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleCreate} className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="alert-name">{t("name")}</Label>
+                    <Input id="alert-name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>{t("type")}</Label>
+                    <Select value={form.type} onValueChange={value => setForm({ ...form, type: value as AlertRuleType, accountId: "", categoryId: "" })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RULE_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{t(`types.${type}`)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {form.type === "category_spending_above" ? (
+                    <div className="space-y-2">
+                      <Label>{t("category")}</Label>
+                      <Select value={form.categoryId} onValueChange={value => setForm({ ...form, categoryId: value })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder={t("selectCategory")} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {categories.map(c => (
+                            <SelectItem key={c.id} value={String(c.id)}>{c.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label>{t("account")}</Label>
+                      <Select
+                        value={form.accountId || (OPTIONAL_ACCOUNT.includes(form.type) ? "all" : "")}
+                        onValueChange={value => setForm({ ...form, accountId: value === "all" ? "" : value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder={t("selectAccount")} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {OPTIONAL_ACCOUNT.includes(form.type) && (
+                            <SelectItem value="all">{t("allAccounts")}</SelectItem>
+                          )}
+                          {accountOptions.map(a => (
+                            <SelectItem key={a.id} value={String(a.id)}>{a.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="alert-threshold">{t(`thresholdLabel.${form.type}`)}</Label>
+                    <Input
+                      id="alert-threshold"
+                      type="number"
+                      step={form.type === "stale_balance" || form.type === "debt_milestone" ? "1" : "0.01"}
+                      value={form.threshold}
+                      onChange={e => setForm({ ...form, threshold: e.target.value })}
+                      required
+                    />
+                  </div>
+                  {formError && <p className="text-sm text-red-600 sm:col-span-2">{formError}</p>}
+                  <div className="flex gap-2 sm:col-span-2">
+                    <Button type="submit">{t("create")}</Button>
+                    <Button type="button" variant="outline" onClick={() => { setShowForm(false); setFormError(null) }}>{t("cancel")}</Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Inbox */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="flex items-center">
+                <BellRing className="mr-2 h-5 w-5" />
+                {t("inbox")}
+                {unreadCount > 0 && (
+                  <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                    {t("unread", { count: unreadCount })}
+                  </span>
+                )}
+              </CardTitle>
+              {unreadCount > 0 && (
+                <Button variant="ghost" size="sm" onClick={markAllRead}>
+                  <CheckCheck className="mr-1 h-4 w-4" />
+                  {t("markAllRead")}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+                </div>
+              ) : alerts.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">{t("noAlerts")}</p>
+              ) : (
+                <div className="divide-y">
+                  {alerts.map(alert => (
+                    <div key={alert.id} className={`py-3 flex items-start justify-between gap-3 ${alert.read_at ? "opacity-60" : ""}`}>
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          {!alert.read_at && <span className="h-2 w-2 flex-shrink-0 rounded-full bg-amber-500" />}
+                          <span className={`truncate ${alert.read_at ? "" : "font-medium"}`}>{alert.rule_name}</span>
+                          <span className="text-xs text-gray-500 flex-shrink-0">{formatDateTime(alert.created_at)}</span>
+                        </div>
+                        <p className="text-sm text-gray-600 mt-0.5">{renderMessage(alert)}</p>
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title={t("snoozeWeek")}
+                          onClick={() => updateRule(alert.rule_id, { snooze_days: 7 })}
+                        >
+                          <BellOff className="h-4 w-4" />
+                        </Button>
+                        {!alert.read_at && (
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title={t("markRead")} onClick={() => markRead(alert)}>
+                            <Check className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Rules */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("rules")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {rules.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">{t("noRules")}</p>
+              ) : (
+                <div className="divide-y">
+                  {rules.map(rule => (
+                    <div key={rule.id} className={`py-3 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between ${rule.is_active ? "" : "opacity-50"}`}>
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{rule.name}</div>
+                        <div className="text-xs text-gray-500">{describeRule(rule)}</div>
+                        {isSnoozed(rule) && (
+                          <div className="text-xs text-amber-700 mt-0.5">{t("snoozedUntil", { date: formatDateTime(rule.snoozed_until!) })}</div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {isSnoozed(rule) ? (
+                          <Button variant="outline" size="sm" onClick={() => updateRule(rule.id, { snooze_days: 0 })}>
+                            {t("unsnooze")}
+                          </Button>
+                        ) : (
+                          <Button variant="outline" size="sm" onClick={() => updateRule(rule.id, { snooze_days: 1 })}>
+                            <BellOff className="mr-1 h-4 w-4" />
+                            {t("snoozeDay")}
+                          </Button>
+                        )}
+                        <Switch
+                          checked={rule.is_active}
+                          onCheckedChange={checked => updateRule(rule.id, { is_active: checked })}
+                          title={t("active")}
+                        />
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title={t("delete")} onClick={() => deleteRule(rule)}>
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </MainLayout>
+    </AuthGuard>
+  )
+}
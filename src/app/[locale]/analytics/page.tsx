@@ -10,6 +10,9 @@ import { OverviewTab } from "@/components/analytics/overview-tab"
 import { ExpensesTab } from "@/components/analytics/expenses-tab"
 import { TrendsTab } from "@/components/analytics/trends-tab"
 import { CategoryEvolutionTab } from "@/components/analytics/category-evolution-tab"
+import { BudgetsTab } from "@/components/analytics/budgets-tab"
+import { TransfersTab } from "@/components/analytics/transfers-tab"
+import { ReportTab } from "@/components/analytics/report-tab"
 import type { MonthlySummary, CategoryEvolution, TransactionCategory } from "@/types"
 
 export default function AnalyticsPage() {
@@ -78,6 +81,9 @@ export default function AnalyticsPage() {
               <TabsTrigger value="expenses" className="flex-1 sm:flex-none">{t("tabExpenses")}</TabsTrigger>
               <TabsTrigger value="trends" className="flex-1 sm:flex-none">{t("tabTrends")}</TabsTrigger>
               <TabsTrigger value="categories" className="flex-1 sm:flex-none">{t("tabCategories")}</TabsTrigger>
+              <TabsTrigger value="budgets" className="flex-1 sm:flex-none">{t("tabBudgets")}</TabsTrigger>
+              <TabsTrigger value="transfers" className="flex-1 sm:flex-none">{t("tabTransfers")}</TabsTrigger>
+              <TabsTrigger value="report" className="flex-1 sm:flex-none">{t("tabReport")}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview">
@@ -95,6 +101,18 @@ export default function AnalyticsPage() {
             <TabsContent value="categories">
               <CategoryEvolutionTab data={categoryEvolution} categories={categories} month={month} onSummaryRefresh={fetchData} />
             </TabsContent>
+
+            <TabsContent value="budgets">
+              <BudgetsTab month={month} categories={categories} />
+            </TabsContent>
+
+            <TabsContent value="transfers">
+              <TransfersTab month={month} onSummaryRefresh={fetchData} />
+            </TabsContent>
+
+            <TabsContent value="report">
+              <ReportTab month={month} />
+            </TabsContent>
           </Tabs>
         </div>
       </MainLayout>
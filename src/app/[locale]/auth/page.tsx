@@ -18,27 +18,34 @@ export default function AuthPage() {
   const searchParams = useSearchParams()
   const [mode, setMode] = useState<AuthMode>('login')
   const [resetToken, setResetToken] = useState<string | null>(null)
+  const [inviteToken, setInviteToken] = useState<string | null>(null)
   const [registrationEnabled, setRegistrationEnabled] = useState(false)
   const [loading, setLoading] = useState(true)
   const router = useRouter()
 
   const handleLogin = () => {
-    router.push(`/${locale}/dashboard`)
+    // Signing in from an invitation goes back to it, to confirm joining the family
+    router.push(inviteToken ? `/${locale}/invite/${encodeURIComponent(inviteToken)}` : `/${locale}/dashboard`)
   }
 
   const handleRegister = () => {
     router.push(`/${locale}/dashboard`)
   }
 
-  // Read URL params for reset-password flow
+  // Read URL params for the reset-password and invitation flows
   useEffect(() => {
     const urlMode = searchParams.get('mode')
     const urlToken = searchParams.get('token')
+    const urlInvite = searchParams.get('invite')
 
     if (urlMode === 'reset-password' && urlToken) {
       setMode('reset-password')
       setResetToken(urlToken)
     }
+    if (urlInvite) {
+      setInviteToken(urlInvite)
+      if (urlMode === 'register') setMode('register')
+    }
   }, [searchParams])
 
   useEffect(() => {
@@ -119,11 +126,13 @@ export default function AuthPage() {
         )
 
       case 'register':
-        if (registrationEnabled) {
+        // An invitation is accepted even while open registration is disabled
+        if (registrationEnabled || inviteToken) {
           return (
             <RegisterForm
               onRegister={handleRegister}
               onSwitchToLogin={() => setMode('login')}
+              inviteToken={inviteToken}
             />
           )
         }
@@ -141,9 +150,9 @@ export default function AuthPage() {
         return (
           <LoginForm
             onLogin={handleLogin}
-            onSwitchToRegister={() => registrationEnabled && setMode('register')}
+            onSwitchToRegister={() => (registrationEnabled || inviteToken) && setMode('register')}
             onSwitchToForgotPassword={() => setMode('forgot-password')}
-            registrationEnabled={registrationEnabled}
+            registrationEnabled={registrationEnabled || !!inviteToken}
           />
         )
     }
@@ -6,6 +6,9 @@ import { AuthGuard } from "@/components/auth/auth-guard"
 import { AdminGuard } from "@/components/auth/admin-guard"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
 import { 
   Shield, 
   Download, 
@@ -17,7 +20,9 @@ import {
   HardDrive,
   Clock,
   Upload,
-  FileText
+  FileText,
+  Lock,
+  ShieldCheck
 } from "lucide-react"
 import { useTranslations } from 'next-intl'
 import {
@@ -34,8 +39,14 @@ interface BackupFile {
   size: number
   created_at: string
   location: 'local' | 'dropbox' | 'google-drive'
+  checksum?: string
+  compressed?: boolean
+  encrypted?: boolean
 }
 
+// A database, possibly gzipped (.gz) and encrypted (.enc)
+const BACKUP_EXTENSIONS = ['.db', '.db.gz', '.enc']
+
 interface CloudStorageConfig {
   provider: 'dropbox' | 'google-drive'
   enabled: boolean
@@ -55,6 +66,9 @@ export default function BackupsPage() {
   const [isConnecting, setIsConnecting] = useState<string | null>(null)
   const [isUploading, setIsUploading] = useState(false)
   const [uploadError, setUploadError] = useState<string | null>(null)
+  const [compress, setCompress] = useState(true)
+  const [passphrase, setPassphrase] = useState('')
+  const [backupError, setBackupError] = useState<string | null>(null)
 
   useEffect(() => {
     fetchBackups()
@@ -137,19 +151,26 @@ export default function BackupsPage() {
 
   const createBackup = async () => {
     setIsCreatingBackup(true)
+    setBackupError(null)
     try {
       const response = await fetch('/api/backups', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ compress, ...(passphrase && { passphrase }) }),
       })
       
       if (response.ok) {
+        setPassphrase('')
         await fetchBackups()
+      } else {
+        const errorData = await response.json()
+        setBackupError(errorData.error || t('backups.backupError'))
       }
     } catch (error) {
       console.error('Failed to create backup:', error)
+      setBackupError(t('backups.backupError'))
     } finally {
       setIsCreatingBackup(false)
     }
@@ -176,15 +197,15 @@ export default function BackupsPage() {
     }
   }
 
-  const downloadBackup = async (backupId: string) => {
+  const downloadBackup = async (backup: BackupFile) => {
     try {
-      const response = await fetch(`/api/backups/${backupId}/download`)
+      const response = await fetch(`/api/backups/${backup.id}/download`)
       if (response.ok) {
         const blob = await response.blob()
         const url = window.URL.createObjectURL(blob)
         const a = document.createElement('a')
         a.href = url
-        a.download = `wealth-backup-${backupId}.db`
+        a.download = backup.name
         document.body.appendChild(a)
         a.click()
         window.URL.revokeObjectURL(url)
@@ -195,19 +216,30 @@ export default function BackupsPage() {
     }
   }
 
-  const restoreBackup = async (backupId: string) => {
+  const restoreBackup = async (backup: BackupFile) => {
     if (!confirm(t('backups.restoreConfirm'))) return
+    const restorePassphrase = backup.encrypted ? prompt(t('backups.enterPassphrase')) : null
+    if (backup.encrypted && !restorePassphrase) return
     
+    setBackupError(null)
     try {
-      const response = await fetch(`/api/backups/${backupId}/restore`, {
+      const response = await fetch(`/api/backups/${backup.id}/restore`, {
         method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(restorePassphrase ? { passphrase: restorePassphrase } : {}),
       })
       
       if (response.ok) {
         window.location.reload()
+      } else {
+        const errorData = await response.json()
+        setBackupError(errorData.error || t('backups.restoreError'))
       }
     } catch (error) {
       console.error('Failed to restore backup:', error)
+      setBackupError(t('backups.restoreError'))
     }
   }
 
@@ -231,7 +263,7 @@ export default function BackupsPage() {
     if (!file) return
     
     // Validate file type
-    if (!file.name.endsWith('.db')) {
+    if (!BACKUP_EXTENSIONS.some(ext => file.name.endsWith(ext))) {
       setUploadError(t('backups.invalidFileType'))
       return
     }
@@ -243,12 +275,17 @@ export default function BackupsPage() {
       return
     }
     
+    // Encrypted backups are checked with their passphrase before they are kept
+    const uploadPassphrase = file.name.endsWith('.enc') ? prompt(t('backups.enterPassphrase')) : null
+    if (file.name.endsWith('.enc') && !uploadPassphrase) return
+    
     setIsUploading(true)
     setUploadError(null)
     
     try {
       const formData = new FormData()
       formData.append('backup', file)
+      if (uploadPassphrase) formData.append('passphrase', uploadPassphrase)
       
       const response = await fetch('/api/backups/upload', {
         method: 'POST',
@@ -344,7 +381,7 @@ export default function BackupsPage() {
               <div className="relative w-full sm:w-auto">
                 <input
                   type="file"
-                  accept=".db"
+                  accept=".db,.gz,.enc"
                   onChange={handleFileSelect}
                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                   disabled={isUploading}
@@ -357,6 +394,12 @@ export default function BackupsPage() {
             </div>
           </div>
 
+          {backupError && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+              {backupError}
+            </div>
+          )}
+
           <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -368,6 +411,24 @@ export default function BackupsPage() {
                 <p className="text-xs text-muted-foreground">
                   {t('backups.manualBackupDescription')}
                 </p>
+                <div className="mt-4 space-y-3">
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={compress} onCheckedChange={checked => setCompress(checked === true)} />
+                    {t('backups.compress')}
+                  </label>
+                  <div className="space-y-1">
+                    <Label htmlFor="backup-passphrase" className="text-sm">{t('backups.passphrase')}</Label>
+                    <Input
+                      id="backup-passphrase"
+                      type="password"
+                      autoComplete="new-password"
+                      value={passphrase}
+                      placeholder={t('backups.passphrasePlaceholder')}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">{t('backups.passphraseHint')}</p>
+                  </div>
+                </div>
               </CardContent>
             </Card>
 
@@ -425,7 +486,7 @@ export default function BackupsPage() {
                   <div className="relative">
                     <input
                       type="file"
-                      accept=".db"
+                      accept=".db,.gz,.enc"
                       onChange={handleFileSelect}
                       className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                       disabled={isUploading}
@@ -623,7 +684,21 @@ export default function BackupsPage() {
                       {backups.map((backup) => (
                         <tr key={backup.id} className="hover:bg-gray-50">
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                            {backup.name}
+                            <div className="flex items-center gap-2">
+                              {backup.name}
+                              {backup.checksum && (
+                                <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-700 flex items-center gap-1">
+                                  <ShieldCheck className="h-3 w-3" />
+                                  {t('backups.verified')}
+                                </span>
+                              )}
+                              {backup.encrypted && (
+                                <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 flex items-center gap-1">
+                                  <Lock className="h-3 w-3" />
+                                  {t('backups.encrypted')}
+                                </span>
+                              )}
+                            </div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {formatFileSize(backup.size)}
@@ -642,14 +717,14 @@ export default function BackupsPage() {
                               <Button
                                 size="sm"
                                 variant="outline"
-                                onClick={() => downloadBackup(backup.id)}
+                                onClick={() => downloadBackup(backup)}
                               >
                                 <Download className="h-4 w-4" />
                               </Button>
                               <Button
                                 size="sm"
                                 variant="outline"
-                                onClick={() => restoreBackup(backup.id)}
+                                onClick={() => restoreBackup(backup)}
                               >
                                 <RotateCcw className="h-4 w-4" />
                               </Button>
@@ -10,7 +10,8 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
 import { Switch } from "@/components/ui/switch"
 import { Plus, Edit, Trash2 } from "lucide-react"
 import { useTranslations } from "next-intl"
-import type { TransactionCategory, TransferRule, RuleType, RuleField } from "@/types"
+import { CategoryRulesTab } from "@/components/transactions/category-rules-tab"
+import type { TransactionCategory, TransferRule, RuleType, RuleField, ImportProfile } from "@/types"
 
 const RULE_TYPE_LABELS: Record<string, string> = {
   contains_text: "typeContainsText",
@@ -50,6 +51,9 @@ export default function CategoriesPage() {
   const [formPattern, setFormPattern] = useState("")
   const [formField, setFormField] = useState<RuleField>("any")
 
+  // Import profiles state
+  const [profiles, setProfiles] = useState<ImportProfile[]>([])
+
   const fetchCategories = useCallback(async () => {
     try {
       const res = await fetch("/api/transactions/categories")
@@ -76,10 +80,22 @@ export default function CategoriesPage() {
     }
   }, [])
 
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const res = await fetch("/api/transactions/import-profiles")
+      if (res.ok) {
+        setProfiles(await res.json())
+      }
+    } catch (err) {
+      console.error("Failed to fetch import profiles:", err)
+    }
+  }, [])
+
   useEffect(() => {
     fetchCategories()
     fetchRules()
-  }, [fetchCategories, fetchRules])
+    fetchProfiles()
+  }, [fetchCategories, fetchRules, fetchProfiles])
 
   const typeColors: Record<string, string> = {
     expense: "bg-red-100 text-red-700",
@@ -252,6 +268,17 @@ export default function CategoriesPage() {
     }
   }
 
+  const handleDeleteProfile = async (profile: ImportProfile) => {
+    if (!confirm(t("importProfiles.deleteConfirm"))) return
+
+    try {
+      await fetch(`/api/transactions/import-profiles/${profile.id}`, { method: "DELETE" })
+      fetchProfiles()
+    } catch (err) {
+      console.error("Failed to delete import profile:", err)
+    }
+  }
+
   const patternHelpKey: Record<string, string> = {
     contains_text: "patternHelpContains",
     sender_is: "patternHelpSender",
@@ -281,7 +308,9 @@ export default function CategoriesPage() {
             </div>
             <TabsList>
               <TabsTrigger value="categories">{t("transferRules.tabCategories")}</TabsTrigger>
+              <TabsTrigger value="category-rules">{t("categoryRules.tab")}</TabsTrigger>
               <TabsTrigger value="transfer-rules">{t("transferRules.tabTransferRules")}</TabsTrigger>
+              <TabsTrigger value="import-profiles">{t("importProfiles.tab")}</TabsTrigger>
             </TabsList>
           </div>
 
@@ -697,6 +726,49 @@ export default function CategoriesPage() {
               </DialogContent>
             </Dialog>
           </TabsContent>
+
+          {/* ===== CATEGORY RULES TAB ===== */}
+          <TabsContent value="category-rules">
+            <CategoryRulesTab categories={categories} />
+          </TabsContent>
+
+          {/* ===== IMPORT PROFILES TAB ===== */}
+          <TabsContent value="import-profiles">
+            {profiles.length === 0 ? (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-12">
+                  <p className="text-gray-600 text-center">{t("importProfiles.noProfiles")}</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                {profiles.map((profile) => (
+                  <Card key={profile.id}>
+                    <CardContent className="p-4">
+                      <div className="flex items-start justify-between">
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium text-gray-900">{profile.name}</p>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {profile.date_format} · {profile.decimal_separator === "," ? "1.234,56" : "1,234.56"} · {profile.default_currency}
+                          </p>
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {Object.entries(profile.column_mapping).filter(([, header]) => header).map(([key, header]) => (
+                              <span key={key} className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                                {t(`importProfiles.columns.${key}`)}: <span className="font-mono">{header}</span>
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0 ml-2" onClick={() => handleDeleteProfile(profile)}>
+                          <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
       </MainLayout>
     </AuthGuard>
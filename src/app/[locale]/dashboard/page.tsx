@@ -33,11 +33,16 @@ export default function DashboardPage() {
   // Which evolution-chart series are visible. Default: only Total Active.
   const [visibleSeries, setVisibleSeries] = useState<Record<string, boolean>>({ totalActive: true })
 
+  // Totals are in the family base currency; account balances are converted server-side
+  const baseCurrency = dashboardData?.base_currency || 'EUR'
+  const convertedBalance = (account: AccountWithBalance) =>
+    dashboardData?.converted_balances?.[account.id] ?? account.current_balance ?? 0
+
   const pieData = accounts
-    .filter(account => account.current_balance && account.current_balance > 0)
+    .filter(account => convertedBalance(account) > 0)
     .map(account => ({
       name: account.name,
-      value: account.current_balance,
+      value: convertedBalance(account),
       color: account.category === 'Banking' ? '#3B82F6' : account.category === 'Investment' ? '#10B981' : '#EF4444'
     }))
 
@@ -152,19 +157,21 @@ export default function DashboardPage() {
     }
   }
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: string = baseCurrency) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'EUR',
+      currency,
     }).format(amount)
   }
 
   // Compact currency for axis ticks: €12k / €1.2M — keeps the Y-axis narrow on mobile
   const formatAxisCurrency = (value: number) => {
-    const abs = Math.abs(value)
-    if (abs >= 1_000_000) return `€${(value / 1_000_000).toFixed(1)}M`
-    if (abs >= 1_000) return `€${(value / 1_000).toFixed(0)}k`
-    return `€${value.toFixed(0)}`
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: baseCurrency,
+      notation: 'compact',
+      maximumFractionDigits: Math.abs(value) >= 1_000_000 ? 1 : 0,
+    }).format(value)
   }
 
   if (loading) {
@@ -240,7 +247,7 @@ export default function DashboardPage() {
               <div className="min-w-0">
                 <p className="text-sm font-medium text-muted-foreground">{t('dashboard.netWorth')}</p>
                 <div className="text-3xl sm:text-4xl font-bold mt-1 break-words">
-                  {dashboardData ? formatCurrency(dashboardData.net_worth) : '€0.00'}
+                  {formatCurrency(dashboardData?.net_worth || 0)}
                 </div>
                 {monthlyDelta && (
                   <div className={cn(
@@ -264,6 +271,18 @@ export default function DashboardPage() {
           </CardContent>
         </Card>
 
+        {dashboardData && dashboardData.missing_rates?.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm">
+            {t('dashboard.missingRates', { currencies: dashboardData.missing_rates.join(', '), base: baseCurrency })}
+          </div>
+        )}
+
+        {dashboardData && dashboardData.private_accounts > 0 && (
+          <div className="bg-gray-50 border border-gray-200 text-gray-700 px-4 py-3 rounded-md text-sm">
+            {t('dashboard.privateAccounts', { count: dashboardData.private_accounts })}
+          </div>
+        )}
+
         {/* Supporting tiles */}
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
           <Card>
@@ -273,7 +292,7 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {dashboardData ? formatCurrency(dashboardData.total_banking) : '€0.00'}
+                {formatCurrency(dashboardData?.total_banking || 0)}
               </div>
             </CardContent>
           </Card>
@@ -285,7 +304,7 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {dashboardData ? formatCurrency(dashboardData.total_investment) : '€0.00'}
+                {formatCurrency(dashboardData?.total_investment || 0)}
               </div>
             </CardContent>
           </Card>
@@ -297,7 +316,7 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {dashboardData ? formatCurrency((dashboardData.total_banking || 0) + (dashboardData.total_investment || 0)) : '€0.00'}
+                {formatCurrency((dashboardData?.total_banking || 0) + (dashboardData?.total_investment || 0))}
               </div>
             </CardContent>
           </Card>
@@ -309,7 +328,7 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {dashboardData ? formatCurrency(-dashboardData.total_debt) : '€0.00'}
+                {formatCurrency(-(dashboardData?.total_debt || 0))}
               </div>
             </CardContent>
           </Card>
@@ -460,7 +479,7 @@ export default function DashboardPage() {
             {(['Banking', 'Investment', 'Debt'] as const).map((cat) => {
               const group = accounts.filter((a) => a.category === cat)
               if (group.length === 0) return null
-              const total = group.reduce((sum, a) => sum + (a.current_balance || 0), 0)
+              const total = group.reduce((sum, a) => sum + convertedBalance(a), 0)
               const cfg = cat === 'Banking'
                 ? { icon: Wallet, color: 'text-blue-600' }
                 : cat === 'Investment'
@@ -492,8 +511,11 @@ export default function DashboardPage() {
                           <p className="text-sm font-medium truncate">{account.name}</p>
                           <p className="text-xs text-muted-foreground">
                             {account.current_balance != null
-                              ? formatCurrency(account.current_balance)
+                              ? formatCurrency(account.current_balance, account.currency)
                               : t('accounts.noBalanceRecorded')}
+                            {account.current_balance != null && account.currency !== baseCurrency && (
+                              <span className="ml-1">≈ {formatCurrency(convertedBalance(account))}</span>
+                            )}
                           </p>
                         </div>
                         <Button
@@ -0,0 +1,149 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { useTranslations, useLocale } from "next-intl"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Users } from "lucide-react"
+import type { InvitationPreview, User } from "@/types"
+
+export default function InvitePage() {
+  const t = useTranslations("invitations")
+  const tRoles = useTranslations("roles")
+  const locale = useLocale()
+  const router = useRouter()
+  const { token } = useParams<{ token: string }>()
+  const [preview, setPreview] = useState<InvitationPreview | null>(null)
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [invalid, setInvalid] = useState(false)
+  const [joining, setJoining] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [previewResponse, meResponse] = await Promise.all([
+          fetch(`/api/invitations/${encodeURIComponent(token)}`),
+          fetch("/api/auth/me"),
+        ])
+        if (previewResponse.ok) {
+          setPreview(await previewResponse.json())
+        } else {
+          setInvalid(true)
+        }
+        if (meResponse.ok) {
+          const data = await meResponse.json()
+          setUser(data.user)
+        }
+      } catch (err) {
+        console.error("Failed to load invitation:", err)
+        setInvalid(true)
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [token])
+
+  const formatDate = (date: string) => {
+    return new Date(`${date.replace(" ", "T")}Z`).toLocaleDateString(locale === "es" ? "es-ES" : "en-US", {
+      day: "numeric",
+      month: "long",
+      year: "numeric",
+    })
+  }
+
+  const handleJoin = async () => {
+    setJoining(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/invitations/${encodeURIComponent(token)}`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || t("joinFailed"))
+        return
+      }
+      router.push(`/${locale}/dashboard`)
+    } catch (err) {
+      console.error("Failed to accept invitation:", err)
+      setError(t("joinFailed"))
+    } finally {
+      setJoining(false)
+    }
+  }
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+        </div>
+      )
+    }
+
+    if (invalid || !preview) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("invalidTitle")}</CardTitle>
+            <CardDescription>{t("invalidDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" asChild>
+              <Link href={`/${locale}/${user ? "dashboard" : "auth"}`}>{t("back")}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )
+    }
+
+    return (
+      <Card>
+        <CardHeader>
+          <div className="flex justify-center mb-2">
+            <Users className="h-10 w-10 text-blue-600" />
+          </div>
+          <CardTitle className="text-center">{t("joinTitle", { family: preview.familyName })}</CardTitle>
+          <CardDescription className="text-center">
+            {t("invitedAs", { name: preview.invitedBy, role: tRoles(preview.role) })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-center text-xs text-gray-500">{t("validUntil", { date: formatDate(preview.expires_at) })}</p>
+
+          {user ? (
+            <>
+              <p className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+                {t("moveWarning", { name: user.name })}
+              </p>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button className="w-full" onClick={handleJoin} disabled={joining}>
+                {joining ? t("joining") : t("join", { family: preview.familyName })}
+              </Button>
+            </>
+          ) : (
+            <div className="space-y-2">
+              <Button className="w-full" asChild>
+                <Link href={`/${locale}/auth?mode=register&invite=${encodeURIComponent(token)}`}>{t("createAccount")}</Link>
+              </Button>
+              <Button variant="outline" className="w-full" asChild>
+                <Link href={`/${locale}/auth?invite=${encodeURIComponent(token)}`}>{t("signInToJoin")}</Link>
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="w-full max-w-md p-6">
+        {renderContent()}
+      </div>
+    </div>
+  )
+}
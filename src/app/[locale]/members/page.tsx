@@ -15,6 +15,7 @@ import {
 } from "lucide-react"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useTranslations } from 'next-intl'
+import { FamilyInvitations } from "@/components/members/family-invitations"
 import type { UserRole } from '@/types'
 
 interface FamilyMember {
@@ -301,6 +302,8 @@ export default function MembersPage() {
               )}
             </CardContent>
           </Card>
+
+          {canManageRoles && <FamilyInvitations />}
         </div>
       </MainLayout>
     </AuthGuard>
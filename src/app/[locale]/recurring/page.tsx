@@ -0,0 +1,205 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { MainLayout } from "@/components/layout/main-layout"
+import { AuthGuard } from "@/components/auth/auth-guard"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { RefreshCw, TrendingUp, AlertTriangle, EyeOff, Eye, Repeat } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import type { RecurringSeries, RecurringCadence } from "@/types"
+
+// Months per charge, to express every series as a monthly cost
+const MONTHLY_FACTOR: Record<RecurringCadence, number> = {
+  weekly: 52 / 12,
+  monthly: 1,
+  yearly: 1 / 12,
+}
+
+export default function RecurringPage() {
+  const t = useTranslations("recurring")
+  const locale = useLocale()
+  const [series, setSeries] = useState<RecurringSeries[]>([])
+  const [loading, setLoading] = useState(true)
+  const [scanning, setScanning] = useState(false)
+  const [showDismissed, setShowDismissed] = useState(false)
+
+  const formatCurrency = (amount: number, currency = "EUR") => {
+    return new Intl.NumberFormat(locale === "es" ? "es-ES" : "en-US", {
+      style: "currency",
+      currency,
+    }).format(amount)
+  }
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString(locale === "es" ? "es-ES" : "en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    })
+  }
+
+  const fetchSeries = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/recurring?includeDismissed=${showDismissed}`)
+      if (res.ok) setSeries(await res.json())
+    } catch (err) {
+      console.error("Failed to fetch recurring series:", err)
+    } finally {
+      setLoading(false)
+    }
+  }, [showDismissed])
+
+  useEffect(() => { fetchSeries() }, [fetchSeries])
+
+  const handleScan = async () => {
+    setScanning(true)
+    try {
+      await fetch("/api/recurring/detect", { method: "POST" })
+      await fetchSeries()
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const updateSeries = async (id: number, body: { dismissed?: boolean; category_id?: number }) => {
+    const res = await fetch(`/api/recurring/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+    if (res.ok) fetchSeries()
+  }
+
+  const active = series.filter(s => !s.dismissed)
+  const monthlyTotal = active.reduce((sum, s) => sum + s.last_amount * MONTHLY_FACTOR[s.cadence], 0)
+  const priceIncreases = active.filter(s => s.price_increase).length
+  const missed = active.filter(s => s.missed).length
+
+  return (
+    <AuthGuard>
+      <MainLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex flex-col space-y-4 sm:flex-row sm:justify-between sm:items-center sm:space-y-0">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{t("title")}</h1>
+              <p className="text-gray-600">{t("subtitle")}</p>
+            </div>
+            <Button onClick={handleScan} disabled={scanning}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${scanning ? "animate-spin" : ""}`} />
+              {scanning ? t("scanning") : t("rescan")}
+            </Button>
+          </div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">{t("monthlyCost")}</p>
+                <p className="text-2xl font-bold">{formatCurrency(monthlyTotal)}</p>
+                <p className="text-xs text-gray-500">{t("seriesCount", { count: active.length })}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">{t("priceIncreases")}</p>
+                <p className={`text-2xl font-bold ${priceIncreases > 0 ? "text-orange-600" : ""}`}>{priceIncreases}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">{t("missedCharges")}</p>
+                <p className={`text-2xl font-bold ${missed > 0 ? "text-red-600" : ""}`}>{missed}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Series */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="flex items-center">
+                <Repeat className="mr-2 h-5 w-5" />
+                {t("detected")}
+              </CardTitle>
+              <label className="flex items-center space-x-2 text-sm text-gray-600">
+                <Switch checked={showDismissed} onCheckedChange={setShowDismissed} />
+                <span>{t("showDismissed")}</span>
+              </label>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+                </div>
+              ) : series.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">{t("empty")}</p>
+              ) : (
+                <div className="divide-y">
+                  {series.map(s => (
+                    <div key={s.id} className={`py-3 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between ${s.dismissed ? "opacity-50" : ""}`}>
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-medium truncate">{s.name}</span>
+                          <span className="text-xs rounded bg-gray-100 px-1.5 py-0.5 text-gray-600">{t(`cadence.${s.cadence}`)}</span>
+                          {s.price_increase && s.previous_amount != null && (
+                            <span className="flex items-center text-xs rounded bg-orange-50 px-1.5 py-0.5 text-orange-700">
+                              <TrendingUp className="h-3 w-3 mr-1" />
+                              {t("priceIncrease", { previous: formatCurrency(s.previous_amount, s.currency) })}
+                            </span>
+                          )}
+                          {s.missed && (
+                            <span className="flex items-center text-xs rounded bg-red-50 px-1.5 py-0.5 text-red-700">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              {t("missed")}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-0.5">
+                          {s.account_name} · {t("occurrences", { count: s.occurrences })} · {t("lastCharge", { date: formatDate(s.last_date) })}
+                        </div>
+                        <div className="text-xs mt-1">
+                          {s.category_name ? (
+                            <span className="flex items-center text-gray-600">
+                              <span className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: s.category_color || "#9CA3AF" }} />
+                              {s.category_name}
+                            </span>
+                          ) : s.suggested_category_id ? (
+                            <button
+                              className="text-blue-600 hover:underline"
+                              onClick={() => updateSeries(s.id, { category_id: s.suggested_category_id! })}
+                            >
+                              {t("applySuggestion", { category: s.suggested_category_name ?? "" })}
+                            </button>
+                          ) : (
+                            <span className="text-gray-400">{t("uncategorized")}</span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-4 sm:flex-shrink-0">
+                        <div className="text-right">
+                          <p className="font-semibold">{formatCurrency(s.last_amount, s.currency)}</p>
+                          <p className="text-xs text-gray-500">{t("nextExpected", { date: formatDate(s.next_expected_date) })}</p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title={s.dismissed ? t("restore") : t("dismiss")}
+                          onClick={() => updateSeries(s.id, { dismissed: !s.dismissed })}
+                        >
+                          {s.dismissed ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </MainLayout>
+    </AuthGuard>
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { MainLayout } from "@/components/layout/main-layout"
+import { AuthGuard } from "@/components/auth/auth-guard"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ArrowLeft, Home } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import type { FamilyPreferences } from "@/types"
+
+const CURRENCIES = ["EUR", "USD", "GBP", "CHF", "JPY", "CAD", "AUD"]
+const LANGUAGES = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Español" },
+]
+
+type FamilyResponse = FamilyPreferences & {
+  id: number
+  owner_id: number | null
+  owners: Array<{ id: number; name: string }>
+  canEdit: boolean
+}
+
+export default function FamilySettingsPage() {
+  const t = useTranslations("familySettings")
+  const locale = useLocale()
+  const [family, setFamily] = useState<FamilyResponse | null>(null)
+  const [form, setForm] = useState<FamilyPreferences & { owner_id: number | null }>({
+    name: "",
+    base_currency: "EUR",
+    locale: "en",
+    timezone: "UTC",
+    fiscal_year_start_month: 1,
+    owner_id: null,
+  })
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null)
+
+  const applyFamily = (data: FamilyResponse) => {
+    setFamily(data)
+    setForm({
+      name: data.name,
+      base_currency: data.base_currency,
+      locale: data.locale,
+      timezone: data.timezone,
+      fiscal_year_start_month: data.fiscal_year_start_month,
+      owner_id: data.owner_id,
+    })
+  }
+
+  const fetchFamily = useCallback(async () => {
+    try {
+      const res = await fetch("/api/settings/family")
+      if (res.ok) applyFamily(await res.json())
+    } catch (err) {
+      console.error("Failed to fetch family settings:", err)
+    }
+  }, [])
+
+  useEffect(() => { fetchFamily() }, [fetchFamily])
+
+  const monthName = (month: number) => {
+    return new Date(2000, month - 1, 1).toLocaleDateString(locale === "es" ? "es-ES" : "en-US", { month: "long" })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage(null)
+    try {
+      const res = await fetch("/api/settings/family", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          base_currency: form.base_currency,
+          locale: form.locale,
+          timezone: form.timezone.trim(),
+          fiscal_year_start_month: form.fiscal_year_start_month,
+          ...(form.owner_id !== null && { owner_id: form.owner_id }),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setMessage({ ok: false, text: data.error || t("saveFailed") })
+        return
+      }
+      applyFamily(data)
+      setMessage({ ok: true, text: t("saved") })
+    } catch {
+      setMessage({ ok: false, text: t("saveFailed") })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const readOnly = !family?.canEdit
+  const selectClassName = "w-full rounded-md border border-gray-300 px-3 py-2 text-sm disabled:bg-gray-50"
+
+  return (
+    <AuthGuard>
+      <MainLayout>
+        <div className="space-y-6">
+          <div>
+            <Link href={`/${locale}/settings`} className="mb-2 inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              {t("backToSettings")}
+            </Link>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{t("title")}</h1>
+            <p className="text-gray-600">{t("subtitle")}</p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Home className="mr-2 h-5 w-5" />
+                {family?.name || t("title")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!family ? (
+                <p className="text-sm text-gray-500">{t("loading")}</p>
+              ) : (
+                <>
+                  {readOnly && (
+                    <p className="rounded-md border border-gray-200 bg-gray-50 p-3 text-sm text-gray-600">{t("readOnly")}</p>
+                  )}
+
+                  <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                    <div className="space-y-1 md:col-span-2">
+                      <Label htmlFor="family-name">{t("name")}</Label>
+                      <Input
+                        id="family-name"
+                        value={form.name}
+                        maxLength={100}
+                        disabled={readOnly}
+                        onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      />
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label htmlFor="family-currency">{t("baseCurrency")}</Label>
+                      <select
+                        id="family-currency"
+                        className={selectClassName}
+                        value={form.base_currency}
+                        disabled={readOnly}
+                        onChange={(e) => setForm({ ...form, base_currency: e.target.value as FamilyPreferences["base_currency"] })}
+                      >
+                        {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                      <p className="text-xs text-gray-400">{t("baseCurrencyHint")}</p>
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label htmlFor="family-locale">{t("language")}</Label>
+                      <select
+                        id="family-locale"
+                        className={selectClassName}
+                        value={form.locale}
+                        disabled={readOnly}
+                        onChange={(e) => setForm({ ...form, locale: e.target.value as FamilyPreferences["locale"] })}
+                      >
+                        {LANGUAGES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+                      </select>
+                      <p className="text-xs text-gray-400">{t("languageHint")}</p>
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label htmlFor="family-timezone">{t("timezone")}</Label>
+                      <Input
+                        id="family-timezone"
+                        value={form.timezone}
+                        placeholder="Europe/Madrid"
+                        disabled={readOnly}
+                        onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                      />
+                      <p className="text-xs text-gray-400">{t("timezoneHint")}</p>
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label htmlFor="family-fiscal-year">{t("fiscalYearStart")}</Label>
+                      <select
+                        id="family-fiscal-year"
+                        className={selectClassName}
+                        value={form.fiscal_year_start_month}
+                        disabled={readOnly}
+                        onChange={(e) => setForm({ ...form, fiscal_year_start_month: parseInt(e.target.value) })}
+                      >
+                        {Array.from({ length: 12 }, (_, i) => i + 1).map(month => (
+                          <option key={month} value={month}>{monthName(month)}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-400">{t("fiscalYearStartHint")}</p>
+                    </div>
+
+                    <div className="space-y-1 md:col-span-2">
+                      <Label htmlFor="family-owner">{t("owner")}</Label>
+                      <select
+                        id="family-owner"
+                        className={selectClassName}
+                        value={form.owner_id ?? ""}
+                        disabled={readOnly}
+                        onChange={(e) => setForm({ ...form, owner_id: e.target.value ? parseInt(e.target.value) : null })}
+                      >
+                        {form.owner_id === null && <option value="">{t("noOwner")}</option>}
+                        {family.owners.map(owner => <option key={owner.id} value={owner.id}>{owner.name}</option>)}
+                      </select>
+                      <p className="text-xs text-gray-400">{t("ownerHint")}</p>
+                    </div>
+                  </div>
+
+                  {message && (
+                    <p className={`text-sm ${message.ok ? "text-green-600" : "text-red-600"}`}>{message.text}</p>
+                  )}
+
+                  {!readOnly && (
+                    <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+                      {saving ? t("saving") : t("save")}
+                    </Button>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </MainLayout>
+    </AuthGuard>
+  )
+}
@@ -1,12 +1,13 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import Link from "next/link"
 import { MainLayout } from "@/components/layout/main-layout"
 import { AuthGuard } from "@/components/auth/auth-guard"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Download, Globe, Copy, Users, Upload, Shield, Mail, Sparkles } from "lucide-react"
+import { Download, Globe, Users, Upload, Shield, Mail, Sparkles, MonitorSmartphone } from "lucide-react"
 import {
   Select,
   SelectContent,
@@ -18,7 +19,13 @@ import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
 import { useTranslations, useLocale } from 'next-intl'
 import { useRouter, usePathname } from 'next/navigation'
-import type { User } from "@/types"
+import { CurrencySettings } from "@/components/settings/currency-settings"
+import { WebhookSettings } from "@/components/settings/webhook-settings"
+import { ApiTokenSettings } from "@/components/settings/api-token-settings"
+import { TwoFactorSettings } from "@/components/settings/two-factor-settings"
+import type { DigestDay, NotificationPreferences, User } from "@/types"
+
+const WEEKDAYS: DigestDay[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
 
 export default function SettingsPage() {
   const t = useTranslations()
@@ -27,10 +34,7 @@ export default function SettingsPage() {
   const pathname = usePathname()
   const [selectedLanguage, setSelectedLanguage] = useState(locale)
   const [user, setUser] = useState<User | null>(null)
-  const [newFamilyId, setNewFamilyId] = useState("")
-  const [isChangingFamily, setIsChangingFamily] = useState(false)
-  const [familyChangeMessage, setFamilyChangeMessage] = useState<string | null>(null)
-  const [copyMessage, setCopyMessage] = useState<string | null>(null)
+  const [invitationInput, setInvitationInput] = useState("")
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [isImporting, setIsImporting] = useState(false)
   const [importMessage, setImportMessage] = useState<string | null>(null)
@@ -39,7 +43,7 @@ export default function SettingsPage() {
   const [confirmNewPassword, setConfirmNewPassword] = useState("")
   const [isChangingPassword, setIsChangingPassword] = useState(false)
   const [passwordChangeMessage, setPasswordChangeMessage] = useState<string | null>(null)
-  const [notificationsEnabled, setNotificationsEnabled] = useState(true)
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences | null>(null)
   const [isUpdatingNotifications, setIsUpdatingNotifications] = useState(false)
   const [notificationMessage, setNotificationMessage] = useState<string | null>(null)
   // AI settings state
@@ -60,14 +64,25 @@ export default function SettingsPage() {
         if (response.ok) {
           const data = await response.json()
           setUser(data.user)
-          setNotificationsEnabled(data.user?.notifications_enabled ?? true)
         }
       } catch (error) {
         console.error('Failed to fetch user:', error)
       }
     }
 
+    const fetchNotificationPreferences = async () => {
+      try {
+        const response = await fetch('/api/users/notification-preferences')
+        if (response.ok) {
+          setNotificationPreferences(await response.json())
+        }
+      } catch (error) {
+        console.error('Failed to fetch notification preferences:', error)
+      }
+    }
+
     fetchUser()
+    fetchNotificationPreferences()
     fetchAISettings()
   }, [])
 
@@ -178,63 +193,10 @@ export default function SettingsPage() {
     window.location.href = `/${newLocale}/settings`
   }
 
-  const handleCopyFamilyId = async () => {
-    if (user?.family_id) {
-      try {
-        await navigator.clipboard.writeText(user.family_id.toString())
-        setCopyMessage(t('settings.familyIdCopied'))
-        // Clear the message after 2 seconds
-        setTimeout(() => setCopyMessage(null), 2000)
-      } catch (error) {
-        console.error('Failed to copy Family ID:', error)
-        setCopyMessage(t('settings.failedToCopy'))
-        setTimeout(() => setCopyMessage(null), 3000)
-      }
-    }
-  }
-
-  const handleChangeFamilyId = async () => {
-    if (!newFamilyId || !user) return
-    
-    setIsChangingFamily(true)
-    setFamilyChangeMessage(null)
-
-    try {
-      const response = await fetch('/api/auth/change-family', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          newFamilyId: parseInt(newFamilyId)
-        }),
-      })
-
-      const data = await response.json()
-
-      if (!response.ok) {
-        if (data.error === 'Family ID does not exist') {
-          setFamilyChangeMessage(t('settings.familyIdNotExists'))
-        } else if (data.error === 'You are already in this family') {
-          setFamilyChangeMessage(t('settings.sameFamily'))
-        } else {
-          setFamilyChangeMessage(data.error || t('common.error'))
-        }
-      } else {
-        setFamilyChangeMessage(t('settings.familyIdChanged'))
-        setNewFamilyId("")
-        // Refresh user data
-        const userResponse = await fetch('/api/auth/me')
-        if (userResponse.ok) {
-          const userData = await userResponse.json()
-          setUser(userData.user)
-        }
-      }
-    } catch (error) {
-      setFamilyChangeMessage(t('common.error'))
-    } finally {
-      setIsChangingFamily(false)
-    }
+  const handleOpenInvitation = () => {
+    // A pasted link works as well as a typed code: the token is its last path segment
+    const invitation = invitationInput.trim().split('/').filter(Boolean).pop()
+    if (invitation) router.push(`/${locale}/invite/${encodeURIComponent(invitation)}`)
   }
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -243,7 +205,7 @@ export default function SettingsPage() {
     setImportMessage(null)
   }
 
-  const handleNotificationToggle = async (enabled: boolean) => {
+  const handleNotificationChange = async (updates: Partial<NotificationPreferences>) => {
     setIsUpdatingNotifications(true)
     setNotificationMessage(null)
 
@@ -253,18 +215,13 @@ export default function SettingsPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          notificationsEnabled: enabled
-        }),
+        body: JSON.stringify(updates),
       })
 
       if (response.ok) {
-        setNotificationsEnabled(enabled)
+        const data = await response.json()
+        setNotificationPreferences(data.preferences)
         setNotificationMessage(t('settings.notificationPreferencesUpdated'))
-        // Update user state
-        if (user) {
-          setUser({ ...user, notifications_enabled: enabled })
-        }
       } else {
         setNotificationMessage(t('common.error'))
       }
@@ -400,6 +357,12 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          <CurrencySettings />
+
+          {user?.role === 'administrator' && <WebhookSettings />}
+
+          <ApiTokenSettings isAdmin={user?.role === 'administrator'} readOnly={user?.role === 'guest'} />
+
           <Card>
             <CardHeader>
               <CardTitle>{t('settings.dataExport')}</CardTitle>
@@ -423,27 +386,19 @@ export default function SettingsPage() {
               <p className="text-sm text-gray-600">
                 {t('settings.familyIdDescription')}
               </p>
-              <div className="bg-gray-50 p-3 rounded font-mono text-sm flex items-center justify-between">
-                <span>
-                  {t('settings.familyId')}: {user?.family_id || 'Loading...'}
-                </span>
-                {user?.family_id && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={handleCopyFamilyId}
-                    className="h-8 w-8 p-0"
-                    title={t('settings.copyFamilyId')}
-                  >
-                    <Copy className="h-4 w-4" />
+              <div className="bg-gray-50 p-3 rounded font-mono text-sm">
+                {t('settings.familyId')}: {user?.family_id || 'Loading...'}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" asChild>
+                  <Link href={`/${locale}/settings/family`}>{t('settings.familySettings')}</Link>
+                </Button>
+                {user?.role === 'administrator' && (
+                  <Button variant="outline" asChild>
+                    <Link href={`/${locale}/members`}>{t('settings.inviteMembers')}</Link>
                   </Button>
                 )}
               </div>
-              {copyMessage && (
-                <div className="mt-2 text-sm text-green-600 font-medium">
-                  {copyMessage}
-                </div>
-              )}
             </CardContent>
           </Card>
 
@@ -451,36 +406,26 @@ export default function SettingsPage() {
             <CardHeader>
               <CardTitle className="flex items-center">
                 <Users className="mr-2 h-5 w-5" />
-                {t('settings.changeFamilyId')}
+                {t('settings.joinFamily')}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <p className="text-sm text-gray-600">
-                {t('settings.changeFamilyIdDescription')}
+                {t('settings.joinFamilyDescription')}
               </p>
               <div className="space-y-3">
                 <Input
-                  type="number"
-                  placeholder={t('settings.newFamilyIdPlaceholder')}
-                  value={newFamilyId}
-                  onChange={(e) => setNewFamilyId(e.target.value)}
+                  placeholder={t('settings.invitationPlaceholder')}
+                  value={invitationInput}
+                  onChange={(e) => setInvitationInput(e.target.value)}
                 />
-                <Button 
-                  onClick={handleChangeFamilyId} 
-                  disabled={!newFamilyId || isChangingFamily}
+                <Button
+                  onClick={handleOpenInvitation}
+                  disabled={!invitationInput.trim()}
                   className="w-full"
                 >
-                  {isChangingFamily ? t('settings.changingFamily') : t('settings.changeFamilyId')}
+                  {t('settings.openInvitation')}
                 </Button>
-                {familyChangeMessage && (
-                  <div className={`text-sm p-3 rounded ${
-                    familyChangeMessage === t('settings.familyIdChanged') 
-                      ? 'text-green-700 bg-green-50' 
-                      : 'text-red-700 bg-red-50'
-                  }`}>
-                    {familyChangeMessage}
-                  </div>
-                )}
               </div>
             </CardContent>
           </Card>
@@ -542,9 +487,24 @@ export default function SettingsPage() {
                   )}
                 </div>
               </div>
+
+              <div className="border-t pt-4">
+                <h4 className="font-medium mb-1">{t('sessions.title')}</h4>
+                <p className="text-sm text-gray-600 mb-3">
+                  {t('sessions.settingsDescription')}
+                </p>
+                <Button variant="outline" asChild>
+                  <Link href={`/${locale}/settings/sessions`}>
+                    <MonitorSmartphone className="mr-2 h-4 w-4" />
+                    {t('sessions.manage')}
+                  </Link>
+                </Button>
+              </div>
             </CardContent>
           </Card>
 
+          <TwoFactorSettings />
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center">
@@ -557,17 +517,66 @@ export default function SettingsPage() {
                 {t('settings.notificationsDescription')}
               </p>
               
-              <div className="flex items-center space-x-2">
-                <Switch
-                  id="weekly-notifications"
-                  checked={notificationsEnabled}
-                  onCheckedChange={handleNotificationToggle}
-                  disabled={isUpdatingNotifications}
-                />
-                <Label htmlFor="weekly-notifications" className="flex-1">
-                  {t('settings.weeklyReportsEnabled')}
-                </Label>
-              </div>
+              {notificationPreferences && (
+                <>
+                  {([
+                    { id: 'weeklyReport', label: 'settings.weeklyReportsEnabled' },
+                    { id: 'monthlyReport', label: 'settings.monthlyReportsEnabled' },
+                    { id: 'yearlyReport', label: 'settings.yearlyReportsEnabled' },
+                    { id: 'alerts', label: 'settings.alertsEnabled' },
+                  ] as const).map(({ id, label }) => (
+                    <div key={id} className="flex items-center space-x-2">
+                      <Switch
+                        id={`notifications-${id}`}
+                        checked={notificationPreferences[id]}
+                        onCheckedChange={(checked) => handleNotificationChange({ [id]: checked })}
+                        disabled={isUpdatingNotifications}
+                      />
+                      <Label htmlFor={`notifications-${id}`} className="flex-1">
+                        {t(label)}
+                      </Label>
+                    </div>
+                  ))}
+
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label>{t('settings.emailLanguage')}</Label>
+                      <Select
+                        value={notificationPreferences.locale}
+                        onValueChange={(value) => handleNotificationChange({ locale: value as NotificationPreferences['locale'] })}
+                        disabled={isUpdatingNotifications}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="en">{t('languages.english')}</SelectItem>
+                          <SelectItem value="es">{t('languages.spanish')}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>{t('settings.digestDay')}</Label>
+                      <Select
+                        value={notificationPreferences.digestDay || 'default'}
+                        onValueChange={(value) => handleNotificationChange({ digestDay: value === 'default' ? null : value as DigestDay })}
+                        disabled={isUpdatingNotifications || !notificationPreferences.weeklyReport}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">{t('settings.digestDayDefault')}</SelectItem>
+                          {WEEKDAYS.map(day => (
+                            <SelectItem key={day} value={day}>{t(`settings.weekdays.${day}`)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </>
+              )}
               
               {notificationMessage && (
                 <div className={`text-sm p-3 rounded ${
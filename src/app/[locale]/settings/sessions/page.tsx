@@ -0,0 +1,171 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { MainLayout } from "@/components/layout/main-layout"
+import { AuthGuard } from "@/components/auth/auth-guard"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, History, LogOut, MonitorSmartphone } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import type { LoginEvent, UserSession } from "@/types"
+
+export default function SessionsPage() {
+  const t = useTranslations("sessions")
+  const locale = useLocale()
+  const [sessions, setSessions] = useState<UserSession[]>([])
+  const [logins, setLogins] = useState<LoginEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const res = await fetch("/api/auth/sessions")
+      if (res.ok) {
+        const data = await res.json()
+        setSessions(data.sessions)
+        setLogins(data.logins)
+      }
+    } catch (err) {
+      console.error("Failed to fetch sessions:", err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => { fetchSessions() }, [fetchSessions])
+
+  const formatDateTime = (date: string) => {
+    return new Date(`${date.replace(" ", "T")}Z`).toLocaleString(locale === "es" ? "es-ES" : "en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  const handleRevoke = async (session: UserSession) => {
+    const res = await fetch(`/api/auth/sessions/${session.id}`, { method: "DELETE" })
+    if (res.ok) fetchSessions()
+  }
+
+  const handleRevokeAll = async () => {
+    if (!confirm(t("revokeAllConfirm"))) return
+    const res = await fetch("/api/auth/sessions/revoke-all", { method: "POST" })
+    if (res.ok) {
+      const data = await res.json()
+      setMessage(t("revokedCount", { count: data.revoked }))
+      fetchSessions()
+    }
+  }
+
+  const otherSessions = sessions.filter(s => !s.current).length
+
+  return (
+    <AuthGuard>
+      <MainLayout>
+        <div className="space-y-6">
+          <div className="flex flex-col space-y-4 sm:flex-row sm:justify-between sm:items-center sm:space-y-0">
+            <div>
+              <Link href={`/${locale}/settings`} className="mb-2 inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+                <ArrowLeft className="mr-1 h-4 w-4" />
+                {t("backToSettings")}
+              </Link>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{t("title")}</h1>
+              <p className="text-gray-600">{t("subtitle")}</p>
+            </div>
+            <Button variant="outline" onClick={handleRevokeAll} disabled={otherSessions === 0}>
+              <LogOut className="mr-2 h-4 w-4" />
+              {t("revokeAll")}
+            </Button>
+          </div>
+
+          {message && <p className="text-sm text-green-600">{message}</p>}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <MonitorSmartphone className="mr-2 h-5 w-5" />
+                {t("activeSessions")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-sm text-gray-500">{t("loading")}</p>
+              ) : (
+                <div className="divide-y rounded-md border">
+                  {sessions.map(session => (
+                    <div key={session.id} className="flex flex-col gap-2 p-3 sm:flex-row sm:items-center sm:justify-between">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-sm">{session.device || t("unknownDevice")}</span>
+                          {session.current && <Badge variant="secondary">{t("thisDevice")}</Badge>}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {session.ip_address || t("unknownIp")}
+                          {" · "}
+                          {t("signedIn", { date: formatDateTime(session.created_at) })}
+                          {" · "}
+                          {t("lastSeen", { date: formatDateTime(session.last_seen_at) })}
+                        </div>
+                        {session.user_agent && (
+                          <div className="truncate text-xs text-gray-400" title={session.user_agent}>{session.user_agent}</div>
+                        )}
+                      </div>
+                      {!session.current && (
+                        <Button variant="outline" size="sm" className="flex-shrink-0" onClick={() => handleRevoke(session)}>
+                          {t("revoke")}
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <History className="mr-2 h-5 w-5" />
+                {t("loginHistory")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {logins.length === 0 ? (
+                <p className="text-sm text-gray-500">{t("noLogins")}</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-gray-50">
+                        <th className="text-left py-2 px-3">{t("date")}</th>
+                        <th className="text-left py-2 px-3">{t("result")}</th>
+                        <th className="text-left py-2 px-3">{t("ipAddress")}</th>
+                        <th className="text-left py-2 px-3">{t("userAgent")}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {logins.map(login => (
+                        <tr key={login.id} className="border-b">
+                          <td className="py-2 px-3 whitespace-nowrap">{formatDateTime(login.created_at)}</td>
+                          <td className={`py-2 px-3 ${login.success ? "text-green-700" : "text-red-600"}`}>
+                            {login.success ? t("success") : t(`reasons.${login.reason}`)}
+                          </td>
+                          <td className="py-2 px-3 text-gray-600">{login.ip_address || t("unknownIp")}</td>
+                          <td className="py-2 px-3 max-w-xs truncate text-gray-500" title={login.user_agent || ""}>{login.user_agent}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </MainLayout>
+    </AuthGuard>
+  )
+}
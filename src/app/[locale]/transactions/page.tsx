@@ -13,9 +13,10 @@ import {
 } from "lucide-react"
 import { TransactionImportDialog } from "@/components/transactions/transaction-import-dialog"
 import { TransactionEditDialog } from "@/components/transactions/transaction-edit-dialog"
+import { RuleSuggestionBanner } from "@/components/transactions/rule-suggestion-banner"
 import { useTranslations } from "next-intl"
 import { aiChatEvents } from "@/components/ai-chat"
-import type { Account, Transaction, TransactionCategory } from "@/types"
+import type { Account, CategoryRuleSuggestion, Transaction, TransactionCategory } from "@/types"
 
 export default function TransactionsPage() {
   const t = useTranslations()
@@ -40,6 +41,7 @@ export default function TransactionsPage() {
   // Dialogs
   const [importOpen, setImportOpen] = useState(false)
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null)
+  const [ruleSuggestion, setRuleSuggestion] = useState<CategoryRuleSuggestion | null>(null)
 
   // Bulk selection
   const [selectionMode, setSelectionMode] = useState(false)
@@ -141,6 +143,8 @@ export default function TransactionsPage() {
         }),
       })
       if (res.ok) {
+        const data = await res.json()
+        setRuleSuggestion(data.suggestion ?? null)
         setSelectedIds(new Set())
         setBulkCategory("")
         setSelectionMode(false)
@@ -191,7 +195,7 @@ export default function TransactionsPage() {
 
   const handleCategorizeAll = async () => {
     const uncategorizedIds = transactions
-      .filter(tx => !tx.category_id)
+      .filter(tx => !tx.category_id && !tx.is_split)
       .map(tx => tx.id)
 
     if (uncategorizedIds.length === 0) return
@@ -234,11 +238,15 @@ export default function TransactionsPage() {
 
   const handleCategoryChange = async (txId: number, categoryId: number | null) => {
     try {
-      await fetch(`/api/transactions/${txId}`, {
+      const res = await fetch(`/api/transactions/${txId}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ category_id: categoryId }),
       })
+      if (res.ok) {
+        const data = await res.json()
+        setRuleSuggestion(data.suggestion ?? null)
+      }
       fetchData()
     } catch (err) {
       console.error("Failed to update category:", err)
@@ -323,6 +331,15 @@ export default function TransactionsPage() {
             </div>
           </div>
 
+          {/* Rule proposed from the last correction */}
+          {ruleSuggestion && (
+            <RuleSuggestionBanner
+              suggestion={ruleSuggestion}
+              onClose={() => setRuleSuggestion(null)}
+              onAccepted={fetchData}
+            />
+          )}
+
           {/* Bulk Actions Bar */}
           {selectionMode && (
             <Card className="border-blue-200 bg-blue-50/50">
@@ -581,16 +598,25 @@ export default function TransactionsPage() {
                               </td>
                               <td className="py-3 px-4 max-w-[200px] truncate text-gray-500">{tx.detail}</td>
                               <td className="py-3 px-4">
-                                <select
-                                  className="text-xs rounded border border-gray-200 px-1 py-0.5 max-w-[140px]"
-                                  value={tx.category_id || ""}
-                                  onChange={(e) => handleCategoryChange(tx.id, e.target.value ? Number(e.target.value) : null)}
-                                >
-                                  <option value="">—</option>
-                                  {categories.map(cat => (
-                                    <option key={cat.id} value={cat.id}>{cat.name}</option>
-                                  ))}
-                                </select>
+                                {tx.is_split ? (
+                                  <button
+                                    className="text-xs rounded border border-purple-200 bg-purple-50 px-1.5 py-0.5 text-purple-700"
+                                    onClick={() => setEditingTransaction(tx)}
+                                  >
+                                    {t("transactions.split")}
+                                  </button>
+                                ) : (
+                                  <select
+                                    className="text-xs rounded border border-gray-200 px-1 py-0.5 max-w-[140px]"
+                                    value={tx.category_id || ""}
+                                    onChange={(e) => handleCategoryChange(tx.id, e.target.value ? Number(e.target.value) : null)}
+                                  >
+                                    <option value="">—</option>
+                                    {categories.map(cat => (
+                                      <option key={cat.id} value={cat.id}>{cat.name}</option>
+                                    ))}
+                                  </select>
+                                )}
                               </td>
                               <td className={`py-3 px-4 text-right font-medium ${tx.amount < 0 ? "text-red-600" : "text-green-600"}`}>
                                 {formatCurrency(tx.amount)}
@@ -688,16 +714,25 @@ export default function TransactionsPage() {
                         </div>
                       </div>
                       <div className="flex items-center justify-between mt-2">
-                        <select
-                          className="text-xs rounded border border-gray-200 px-1 py-0.5"
-                          value={tx.category_id || ""}
-                          onChange={(e) => handleCategoryChange(tx.id, e.target.value ? Number(e.target.value) : null)}
-                        >
-                          <option value="">— {t("transactions.noCategory")} —</option>
-                          {categories.map(cat => (
-                            <option key={cat.id} value={cat.id}>{cat.name}</option>
-                          ))}
-                        </select>
+                        {tx.is_split ? (
+                          <button
+                            className="text-xs rounded border border-purple-200 bg-purple-50 px-1.5 py-0.5 text-purple-700"
+                            onClick={() => setEditingTransaction(tx)}
+                          >
+                            {t("transactions.split")}
+                          </button>
+                        ) : (
+                          <select
+                            className="text-xs rounded border border-gray-200 px-1 py-0.5"
+                            value={tx.category_id || ""}
+                            onChange={(e) => handleCategoryChange(tx.id, e.target.value ? Number(e.target.value) : null)}
+                          >
+                            <option value="">— {t("transactions.noCategory")} —</option>
+                            {categories.map(cat => (
+                              <option key={cat.id} value={cat.id}>{cat.name}</option>
+                            ))}
+                          </select>
+                        )}
                         {!selectionMode && (
                           <div className="flex space-x-1">
                             <Button variant="ghost" size="sm" className="h-7 w-7 p-0"
@@ -757,7 +792,10 @@ export default function TransactionsPage() {
             categories={categories}
             open={!!editingTransaction}
             onOpenChange={(open) => { if (!open) setEditingTransaction(null) }}
-            onSuccess={fetchData}
+            onSuccess={(suggestion) => {
+              setRuleSuggestion(suggestion)
+              fetchData()
+            }}
           />
         </div>
       </MainLayout>
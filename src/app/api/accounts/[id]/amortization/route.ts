@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { getDatabase } from '@/lib/database';
+import { AccountAccessService } from '@/lib/account-access-service';
+import { AccountService } from '@/lib/db-operations';
 import { amortizationService } from '@/lib/amortization-service';
 import type { Account } from '@/types';
 
@@ -14,6 +17,9 @@ export async function GET(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const accountId = parseInt(params.id);
     const db = await getDatabase();
 
@@ -31,7 +37,8 @@ export async function GET(
       WHERE a.id = ? AND a.family_id = ? AND a.category = 'Debt'
     `, [accountId, session.user.family_id]) as Account & { current_balance: number };
 
-    if (!account) {
+    const access = await AccountAccessService.getAccess(await AccountService.getAccountById(accountId), session.user);
+    if (!account || !access) {
       return NextResponse.json({ error: 'Debt account not found' }, { status: 404 });
     }
 
@@ -61,6 +68,9 @@ export async function POST(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const accountId = parseInt(params.id);
     const db = await getDatabase();
 
@@ -70,9 +80,13 @@ export async function POST(
       WHERE id = ? AND family_id = ? AND category = 'Debt'
     `, [accountId, session.user.family_id]);
 
-    if (!account) {
+    const access = await AccountAccessService.getAccess(await AccountService.getAccountById(accountId), session.user);
+    if (!account || !access) {
       return NextResponse.json({ error: 'Debt account not found' }, { status: 404 });
     }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: 'You can only view this account' }, { status: 403 });
+    }
 
     // Apply monthly update
     const result = await amortizationService.applyMonthlyUpdate(accountId);
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { getDatabase } from '@/lib/database';
+import { AccountAccessService } from '@/lib/account-access-service';
+import { AccountService } from '@/lib/db-operations';
 import { amortizationService } from '@/lib/amortization-service';
 
 const recordPaymentSchema = z.object({
@@ -23,6 +26,9 @@ export async function POST(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const accountId = parseInt(params.id);
     const body = await request.json();
     const validatedData = recordPaymentSchema.parse(body);
@@ -44,9 +50,13 @@ export async function POST(
       WHERE a.id = ? AND a.family_id = ? AND a.category = 'Debt'
     `, [accountId, session.user.family_id]);
 
-    if (!account) {
+    const access = await AccountAccessService.getAccess(await AccountService.getAccountById(accountId), session.user);
+    if (!account || !access) {
       return NextResponse.json({ error: 'Debt account not found' }, { status: 404 });
     }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: 'You can only view this account' }, { status: 403 });
+    }
 
     let { amount, date, paymentType, principalAmount, interestAmount, notes } = validatedData;
     const currentBalance = account.current_balance;
@@ -139,6 +149,9 @@ export async function GET(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const accountId = parseInt(params.id);
     const db = await getDatabase();
 
@@ -148,7 +161,8 @@ export async function GET(
       WHERE id = ? AND family_id = ? AND category = 'Debt'
     `, [accountId, session.user.family_id]);
 
-    if (!account) {
+    const access = await AccountAccessService.getAccess(await AccountService.getAccountById(accountId), session.user);
+    if (!account || !access) {
       return NextResponse.json({ error: 'Debt account not found' }, { status: 404 });
     }
 
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { AccountService } from '@/lib/db-operations';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { AccountAccessService } from '@/lib/account-access-service';
 
 const updateAccountSchema = z.object({
   name: z.string().min(1),
@@ -37,6 +39,9 @@ export async function PUT(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { id } = await params;
     const accountId = parseInt(id);
     const body = await request.json();
@@ -48,9 +53,13 @@ export async function PUT(
     } = validatedData;
 
     const existingAccount = await AccountService.getAccountById(accountId);
-    if (!existingAccount || existingAccount.family_id !== session.user.family_id) {
+    const access = await AccountAccessService.getAccess(existingAccount, session.user);
+    if (!existingAccount || !access) {
       return NextResponse.json({ error: 'Account not found' }, { status: 404 });
     }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: 'You can only view this account' }, { status: 403 });
+    }
 
     await AccountService.updateAccount(
       accountId, 
@@ -95,13 +104,20 @@ export async function DELETE(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { id } = await params;
     const accountId = parseInt(id);
     const existingAccount = await AccountService.getAccountById(accountId);
     
-    if (!existingAccount || existingAccount.family_id !== session.user.family_id) {
+    const access = await AccountAccessService.getAccess(existingAccount, session.user);
+    if (!existingAccount || !access) {
       return NextResponse.json({ error: 'Account not found' }, { status: 404 });
     }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: 'You can only view this account' }, { status: 403 });
+    }
 
     await AccountService.deleteAccount(accountId);
 
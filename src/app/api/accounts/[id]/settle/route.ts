@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { AccountService } from '@/lib/db-operations';
+import { AccountAccessService } from '@/lib/account-access-service';
 import { amortizationService } from '@/lib/amortization-service';
 
 const settleActionSchema = z.object({
@@ -20,14 +22,21 @@ export async function POST(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { id } = await params;
     const accountId = parseInt(id);
 
     // Verify account belongs to user's family
     const account = await AccountService.getAccountById(accountId);
-    if (!account || account.family_id !== session.user.family_id) {
+    const access = await AccountAccessService.getAccess(account, session.user);
+    if (!account || !access) {
       return NextResponse.json({ error: 'Account not found' }, { status: 404 });
     }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: 'You can only view this account' }, { status: 403 });
+    }
 
     if (account.category !== 'Debt') {
       return NextResponse.json({ error: 'Account is not a debt account' }, { status: 400 });
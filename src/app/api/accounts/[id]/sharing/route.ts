@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { AccountService, UserService } from '@/lib/db-operations';
+import { AccountAccessService } from '@/lib/account-access-service';
+import { systemLogger } from '@/lib/system-logger';
+import type { Account, User } from '@/types';
+
+async function getSharingResponse(account: Account, familyId: number, canManage: boolean) {
+  const [sharing, members] = await Promise.all([
+    AccountAccessService.getSharing(account),
+    UserService.getUsersByFamilyId(familyId),
+  ]);
+  return {
+    ...sharing,
+    members: members.map((member: User) => ({ id: member.id, name: member.name, role: member.role })),
+    canManage,
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request);
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const account = await AccountService.getAccountById(parseInt(id));
+    const access = await AccountAccessService.getAccess(account, session.user);
+    if (!account || !access) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await getSharingResponse(account, session.user.family_id, access === 'owner'));
+  } catch (error) {
+    console.error('Get account sharing error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Change who can see and edit an account. Body: { owner_id?, family_access?,
+ * count_in_family_totals?, permissions?: [{ user_id, access }] }; permissions replace
+ * the current ones. Only the account's owner can do this.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request);
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const account = await AccountService.getAccountById(parseInt(id));
+    const access = await AccountAccessService.getAccess(account, session.user);
+    if (!account || !access) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+    if (access !== 'owner') {
+      return NextResponse.json({ error: 'Only the owner of this account can change who it is shared with' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (body.permissions !== undefined && !Array.isArray(body.permissions)) {
+      return NextResponse.json({ error: 'permissions must be an array' }, { status: 400 });
+    }
+    const data = {
+      ...(body.owner_id !== undefined && { owner_id: Number(body.owner_id) }),
+      ...(body.family_access !== undefined && { family_access: body.family_access }),
+      ...(body.count_in_family_totals !== undefined && { count_in_family_totals: !!body.count_in_family_totals }),
+      ...(body.permissions !== undefined && {
+        permissions: body.permissions.map((permission: { user_id: unknown; access: unknown }) => ({
+          user_id: Number(permission.user_id),
+          access: permission.access,
+        })),
+      }),
+    };
+
+    const validationError = await AccountAccessService.validate(session.user.family_id, data);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await AccountAccessService.updateSharing(account, data);
+
+    await systemLogger.logSuccess(
+      'system',
+      'account_sharing_updated',
+      `${session.user.email} changed the sharing of account ${account.id}`,
+      session.user.family_id,
+      session.user.id,
+      undefined,
+      { accountId: account.id, fields: Object.keys(data) }
+    );
+
+    const updated = await AccountService.getAccountById(account.id);
+    const updatedAccess = await AccountAccessService.getAccess(updated, session.user);
+    return NextResponse.json(await getSharingResponse(updated!, session.user.family_id, updatedAccess === 'owner'));
+  } catch (error) {
+    console.error('Update account sharing error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { AccountService } from '@/lib/db-operations';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 
 const createAccountSchema = z.object({
   name: z.string().min(1),
@@ -34,7 +35,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
-    const accounts = await AccountService.getAccountsByFamilyId(session.user.family_id);
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const accounts = await AccountService.getAccountsByFamilyId(session.user.family_id, session.user);
     return NextResponse.json(accounts);
   } catch (error) {
     console.error('Get accounts error:', error);
@@ -49,6 +53,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const body = await request.json();
     const validatedData = createAccountSchema.parse(body);
     const { 
@@ -73,7 +80,8 @@ export async function POST(request: NextRequest) {
         autoUpdateEnabled,
         originalBalance,
         loanStartDate
-      }
+      },
+      session.user.id
     );
 
     return NextResponse.json({ message: 'Account created successfully', accountId });
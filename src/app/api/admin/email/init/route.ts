@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { initializeEmailService } from '@/lib/init-email-service';
 
 export async function POST(request: NextRequest) {
@@ -13,6 +14,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     await initializeEmailService();
 
     return NextResponse.json({
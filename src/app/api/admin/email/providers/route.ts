@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { getUnifiedEmailService } from '@/lib/unified-email-service';
 
 export async function GET(request: NextRequest) {
@@ -13,6 +14,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const emailService = getUnifiedEmailService();
     const providers = await emailService.getAvailableProviders();
     const activeProvider = await emailService.getActiveProvider();
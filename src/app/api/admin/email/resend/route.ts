@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { getUnifiedEmailService } from '@/lib/unified-email-service';
 
 const resendConfigSchema = z.object({
@@ -23,6 +24,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const emailService = getUnifiedEmailService();
     const resendService = emailService.getResendService();
     const config = await resendService.getConfig();
@@ -54,6 +58,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const body = await request.json();
     const config = resendConfigSchema.parse(body);
 
@@ -92,6 +99,9 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const body = await request.json();
     
     if (body.action === 'test-connection') {
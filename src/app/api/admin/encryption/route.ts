@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/db-operations';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { KeyRotationService } from '@/lib/key-rotation-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const isAdmin = await UserService.isUserAdmin(session.user.id);
+    if (!isAdmin) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const status = await KeyRotationService.getStatus();
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Get encryption status error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Starts a key rotation. It runs in the background; poll GET for its progress.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const isAdmin = await UserService.isUserAdmin(session.user.id);
+    if (!isAdmin) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const rotation = KeyRotationService.startRotation(session.user);
+    if (!rotation) {
+      return NextResponse.json({ error: 'A key rotation is already running' }, { status: 409 });
+    }
+    return NextResponse.json({ rotation }, { status: 202 });
+  } catch (error) {
+    console.error('Start key rotation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
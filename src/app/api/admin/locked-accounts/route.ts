@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/db-operations';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { AccountLockoutService } from '@/lib/account-lockout-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const isAdmin = await UserService.isUserAdmin(session.user.id);
+    if (!isAdmin) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const accounts = await AccountLockoutService.getLockedAccounts();
+    return NextResponse.json({ accounts });
+  } catch (error) {
+    console.error('Get locked accounts error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
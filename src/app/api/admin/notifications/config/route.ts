@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { SettingsService } from '@/lib/settings-service';
 import { getEmailService } from '@/lib/email-service';
 import { NotificationScheduler } from '@/lib/notification-scheduler';
@@ -16,13 +17,23 @@ const emailConfigSchema = z.object({
   from: z.string().min(1)
 });
 
+const timeSchema = z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/);
+
+const periodicReportSchema = z.object({
+  enabled: z.boolean(),
+  dayOfMonth: z.number().int().min(1).max(28),
+  time: timeSchema
+});
+
 const notificationSettingsSchema = z.object({
   enabled: z.boolean(),
   day: z.enum(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']),
-  time: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/),
+  time: timeSchema,
   timezone: z.string(),
   includeCharts: z.boolean(),
-  customMessage: z.string().optional()
+  customMessage: z.string().optional(),
+  monthlyReport: periodicReportSchema.optional(),
+  yearlyReport: periodicReportSchema.extend({ month: z.number().int().min(1).max(12) }).optional()
 });
 
 export async function GET(request: NextRequest) {
@@ -36,6 +47,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const emailService = getEmailService();
     const emailConfig = await emailService.getConfig();
     const notificationSettings = await SettingsService.getNotificationSettings();
@@ -77,6 +91,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const body = await request.json();
     const { emailConfig, notificationSettings } = body;
 
@@ -132,6 +149,7 @@ export async function POST(request: NextRequest) {
         } else {
           await scheduler.stopSchedule();
         }
+        await scheduler.schedulePeriodicReports(await SettingsService.getNotificationSettings());
       } catch (error) {
         if (error instanceof z.ZodError) {
           return NextResponse.json(
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { NotificationScheduler } from '@/lib/notification-scheduler';
 
 export async function GET(request: NextRequest) {
@@ -13,6 +14,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '50');
 
@@ -40,6 +44,9 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const scheduler = NotificationScheduler.getInstance();
     await scheduler.clearHistory();
 
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { NotificationScheduler } from '@/lib/notification-scheduler';
 
 const sendReportSchema = z.object({
   familyId: z.number().optional(),
-  allFamilies: z.boolean().default(false)
+  allFamilies: z.boolean().default(false),
+  type: z.enum(['weekly', 'monthly', 'yearly']).default('weekly')
 });
 
 export async function POST(request: NextRequest) {
@@ -19,11 +21,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const body = await request.json();
-    const { familyId, allFamilies } = sendReportSchema.parse(body);
+    const { familyId, allFamilies, type } = sendReportSchema.parse(body);
 
     const scheduler = NotificationScheduler.getInstance();
 
+    if (type !== 'weekly') {
+      if (allFamilies) {
+        await scheduler.sendPeriodicReportsToAllFamilies(type);
+        return NextResponse.json({
+          message: `${type === 'monthly' ? 'Monthly' : 'Yearly'} reports sent to all families`
+        });
+      } else if (familyId) {
+        const result = await scheduler.sendPeriodicReportToFamily(familyId, type, {
+          includeCharts: true
+        });
+        return result.success
+          ? NextResponse.json({ message: `${type === 'monthly' ? 'Monthly' : 'Yearly'} report sent successfully to family ${familyId}` })
+          : NextResponse.json({ error: `Failed to send ${type} report: ${result.error}` }, { status: 400 });
+      }
+    }
+
     if (allFamilies) {
       // Send to all families
       await scheduler.sendWeeklyReportsToAllFamilies();
@@ -34,7 +55,6 @@ export async function POST(request: NextRequest) {
     } else if (familyId) {
       // Send to specific family
       const result = await scheduler.sendWeeklyReportToFamily(familyId, {
-        locale: 'en', // TODO: Get from family preferences
         includeCharts: true
       });
 
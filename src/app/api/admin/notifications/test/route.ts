@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { getUnifiedEmailService } from '@/lib/unified-email-service';
 import { NotificationScheduler } from '@/lib/notification-scheduler';
+import { NotificationPreferencesService } from '@/lib/notification-preferences-service';
 
 const testEmailSchema = z.object({
-  type: z.enum(['connection', 'weekly-report']),
+  type: z.enum(['connection', 'weekly-report', 'monthly-report', 'yearly-report']),
   email: z.string().email(),
   familyId: z.number().optional()
 });
@@ -21,6 +23,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const body = await request.json();
     const { type, email, familyId } = testEmailSchema.parse(body);
 
@@ -39,20 +44,21 @@ export async function POST(request: NextRequest) {
       // Test basic email connection
       result = await emailService.sendTestEmail(email);
     } else {
-      // Test weekly report
+      // Test a report
+      const reportType = type === 'monthly-report' ? 'monthly' : type === 'yearly-report' ? 'yearly' : 'weekly';
       if (!familyId) {
         return NextResponse.json(
-          { error: 'familyId is required for weekly report test' },
+          { error: `familyId is required for ${reportType} report test` },
           { status: 400 }
         );
       }
 
       const scheduler = NotificationScheduler.getInstance();
       result = await scheduler.sendTestReport(familyId, email, {
-        locale: 'en', // TODO: Get from user preferences
+        locale: (await NotificationPreferencesService.getPreferences(session.user.id)).locale,
         includeCharts: true,
-        customMessage: 'This is a test email to verify your weekly report configuration.'
-      });
+        customMessage: `This is a test email to verify your ${reportType} report configuration.`
+      }, reportType);
     }
 
     if (result.success) {
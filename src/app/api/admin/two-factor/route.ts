@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/db-operations';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { SettingsService } from '@/lib/settings-service';
+import { TwoFactorService } from '@/lib/two-factor-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const isAdmin = await UserService.isUserAdmin(session.user.id);
+    if (!isAdmin) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const required = await SettingsService.isAdminTwoFactorRequired();
+    return NextResponse.json({ required });
+  } catch (error) {
+    console.error('Get two-factor requirement error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Require 2FA for every administrator. Administrators without it are taken through
+ * enrollment on their next sign-in.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const isAdmin = await UserService.isUserAdmin(session.user.id);
+    if (!isAdmin) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { required } = await request.json();
+    if (typeof required !== 'boolean') {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    await TwoFactorService.setAdminRequirement(required, session.user);
+    return NextResponse.json({ required });
+  } catch (error) {
+    console.error('Update two-factor requirement error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
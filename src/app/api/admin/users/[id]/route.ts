@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { UserService } from '@/lib/db-operations';
 import { getSession, hashPassword } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { SessionService } from '@/lib/session-service';
 import type { UserRole } from '@/types';
 
 const updateUserSchema = z.object({
@@ -24,6 +26,9 @@ export async function GET(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     // Check if user is admin
     const isAdmin = await UserService.isUserAdmin(session.user.id);
     if (!isAdmin) {
@@ -65,6 +70,9 @@ export async function PUT(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     // Check if user is admin
     const isAdmin = await UserService.isUserAdmin(session.user.id);
     if (!isAdmin) {
@@ -119,6 +127,11 @@ export async function PUT(
       await UserService.updateUser(userId, updates);
     }
 
+    // A new password signs the user out everywhere (but not the admin doing it)
+    if (password) {
+      await SessionService.revokeAllSessions(userId, userId === session.user.id ? session.sessionId : undefined);
+    }
+
     // Get updated user
     const updatedUser = await UserService.getUserById(userId);
     
@@ -156,6 +169,9 @@ export async function DELETE(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     // Check if user is admin
     const isAdmin = await UserService.isUserAdmin(session.user.id);
     if (!isAdmin) {
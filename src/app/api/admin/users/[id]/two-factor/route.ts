@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/db-operations';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { TwoFactorService } from '@/lib/two-factor-service';
+
+/**
+ * Turns off 2FA for a user who lost both their authenticator and recovery codes
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request);
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    // Check if user is admin
+    const isAdmin = await UserService.isUserAdmin(session.user.id);
+    if (!isAdmin) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const targetUser = await UserService.getUserById(parseInt(id));
+    if (!targetUser) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await TwoFactorService.reset(targetUser, session.user);
+    return NextResponse.json({ message: 'Two-factor authentication reset' });
+  } catch (error) {
+    console.error('Reset two-factor error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
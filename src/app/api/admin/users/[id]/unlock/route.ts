@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/lib/db-operations';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { AccountLockoutService } from '@/lib/account-lockout-service';
+
+/**
+ * Lifts a lockout before it expires and forgets the failed attempts
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request);
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    // Check if user is admin
+    const isAdmin = await UserService.isUserAdmin(session.user.id);
+    if (!isAdmin) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const targetUser = await UserService.getUserById(parseInt(id));
+    if (!targetUser) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const unlocked = await AccountLockoutService.unlock(targetUser, session.user);
+    if (!unlocked) {
+      return NextResponse.json({ error: 'Account is not locked' }, { status: 404 });
+    }
+    return NextResponse.json({ message: 'Account unlocked' });
+  } catch (error) {
+    console.error('Unlock account error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { UserService } from '@/lib/db-operations';
 import { getSession, hashPassword } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { NotificationCenterService } from '@/lib/notification-center-service';
+import { TwoFactorService } from '@/lib/two-factor-service';
 import type { UserRole } from '@/types';
 
 const createUserSchema = z.object({
@@ -25,6 +28,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     // Check if user is admin
     const isAdmin = await UserService.isUserAdmin(session.user.id);
     if (!isAdmin) {
@@ -33,6 +39,7 @@ export async function GET(request: NextRequest) {
 
     // Get all users in the database (admin can see all users)
     const users = await UserService.getAllUsers();
+    const twoFactorUserIds = await TwoFactorService.getEnabledUserIds();
     
     // Remove password hashes from response
     const safeUsers = users.map(user => ({
@@ -42,6 +49,7 @@ export async function GET(request: NextRequest) {
       family_id: user.family_id,
       role: user.role,
       created_at: user.created_at,
+      two_factor_enabled: twoFactorUserIds.includes(user.id),
     }));
 
     return NextResponse.json({ users: safeUsers });
@@ -58,6 +66,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     // Check if user is admin
     const isAdmin = await UserService.isUserAdmin(session.user.id);
     if (!isAdmin) {
@@ -89,6 +100,13 @@ export async function POST(request: NextRequest) {
       role
     );
 
+    await NotificationCenterService.notifyFamily(
+      session.user.family_id,
+      'member_joined',
+      { name },
+      { link: '/members', excludeUserIds: [userId, session.user.id] }
+    );
+
     return NextResponse.json({ 
       message: 'User created successfully', 
       userId,
@@ -120,6 +138,9 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     // Check if user is admin
     const isAdmin = await UserService.isUserAdmin(session.user.id);
     if (!isAdmin) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { AIService } from '@/lib/ai-service';
 import { AIActionExecutor } from '@/lib/ai-actions';
 import { ChatService } from '@/lib/chat-service';
@@ -11,6 +12,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const body = await request.json();
     const { message, context, conversationId } = body;
 
@@ -42,11 +46,12 @@ export async function POST(request: NextRequest) {
       await ChatService.updateConversationTitle(convId, title);
     }
 
-    // Chat with tools — AI can execute actions
+    // Chat with tools — AI can execute actions, as the member chatting
+    const user = session.user;
     const { response, actionsExecuted } = await AIService.chatWithTools(
-      session.user.family_id,
+      user.family_id,
       message.trim(),
-      (actionName, params) => AIActionExecutor.execute(actionName, params, session.user.family_id!),
+      (actionName, params) => AIActionExecutor.execute(actionName, params, user.family_id, user),
       context,
     );
 
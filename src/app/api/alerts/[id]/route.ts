@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { AlertService } from '@/lib/alert-service';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const body = await request.json();
+    const updated = await AlertService.markRead(parseInt(id), session.user.id, body.read !== false);
+    if (!updated) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating alert:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
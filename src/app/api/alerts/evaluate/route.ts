@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { AlertService } from '@/lib/alert-service';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const result = await AlertService.evaluateFamily(session.user.family_id);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error evaluating alerts:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
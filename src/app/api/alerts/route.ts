@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { AlertService } from '@/lib/alert-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { searchParams } = new URL(request.url);
+    const unreadOnly = searchParams.get('unread') === 'true';
+
+    const alerts = await AlertService.getAlerts(session.user.id, unreadOnly);
+    const unreadCount = await AlertService.getUnreadCount(session.user.id);
+    return NextResponse.json({ alerts, unreadCount });
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { AlertService } from '@/lib/alert-service';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const familyId = session.user.family_id;
+    const existing = await AlertService.getRuleById(parseInt(id), familyId, session.user.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    // Snoozing only touches the snooze
+    if (body.snooze_days !== undefined) {
+      const days = Number(body.snooze_days);
+      if (!Number.isInteger(days) || days < 0 || days > 365) {
+        return NextResponse.json({ error: 'snooze_days must be between 0 and 365' }, { status: 400 });
+      }
+      await AlertService.snoozeRule(existing.id, days);
+      return NextResponse.json({ success: true });
+    }
+
+    const data = {
+      name: body.name !== undefined ? String(body.name) : existing.name,
+      type: body.type ?? existing.type,
+      account_id: body.account_id !== undefined ? (body.account_id != null ? Number(body.account_id) : null) : existing.account_id,
+      category_id: body.category_id !== undefined ? (body.category_id != null ? Number(body.category_id) : null) : existing.category_id,
+      threshold: body.threshold !== undefined ? Number(body.threshold) : existing.threshold,
+      is_active: body.is_active !== undefined ? !!body.is_active : existing.is_active,
+    };
+
+    const validationError = await AlertService.validate(familyId, data, session.user);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await AlertService.updateRule(existing.id, data);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    await AlertService.deleteRule(parseInt(id), session.user.family_id, session.user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { AlertService } from '@/lib/alert-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const rules = await AlertService.getRules(session.user.family_id, session.user.id);
+    return NextResponse.json(rules);
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const familyId = session.user.family_id;
+    const body = await request.json();
+    const data = {
+      name: String(body.name ?? ''),
+      type: body.type,
+      account_id: body.account_id != null ? Number(body.account_id) : null,
+      category_id: body.category_id != null ? Number(body.category_id) : null,
+      threshold: Number(body.threshold),
+      is_active: body.is_active !== false,
+    };
+
+    const validationError = await AlertService.validate(familyId, data, session.user);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const id = await AlertService.createRule(familyId, session.user.id, data);
+
+    // A new rule may already apply
+    try {
+      await AlertService.evaluateFamily(familyId);
+    } catch (e) {
+      console.error('Failed to evaluate alerts:', e);
+    }
+
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
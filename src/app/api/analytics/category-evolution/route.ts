@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { TransactionService } from '@/lib/transaction-service';
 
 export async function GET(request: NextRequest) {
@@ -9,11 +10,14 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
     const months = searchParams.get('months') ? parseInt(searchParams.get('months')!) : 6;
 
     const evolution = await TransactionService.getCategoryEvolution(
-      session.user.family_id, months
+      session.user.family_id, months, session.user
     );
     return NextResponse.json(evolution);
   } catch (error) {
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { PeriodicReportService } from '@/lib/periodic-report-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month') || undefined;
+    if (month && !PeriodicReportService.isValidMonth(month)) {
+      return NextResponse.json({ error: 'month must be YYYY-MM' }, { status: 400 });
+    }
+
+    const report = await PeriodicReportService.generateMonthlyReport(session.user.family_id, month, session.user);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error generating monthly report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { PeriodicReportService } from '@/lib/periodic-report-service';
+import { FamilyService } from '@/lib/family-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+    if (month && !PeriodicReportService.isValidMonth(month)) {
+      return NextResponse.json({ error: 'Invalid month' }, { status: 400 });
+    }
+
+    // With a month, the fiscal year that contains it
+    let year = searchParams.get('year') ? parseInt(searchParams.get('year')!) : undefined;
+    if (month) {
+      const settings = await FamilyService.getSettings(session.user.family_id);
+      year = PeriodicReportService.fiscalYearOf(month, settings.fiscal_year_start_month);
+    }
+    if (year !== undefined && (isNaN(year) || year < 1900 || year > 9999)) {
+      return NextResponse.json({ error: 'Invalid year' }, { status: 400 });
+    }
+
+    const report = await PeriodicReportService.generateYearlyReport(session.user.family_id, year, session.user);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error generating yearly report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
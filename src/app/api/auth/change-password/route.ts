@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { UserService } from '@/lib/db-operations';
+import { SessionService } from '@/lib/session-service';
 import bcrypt from 'bcryptjs';
 
 export async function POST(request: NextRequest) {
@@ -12,6 +14,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { currentPassword, newPassword } = await request.json();
 
     if (!currentPassword || !newPassword) {
@@ -41,6 +46,9 @@ export async function POST(request: NextRequest) {
     // Update password in database
     await UserService.changePassword(session.user.id, newPasswordHash);
 
+    // Sign out every other device; this one stays signed in
+    await SessionService.revokeAllSessions(session.user.id, session.sessionId);
+
     return response;
 
   } catch (error) {
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { UserService } from '@/lib/db-operations';
 import { PasswordResetService } from '@/lib/password-reset-service';
+import { RateLimiter } from '@/lib/rate-limiter';
+import { getClientInfo } from '@/lib/auth';
 import { getUnifiedEmailService } from '@/lib/unified-email-service';
 import { resetPasswordEmailTemplate } from '@/lib/email-templates/reset-password-template';
 
@@ -14,6 +16,16 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { email } = forgotPasswordSchema.parse(body);
 
+    // Limited per IP and per email whether or not the account exists, so the limit
+    // doesn't give away which emails are registered
+    const retryAfter = await RateLimiter.checkAuth('forgotPassword', getClientInfo(request), email);
+    if (retryAfter > 0) {
+      return NextResponse.json(
+        { error: `Too many password reset requests. Try again in ${retryAfter} seconds.`, retryAfter },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
     // Always return success to prevent email enumeration
     const successResponse = NextResponse.json({
       success: true,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@/lib/auth'
+import { authorizeRequest } from '@/lib/authorization'
 import { CloudStorageService } from '@/lib/cloud-storage'
 
 export async function GET(request: NextRequest) {
@@ -9,6 +10,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
     const clientId = process.env.GOOGLE_DRIVE_CLIENT_ID
     if (!clientId) {
       return NextResponse.json({ error: 'Google Drive not configured' }, { status: 500 })
@@ -1,20 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { UserService } from '@/lib/db-operations';
-import { verifyPassword, getSession } from '@/lib/auth';
+import {
+  verifyPassword,
+  getSession,
+  getClientInfo,
+  establishSession,
+  startTwoFactorLogin,
+  toSessionUser,
+} from '@/lib/auth';
+import { SessionService } from '@/lib/session-service';
+import { RateLimiter } from '@/lib/rate-limiter';
+import { AccountLockoutService } from '@/lib/account-lockout-service';
+import { TwoFactorService } from '@/lib/two-factor-service';
 
 const loginSchema = z.object({
   email: z.string().email(),
   password: z.string(),
 });
 
+function lockedResponse(lockedUntil: string | null) {
+  return NextResponse.json(
+    {
+      error: 'This account is temporarily locked after too many failed sign-in attempts. Try again later or reset your password.',
+      lockedUntil,
+    },
+    { status: 423 }
+  );
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { email, password } = loginSchema.parse(body);
+    const client = getClientInfo(request);
 
     const user = await UserService.getUserByEmail(email);
+
+    // Request limits per IP and email, then exponential backoff after repeated failures
+    const retryAfter = Math.max(
+      await RateLimiter.checkAuth('login', client, email),
+      await SessionService.getLoginDelay(email)
+    );
+    if (retryAfter > 0) {
+      await SessionService.recordLogin(email, user?.id ?? null, client, 'throttled');
+      return NextResponse.json(
+        { error: `Too many sign-in attempts. Try again in ${retryAfter} seconds.`, retryAfter },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    const lockedUntil = user ? await AccountLockoutService.getLockedUntil(user.id) : null;
+    if (user && lockedUntil) {
+      await SessionService.recordLogin(email, user.id, client, 'locked');
+      return lockedResponse(lockedUntil);
+    }
+
     if (!user || !user.password_hash) {
+      await SessionService.recordLogin(email, null, client, 'unknown_email');
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
@@ -23,33 +66,34 @@ export async function POST(request: NextRequest) {
 
     const isValidPassword = await verifyPassword(password, user.password_hash);
     if (!isValidPassword) {
+      await SessionService.recordLogin(email, user.id, client, 'invalid_password');
+      if (await AccountLockoutService.recordFailure(user, client)) {
+        return lockedResponse(await AccountLockoutService.getLockedUntil(user.id));
+      }
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
       );
     }
 
+    // With 2FA on, or required for the user's role but not set up yet, the password only
+    // opens the second step: /api/auth/two-factor/verify or the enrollment routes
+    const twoFactorEnabled = await TwoFactorService.isEnabled(user.id);
+    if (twoFactorEnabled || await TwoFactorService.isRequiredFor(user)) {
+      const response = NextResponse.json({ twoFactor: twoFactorEnabled ? 'verify' : 'setup' });
+      const session = await getSession(request, response);
+      startTwoFactorLogin(session, user.id, !twoFactorEnabled);
+      await session.save?.();
+      return response;
+    }
+
     const response = NextResponse.json({
       message: 'Login successful',
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        family_id: user.family_id,
-        role: user.role,
-        created_at: user.created_at,
-      },
+      user: toSessionUser(user),
     });
 
     const session = await getSession(request, response);
-    session.user = {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      family_id: user.family_id,
-      role: user.role,
-      created_at: user.created_at,
-    };
+    await establishSession(session, user, request);
     await session.save?.();
 
     return response;
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { SessionService } from '@/lib/session-service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -7,7 +8,11 @@ export async function POST(request: NextRequest) {
     const session = await getSession(request, response);
     
     // Clear the session data
+    if (session.sessionId) {
+      await SessionService.revokeByKey(session.sessionId);
+    }
     session.user = undefined;
+    session.sessionId = undefined;
     await session.save?.();
     
     return response;
@@ -1,30 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { UserService } from '@/lib/db-operations';
-import { hashPassword, generateFamilyId } from '@/lib/auth';
+import { hashPassword, getClientInfo } from '@/lib/auth';
+import { RateLimiter } from '@/lib/rate-limiter';
 import { SettingsService } from '@/lib/settings-service';
+import { InvitationService } from '@/lib/invitation-service';
+import { FamilyService } from '@/lib/family-service';
 
 const registerSchema = z.object({
   email: z.string().email(),
   password: z.string().min(8),
   name: z.string().min(1),
-  familyId: z.number().optional(),
+  inviteToken: z.string().optional(), // Invitation link token or code
 });
 
 export async function POST(request: NextRequest) {
   try {
-    // Check if registration is enabled
+    const body = await request.json();
+    const { email, password, name, inviteToken } = registerSchema.parse(body);
+
+    const retryAfter = await RateLimiter.checkAuth('register', getClientInfo(request), email);
+    if (retryAfter > 0) {
+      return NextResponse.json(
+        { error: `Too many registration attempts. Try again in ${retryAfter} seconds.`, retryAfter },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    const invitation = inviteToken ? await InvitationService.findPending(inviteToken) : null;
+    if (inviteToken && !invitation) {
+      return NextResponse.json(
+        { error: 'This invitation is invalid, was already used or has expired' },
+        { status: 400 }
+      );
+    }
+
+    // An invitation lets people in even while open registration is disabled
     const registrationEnabled = await SettingsService.isRegistrationEnabled()
-    if (!registrationEnabled) {
+    if (!registrationEnabled && !invitation) {
       return NextResponse.json(
         { error: 'User registration is currently disabled' },
         { status: 403 }
       );
     }
 
-    const body = await request.json();
-    const { email, password, name, familyId } = registerSchema.parse(body);
-
     const existingUser = await UserService.getUserByEmail(email);
     if (existingUser) {
       return NextResponse.json(
@@ -34,14 +53,27 @@ export async function POST(request: NextRequest) {
     }
 
     const passwordHash = await hashPassword(password);
-    const finalFamilyId = familyId || generateFamilyId();
-    
-    // New users are created as 'user' role by default
-    // First user in a new family becomes administrator  
-    const isFirstUser = !familyId || !(await UserService.familyExists(finalFamilyId));
-    const userRole = isFirstUser ? 'administrator' : 'user';
+    // Invited users join with the invitation's role; anyone else starts a new family
+    // as its administrator and owner
+    const finalFamilyId = invitation ? invitation.family_id : await FamilyService.createFamily(`${name}'s Family`);
+    const userRole = invitation ? invitation.role : 'administrator';
 
     const userId = await UserService.createUser(email, passwordHash, name, finalFamilyId, userRole);
+    if (!invitation) {
+      await FamilyService.setOwner(finalFamilyId, userId);
+    }
+
+    if (invitation) {
+      // Someone else got in with the same invitation first
+      if (!(await InvitationService.markAccepted(invitation, userId))) {
+        await UserService.deleteUser(userId);
+        return NextResponse.json(
+          { error: 'This invitation is invalid, was already used or has expired' },
+          { status: 400 }
+        );
+      }
+      await InvitationService.announce(invitation, { id: userId, email, name });
+    }
 
     return NextResponse.json({
       message: 'User created successfully',
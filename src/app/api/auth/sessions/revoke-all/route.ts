@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { SessionService } from '@/lib/session-service';
+
+/**
+ * Signs out every other session of the user; the one making the request stays
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const revoked = await SessionService.revokeAllSessions(session.user.id, session.sessionId);
+    return NextResponse.json({ revoked });
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
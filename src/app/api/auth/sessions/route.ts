@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { SessionService } from '@/lib/session-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const sessions = await SessionService.getSessions(session.user.id, session.sessionId);
+    const logins = await SessionService.getLoginHistory(session.user.id);
+    return NextResponse.json({ sessions, logins });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
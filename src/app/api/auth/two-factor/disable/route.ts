@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { TwoFactorService } from '@/lib/two-factor-service';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    if (await TwoFactorService.isRequiredFor(session.user)) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is required for administrators' },
+        { status: 403 }
+      );
+    }
+
+    const { code } = await request.json();
+    if (!code || !(await TwoFactorService.verify(session.user, String(code)))) {
+      return NextResponse.json({ error: 'Invalid code' }, { status: 400 });
+    }
+
+    await TwoFactorService.disable(session.user);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
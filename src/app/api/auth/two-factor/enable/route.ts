@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSession,
+  getPendingTwoFactorUserId,
+  recordTwoFactorFailure,
+  establishSession,
+  getClientInfo,
+  toSessionUser,
+} from '@/lib/auth';
+import { UserService } from '@/lib/db-operations';
+import { SessionService } from '@/lib/session-service';
+import { TwoFactorService } from '@/lib/two-factor-service';
+import { AccountLockoutService } from '@/lib/account-lockout-service';
+
+const LOCKED_MESSAGE = 'This account is temporarily locked after too many failed sign-in attempts';
+
+/**
+ * Confirms enrollment with a first code. For a login that had to enroll, this also
+ * finishes signing in.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const cookieResponse = new NextResponse();
+    const session = await getSession(request, cookieResponse);
+    const pendingUserId = session.user ? null : getPendingTwoFactorUserId(session, true);
+    const userId = session.user?.id ?? pendingUserId;
+    const user = userId ? await UserService.getUserById(userId) : null;
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { code } = await request.json();
+    if (!code) {
+      return NextResponse.json({ error: 'Code is required' }, { status: 400 });
+    }
+
+    // A login that has to enroll is still a sign-in, so it shares the account lockout
+    const client = getClientInfo(request);
+    if (pendingUserId && await AccountLockoutService.getLockedUntil(user.id)) {
+      await SessionService.recordLogin(user.email, user.id, client, 'locked');
+      delete session.pendingTwoFactor;
+      await session.save?.();
+      return NextResponse.json({ error: LOCKED_MESSAGE }, { status: 401, headers: cookieResponse.headers });
+    }
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(user, String(code));
+    if (!recoveryCodes) {
+      if (pendingUserId) {
+        await SessionService.recordLogin(user.email, user.id, client, 'invalid_two_factor_code');
+        if (await AccountLockoutService.recordFailure(user, client)) {
+          delete session.pendingTwoFactor;
+          await session.save?.();
+          return NextResponse.json({ error: LOCKED_MESSAGE }, { status: 401, headers: cookieResponse.headers });
+        }
+        const canRetry = recordTwoFactorFailure(session);
+        await session.save?.();
+        if (!canRetry) {
+          return NextResponse.json(
+            { error: 'Too many attempts, please sign in again' },
+            { status: 401, headers: cookieResponse.headers }
+          );
+        }
+      }
+      return NextResponse.json({ error: 'Invalid code' }, { status: 400, headers: cookieResponse.headers });
+    }
+
+    if (pendingUserId) {
+      await establishSession(session, user, request);
+      await session.save?.();
+    }
+
+    return NextResponse.json(
+      { recoveryCodes, user: toSessionUser(user) },
+      { headers: cookieResponse.headers }
+    );
+  } catch (error) {
+    console.error('Two-factor enable error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { TwoFactorService } from '@/lib/two-factor-service';
+
+/**
+ * Replaces all recovery codes; needs a current authenticator or recovery code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { code } = await request.json();
+    if (!code || !(await TwoFactorService.verify(session.user, String(code)))) {
+      return NextResponse.json({ error: 'Invalid code' }, { status: 400 });
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(session.user);
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, getPendingTwoFactorUserId } from '@/lib/auth';
+import { UserService } from '@/lib/db-operations';
+import { TwoFactorService } from '@/lib/two-factor-service';
+
+/**
+ * Starts enrollment for the signed-in user, or for a login that must enroll first
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    const userId = session.user?.id ?? getPendingTwoFactorUserId(session, true);
+    const user = userId ? await UserService.getUserById(userId) : null;
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (await TwoFactorService.isEnabled(user.id)) {
+      return NextResponse.json({ error: 'Two-factor authentication is already enabled' }, { status: 400 });
+    }
+
+    const enrollment = await TwoFactorService.beginEnrollment(user);
+    return NextResponse.json(enrollment);
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSession,
+  getPendingTwoFactorUserId,
+  recordTwoFactorFailure,
+  establishSession,
+  getClientInfo,
+  toSessionUser,
+} from '@/lib/auth';
+import { UserService } from '@/lib/db-operations';
+import { SessionService } from '@/lib/session-service';
+import { TwoFactorService } from '@/lib/two-factor-service';
+import { AccountLockoutService } from '@/lib/account-lockout-service';
+
+const LOCKED_MESSAGE = 'This account is temporarily locked after too many failed sign-in attempts';
+
+/**
+ * Second login step: an authenticator code or a recovery code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const cookieResponse = new NextResponse();
+    const session = await getSession(request, cookieResponse);
+    const userId = getPendingTwoFactorUserId(session, false);
+    const user = userId ? await UserService.getUserById(userId) : null;
+    if (!user) {
+      return NextResponse.json({ error: 'Your sign-in expired, please sign in again' }, { status: 401 });
+    }
+
+    const { code } = await request.json();
+    if (!code) {
+      return NextResponse.json({ error: 'Code is required' }, { status: 400 });
+    }
+
+    const client = getClientInfo(request);
+    if (await AccountLockoutService.getLockedUntil(user.id)) {
+      await SessionService.recordLogin(user.email, user.id, client, 'locked');
+      delete session.pendingTwoFactor;
+      await session.save?.();
+      return NextResponse.json({ error: LOCKED_MESSAGE }, { status: 401, headers: cookieResponse.headers });
+    }
+
+    const method = await TwoFactorService.verify(user, String(code));
+    if (!method) {
+      await SessionService.recordLogin(user.email, user.id, client, 'invalid_two_factor_code');
+      if (await AccountLockoutService.recordFailure(user, client)) {
+        delete session.pendingTwoFactor;
+        await session.save?.();
+        return NextResponse.json({ error: LOCKED_MESSAGE }, { status: 401, headers: cookieResponse.headers });
+      }
+      const canRetry = recordTwoFactorFailure(session);
+      await session.save?.();
+      // 401 means the pending login is gone and the password has to be entered again
+      return NextResponse.json(
+        { error: canRetry ? 'Invalid code' : 'Too many attempts, please sign in again' },
+        { status: canRetry ? 400 : 401, headers: cookieResponse.headers }
+      );
+    }
+
+    await establishSession(session, user, request);
+    await session.save?.();
+
+    return NextResponse.json(
+      { message: 'Login successful', user: toSessionUser(user), usedRecoveryCode: method === 'recovery' },
+      { headers: cookieResponse.headers }
+    );
+  } catch (error) {
+    console.error('Two-factor verify error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { promises as fs } from 'fs'
 import { getSession } from '@/lib/auth'
+import { authorizeRequest } from '@/lib/authorization'
 import { BackupService } from '@/lib/backup-service'
 
 export async function GET(
@@ -13,6 +14,9 @@ export async function GET(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
     const { id } = await params
     const backup = await BackupService.getBackupById(id)
     
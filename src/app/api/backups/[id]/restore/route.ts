@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@/lib/auth'
-import { BackupService } from '@/lib/backup-service'
+import { authorizeRequest } from '@/lib/authorization'
+import { BackupService, BackupVerificationError } from '@/lib/backup-service'
 
 export async function POST(
   request: NextRequest,
@@ -12,6 +13,9 @@ export async function POST(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
     const { id } = await params
     
     const backup = await BackupService.getBackupById(id)
@@ -19,17 +23,19 @@ export async function POST(
       return NextResponse.json({ error: 'Backup not found' }, { status: 404 })
     }
 
-    const isValid = await BackupService.validateBackup(backup.filePath)
-    if (!isValid) {
-      return NextResponse.json({ error: 'Invalid backup file' }, { status: 400 })
-    }
-    
-    await BackupService.restoreBackup(id)
+    // Encrypted backups need their passphrase
+    const body = await request.json().catch(() => ({}))
+    const passphrase = typeof body.passphrase === 'string' && body.passphrase ? body.passphrase : undefined
+
+    await BackupService.restoreBackup(id, passphrase)
     
     return NextResponse.json({ 
       message: 'Backup restored successfully' 
     })
   } catch (error) {
+    if (error instanceof BackupVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Restore backup error:', error)
     return NextResponse.json({ 
       error: error instanceof Error ? error.message : 'Failed to restore backup' 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@/lib/auth'
+import { authorizeRequest } from '@/lib/authorization'
 import { BackupService } from '@/lib/backup-service'
 
 export async function DELETE(
@@ -12,6 +13,9 @@ export async function DELETE(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
     const { id } = await params
     
     await BackupService.deleteBackup(id)
@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
 import { getSession } from '@/lib/auth'
+import { authorizeRequest } from '@/lib/authorization'
 import { BackupService } from '@/lib/backup-service'
+import { NotificationCenterService } from '@/lib/notification-center-service'
+import { WebhookService } from '@/lib/webhook-service'
+
+const createBackupSchema = z.object({
+  compress: z.boolean().optional(),
+  passphrase: z.string().min(8, 'The passphrase needs at least 8 characters').max(200).optional()
+})
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,6 +18,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
     const backups = await BackupService.listBackups()
     const stats = await BackupService.getBackupStats()
     
@@ -31,7 +43,19 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
-    const backup = await BackupService.createBackup()
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = createBackupSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const backup = await BackupService.createBackup({
+      compress: parsed.data.compress,
+      passphrase: parsed.data.passphrase || undefined
+    })
     
     // Try to upload to enabled cloud storage providers
     try {
@@ -40,6 +64,18 @@ export async function POST(request: NextRequest) {
     } catch (error) {
       console.error('Cloud upload failed (backup still created locally):', error)
     }
+
+    await WebhookService.emitToAllFamilies('backup.completed', {
+      name: backup.name,
+      size: backup.size,
+      created_at: backup.created_at,
+      scheduled: false,
+    })
+    await NotificationCenterService.notifyAdministrators(
+      'backup_completed',
+      { name: backup.name, size: backup.size },
+      { link: '/backups', excludeUserIds: [session.user.id] }
+    )
     
     return NextResponse.json({ 
       message: 'Backup created successfully', 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { getSession } from '@/lib/auth'
+import { authorizeRequest } from '@/lib/authorization'
 import { BackupScheduler, type BackupFrequency } from '@/lib/backup-scheduler'
 
 const scheduleSchema = z.object({
@@ -15,6 +16,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
     const scheduler = BackupScheduler.getInstance()
     const config = await scheduler.getScheduleConfig()
     
@@ -32,6 +36,9 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
     const body = await request.json()
     const { frequency, time } = scheduleSchema.parse(body)
     
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@/lib/auth'
-import { BackupService } from '@/lib/backup-service'
-import { writeFile } from 'fs/promises'
-import path from 'path'
+import { authorizeRequest } from '@/lib/authorization'
+import { BackupService, BackupVerificationError } from '@/lib/backup-service'
+
+const BACKUP_EXTENSIONS = ['.db.gz.enc', '.db.enc', '.db.gz', '.db']
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,6 +12,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
     const data = await request.formData()
     const file: File | null = data.get('backup') as unknown as File
 
@@ -18,9 +22,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No file uploaded' }, { status: 400 })
     }
 
-    // Validate file type (should be .db)
-    if (!file.name.endsWith('.db')) {
-      return NextResponse.json({ error: 'Invalid file type. Only .db files are allowed.' }, { status: 400 })
+    // Validate file type: a database, possibly gzipped (.gz) and encrypted (.enc)
+    const extension = BACKUP_EXTENSIONS.find(ext => file.name.endsWith(ext))
+    if (!extension) {
+      return NextResponse.json({ error: 'Invalid file type. Only .db, .db.gz and .enc backup files are allowed.' }, { status: 400 })
     }
 
     // Validate file size (max 100MB)
@@ -35,16 +40,26 @@ export async function POST(request: NextRequest) {
     // Generate unique filename
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
     const backupId = `uploaded-backup-${timestamp}`
-    const fileName = `uploaded-${file.name.replace(/[^a-zA-Z0-9.-]/g, '-')}-${timestamp}.db`
+    const baseName = file.name.slice(0, -extension.length).replace(/[^a-zA-Z0-9.-]/g, '-')
+    const fileName = `uploaded-${baseName}-${timestamp}${extension}`
+    const passphrase = data.get('passphrase')
     
     // Save the uploaded backup using BackupService
-    const backupInfo = await BackupService.saveUploadedBackup(buffer, backupId, fileName)
+    const backupInfo = await BackupService.saveUploadedBackup(
+      buffer,
+      backupId,
+      fileName,
+      typeof passphrase === 'string' && passphrase ? passphrase : undefined
+    )
     
     return NextResponse.json({ 
       message: 'Backup uploaded successfully', 
       backup: backupInfo 
     })
   } catch (error) {
+    if (error instanceof BackupVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Upload backup error:', error)
     return NextResponse.json({ 
       error: error instanceof Error ? error.message : 'Failed to upload backup' 
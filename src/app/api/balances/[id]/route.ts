@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { BalanceService, AccountService } from "@/lib/db-operations";
 import { getSession } from "@/lib/auth";
+import { authorizeRequest } from "@/lib/authorization";
+import { AccountAccessService } from "@/lib/account-access-service";
+import { AlertService } from "@/lib/alert-service";
 
 const updateBalanceSchema = z.object({
   account_id: z.number(),
@@ -16,18 +19,33 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { id } = await params;
     const balanceId = parseInt(id);
     const body = await request.json();
-    const { account_id, amount, date } = updateBalanceSchema.parse(body);
+    const { amount, date } = updateBalanceSchema.parse(body);
 
-    const account = await AccountService.getAccountById(account_id);
-    if (!account || account.family_id !== session.user.family_id) {
-      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    // Balances stay with their account; account_id in the body is not used to move them
+    const balance = await BalanceService.getBalanceById(balanceId);
+    const account = balance ? await AccountService.getAccountById(balance.account_id) : null;
+    const access = await AccountAccessService.getAccess(account, session.user);
+    if (!balance || !access) {
+      return NextResponse.json({ error: "Balance not found" }, { status: 404 });
+    }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: "You can only view this account" }, { status: 403 });
     }
 
     await BalanceService.updateBalance(balanceId, amount, date);
 
+    try {
+      await AlertService.evaluateFamily(session.user.family_id);
+    } catch (e) {
+      console.error("Failed to evaluate alerts:", e);
+    }
+
     return NextResponse.json({ message: "Balance updated successfully" });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -49,9 +67,22 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
       return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { id } = await params;
     const balanceId = parseInt(id);
 
+    const balance = await BalanceService.getBalanceById(balanceId);
+    const account = balance ? await AccountService.getAccountById(balance.account_id) : null;
+    const access = await AccountAccessService.getAccess(account, session.user);
+    if (!balance || !access) {
+      return NextResponse.json({ error: "Balance not found" }, { status: 404 });
+    }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: "You can only view this account" }, { status: 403 });
+    }
+
     await BalanceService.deleteBalance(balanceId);
 
     return NextResponse.json({ message: "Balance deleted successfully" });
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { BalanceService, AccountService } from '@/lib/db-operations';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { AccountAccessService } from '@/lib/account-access-service';
+import { AlertService } from '@/lib/alert-service';
+import { WebhookService } from '@/lib/webhook-service';
 
 const createBalanceSchema = z.object({
   account_id: z.number(),
@@ -16,19 +20,22 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const url = new URL(request.url);
     const accountId = url.searchParams.get('account_id');
 
     if (accountId) {
       const account = await AccountService.getAccountById(parseInt(accountId));
-      if (!account || account.family_id !== session.user.family_id) {
+      if (!(await AccountAccessService.getAccess(account, session.user))) {
         return NextResponse.json({ error: 'Account not found' }, { status: 404 });
       }
       
       const balances = await BalanceService.getBalancesByAccountId(parseInt(accountId));
       return NextResponse.json(balances);
     } else {
-      const balances = await BalanceService.getBalancesByFamilyId(session.user.family_id);
+      const balances = await BalanceService.getBalancesByFamilyId(session.user.family_id, session.user);
       return NextResponse.json(balances);
     }
   } catch (error) {
@@ -44,15 +51,37 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const body = await request.json();
     const { account_id, amount, date } = createBalanceSchema.parse(body);
 
     const account = await AccountService.getAccountById(account_id);
-    if (!account || account.family_id !== session.user.family_id) {
+    const access = await AccountAccessService.getAccess(account, session.user);
+    if (!account || !access) {
       return NextResponse.json({ error: 'Account not found' }, { status: 404 });
     }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: 'You can only view this account' }, { status: 403 });
+    }
 
     const balanceId = await BalanceService.createBalance(account_id, amount, date);
+    // Webhooks go to the whole family's integrations, so private accounts stay out of them
+    if (account.family_access !== 'none') await WebhookService.emit(session.user.family_id, 'balance.created', {
+      balance_id: balanceId,
+      account_id,
+      account_name: account.name,
+      amount,
+      currency: account.currency,
+      date,
+    });
+
+    try {
+      await AlertService.evaluateFamily(session.user.family_id);
+    } catch (e) {
+      console.error('Failed to evaluate alerts:', e);
+    }
 
     return NextResponse.json({ message: 'Balance created successfully', balanceId });
   } catch (error) {
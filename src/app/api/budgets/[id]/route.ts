@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { BudgetService } from '@/lib/budget-service';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const familyId = session.user.family_id;
+    const existing = await BudgetService.getBudgetById(parseInt(id), familyId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const updates = {
+      ...(body.category_id !== undefined && { category_id: Number(body.category_id) }),
+      ...(body.amount !== undefined && { amount: Number(body.amount) }),
+      ...(body.rollover !== undefined && { rollover: !!body.rollover }),
+      ...(body.start_month !== undefined && { start_month: body.start_month }),
+      ...(body.scope !== undefined && {
+        scope: body.scope,
+        user_id: body.user_id != null ? Number(body.user_id) : null,
+        account_ids: Array.isArray(body.account_ids) ? body.account_ids.map(Number) : null,
+      }),
+    };
+
+    const validationError = await BudgetService.validate(familyId, { ...existing, ...updates }, session.user);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await BudgetService.updateBudget(existing.id, familyId, updates);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if ((error as Error).message?.includes('UNIQUE')) {
+      return NextResponse.json({ error: 'A budget for this category already exists' }, { status: 409 });
+    }
+    console.error('Error updating budget:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    await BudgetService.deleteBudget(parseInt(id), session.user.family_id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting budget:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { BudgetService } from '@/lib/budget-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+
+    if (!month || !/^\d{4}-\d{2}$/.test(month)) {
+      return NextResponse.json({ error: 'month parameter is required (YYYY-MM format)' }, { status: 400 });
+    }
+
+    const progress = await BudgetService.getBudgetProgress(session.user.family_id, month, session.user);
+    return NextResponse.json(progress);
+  } catch (error) {
+    console.error('Error fetching budget progress:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
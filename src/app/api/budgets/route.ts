@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { BudgetService } from '@/lib/budget-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const budgets = await BudgetService.getBudgetsByFamily(session.user.family_id);
+    return NextResponse.json(budgets);
+  } catch (error) {
+    console.error('Error fetching budgets:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const familyId = session.user.family_id;
+    const body = await request.json();
+    const data = {
+      category_id: Number(body.category_id),
+      amount: Number(body.amount),
+      rollover: !!body.rollover,
+      scope: body.scope || 'family',
+      user_id: body.user_id != null ? Number(body.user_id) : null,
+      account_ids: Array.isArray(body.account_ids) ? body.account_ids.map(Number) : null,
+      start_month: body.start_month,
+    };
+
+    const validationError = await BudgetService.validate(familyId, data, session.user);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const id = await BudgetService.createBudget(familyId, data);
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (error) {
+    if ((error as Error).message?.includes('UNIQUE')) {
+      return NextResponse.json({ error: 'A budget for this category already exists' }, { status: 409 });
+    }
+    console.error('Error creating budget:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
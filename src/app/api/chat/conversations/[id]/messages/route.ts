@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { ChatService } from '@/lib/chat-service';
 import type { ChatMessageRole } from '@/types';
 
@@ -13,6 +14,9 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { id } = await params;
     const conversationId = Number(id);
     const conversation = await ChatService.getConversationById(conversationId);
@@ -39,6 +43,9 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { id } = await params;
     const conversationId = Number(id);
     const conversation = await ChatService.getConversationById(conversationId);
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/database';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { ExchangeRateService } from '@/lib/exchange-rate-service';
+import { AccountAccessService } from '@/lib/account-access-service';
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,21 +12,28 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const db = await getDatabase();
+    const converter = await ExchangeRateService.getConverter(session.user.family_id);
+    // Same accounts as the dashboard totals: the visible ones and those shared as an aggregate
+    const visible = AccountAccessService.visibleCondition(session.user);
     
     // Get all balance records with their dates
     const balanceRecords = await db.all(`
       SELECT 
         DATE(b.date) as date,
         a.category,
+        a.currency,
         b.amount,
         b.account_id,
         ROW_NUMBER() OVER (PARTITION BY b.account_id, DATE(b.date) ORDER BY b.created_at DESC) as rn
       FROM balances b
       JOIN accounts a ON b.account_id = a.id
-      WHERE a.family_id = ?
+      WHERE a.family_id = ? AND (${visible.sql} OR a.count_in_family_totals = 1)
       ORDER BY DATE(b.date) ASC
-    `, [session.user.family_id]);
+    `, [session.user.family_id, ...visible.params]);
 
     // Filter to get only the latest balance per account per date
     const latestBalances = balanceRecords.filter((record: any) => record.rn === 1);
@@ -50,8 +60,9 @@ export async function GET(request: NextRequest) {
       latestBalances
         .filter((record: any) => record.date === dateStr)
         .forEach((record: any) => {
+          // Totals are in the family base currency, using the rate nearest the balance date
           accountBalances.set(record.account_id, {
-            amount: record.amount,
+            amount: converter.convert(record.amount, record.currency, record.date),
             category: record.category
           });
         });
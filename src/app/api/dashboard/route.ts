@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { BalanceService } from '@/lib/db-operations';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,7 +10,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
-    const dashboardData = await BalanceService.getDashboardData(session.user.family_id);
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const dashboardData = await BalanceService.getDashboardData(session.user.family_id, session.user);
     return NextResponse.json(dashboardData);
   } catch (error) {
     console.error('Get dashboard data error:', error);
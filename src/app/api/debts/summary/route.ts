@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { amortizationService } from '@/lib/amortization-service';
 
 export async function GET(request: NextRequest) {
@@ -9,7 +10,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
-    const summaries = await amortizationService.getDebtSummaries(session.user.family_id);
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const summaries = await amortizationService.getDebtSummaries(session.user.family_id, session.user);
     
     return NextResponse.json({ summaries });
   } catch (error) {
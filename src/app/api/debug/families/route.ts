@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/database';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 
 export async function GET(request: NextRequest) {
   try {
+    const session = await getSession(request);
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const db = await getDatabase();
     const families = await db.all(`
       SELECT family_id, COUNT(*) as member_count 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AccountService, BalanceService } from '@/lib/db-operations';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,9 +10,12 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const [accounts, balances] = await Promise.all([
-      AccountService.getAccountsByFamilyId(session.user.family_id),
-      BalanceService.getBalancesByFamilyId(session.user.family_id)
+      AccountService.getAccountsByFamilyId(session.user.family_id, session.user),
+      BalanceService.getBalancesByFamilyId(session.user.family_id, session.user)
     ]);
 
     const accountMap = new Map(accounts.map(acc => [acc.id, acc]));
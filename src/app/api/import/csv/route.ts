@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { AccountService, BalanceService } from '@/lib/db-operations';
+import { AccountAccessService } from '@/lib/account-access-service';
+import { AlertService } from '@/lib/alert-service';
+import { NotificationCenterService } from '@/lib/notification-center-service';
+import { WebhookService } from '@/lib/webhook-service';
 
 interface CSVRow {
   accountName: string;
@@ -16,6 +21,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const formData = await request.formData();
     const file = formData.get('csvFile') as File;
     
@@ -78,9 +86,10 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Get family accounts
-    const accounts = await AccountService.getAccountsByFamilyId(session.user.family_id);
-    const accountMap = new Map(accounts.map(acc => [acc.name.toLowerCase(), acc.id]));
+    // Family accounts the member may record balances in
+    const accounts = (await AccountService.getAccountsByFamilyId(session.user.family_id, session.user))
+      .filter(account => AccountAccessService.canEdit(account.access));
+    const accountMap = new Map(accounts.map(acc => [acc.name.toLowerCase(), acc]));
 
     // Process imports
     const importResults = {
@@ -91,16 +100,24 @@ export async function POST(request: NextRequest) {
 
     for (const row of csvData) {
       try {
-        const accountId = accountMap.get(row.accountName.toLowerCase());
+        const account = accountMap.get(row.accountName.toLowerCase());
         
-        if (!accountId) {
+        if (!account) {
           importResults.failed++;
           importResults.errors.push(`Account "${row.accountName}" not found`);
           continue;
         }
 
-        await BalanceService.createBalance(accountId, row.amount, row.date);
+        const balanceId = await BalanceService.createBalance(account.id, row.amount, row.date);
         importResults.successful++;
+        if (account.family_access !== 'none') await WebhookService.emit(session.user.family_id, 'balance.created', {
+          balance_id: balanceId,
+          account_id: account.id,
+          account_name: account.name,
+          amount: row.amount,
+          currency: account.currency,
+          date: row.date,
+        });
         
       } catch (error) {
         importResults.failed++;
@@ -108,6 +125,20 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (importResults.successful > 0) {
+      try {
+        await AlertService.evaluateFamily(session.user.family_id);
+      } catch (e) {
+        console.error('Failed to evaluate alerts:', e);
+      }
+      await NotificationCenterService.notifyFamily(
+        session.user.family_id,
+        'balance_import_completed',
+        { actor: session.user.name, count: importResults.successful },
+        { link: '/history', excludeUserIds: [session.user.id] }
+      );
+    }
+
     return NextResponse.json({
       message: 'Import completed',
       results: importResults
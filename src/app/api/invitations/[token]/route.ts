@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, toSessionUser } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { UserService } from '@/lib/db-operations';
+import { InvitationService } from '@/lib/invitation-service';
+
+const INVALID_INVITATION = 'This invitation is invalid, was already used or has expired';
+
+/**
+ * What the invitation leads to, shown before joining. Open to anyone holding the
+ * link or code, signed in or not.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const invitation = await InvitationService.findPending(token);
+    if (!invitation) {
+      return NextResponse.json({ error: INVALID_INVITATION }, { status: 404 });
+    }
+
+    return NextResponse.json(await InvitationService.getPreview(invitation));
+  } catch (error) {
+    console.error('Invitation preview error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Moves the signed-in user into the invitation's family, with the invitation's role
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const cookieResponse = new NextResponse();
+    const session = await getSession(request, cookieResponse);
+    const user = session.user?.id ? await UserService.getUserById(session.user.id) : null;
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { token } = await params;
+    const invitation = await InvitationService.findPending(token);
+    if (!invitation) {
+      return NextResponse.json({ error: INVALID_INVITATION }, { status: 404 });
+    }
+
+    const joinError = await InvitationService.checkCanJoin(invitation, user);
+    if (joinError) {
+      return NextResponse.json({ error: joinError }, { status: 400 });
+    }
+
+    if (!(await InvitationService.join(invitation, user, session.sessionId))) {
+      return NextResponse.json({ error: INVALID_INVITATION }, { status: 404 });
+    }
+
+    session.user = toSessionUser({ ...user, family_id: invitation.family_id, role: invitation.role });
+    await session.save?.();
+
+    return NextResponse.json(
+      { user: session.user },
+      { headers: cookieResponse.headers }
+    );
+  } catch (error) {
+    console.error('Accept invitation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { getSession } from '@/lib/auth'
+import { authorizeRequest } from '@/lib/authorization'
 import { UserService } from '@/lib/db-operations'
+import { FamilyService } from '@/lib/family-service'
 import { canDeleteUser, canChangeUserRole, PermissionError } from '@/lib/permissions'
 import type { UserRole } from '@/types'
 
@@ -15,6 +17,9 @@ export async function DELETE(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
     const { id } = await params
     const memberId = parseInt(id)
 
@@ -31,6 +36,13 @@ export async function DELETE(
       }, { status: 403 })
     }
 
+    const family = await FamilyService.getFamily(session.user.family_id)
+    if (family?.owner_id === memberId) {
+      return NextResponse.json({ 
+        error: 'The family owner cannot be removed. Transfer ownership first.' 
+      }, { status: 400 })
+    }
+
     await UserService.deleteUser(memberId)
     
     return NextResponse.json({ 
@@ -58,6 +70,9 @@ export async function PUT(
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
     const { id } = await params
     const memberId = parseInt(id)
     const body = await request.json()
@@ -76,6 +91,14 @@ export async function PUT(
       }, { status: 403 })
     }
 
+    // The owner stays an administrator until ownership is transferred
+    const family = await FamilyService.getFamily(session.user.family_id)
+    if (family?.owner_id === memberId && role !== 'administrator') {
+      return NextResponse.json({ 
+        error: 'The family owner must remain an administrator. Transfer ownership first.' 
+      }, { status: 400 })
+    }
+
     await UserService.updateUserRole(memberId, role as UserRole)
     
     return NextResponse.json({ 
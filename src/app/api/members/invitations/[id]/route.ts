@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth'
+import { authorizeRequest } from '@/lib/authorization'
+import { InvitationService } from '@/lib/invitation-service'
+import { canManageUsers } from '@/lib/permissions'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request)
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
+    if (!canManageUsers(session.user)) {
+      return NextResponse.json({ error: 'Insufficient permissions to manage invitations' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const revoked = await InvitationService.revokeInvitation(parseInt(id), session.user)
+    if (!revoked) {
+      return NextResponse.json({ error: 'Invitation not found or no longer pending' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Invitation revoked' })
+  } catch (error) {
+    console.error('Revoke invitation error:', error)
+    return NextResponse.json({ error: 'Failed to revoke invitation' }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth'
+import { authorizeRequest } from '@/lib/authorization'
+import { InvitationService } from '@/lib/invitation-service'
+import { canManageUsers } from '@/lib/permissions'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
+    if (!canManageUsers(session.user)) {
+      return NextResponse.json({ error: 'Insufficient permissions to manage invitations' }, { status: 403 })
+    }
+
+    const invitations = await InvitationService.getInvitations(session.user.family_id)
+    return NextResponse.json({ invitations })
+  } catch (error) {
+    console.error('Get invitations error:', error)
+    return NextResponse.json({ error: 'Failed to get invitations' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
+    if (!canManageUsers(session.user)) {
+      return NextResponse.json({ error: 'Insufficient permissions to manage invitations' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const data = {
+      role: body.role,
+      expires_in_days: body.expires_in_days ?? undefined,
+    }
+
+    const validationError = InvitationService.validate(data)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const invitation = await InvitationService.createInvitation(session.user, data)
+    return NextResponse.json({ invitation }, { status: 201 })
+  } catch (error) {
+    console.error('Create invitation error:', error)
+    return NextResponse.json({ error: 'Failed to create invitation' }, { status: 500 })
+  }
+}
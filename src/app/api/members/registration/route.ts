@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@/lib/auth'
+import { authorizeRequest } from '@/lib/authorization'
 import { SettingsService } from '@/lib/settings-service'
 import { canToggleRegistration } from '@/lib/permissions'
 
@@ -10,6 +11,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
     const enabled = await SettingsService.isRegistrationEnabled()
     
     return NextResponse.json({ enabled })
@@ -26,6 +30,9 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
     }
 
+    const denied = authorizeRequest(session.user, request)
+    if (denied) return denied
+
     // Check if user has permission to toggle registration
     if (!canToggleRegistration(session.user)) {
       return NextResponse.json({ 
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NotificationPreferencesService } from '@/lib/notification-preferences-service';
+import type { NotificationLocale, NotificationType } from '@/types';
+
+// Opened from the unsubscribe link in report emails, without a session: the signed
+// token identifies the user and the kind of email.
+
+const messages: Record<NotificationLocale, { title: string; body: Record<NotificationType, string>; settings: string; invalid: string }> = {
+  en: {
+    title: 'You have been unsubscribed',
+    body: {
+      weekly: 'You will no longer receive the weekly report.',
+      monthly: 'You will no longer receive the monthly report.',
+      yearly: 'You will no longer receive the annual report.',
+      alerts: 'You will no longer receive alert emails.'
+    },
+    settings: 'You can turn it back on at any time in Settings.',
+    invalid: 'This unsubscribe link is invalid.'
+  },
+  es: {
+    title: 'Te has dado de baja',
+    body: {
+      weekly: 'Ya no recibirás el reporte semanal.',
+      monthly: 'Ya no recibirás el resumen mensual.',
+      yearly: 'Ya no recibirás el resumen anual.',
+      alerts: 'Ya no recibirás correos de alertas.'
+    },
+    settings: 'Puedes volver a activarlo cuando quieras en Configuración.',
+    invalid: 'Este enlace para darse de baja no es válido.'
+  }
+};
+
+function page(title: string, body: string, status: number): NextResponse {
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>${title}</title></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f8fafc; color: #1e293b; display: flex; justify-content: center; padding: 48px 16px;">
+  <div style="max-width: 480px; background: white; border-radius: 12px; padding: 32px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.05);">
+    <h1 style="font-size: 20px; margin: 0 0 12px;">${title}</h1>
+    <p style="margin: 0; color: #475569;">${body}</p>
+  </div>
+</body>
+</html>`;
+  return new NextResponse(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+async function unsubscribe(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const subscription = NotificationPreferencesService.verifyUnsubscribeToken(searchParams.get('token') || '');
+  if (!subscription) {
+    return null;
+  }
+
+  const preferences = await NotificationPreferencesService.unsubscribe(subscription.userId, subscription.type);
+  return { ...subscription, locale: preferences.locale };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const result = await unsubscribe(request);
+    if (!result) {
+      return page(messages.en.invalid, messages.es.invalid, 400);
+    }
+
+    const t = messages[result.locale];
+    return page(t.title, `${t.body[result.type]} ${t.settings}`, 200);
+  } catch (error) {
+    console.error('Error unsubscribing:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// One-click unsubscribe from the mail client (List-Unsubscribe-Post, RFC 8058)
+export async function POST(request: NextRequest) {
+  try {
+    const result = await unsubscribe(request);
+    if (!result) {
+      return NextResponse.json({ error: 'Invalid unsubscribe link' }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error unsubscribing:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { RecurringService } from '@/lib/recurring-service';
+import { CategoryService } from '@/lib/category-service';
+import { AccountAccessService } from '@/lib/account-access-service';
+
+/**
+ * Update a recurring series: `dismissed` hides or restores it, `category_id`
+ * assigns that category to all of the series' transactions
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const familyId = session.user.family_id;
+    const series = await RecurringService.getSeriesById(parseInt(id), familyId);
+    const access = series ? await AccountAccessService.getAccountAccess(series.account_id, session.user) : null;
+    if (!series || !access) {
+      return NextResponse.json({ error: 'Recurring series not found' }, { status: 404 });
+    }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: 'You can only view this account' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    let updated = 0;
+
+    if (body.category_id !== undefined) {
+      const category = await CategoryService.getCategoryById(Number(body.category_id));
+      if (!category || category.family_id !== familyId) {
+        return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+      }
+      updated = await RecurringService.applyCategory(series.id, familyId, category.id);
+    }
+
+    if (body.dismissed !== undefined) {
+      await RecurringService.setDismissed(series.id, familyId, !!body.dismissed);
+    }
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    console.error('Error updating recurring series:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
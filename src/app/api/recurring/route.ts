@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { RecurringService } from '@/lib/recurring-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const includeDismissed = request.nextUrl.searchParams.get('includeDismissed') === 'true';
+    const series = await RecurringService.getSeriesByFamily(session.user.family_id, includeDismissed, session.user);
+    return NextResponse.json(series);
+  } catch (error) {
+    console.error('Error fetching recurring series:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
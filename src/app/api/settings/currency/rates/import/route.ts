@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { ExchangeRateService } from '@/lib/exchange-rate-service';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    const result = await ExchangeRateService.importCsv(session.user.family_id, await file.text());
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error importing exchange rates:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { ExchangeRateService } from '@/lib/exchange-rate-service';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const familyId = session.user.family_id;
+    const body = await request.json();
+    const data = {
+      date: body.date,
+      currency: typeof body.currency === 'string' ? body.currency.toUpperCase() : body.currency,
+      rate: Number(body.rate),
+    };
+
+    const baseCurrency = await ExchangeRateService.getBaseCurrency(familyId);
+    const validationError = ExchangeRateService.validateRate(data, baseCurrency);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await ExchangeRateService.saveRate(familyId, data, 'manual');
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving exchange rate:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
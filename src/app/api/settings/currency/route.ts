@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { ExchangeRateService } from '@/lib/exchange-rate-service';
+import { currencySchema } from '@/lib/validation';
+import { canManageUsers } from '@/lib/permissions';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const familyId = session.user.family_id;
+    const [baseCurrency, rates] = await Promise.all([
+      ExchangeRateService.getBaseCurrency(familyId),
+      ExchangeRateService.getRates(familyId),
+    ]);
+    return NextResponse.json({ baseCurrency, rates, canChangeBase: canManageUsers(session.user) });
+  } catch (error) {
+    console.error('Error fetching currency settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const body = await request.json();
+    const parsed = currencySchema.safeParse(body.baseCurrency);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Unsupported currency' }, { status: 400 });
+    }
+
+    await ExchangeRateService.setBaseCurrency(session.user.family_id, parsed.data);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error saving currency settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
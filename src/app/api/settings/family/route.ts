@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { UserService } from '@/lib/db-operations';
+import { FamilyService } from '@/lib/family-service';
+import { canManageUsers } from '@/lib/permissions';
+import { systemLogger } from '@/lib/system-logger';
+import type { FamilyPreferences } from '@/types';
+
+async function getFamilyResponse(familyId: number, canEdit: boolean) {
+  const [settings, family, admins] = await Promise.all([
+    FamilyService.getSettings(familyId),
+    FamilyService.getFamily(familyId),
+    UserService.getUsersByRole(familyId, 'administrator'),
+  ]);
+  return {
+    id: familyId,
+    ...settings,
+    owner_id: family?.owner_id ?? null,
+    // Ownership can only go to one of the family's administrators
+    owners: admins.map(admin => ({ id: admin.id, name: admin.name })),
+    canEdit,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    return NextResponse.json(await getFamilyResponse(session.user.family_id, canManageUsers(session.user)));
+  } catch (error) {
+    console.error('Error fetching family settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session.user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+    if (!canManageUsers(session.user)) {
+      return NextResponse.json({ error: 'Only administrators can change family settings' }, { status: 403 });
+    }
+
+    const familyId = session.user.family_id;
+    const body = await request.json();
+    const updates: Partial<FamilyPreferences> = {};
+    if (body.name !== undefined) updates.name = body.name;
+    if (body.base_currency !== undefined) updates.base_currency = body.base_currency;
+    if (body.locale !== undefined) updates.locale = body.locale;
+    if (body.timezone !== undefined) updates.timezone = body.timezone;
+    if (body.fiscal_year_start_month !== undefined) updates.fiscal_year_start_month = body.fiscal_year_start_month;
+
+    const validationError = FamilyService.validate(updates);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (body.owner_id !== undefined) {
+      const owner = await UserService.getUserById(body.owner_id);
+      if (!owner || owner.family_id !== familyId || owner.role !== 'administrator') {
+        return NextResponse.json({ error: 'The owner must be an administrator of this family' }, { status: 400 });
+      }
+    }
+
+    await FamilyService.updateSettings(familyId, updates);
+    if (body.owner_id !== undefined) {
+      await FamilyService.setOwner(familyId, body.owner_id);
+    }
+
+    await systemLogger.logSuccess(
+      'system',
+      'family_settings_updated',
+      `${session.user.email} updated the family settings`,
+      familyId,
+      session.user.id,
+      undefined,
+      { fields: [...Object.keys(updates), ...(body.owner_id !== undefined ? ['owner_id'] : [])] }
+    );
+
+    return NextResponse.json(await getFamilyResponse(familyId, true));
+  } catch (error) {
+    console.error('Error saving family settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
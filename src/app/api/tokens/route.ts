@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { ApiTokenService } from '@/lib/api-token-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const tokens = await ApiTokenService.getTokens(session.user.id);
+    return NextResponse.json(tokens);
+  } catch (error) {
+    console.error('Error fetching API tokens:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const body = await request.json();
+    const data = {
+      name: String(body.name || ''),
+      scopes: body.scopes,
+      expires_in_days: body.expires_in_days ?? null,
+    };
+
+    const validationError = ApiTokenService.validate(data, session.user.role);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { id, token } = await ApiTokenService.createToken(session.user, data);
+    return NextResponse.json({ id, token }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating API token:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
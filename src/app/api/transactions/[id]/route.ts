@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { TransactionService } from '@/lib/transaction-service';
+import { AccountAccessService } from '@/lib/account-access-service';
+import { CategoryCorrectionService } from '@/lib/category-correction-service';
 
 export async function GET(
   request: NextRequest,
@@ -12,12 +15,16 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { id } = await params;
     const transaction = await TransactionService.getTransactionById(parseInt(id));
     if (!transaction) {
       return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
     }
-    if (transaction.family_id !== session.user.family_id) {
+    const access = await AccountAccessService.getAccountAccess(transaction.account_id, session.user);
+    if (transaction.family_id !== session.user.family_id || !access) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
     return NextResponse.json(transaction);
@@ -37,23 +44,47 @@ export async function PUT(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { id } = await params;
     const transaction = await TransactionService.getTransactionById(parseInt(id));
     if (!transaction) {
       return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
     }
-    if (transaction.family_id !== session.user.family_id) {
+    const access = await AccountAccessService.getAccountAccess(transaction.account_id, session.user);
+    if (transaction.family_id !== session.user.family_id || !access) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: 'You can only view this account' }, { status: 403 });
+    }
 
     const body = await request.json();
+    if (transaction.is_split && body.category_id !== undefined) {
+      return NextResponse.json({ error: 'Split transactions are categorized through their splits' }, { status: 409 });
+    }
+
+    // Read the previous category before the update overwrites it
+    const candidates = body.category_id !== undefined
+      ? await CategoryCorrectionService.getCandidates(session.user.family_id, [transaction.id], body.category_id)
+      : [];
+
     await TransactionService.updateTransaction(parseInt(id), {
       category_id: body.category_id,
       notes: body.notes,
       is_transfer: body.is_transfer,
     });
 
-    return NextResponse.json({ success: true });
+    const correctedKeys = await CategoryCorrectionService.recordCorrections(
+      session.user.family_id, session.user.id, candidates, body.category_id
+    );
+
+    const suggestion = correctedKeys.length > 0
+      ? await CategoryCorrectionService.getSuggestionFor(session.user.family_id, correctedKeys, body.category_id, session.user)
+      : null;
+
+    return NextResponse.json({ success: true, suggestion });
   } catch (error) {
     console.error('Error updating transaction:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -70,14 +101,21 @@ export async function DELETE(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { id } = await params;
     const transaction = await TransactionService.getTransactionById(parseInt(id));
     if (!transaction) {
       return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
     }
-    if (transaction.family_id !== session.user.family_id) {
+    const access = await AccountAccessService.getAccountAccess(transaction.account_id, session.user);
+    if (transaction.family_id !== session.user.family_id || !access) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: 'You can only view this account' }, { status: 403 });
+    }
 
     await TransactionService.deleteTransaction(parseInt(id));
     return NextResponse.json({ success: true });
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { TransactionService } from '@/lib/transaction-service';
+import { AccountAccessService } from '@/lib/account-access-service';
+import type { TransactionSplitInput } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const transaction = await TransactionService.getTransactionById(parseInt(id));
+    if (!transaction) {
+      return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
+    }
+    const access = await AccountAccessService.getAccountAccess(transaction.account_id, session.user);
+    if (transaction.family_id !== session.user.family_id || !access) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const splits = await TransactionService.getSplits(transaction.id);
+    return NextResponse.json(splits);
+  } catch (error) {
+    console.error('Error fetching transaction splits:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Replace the splits of a transaction.
+ * Body: { splits: Array<{ amount, category_id, notes? }> } — amounts must add up
+ * to the transaction amount; an empty array removes the split.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const transaction = await TransactionService.getTransactionById(parseInt(id));
+    if (!transaction) {
+      return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
+    }
+    const access = await AccountAccessService.getAccountAccess(transaction.account_id, session.user);
+    if (transaction.family_id !== session.user.family_id || !access) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: 'You can only view this account' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    if (!Array.isArray(body.splits)) {
+      return NextResponse.json({ error: 'splits must be an array' }, { status: 400 });
+    }
+
+    const splits: TransactionSplitInput[] = body.splits.map((split: Record<string, unknown>) => ({
+      amount: Number(split.amount),
+      category_id: Number(split.category_id),
+      notes: split.notes != null ? String(split.notes) : null,
+    }));
+
+    if (splits.length > 0) {
+      const error = await TransactionService.validateSplits(transaction, splits);
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+      }
+    }
+
+    await TransactionService.setSplits(transaction, splits);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating transaction splits:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
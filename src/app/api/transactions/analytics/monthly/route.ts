@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { TransactionService } from '@/lib/transaction-service';
 import { CategoryService } from '@/lib/category-service';
 
@@ -10,6 +11,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
     const month = searchParams.get('month');
 
@@ -18,7 +22,7 @@ export async function GET(request: NextRequest) {
     }
 
     await CategoryService.seedDefaultCategories(session.user.family_id);
-    const summary = await TransactionService.getMonthlySummary(session.user.family_id, month);
+    const summary = await TransactionService.getMonthlySummary(session.user.family_id, month, session.user);
     return NextResponse.json(summary);
   } catch (error) {
     console.error('Error fetching monthly analytics:', error);
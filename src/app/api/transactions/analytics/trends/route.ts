@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { TransactionService } from '@/lib/transaction-service';
 import { CategoryService } from '@/lib/category-service';
 
@@ -10,11 +11,14 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
     const months = searchParams.get('months') ? parseInt(searchParams.get('months')!) : 6;
 
     await CategoryService.seedDefaultCategories(session.user.family_id);
-    const trends = await TransactionService.getTrends(session.user.family_id, months);
+    const trends = await TransactionService.getTrends(session.user.family_id, months, session.user);
     return NextResponse.json(trends);
   } catch (error) {
     console.error('Error fetching trends:', error);
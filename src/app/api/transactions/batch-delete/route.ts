@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { TransactionService } from '@/lib/transaction-service';
 
 export async function POST(request: NextRequest) {
@@ -9,6 +10,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const body = await request.json();
     const { ids } = body;
 
@@ -16,7 +20,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'ids must be a non-empty array' }, { status: 400 });
     }
 
-    const deleted = await TransactionService.batchDelete(ids, session.user.family_id);
+    const deleted = await TransactionService.batchDelete(ids, session.user.family_id, session.user);
     return NextResponse.json({ deleted });
   } catch (error) {
     console.error('Error batch deleting transactions:', error);
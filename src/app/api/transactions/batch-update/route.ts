@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { TransactionService } from '@/lib/transaction-service';
+import { CategoryCorrectionService } from '@/lib/category-correction-service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -9,6 +11,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const body = await request.json();
     const { ids, updates } = body;
 
@@ -33,8 +38,26 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
     }
 
-    const updated = await TransactionService.batchUpdate(ids, session.user.family_id, filteredUpdates);
-    return NextResponse.json({ updated });
+    const familyId = session.user.family_id;
+    const categoryId = filteredUpdates.category_id as number | null | undefined;
+    const candidates = categoryId !== undefined
+      ? await CategoryCorrectionService.getCandidates(familyId, ids, categoryId)
+      : [];
+
+    const updatedIds = await TransactionService.batchUpdate(ids, familyId, filteredUpdates, session.user);
+
+    // Only the transactions the user could edit count as corrections
+    const correctedKeys = categoryId !== undefined
+      ? await CategoryCorrectionService.recordCorrections(
+          familyId, session.user.id, candidates.filter(tx => updatedIds.includes(tx.id)), categoryId
+        )
+      : [];
+
+    const suggestion = correctedKeys.length > 0 && categoryId != null
+      ? await CategoryCorrectionService.getSuggestionFor(familyId, correctedKeys, categoryId, session.user)
+      : null;
+
+    return NextResponse.json({ updated: updatedIds.length, suggestion });
   } catch (error) {
     console.error('Error batch updating transactions:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
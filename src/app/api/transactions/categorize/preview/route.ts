@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { CategoryService } from '@/lib/category-service';
 import { AIService } from '@/lib/ai-service';
 import type { Transaction } from '@/types';
@@ -19,6 +20,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const familyId = session.user.family_id;
     const body = await request.json();
     const { transactions } = body as { transactions: PreviewTransaction[] };
@@ -48,7 +52,7 @@ export async function POST(request: NextRequest) {
     }));
 
     // Call AI categorization
-    const { categorizations: results, logs } = await AIService.categorizeTransactions(familyId, fakeTransactions, categories);
+    const { categorizations: results, logs } = await AIService.categorizeTransactions(familyId, fakeTransactions, categories, session.user);
 
     // Map results back using index
     const categorizations = results.map(r => ({
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { TransactionService } from '@/lib/transaction-service';
 import { CategoryService } from '@/lib/category-service';
 import { AIService } from '@/lib/ai-service';
+import { CategoryRuleService } from '@/lib/category-rule-service';
+import { NotificationCenterService } from '@/lib/notification-center-service';
+import { AccountAccessService } from '@/lib/account-access-service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,6 +15,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const familyId = session.user.family_id;
     const body = await request.json();
     const { transactionIds } = body;
@@ -19,16 +26,37 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'transactionIds must be a non-empty array' }, { status: 400 });
     }
 
-    // Fetch transactions
-    const transactions = [];
+    // Only transactions in accounts the member can change
+    const editable = [];
     for (const id of transactionIds) {
-      const tx = await TransactionService.getTransactionById(id);
-      if (tx && tx.family_id === familyId) {
-        transactions.push(tx);
+      const tx = await TransactionService.getTransactionById(Number(id));
+      if (tx && tx.family_id === familyId
+        && AccountAccessService.canEdit(await AccountAccessService.getAccountAccess(tx.account_id, session.user))) {
+        editable.push(tx);
       }
     }
 
+    // Categorization rules go first; only the transactions they don't match are sent to the AI
+    const { matchedIds } = editable.length > 0
+      ? await CategoryRuleService.applyToTransactions(familyId, {
+        overwrite: true,
+        transactionIds: editable.map(tx => tx.id),
+      }, session.user)
+      : { matchedIds: [] };
+    const ruleMatched = new Set(matchedIds);
+
+    // Split transactions are categorized through their splits
+    const transactions = editable.filter(tx => !ruleMatched.has(tx.id) && !tx.is_split);
+
     if (transactions.length === 0) {
+      if (ruleMatched.size > 0) {
+        return NextResponse.json({
+          categorized: 0,
+          ruleMatched: ruleMatched.size,
+          failed: 0,
+          aiLogs: [{ type: 'success', message: `${ruleMatched.size} transactions categorized by rules` }],
+        });
+      }
       return NextResponse.json({ error: 'No valid transactions found' }, { status: 404 });
     }
 
@@ -40,11 +68,14 @@ export async function POST(request: NextRequest) {
     let failed = 0;
     const batchSize = 50;
     const allLogs: Array<{ type: string; message: string }> = [];
+    if (ruleMatched.size > 0) {
+      allLogs.push({ type: 'info', message: `${ruleMatched.size} transactions categorized by rules, ${transactions.length} sent to AI` });
+    }
 
     for (let i = 0; i < transactions.length; i += batchSize) {
       const batch = transactions.slice(i, i + batchSize);
       try {
-        const { categorizations, logs } = await AIService.categorizeTransactions(familyId, batch, categories);
+        const { categorizations, logs } = await AIService.categorizeTransactions(familyId, batch, categories, session.user);
         allLogs.push(...logs);
 
         // Apply results
@@ -64,7 +95,14 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    return NextResponse.json({ categorized, failed, aiLogs: allLogs });
+    await NotificationCenterService.notifyFamily(
+      familyId,
+      'ai_categorization',
+      { actor: session.user.name, categorized, ruleMatched: ruleMatched.size, failed },
+      { link: '/transactions', excludeUserIds: [session.user.id] }
+    );
+
+    return NextResponse.json({ categorized, ruleMatched: ruleMatched.size, failed, aiLogs: allLogs });
   } catch (error) {
     console.error('Error categorizing transactions:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
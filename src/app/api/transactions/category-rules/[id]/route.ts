@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { CategoryRuleService } from '@/lib/category-rule-service';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const familyId = session.user.family_id;
+    const existing = await CategoryRuleService.getRuleById(parseInt(id), familyId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    const updates = CategoryRuleService.normalizeInput(await request.json());
+    const validationError = await CategoryRuleService.validate(familyId, { ...existing, ...updates });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await CategoryRuleService.updateRule(existing.id, familyId, updates);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating category rule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    await CategoryRuleService.deleteRule(parseInt(id), session.user.family_id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting category rule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { CategoryRuleService } from '@/lib/category-rule-service';
+
+/**
+ * Re-apply the family's categorization rules to stored transactions.
+ * Body: { overwrite?: boolean } — when true, already categorized transactions
+ * are re-categorized too. Only accounts the member can edit are touched.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const body = await request.json().catch(() => ({}));
+    const { scanned, matched } = await CategoryRuleService.applyToTransactions(session.user.family_id, {
+      overwrite: !!body.overwrite,
+    }, session.user);
+    return NextResponse.json({ scanned, matched });
+  } catch (error) {
+    console.error('Error applying category rules:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
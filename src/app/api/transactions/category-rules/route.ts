@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { CategoryRuleService, type CategoryRuleInput } from '@/lib/category-rule-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const rules = await CategoryRuleService.getRulesByFamily(session.user.family_id);
+    return NextResponse.json(rules);
+  } catch (error) {
+    console.error('Error fetching category rules:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const familyId = session.user.family_id;
+    const input = CategoryRuleService.normalizeInput(await request.json());
+
+    const validationError = await CategoryRuleService.validate(familyId, input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const id = await CategoryRuleService.createRule(familyId, input as CategoryRuleInput);
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating category rule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { CategoryCorrectionService } from '@/lib/category-correction-service';
+
+/**
+ * Stop proposing a rule. Body: { counterparty_key: string, category_id: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const body = await request.json();
+    if (typeof body.counterparty_key !== 'string' || !body.category_id) {
+      return NextResponse.json({ error: 'counterparty_key and category_id are required' }, { status: 400 });
+    }
+
+    await CategoryCorrectionService.dismissSuggestion(
+      session.user.family_id,
+      body.counterparty_key,
+      Number(body.category_id)
+    );
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error dismissing rule suggestion:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
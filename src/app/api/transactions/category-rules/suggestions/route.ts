@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { CategoryCorrectionService } from '@/lib/category-correction-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const suggestions = await CategoryCorrectionService.getSuggestions(session.user.family_id, session.user);
+    return NextResponse.json(suggestions);
+  } catch (error) {
+    console.error('Error fetching rule suggestions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Accept a suggestion, creating its rule.
+ * Body: { counterparty_key: string, category_id: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const body = await request.json();
+    if (typeof body.counterparty_key !== 'string' || !body.category_id) {
+      return NextResponse.json({ error: 'counterparty_key and category_id are required' }, { status: 400 });
+    }
+
+    const result = await CategoryCorrectionService.acceptSuggestion(
+      session.user.family_id,
+      body.counterparty_key,
+      Number(body.category_id),
+      session.user
+    );
+    if (!result) {
+      return NextResponse.json({ error: 'Suggestion not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Error accepting rule suggestion:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { ImportProfileService } from '@/lib/import-profile-service';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const familyId = session.user.family_id;
+    const existing = await ImportProfileService.getProfileById(parseInt(id), familyId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Import profile not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validationError = ImportProfileService.validate({ ...existing, ...body });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await ImportProfileService.updateProfile(existing.id, familyId, body);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating import profile:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    await ImportProfileService.deleteProfile(parseInt(id), session.user.family_id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting import profile:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { ImportProfileService } from '@/lib/import-profile-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const profiles = await ImportProfileService.getProfilesByFamily(session.user.family_id);
+    return NextResponse.json(profiles);
+  } catch (error) {
+    console.error('Error fetching import profiles:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const body = await request.json();
+    const validationError = ImportProfileService.validate(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const id = await ImportProfileService.createProfile(session.user.family_id, {
+      name: body.name.trim(),
+      delimiter: body.delimiter,
+      date_format: body.date_format,
+      decimal_separator: body.decimal_separator,
+      column_mapping: body.column_mapping,
+      default_currency: body.default_currency || 'EUR',
+    });
+
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (error) {
+    if ((error as Error).message?.includes('UNIQUE')) {
+      return NextResponse.json({ error: 'A profile with this name already exists' }, { status: 409 });
+    }
+    console.error('Error creating import profile:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
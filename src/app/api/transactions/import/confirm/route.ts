@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
-import { TransactionService } from '@/lib/transaction-service';
-import { BalanceService } from '@/lib/db-operations';
+import { authorizeRequest } from '@/lib/authorization';
+import { TransactionService, type CreateTransactionInput } from '@/lib/transaction-service';
+import { AccountService, BalanceService } from '@/lib/db-operations';
+import { AccountAccessService } from '@/lib/account-access-service';
+import { RecurringService } from '@/lib/recurring-service';
+import { CategoryRuleService } from '@/lib/category-rule-service';
+import { TransferPairService } from '@/lib/transfer-pair-service';
+import { AlertService } from '@/lib/alert-service';
+import { NotificationCenterService } from '@/lib/notification-center-service';
+import { WebhookService } from '@/lib/webhook-service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,14 +18,25 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const body = await request.json();
-    const { accountId, transactions, source } = body;
+    const { accountId, transactions, source, closingBalance } = body;
 
     if (!accountId || !Array.isArray(transactions) || transactions.length === 0) {
       return NextResponse.json({ error: 'accountId and transactions array are required' }, { status: 400 });
     }
 
-    const inputs = transactions.map((t: any) => ({
+    const access = await AccountAccessService.getAccountAccess(accountId, session.user);
+    if (!access) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: 'You can only view this account' }, { status: 403 });
+    }
+
+    const inputs: CreateTransactionInput[] = transactions.map((t: any) => ({
       accountId,
       familyId: session.user!.family_id!,
       parsed: {
@@ -30,13 +49,22 @@ export async function POST(request: NextRequest) {
         movementType: t.movementType || undefined,
         balanceAfter: t.balanceAfter || undefined,
         observations: t.observations || undefined,
+        externalId: t.externalId || undefined,
       },
       isTransfer: t.isTransfer || false,
       categoryId: t.categoryId || null,
       source: source || 'csv',
     }));
 
-    const result = await TransactionService.createTransactions(inputs);
+    // Transactions left uncategorized in the preview go through the categorization rules
+    const ruleCategories = await CategoryRuleService.categorizeParsed(
+      session.user.family_id,
+      accountId,
+      inputs.map(input => input.parsed)
+    );
+    const result = await TransactionService.createTransactions(
+      inputs.map((input, i) => ({ ...input, categoryId: input.categoryId || ruleCategories[i] }))
+    );
 
     // Extract daily balances from imported transactions
     // For each date, keep only the last balanceAfter value
@@ -47,6 +75,11 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Statement formats (OFX, CAMT.053) report an authoritative closing balance
+    if (closingBalance?.date && closingBalance.amount != null && !isNaN(closingBalance.amount)) {
+      dailyBalances.set(closingBalance.date, Number(closingBalance.amount));
+    }
+
     // Upsert balance records (one per day)
     for (const [date, amount] of dailyBalances) {
       try {
@@ -56,6 +89,45 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // New transactions may start or extend recurring series, or complete a transfer
+    if (result.saved > 0) {
+      try {
+        await RecurringService.detectRecurring(session.user.family_id);
+      } catch (e) {
+        console.error('Failed to detect recurring transactions:', e);
+      }
+      try {
+        await TransferPairService.matchTransfers(session.user.family_id);
+      } catch (e) {
+        console.error('Failed to match transfer pairs:', e);
+      }
+    }
+
+    try {
+      await AlertService.evaluateFamily(session.user.family_id);
+    } catch (e) {
+      console.error('Failed to evaluate alerts:', e);
+    }
+
+    const account = await AccountService.getAccountById(accountId);
+    // Imports into private accounts are not announced to the family or its webhooks
+    if (result.saved > 0 && account?.family_access !== 'none') {
+      await WebhookService.emit(session.user.family_id, 'transaction.imported', {
+        account_id: accountId,
+        account_name: account?.name || null,
+        source: source || 'csv',
+        saved: result.saved,
+        duplicates: result.duplicates,
+        errors: result.errors,
+      });
+      await NotificationCenterService.notifyFamily(
+        session.user.family_id,
+        'import_completed',
+        { actor: session.user.name, account: account?.name || '', saved: result.saved, duplicates: result.duplicates },
+        { link: '/transactions', excludeUserIds: [session.user.id] }
+      );
+    }
+
     return NextResponse.json(result);
   } catch (error) {
     console.error('Error confirming import:', error);
@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
-import { detectAndParse } from '@/lib/parsers';
+import { authorizeRequest } from '@/lib/authorization';
+import { detectAndParse, inspectCsv } from '@/lib/parsers';
 import { TransactionService } from '@/lib/transaction-service';
 import { CategoryService } from '@/lib/category-service';
 import { TransferRuleService } from '@/lib/transfer-rule-service';
+import { CategoryRuleService } from '@/lib/category-rule-service';
+import { ImportProfileService } from '@/lib/import-profile-service';
+import { AccountService } from '@/lib/db-operations';
+import { AccountAccessService } from '@/lib/account-access-service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,6 +17,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const familyId = session.user.family_id;
     await CategoryService.seedDefaultCategories(familyId);
     await TransferRuleService.seedDefaultRules(familyId);
@@ -19,6 +27,7 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const file = formData.get('csvFile') as File;
     const accountIdStr = formData.get('accountId') as string;
+    const profileIdStr = formData.get('profileId') as string | null;
 
     if (!file) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
@@ -28,18 +37,51 @@ export async function POST(request: NextRequest) {
     }
 
     const accountId = parseInt(accountIdStr);
-    const csvText = await file.text();
+    const access = await AccountAccessService.getAccountAccess(accountId, session.user);
+    if (!access) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+    if (!AccountAccessService.canEdit(access)) {
+      return NextResponse.json({ error: 'You can only view this account' }, { status: 403 });
+    }
+    // Spanish bank exports (Norma 43, many CSVs) are often ISO-8859-1 rather than UTF-8
+    const buffer = Buffer.from(await file.arrayBuffer());
+    let csvText = buffer.toString('utf-8');
+    if (csvText.includes('\uFFFD')) {
+      csvText = buffer.toString('latin1');
+    }
 
-    // Parse CSV
-    const parseResult = detectAndParse(csvText);
+    // Parse CSV: an explicitly chosen profile wins, otherwise auto-detect
+    let parseResult;
+    if (profileIdStr) {
+      const profile = await ImportProfileService.getProfileById(parseInt(profileIdStr), familyId);
+      if (!profile) {
+        return NextResponse.json({ error: 'Import profile not found' }, { status: 404 });
+      }
+      parseResult = ImportProfileService.toParser(profile).parse(csvText);
+    } else {
+      const profileParsers = await ImportProfileService.getParsersForFamily(familyId);
+      parseResult = detectAndParse(csvText, profileParsers);
+    }
 
     if (parseResult.detectedFormat === 'unknown') {
+      // Return the sniffed layout so the user can map the columns into a new profile
       return NextResponse.json({
         error: 'Unrecognized CSV format',
         errors: parseResult.errors,
+        inspection: inspectCsv(csvText),
       }, { status: 400 });
     }
 
+    // Statements that identify their account: warn when it is not the one selected
+    let matchedAccount: { id: number; name: string } | null = null;
+    if (parseResult.accountReference) {
+      const account = await AccountService.findAccountByStatementReference(familyId, parseResult.accountReference, session.user);
+      if (account && account.id !== accountId) {
+        matchedAccount = { id: account.id, name: account.name };
+      }
+    }
+
     // Check duplicates
     const { newTransactions, duplicates } = await TransactionService.checkDuplicates(
       accountId,
@@ -49,15 +91,23 @@ export async function POST(request: NextRequest) {
     // Mark transfers
     const markedTransactions = await TransactionService.markTransfers(familyId, newTransactions);
 
+    // Categorization rules pre-fill categories, so only the rest need AI
+    const ruleCategories = await CategoryRuleService.categorizeParsed(familyId, accountId, newTransactions);
+
     return NextResponse.json({
       format: parseResult.detectedFormat,
       totalParsed: parseResult.transactions.length,
       newCount: newTransactions.length,
       duplicateCount: duplicates.length,
       parseErrors: parseResult.errors,
-      transactions: markedTransactions.map(t => ({
+      openingBalance: parseResult.openingBalance,
+      closingBalance: parseResult.closingBalance,
+      accountReference: parseResult.accountReference,
+      matchedAccount,
+      transactions: markedTransactions.map((t, i) => ({
         ...t.transaction,
         isTransfer: t.isTransfer,
+        categoryId: ruleCategories[i],
       })),
       duplicates: duplicates,
     });
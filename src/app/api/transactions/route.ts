@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
 import { TransactionService } from '@/lib/transaction-service';
 import { CategoryService } from '@/lib/category-service';
 import { TransferRuleService } from '@/lib/transfer-rule-service';
@@ -11,6 +12,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const familyId = session.user.family_id;
 
     // Ensure categories and rules are seeded
@@ -28,6 +32,7 @@ export async function GET(request: NextRequest) {
       search: searchParams.get('search') || undefined,
       page: searchParams.get('page') ? parseInt(searchParams.get('page')!) : 1,
       limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : 50,
+      viewer: session.user,
     };
 
     const result = await TransactionService.getTransactions(familyId, filters);
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { TransferPairService } from '@/lib/transfer-pair-service';
+
+/**
+ * Confirm or reject a pair. Body: { status: 'confirmed' | 'rejected' }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const pair = await TransferPairService.getPairById(parseInt(id), session.user.family_id, session.user);
+    if (!pair || pair.status === 'rejected') {
+      return NextResponse.json({ error: 'Transfer pair not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    if (body.status !== 'confirmed' && body.status !== 'rejected') {
+      return NextResponse.json({ error: "status must be 'confirmed' or 'rejected'" }, { status: 400 });
+    }
+
+    await TransferPairService.setStatus(pair, body.status);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating transfer pair:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { TransactionService } from '@/lib/transaction-service';
+import { TransferPairService } from '@/lib/transfer-pair-service';
+import { AccountAccessService } from '@/lib/account-access-service';
+
+/**
+ * Transactions that could be linked by hand to ?transactionId=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const transactionId = parseInt(new URL(request.url).searchParams.get('transactionId') || '');
+    const transaction = transactionId ? await TransactionService.getTransactionById(transactionId) : null;
+    const access = transaction ? await AccountAccessService.getAccountAccess(transaction.account_id, session.user) : null;
+    if (!transaction || !access) {
+      return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
+    }
+
+    const candidates = await TransferPairService.getCandidates(transaction, session.user);
+    return NextResponse.json(candidates);
+  } catch (error) {
+    console.error('Error fetching transfer candidates:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { TransferPairService } from '@/lib/transfer-pair-service';
+
+/**
+ * Run the transfer matcher over the family's unpaired transactions
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const result = await TransferPairService.matchTransfers(session.user.family_id);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error matching transfer pairs:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { TransferPairService } from '@/lib/transfer-pair-service';
+
+/**
+ * Transfer pairs and unmatched transfers, optionally limited to a month (?month=YYYY-MM)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month') || undefined;
+    if (month && !/^\d{4}-\d{2}$/.test(month)) {
+      return NextResponse.json({ error: 'month must be YYYY-MM' }, { status: 400 });
+    }
+
+    const [pairs, unmatched] = await Promise.all([
+      TransferPairService.getPairs(session.user.family_id, month, session.user),
+      TransferPairService.getUnmatchedTransfers(session.user.family_id, month, session.user),
+    ]);
+    return NextResponse.json({ pairs, unmatched });
+  } catch (error) {
+    console.error('Error fetching transfer pairs:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Link two transactions by hand. Body: { transaction_id: number, counterpart_id: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const body = await request.json();
+    if (!body.transaction_id || !body.counterpart_id) {
+      return NextResponse.json({ error: 'transaction_id and counterpart_id are required' }, { status: 400 });
+    }
+
+    const { id, error } = await TransferPairService.linkTransactions(
+      session.user.family_id,
+      Number(body.transaction_id),
+      Number(body.counterpart_id),
+      session.user
+    );
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (error) {
+    console.error('Error linking transfer pair:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,10 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getSession } from '@/lib/auth';
-import { getDatabase } from '@/lib/database';
+import { authorizeRequest } from '@/lib/authorization';
+import { NotificationPreferencesService, DIGEST_DAYS } from '@/lib/notification-preferences-service';
+import type { DigestDay } from '@/types';
 
 const notificationPreferencesSchema = z.object({
-  notificationsEnabled: z.boolean()
+  weeklyReport: z.boolean().optional(),
+  monthlyReport: z.boolean().optional(),
+  yearlyReport: z.boolean().optional(),
+  alerts: z.boolean().optional(),
+  locale: z.enum(['en', 'es']).optional(),
+  digestDay: z.enum(DIGEST_DAYS as [DigestDay, ...DigestDay[]]).nullable().optional()
 });
 
 export async function POST(request: NextRequest) {
@@ -18,27 +25,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
     const body = await request.json();
-    const { notificationsEnabled } = notificationPreferencesSchema.parse(body);
+    const updates = notificationPreferencesSchema.parse(body);
 
-    const db = await getDatabase();
-    
-    // Check if notifications_enabled column exists, if not add it
-    try {
-      await db.run(
-        'ALTER TABLE users ADD COLUMN notifications_enabled BOOLEAN DEFAULT TRUE'
-      );
-    } catch (error) {
-      // Column likely already exists, ignore error
-    }
-
-    await db.run(
-      'UPDATE users SET notifications_enabled = ? WHERE id = ?',
-      [notificationsEnabled, session.user.id]
-    );
+    const preferences = await NotificationPreferencesService.updatePreferences(session.user.id, updates);
 
     return NextResponse.json({
-      message: 'Notification preferences updated successfully'
+      message: 'Notification preferences updated successfully',
+      preferences
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -67,15 +64,11 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const db = await getDatabase();
-    const user = await db.get(
-      'SELECT notifications_enabled FROM users WHERE id = ?',
-      [session.user.id]
-    );
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
 
-    return NextResponse.json({
-      notificationsEnabled: user?.notifications_enabled ?? true
-    });
+    const preferences = await NotificationPreferencesService.getPreferences(session.user.id);
+    return NextResponse.json(preferences);
   } catch (error) {
     console.error('Get notification preferences error:', error);
     return NextResponse.json(
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { WebhookService } from '@/lib/webhook-service';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const existing = await WebhookService.getWebhookById(parseInt(id), session.user.family_id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    if (body.rotate_secret) {
+      const secret = await WebhookService.rotateSecret(existing.id);
+      return NextResponse.json({ success: true, secret });
+    }
+
+    const data = {
+      url: body.url !== undefined ? String(body.url) : existing.url,
+      description: body.description !== undefined ? body.description : existing.description,
+      events: body.events !== undefined ? body.events : existing.events,
+      is_active: body.is_active !== undefined ? !!body.is_active : existing.is_active,
+    };
+
+    const validationError = WebhookService.validate(data);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await WebhookService.updateWebhook(existing.id, data);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    await WebhookService.deleteWebhook(parseInt(id), session.user.family_id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/authorization';
+import { WebhookService } from '@/lib/webhook-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const webhooks = await WebhookService.getWebhooks(session.user.family_id);
+    return NextResponse.json(webhooks);
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request, NextResponse.next());
+    if (!session.user?.id || !session.user?.family_id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const denied = authorizeRequest(session.user, request);
+    if (denied) return denied;
+
+    const body = await request.json();
+    const data = {
+      url: String(body.url || ''),
+      description: body.description ?? null,
+      events: body.events,
+      is_active: body.is_active,
+    };
+
+    const validationError = WebhookService.validate(data);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { id, secret } = await WebhookService.createWebhook(session.user.family_id, data);
+    return NextResponse.json({ id, secret }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
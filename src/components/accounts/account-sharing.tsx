@@ -0,0 +1,183 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useTranslations } from "next-intl"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import type { AccountFamilyAccess, AccountPermission, AccountSharing as Sharing, AccountWithBalance, UserRole } from "@/types"
+
+type SharingResponse = Sharing & {
+  members: Array<{ id: number; name: string; role: UserRole }>
+  canManage: boolean
+}
+
+interface AccountSharingProps {
+  account: AccountWithBalance
+  onSuccess?: () => void
+  onCancel?: () => void
+}
+
+export function AccountSharing({ account, onSuccess, onCancel }: AccountSharingProps) {
+  const t = useTranslations("accountSharing")
+  const [sharing, setSharing] = useState<SharingResponse | null>(null)
+  const [ownerId, setOwnerId] = useState<number | null>(null)
+  const [familyAccess, setFamilyAccess] = useState<AccountFamilyAccess>("edit")
+  const [countInTotals, setCountInTotals] = useState(false)
+  // Members without an entry get the family-wide access
+  const [grants, setGrants] = useState<Record<number, AccountPermission["access"]>>({})
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchSharing = async () => {
+      try {
+        const res = await fetch(`/api/accounts/${account.id}/sharing`)
+        if (!res.ok) return
+        const data: SharingResponse = await res.json()
+        setSharing(data)
+        setOwnerId(data.owner_id)
+        setFamilyAccess(data.family_access)
+        setCountInTotals(data.count_in_family_totals)
+        setGrants(Object.fromEntries(data.permissions.map(p => [p.user_id, p.access])))
+      } catch (err) {
+        console.error("Failed to fetch account sharing:", err)
+      }
+    }
+    fetchSharing()
+  }, [account.id])
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/accounts/${account.id}/sharing`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(ownerId !== null && { owner_id: ownerId }),
+          family_access: familyAccess,
+          count_in_family_totals: familyAccess === "none" && countInTotals,
+          permissions: Object.entries(grants)
+            .filter(([userId]) => Number(userId) !== ownerId)
+            .map(([userId, access]) => ({ user_id: Number(userId), access })),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || t("saveFailed"))
+        return
+      }
+      onSuccess?.()
+    } catch {
+      setError(t("saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setGrant = (userId: number, value: string) => {
+    const next = { ...grants }
+    if (value === "edit" || value === "view") {
+      next[userId] = value
+    } else {
+      delete next[userId]
+    }
+    setGrants(next)
+  }
+
+  if (!sharing) {
+    return <p className="text-sm text-gray-500">{t("loading")}</p>
+  }
+
+  const selectClassName = "w-full rounded-md border border-gray-300 px-3 py-2 text-sm disabled:bg-gray-50"
+  const readOnly = !sharing.canManage
+  const others = sharing.members.filter(member => member.id !== ownerId)
+
+  return (
+    <div className="space-y-4">
+      {readOnly && (
+        <p className="rounded-md border border-gray-200 bg-gray-50 p-3 text-sm text-gray-600">{t("readOnly")}</p>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="sharing-owner">{t("owner")}</Label>
+        <select
+          id="sharing-owner"
+          className={selectClassName}
+          value={ownerId ?? ""}
+          disabled={readOnly}
+          onChange={(e) => setOwnerId(e.target.value ? parseInt(e.target.value) : null)}
+        >
+          {ownerId === null && <option value="">{t("noOwner")}</option>}
+          {sharing.members.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+        </select>
+        <p className="text-xs text-gray-400">{t("ownerHint")}</p>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="sharing-family-access">{t("familyAccess")}</Label>
+        <select
+          id="sharing-family-access"
+          className={selectClassName}
+          value={familyAccess}
+          disabled={readOnly}
+          onChange={(e) => setFamilyAccess(e.target.value as AccountFamilyAccess)}
+        >
+          <option value="edit">{t("familyEdit")}</option>
+          <option value="view">{t("familyView")}</option>
+          <option value="none">{t("familyNone")}</option>
+        </select>
+      </div>
+
+      {familyAccess === "none" && (
+        <label className="flex items-start gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="mt-0.5"
+            checked={countInTotals}
+            disabled={readOnly}
+            onChange={(e) => setCountInTotals(e.target.checked)}
+          />
+          <span>
+            {t("countInTotals")}
+            <span className="block text-xs text-gray-400">{t("countInTotalsHint")}</span>
+          </span>
+        </label>
+      )}
+
+      {others.length > 0 && (
+        <div className="space-y-2">
+          <Label>{t("members")}</Label>
+          {others.map(member => (
+            <div key={member.id} className="flex items-center justify-between gap-3">
+              <span className="truncate text-sm text-gray-700">{member.name}</span>
+              <select
+                aria-label={member.name}
+                className="w-40 rounded-md border border-gray-300 px-2 py-1 text-sm disabled:bg-gray-50"
+                value={grants[member.id] ?? ""}
+                disabled={readOnly}
+                onChange={(e) => setGrant(member.id, e.target.value)}
+              >
+                <option value="">{t("memberDefault")}</option>
+                <option value="view">{t("memberView")}</option>
+                <option value="edit">{t("memberEdit")}</option>
+              </select>
+            </div>
+          ))}
+          <p className="text-xs text-gray-400">{t("membersHint")}</p>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>{t("cancel")}</Button>
+        {!readOnly && (
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? t("saving") : t("save")}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { KeyRound, RefreshCw } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import type { EncryptionStatus } from "@/types"
+
+// How often the page asks for progress while a rotation runs
+const POLL_INTERVAL_MS = 1000
+
+export function EncryptionManagement() {
+  const t = useTranslations("encryption")
+  const locale = useLocale()
+  const [status, setStatus] = useState<EncryptionStatus | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/encryption")
+      if (response.ok) setStatus(await response.json())
+    } catch (error) {
+      console.error("Failed to fetch encryption status:", error)
+    }
+  }, [])
+
+  useEffect(() => { fetchStatus() }, [fetchStatus])
+
+  const running = status?.rotation?.status === "running"
+  useEffect(() => {
+    if (!running) return
+    const timer = setInterval(fetchStatus, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [running, fetchStatus])
+
+  const formatDateTime = (date: string) => {
+    return new Date(`${date.replace(" ", "T")}Z`).toLocaleString(locale === "es" ? "es-ES" : "en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  const handleRotate = async () => {
+    if (!confirm(t("rotateConfirm"))) return
+    setError(null)
+    const response = await fetch("/api/admin/encryption", { method: "POST" })
+    if (!response.ok) {
+      const data = await response.json()
+      setError(data.error || t("rotateFailed"))
+    }
+    await fetchStatus()
+  }
+
+  if (!status) return null
+
+  const rotation = status.rotation
+  const percent = rotation && rotation.total > 0 ? Math.round((rotation.processed / rotation.total) * 100) : 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          {t("title")}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{t("description")}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("keyId")}</TableHead>
+              <TableHead>{t("createdAt")}</TableHead>
+              <TableHead>{t("values")}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {status.keys.map(key => (
+              <TableRow key={key.id}>
+                <TableCell className="font-mono">
+                  {key.id}
+                  {key.active && <Badge variant="secondary" className="ml-2">{t("active")}</Badge>}
+                </TableCell>
+                <TableCell>{key.created_at ? formatDateTime(key.created_at) : t("missingKey")}</TableCell>
+                <TableCell>{key.values}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {status.legacyValues > 0 && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+            {t("legacyValues", { count: status.legacyValues })}
+          </div>
+        )}
+
+        {rotation && (
+          <div className="space-y-2">
+            {rotation.status === "running" && (
+              <>
+                <div className="h-2 w-full overflow-hidden rounded bg-gray-200">
+                  <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {t("progress", { processed: rotation.processed, total: rotation.total })}
+                </p>
+              </>
+            )}
+            {rotation.status === "completed" && (
+              <p className="text-sm text-green-700">
+                {t("completed", { count: rotation.total, key: rotation.newKeyId })}
+              </p>
+            )}
+            {rotation.status === "failed" && (
+              <p className="text-sm text-red-600">{t("failed", { error: rotation.error || "" })}</p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <Button variant="outline" onClick={handleRotate} disabled={running}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${running ? "animate-spin" : ""}`} />
+          {running ? t("rotating") : t("rotate")}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
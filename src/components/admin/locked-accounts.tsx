@@ -0,0 +1,113 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Lock, LockOpen } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import type { LockedAccount } from "@/types"
+
+export function LockedAccounts() {
+  const t = useTranslations("accountLockout")
+  const locale = useLocale()
+  const [accounts, setAccounts] = useState<LockedAccount[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/locked-accounts")
+      if (response.ok) {
+        const data = await response.json()
+        setAccounts(data.accounts)
+      }
+    } catch (error) {
+      console.error("Failed to fetch locked accounts:", error)
+    }
+  }, [])
+
+  useEffect(() => { fetchAccounts() }, [fetchAccounts])
+
+  const formatDateTime = (date: string) => {
+    return new Date(`${date.replace(" ", "T")}Z`).toLocaleString(locale === "es" ? "es-ES" : "en-US", {
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  const handleUnlock = async (account: LockedAccount) => {
+    try {
+      const response = await fetch(`/api/admin/users/${account.user_id}/unlock`, { method: "POST" })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to unlock account")
+      }
+      setError(null)
+    } catch (error) {
+      console.error("Unlock account error:", error)
+      setError(error instanceof Error ? error.message : "Failed to unlock account")
+    }
+    await fetchAccounts()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          {t("title")}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{t("description")}</p>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        {accounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("none")}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("user")}</TableHead>
+                <TableHead>{t("lockedAt")}</TableHead>
+                <TableHead>{t("lockedUntil")}</TableHead>
+                <TableHead className="w-[120px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accounts.map(account => (
+                <TableRow key={account.user_id}>
+                  <TableCell>
+                    <div className="font-medium">{account.name}</div>
+                    <div className="text-xs text-muted-foreground">{account.email}</div>
+                  </TableCell>
+                  <TableCell>{formatDateTime(account.locked_at)}</TableCell>
+                  <TableCell>{formatDateTime(account.locked_until)}</TableCell>
+                  <TableCell>
+                    <Button variant="outline" size="sm" onClick={() => handleUnlock(account)}>
+                      <LockOpen className="h-4 w-4 mr-2" />
+                      {t("unlock")}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
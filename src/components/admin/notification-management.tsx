@@ -45,6 +45,12 @@ interface EmailConfig {
   from: string;
 }
 
+interface PeriodicReportSchedule {
+  enabled: boolean;
+  dayOfMonth: number;
+  time: string;
+}
+
 interface NotificationSettings {
   enabled: boolean;
   day: string;
@@ -52,11 +58,18 @@ interface NotificationSettings {
   timezone: string;
   includeCharts: boolean;
   customMessage?: string;
+  monthlyReport: PeriodicReportSchedule;
+  yearlyReport: PeriodicReportSchedule & { month: number };
 }
 
+type ReportType = 'weekly' | 'monthly' | 'yearly'
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+
 interface NotificationHistory {
   id: string;
   familyId: number;
+  reportType?: ReportType;
   sentAt: string;
   success: boolean;
   error?: string;
@@ -83,7 +96,9 @@ export function NotificationManagement() {
     time: '09:00',
     timezone: 'UTC',
     includeCharts: true,
-    customMessage: ''
+    customMessage: '',
+    monthlyReport: { enabled: false, dayOfMonth: 1, time: '09:00' },
+    yearlyReport: { enabled: false, month: 1, dayOfMonth: 2, time: '09:00' }
   })
   const [history, setHistory] = useState<NotificationHistory[]>([])
   const [isConfigured, setIsConfigured] = useState(false)
@@ -210,7 +225,7 @@ export function NotificationManagement() {
     }
   }
 
-  const sendTestEmail = async (type: 'connection' | 'weekly-report') => {
+  const sendTestEmail = async (type: 'connection' | 'weekly-report' | 'monthly-report' | 'yearly-report') => {
     if (!testEmail) {
       setMessage({ type: 'error', text: 'Please enter a test email address' })
       return
@@ -225,7 +240,7 @@ export function NotificationManagement() {
         email: testEmail
       }
 
-      if (type === 'weekly-report' && user) {
+      if (type !== 'connection' && user) {
         payload.familyId = user.family_id
       }
 
@@ -252,25 +267,26 @@ export function NotificationManagement() {
     }
   }
 
-  const sendWeeklyReports = async () => {
+  const sendReports = async (reportType: ReportType) => {
     setMessage(null)
+    const label = reportType.charAt(0).toUpperCase() + reportType.slice(1)
     
     try {
       const response = await fetch('/api/admin/notifications/send', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ allFamilies: true })
+        body: JSON.stringify({ allFamilies: true, type: reportType })
       })
 
       if (response.ok) {
         const activeProvider = emailProviders?.activeProvider
         const providerText = activeProvider ? ` via ${activeProvider}` : ''
-        setMessage({ type: 'success', text: `Weekly reports sent to all families${providerText}` })
+        setMessage({ type: 'success', text: `${label} reports sent to all families${providerText}` })
         fetchHistory()
         fetchEmailProviders()
       } else {
         const data = await response.json()
-        setMessage({ type: 'error', text: data.error || 'Failed to send weekly reports' })
+        setMessage({ type: 'error', text: data.error || `Failed to send ${reportType} reports` })
       }
     } catch (error) {
       setMessage({ type: 'error', text: 'Network error occurred' })
@@ -391,6 +407,9 @@ export function NotificationManagement() {
                           <SelectItem value="saturday">Saturday</SelectItem>
                         </SelectContent>
                       </Select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Default day; members can pick their own in Settings
+                      </p>
                     </div>
 
                     <div>
@@ -459,6 +478,126 @@ export function NotificationManagement() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Monthly & Yearly Reports</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                Income vs. expenses, top categories, biggest movers, debt paydown and savings rate for the previous month or year. Uses the timezone above.
+              </p>
+
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="monthly-report-enabled"
+                    checked={notificationSettings.monthlyReport.enabled}
+                    onCheckedChange={(checked) => setNotificationSettings({
+                      ...notificationSettings,
+                      monthlyReport: { ...notificationSettings.monthlyReport, enabled: checked }
+                    })}
+                  />
+                  <Label htmlFor="monthly-report-enabled">Send monthly reports</Label>
+                </div>
+
+                {notificationSettings.monthlyReport.enabled && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="monthly-day">Day of Month (1-28)</Label>
+                      <Input
+                        id="monthly-day"
+                        type="number"
+                        min={1}
+                        max={28}
+                        value={notificationSettings.monthlyReport.dayOfMonth}
+                        onChange={(e) => setNotificationSettings({
+                          ...notificationSettings,
+                          monthlyReport: { ...notificationSettings.monthlyReport, dayOfMonth: parseInt(e.target.value) || 1 }
+                        })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="monthly-time">Time</Label>
+                      <Input
+                        id="monthly-time"
+                        type="time"
+                        value={notificationSettings.monthlyReport.time}
+                        onChange={(e) => setNotificationSettings({
+                          ...notificationSettings,
+                          monthlyReport: { ...notificationSettings.monthlyReport, time: e.target.value }
+                        })}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="yearly-report-enabled"
+                    checked={notificationSettings.yearlyReport.enabled}
+                    onCheckedChange={(checked) => setNotificationSettings({
+                      ...notificationSettings,
+                      yearlyReport: { ...notificationSettings.yearlyReport, enabled: checked }
+                    })}
+                  />
+                  <Label htmlFor="yearly-report-enabled">Send yearly reports</Label>
+                </div>
+
+                {notificationSettings.yearlyReport.enabled && (
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <Label htmlFor="yearly-month">Month</Label>
+                      <Select
+                        value={String(notificationSettings.yearlyReport.month)}
+                        onValueChange={(value) => setNotificationSettings({
+                          ...notificationSettings,
+                          yearlyReport: { ...notificationSettings.yearlyReport, month: parseInt(value) }
+                        })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MONTHS.map((name, i) => (
+                            <SelectItem key={name} value={String(i + 1)}>{name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="yearly-day">Day (1-28)</Label>
+                      <Input
+                        id="yearly-day"
+                        type="number"
+                        min={1}
+                        max={28}
+                        value={notificationSettings.yearlyReport.dayOfMonth}
+                        onChange={(e) => setNotificationSettings({
+                          ...notificationSettings,
+                          yearlyReport: { ...notificationSettings.yearlyReport, dayOfMonth: parseInt(e.target.value) || 1 }
+                        })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="yearly-time">Time</Label>
+                      <Input
+                        id="yearly-time"
+                        type="time"
+                        value={notificationSettings.yearlyReport.time}
+                        onChange={(e) => setNotificationSettings({
+                          ...notificationSettings,
+                          yearlyReport: { ...notificationSettings.yearlyReport, time: e.target.value }
+                        })}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
           <div className="flex justify-end">
             <Button onClick={saveNotificationSettings} disabled={saving}>
               {saving ? 'Saving...' : 'Save Schedule'}
@@ -630,7 +769,7 @@ export function NotificationManagement() {
                 />
               </div>
               
-              <div className="flex gap-3">
+              <div className="flex flex-wrap gap-3">
                 <Button 
                   onClick={() => sendTestEmail('connection')}
                   disabled={testing || !testEmail || !emailProviders?.activeProvider}
@@ -646,6 +785,22 @@ export function NotificationManagement() {
                 >
                   {testing ? 'Sending...' : 'Test Weekly Report'}
                 </Button>
+
+                <Button 
+                  onClick={() => sendTestEmail('monthly-report')}
+                  disabled={testing || !testEmail || !emailProviders?.activeProvider}
+                  variant="outline"
+                >
+                  {testing ? 'Sending...' : 'Test Monthly Report'}
+                </Button>
+
+                <Button 
+                  onClick={() => sendTestEmail('yearly-report')}
+                  disabled={testing || !testEmail || !emailProviders?.activeProvider}
+                  variant="outline"
+                >
+                  {testing ? 'Sending...' : 'Test Yearly Report'}
+                </Button>
               </div>
               
               {emailProviders && !emailProviders.anyConfigured && (
@@ -675,11 +830,11 @@ export function NotificationManagement() {
             <CardContent>
               <div className="space-y-4">
                 <p className="text-sm text-muted-foreground">
-                  Send weekly reports to all families immediately (outside of scheduled time).
+                  Send reports to all families immediately (outside of scheduled time).
                 </p>
                 
                 <Button 
-                  onClick={sendWeeklyReports}
+                  onClick={() => sendReports('weekly')}
                   disabled={!emailProviders?.activeProvider}
                   className="w-full"
                 >
@@ -687,6 +842,23 @@ export function NotificationManagement() {
                   Send Weekly Reports Now
                 </Button>
 
+                <div className="grid grid-cols-2 gap-3">
+                  <Button 
+                    onClick={() => sendReports('monthly')}
+                    disabled={!emailProviders?.activeProvider}
+                    variant="outline"
+                  >
+                    Send Last Month&apos;s Reports
+                  </Button>
+                  <Button 
+                    onClick={() => sendReports('yearly')}
+                    disabled={!emailProviders?.activeProvider}
+                    variant="outline"
+                  >
+                    Send Last Year&apos;s Reports
+                  </Button>
+                </div>
+
                 {emailProviders && !emailProviders.activeProvider && (
                   <div className="flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg mt-3">
                     <AlertTriangle className="h-4 w-4 text-amber-600" />
@@ -737,7 +909,7 @@ export function NotificationManagement() {
                         )}
                         <div>
                           <div className="font-medium">
-                            Family {entry.familyId} • {entry.recipients.length} recipients
+                            Family {entry.familyId} • {entry.reportType || 'weekly'} • {entry.recipients.length} recipients
                           </div>
                           <div className="text-sm text-muted-foreground">
                             {new Date(entry.sentAt).toLocaleString()}
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
 import {
   Table,
   TableBody,
@@ -28,7 +29,8 @@ import {
   Trash2,
   Shield,
   User as UserIcon,
-  Eye
+  Eye,
+  ShieldOff
 } from "lucide-react"
 import { useTranslations } from "next-intl"
 import { UserDialog } from "./user-dialog"
@@ -37,6 +39,7 @@ import type { User } from "@/types"
 
 export function UserManagement() {
   const t = useTranslations("settings")
+  const tTwoFactor = useTranslations("twoFactor")
   const [users, setUsers] = useState<User[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState("")
@@ -45,6 +48,7 @@ export function UserManagement() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [dialogMode, setDialogMode] = useState<"create" | "edit">("create")
   const [error, setError] = useState<string | null>(null)
+  const [adminTwoFactorRequired, setAdminTwoFactorRequired] = useState(false)
 
   // Fetch users
   const fetchUsers = async () => {
@@ -63,8 +67,21 @@ export function UserManagement() {
     }
   }
 
+  const fetchTwoFactorRequirement = async () => {
+    try {
+      const response = await fetch("/api/admin/two-factor")
+      if (response.ok) {
+        const data = await response.json()
+        setAdminTwoFactorRequired(data.required)
+      }
+    } catch (error) {
+      console.error("Fetch two-factor requirement error:", error)
+    }
+  }
+
   useEffect(() => {
     fetchUsers()
+    fetchTwoFactorRequirement()
   }, [])
 
   // Filter users based on search
@@ -143,6 +160,31 @@ export function UserManagement() {
     }
   }
 
+  const handleRequireTwoFactor = async (required: boolean) => {
+    const response = await fetch("/api/admin/two-factor", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ required }),
+    })
+    if (response.ok) setAdminTwoFactorRequired(required)
+  }
+
+  const handleResetTwoFactor = async (user: User) => {
+    if (!confirm(tTwoFactor("resetConfirm", { name: user.name }))) return
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/two-factor`, { method: "DELETE" })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to reset two-factor authentication")
+      }
+      await fetchUsers()
+      setError(null)
+    } catch (error) {
+      console.error("Reset two-factor error:", error)
+      setError(error instanceof Error ? error.message : "Failed to reset two-factor authentication")
+    }
+  }
+
   const getRoleIcon = (role: string) => {
     switch (role) {
       case "administrator":
@@ -266,6 +308,14 @@ export function UserManagement() {
             </div>
           )}
 
+          <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+            <div>
+              <div className="text-sm font-medium">{tTwoFactor("requireForAdmins")}</div>
+              <p className="text-xs text-muted-foreground">{tTwoFactor("requireForAdminsDescription")}</p>
+            </div>
+            <Switch checked={adminTwoFactorRequired} onCheckedChange={handleRequireTwoFactor} />
+          </div>
+
           {/* Controls */}
           <div className="flex flex-col sm:flex-row gap-4 justify-between">
             <div className="relative flex-1 max-w-sm">
@@ -306,7 +356,12 @@ export function UserManagement() {
                 ) : (
                   filteredUsers.map((user) => (
                     <TableRow key={user.id}>
-                      <TableCell className="font-medium">{user.name}</TableCell>
+                      <TableCell className="font-medium">
+                        {user.name}
+                        {user.two_factor_enabled && (
+                          <Badge variant="outline" className="ml-2 text-xs">{tTwoFactor("badge")}</Badge>
+                        )}
+                      </TableCell>
                       <TableCell>{user.email}</TableCell>
                       <TableCell>
                         <Badge variant="outline" className="font-mono">
@@ -332,6 +387,12 @@ export function UserManagement() {
                               <Edit className="h-4 w-4 mr-2" />
                               {t("editUser")}
                             </DropdownMenuItem>
+                            {user.two_factor_enabled && (
+                              <DropdownMenuItem onClick={() => handleResetTwoFactor(user)}>
+                                <ShieldOff className="h-4 w-4 mr-2" />
+                                {tTwoFactor("reset")}
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuItem 
                               onClick={() => handleDeleteUser(user)}
                               className="text-red-600"
@@ -0,0 +1,292 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Plus, Pencil, Trash2, Users, User } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import type { Budget, BudgetProgress, BudgetScope, TransactionCategory, Account } from "@/types"
+
+interface BudgetsTabProps {
+  month: string
+  categories: TransactionCategory[]
+}
+
+interface Member {
+  id: number
+  name: string
+}
+
+const STATUS_STYLES: Record<BudgetProgress["status"], { bar: string; text: string }> = {
+  on_track: { bar: "bg-green-500", text: "text-green-700" },
+  at_risk: { bar: "bg-yellow-500", text: "text-yellow-700" },
+  over: { bar: "bg-red-500", text: "text-red-700" },
+}
+
+export function BudgetsTab({ month, categories }: BudgetsTabProps) {
+  const t = useTranslations("analytics")
+  const locale = useLocale()
+  const [progress, setProgress] = useState<BudgetProgress[]>([])
+  const [members, setMembers] = useState<Member[]>([])
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [editing, setEditing] = useState<Budget | "new" | null>(null)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat(locale === "es" ? "es-ES" : "en-US", {
+      style: "currency",
+      currency: "EUR",
+    }).format(amount)
+  }
+
+  const fetchProgress = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/budgets/progress?month=${month}`)
+      if (res.ok) setProgress(await res.json())
+    } catch (err) {
+      console.error("Failed to fetch budgets:", err)
+    }
+  }, [month])
+
+  useEffect(() => { fetchProgress() }, [fetchProgress])
+
+  useEffect(() => {
+    fetch("/api/members").then(r => r.ok ? r.json() : { members: [] }).then(d => setMembers(d.members)).catch(() => {})
+    fetch("/api/accounts").then(r => r.ok ? r.json() : []).then(setAccounts).catch(() => {})
+  }, [])
+
+  const handleDelete = async (budget: Budget) => {
+    if (!confirm(t("budgets.deleteConfirm", { category: budget.category_name ?? "" }))) return
+    const res = await fetch(`/api/budgets/${budget.id}`, { method: "DELETE" })
+    if (res.ok) fetchProgress()
+  }
+
+  const totals = progress.reduce(
+    (acc, p) => ({ available: acc.available + p.available, spent: acc.spent + p.spent, projected: acc.projected + p.projected }),
+    { available: 0, spent: 0, projected: 0 }
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-600">
+          {progress.length > 0 && (
+            <>
+              {t("budgets.spent")}: <span className="font-medium">{formatCurrency(totals.spent)}</span>
+              {" / "}
+              {formatCurrency(totals.available)}
+              <span className="ml-3">{t("budgets.projected")}: <span className="font-medium">{formatCurrency(totals.projected)}</span></span>
+            </>
+          )}
+        </div>
+        <Button size="sm" onClick={() => setEditing("new")}>
+          <Plus className="mr-2 h-4 w-4" />
+          {t("budgets.add")}
+        </Button>
+      </div>
+
+      {editing && (
+        <BudgetForm
+          budget={editing === "new" ? null : editing}
+          categories={categories.filter(c => c.type === "expense" || c.type === "both")}
+          members={members}
+          accounts={accounts}
+          onSaved={() => { setEditing(null); fetchProgress() }}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {progress.length === 0 && !editing ? (
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-gray-500">{t("budgets.empty")}</CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          {progress.map(p => {
+            const style = STATUS_STYLES[p.status]
+            return (
+              <Card key={p.budget.id}>
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: p.budget.category_color || "#9CA3AF" }} />
+                      <span className="font-medium truncate">{p.budget.category_name}</span>
+                      <span className="flex items-center text-xs text-gray-500 flex-shrink-0">
+                        {p.budget.scope === "member" ? <User className="h-3 w-3 mr-1" /> : <Users className="h-3 w-3 mr-1" />}
+                        {p.budget.scope === "member" ? p.budget.user_name : t("budgets.family")}
+                      </span>
+                    </div>
+                    <div className="flex flex-shrink-0">
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditing(p.budget)}>
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleDelete(p.budget)}>
+                        <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+                    <div className={`h-full ${style.bar}`} style={{ width: `${Math.min(100, p.percentUsed)}%` }} />
+                  </div>
+
+                  <div className="flex items-center justify-between text-sm">
+                    <span>
+                      <span className="font-medium">{formatCurrency(p.spent)}</span>
+                      <span className="text-gray-500"> / {formatCurrency(p.available)}</span>
+                    </span>
+                    <span className={`text-xs font-medium ${style.text}`}>{t(`budgets.status.${p.status}`)}</span>
+                  </div>
+
+                  <div className="flex flex-wrap gap-x-3 text-xs text-gray-500">
+                    <span>{t("budgets.projected")}: {formatCurrency(p.projected)}</span>
+                    <span>{t("budgets.remaining")}: {formatCurrency(p.remaining)}</span>
+                    {p.rolloverAmount > 0 && (
+                      <span>{t("budgets.rolledOver", { amount: formatCurrency(p.rolloverAmount) })}</span>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface BudgetFormProps {
+  budget: Budget | null
+  categories: TransactionCategory[]
+  members: Member[]
+  accounts: Account[]
+  onSaved: () => void
+  onCancel: () => void
+}
+
+function BudgetForm({ budget, categories, members, accounts, onSaved, onCancel }: BudgetFormProps) {
+  const t = useTranslations("analytics")
+  const [categoryId, setCategoryId] = useState<number | "">(budget?.category_id ?? "")
+  const [amount, setAmount] = useState(budget ? String(budget.amount) : "")
+  const [rollover, setRollover] = useState(budget?.rollover ?? false)
+  const [scope, setScope] = useState<BudgetScope>(budget?.scope ?? "family")
+  const [userId, setUserId] = useState<number | "">(budget?.user_id ?? "")
+  const [accountIds, setAccountIds] = useState<number[]>(budget?.account_ids ?? [])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const toggleAccount = (id: number) => {
+    setAccountIds(prev => prev.includes(id) ? prev.filter(a => a !== id) : [...prev, id])
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError("")
+    try {
+      const res = await fetch(budget ? `/api/budgets/${budget.id}` : "/api/budgets", {
+        method: budget ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          category_id: categoryId,
+          amount: parseFloat(amount.replace(",", ".")),
+          rollover,
+          scope,
+          user_id: scope === "member" ? userId : null,
+          account_ids: scope === "member" ? accountIds : null,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || t("budgets.saveFailed"))
+        return
+      }
+      onSaved()
+    } catch {
+      setError(t("budgets.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{budget ? t("budgets.edit") : t("budgets.add")}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">{error}</div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <Label>{t("budgets.category")}</Label>
+            <select
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value ? Number(e.target.value) : "")}
+            >
+              <option value="">—</option>
+              {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <Label>{t("budgets.monthlyLimit")}</Label>
+            <Input inputMode="decimal" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div>
+            <Label>{t("budgets.scope")}</Label>
+            <select
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              value={scope}
+              onChange={(e) => setScope(e.target.value as BudgetScope)}
+            >
+              <option value="family">{t("budgets.family")}</option>
+              <option value="member">{t("budgets.member")}</option>
+            </select>
+          </div>
+          {scope === "member" && (
+            <div>
+              <Label>{t("budgets.member")}</Label>
+              <select
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                value={userId}
+                onChange={(e) => setUserId(e.target.value ? Number(e.target.value) : "")}
+              >
+                <option value="">—</option>
+                {members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {scope === "member" && (
+          <div>
+            <Label>{t("budgets.memberAccounts")}</Label>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {accounts.filter(a => a.category === "Banking").map(a => (
+                <label key={a.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={accountIds.includes(a.id)} onChange={() => toggleAccount(a.id)} />
+                  <span>{a.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={rollover} onChange={(e) => setRollover(e.target.checked)} />
+          <span>{t("budgets.rollover")}</span>
+        </label>
+
+        <div className="flex space-x-3">
+          <Button variant="outline" className="flex-1" onClick={onCancel}>{t("budgets.cancel")}</Button>
+          <Button className="flex-1" onClick={handleSave} disabled={!categoryId || !amount || saving}>
+            {t("budgets.save")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -216,6 +216,14 @@ export function ExpensesTab({ summary, categories, month, onSummaryRefresh }: Ex
                 <p className="text-sm text-gray-500">
                   {t("transfersExcluded")}: {summary.transfersCount} ({formatCurrency(Math.abs(summary.transfersTotal))})
                 </p>
+                {summary.unmatchedTransfersCount > 0 && (
+                  <p className="text-sm text-amber-700 mt-1">
+                    {t("unmatchedTransfers", {
+                      count: summary.unmatchedTransfersCount,
+                      amount: formatCurrency(Math.abs(summary.unmatchedTransfersTotal)),
+                    })}
+                  </p>
+                )}
               </div>
             )}
           </CardContent>
@@ -0,0 +1,212 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { ArrowDownRight, ArrowUpRight } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import type { PeriodicReportData, PeriodicReportType, ReportTotals } from "@/types"
+
+interface ReportTabProps {
+  month: string
+}
+
+export function ReportTab({ month }: ReportTabProps) {
+  const t = useTranslations("analytics")
+  const locale = useLocale()
+  const [type, setType] = useState<PeriodicReportType>("monthly")
+  const [report, setReport] = useState<PeriodicReportData | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat(locale === "es" ? "es-ES" : "en-US", {
+      style: "currency",
+      currency: report?.currency || "EUR",
+    }).format(amount)
+  }
+
+  const formatRate = (totals: ReportTotals) =>
+    totals.savingsRate === null ? "—" : `${totals.savingsRate.toFixed(1)}%`
+
+  const formatMonth = (value: string) => {
+    const [y, m] = value.split("-").map(Number)
+    return new Date(y, m - 1, 1).toLocaleDateString(locale === "es" ? "es-ES" : "en-US", { month: "long", year: "numeric" })
+  }
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true)
+    try {
+      const url = type === "yearly"
+        ? `/api/analytics/reports/yearly?month=${month}`
+        : `/api/analytics/reports/monthly?month=${month}`
+      const res = await fetch(url)
+      if (res.ok) setReport(await res.json())
+    } catch (err) {
+      console.error("Failed to fetch report:", err)
+    } finally {
+      setLoading(false)
+    }
+  }, [month, type])
+
+  useEffect(() => { fetchReport() }, [fetchReport])
+
+  const totalsCards = report ? [
+    { label: t("income"), value: report.totals.income, previous: report.previousTotals.income, color: "text-green-600" },
+    { label: t("expenses"), value: report.totals.expenses, previous: report.previousTotals.expenses, color: "text-red-600" },
+    { label: t("savings"), value: report.totals.net, previous: report.previousTotals.net, color: report.totals.net >= 0 ? "text-green-600" : "text-red-600" },
+  ] : []
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm text-gray-600">
+          {report && (type === "yearly" ? report.period.label : formatMonth(report.period.label))}
+        </div>
+        <div className="flex gap-1">
+          <Button size="sm" variant={type === "monthly" ? "default" : "outline"} onClick={() => setType("monthly")}>
+            {t("report.monthly")}
+          </Button>
+          <Button size="sm" variant={type === "yearly" ? "default" : "outline"} onClick={() => setType("yearly")}>
+            {t("report.yearly")}
+          </Button>
+        </div>
+      </div>
+
+      {loading && !report ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+        </div>
+      ) : report && (
+        <>
+          <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+            {totalsCards.map(card => (
+              <Card key={card.label}>
+                <CardContent className="p-4">
+                  <p className="text-sm text-gray-500">{card.label}</p>
+                  <p className={`text-xl font-bold ${card.color}`}>{formatCurrency(card.value)}</p>
+                  <p className="text-xs text-gray-500">{t(type === "yearly" ? "report.previousYear" : "report.previousMonth")}: {formatCurrency(card.previous)}</p>
+                </CardContent>
+              </Card>
+            ))}
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-500">{t("savingsRate")}</p>
+                <p className="text-xl font-bold text-purple-600">{formatRate(report.totals)}</p>
+                <p className="text-xs text-gray-500">{t(type === "yearly" ? "report.previousYear" : "report.previousMonth")}: {formatRate(report.previousTotals)}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{t("topCategories")}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {report.topCategories.length === 0 ? (
+                  <p className="text-sm text-gray-500">{t("noCategoryData")}</p>
+                ) : report.topCategories.map(cat => (
+                  <div key={cat.categoryId}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="flex items-center gap-2">
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: cat.categoryColor }} />
+                        {cat.categoryName}
+                      </span>
+                      <span className="font-medium">{formatCurrency(cat.amount)} <span className="text-xs text-gray-500">({cat.percentage.toFixed(1)}%)</span></span>
+                    </div>
+                    <div className="w-full bg-gray-100 rounded-full h-2">
+                      <div className="h-2 rounded-full" style={{ width: `${cat.percentage}%`, backgroundColor: cat.categoryColor }} />
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{t("report.biggestMovers")}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {report.biggestMovers.length === 0 ? (
+                  <p className="text-sm text-gray-500">{t("report.noMovers")}</p>
+                ) : report.biggestMovers.map(mover => (
+                  <div key={mover.categoryId} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2">
+                      <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: mover.categoryColor }} />
+                      {mover.categoryName}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <span className="text-gray-500">{formatCurrency(mover.previousAmount)} → {formatCurrency(mover.amount)}</span>
+                      <span className={`flex items-center font-medium ${mover.change > 0 ? "text-red-600" : "text-green-600"}`}>
+                        {mover.change > 0 ? <ArrowUpRight className="h-3 w-3" /> : <ArrowDownRight className="h-3 w-3" />}
+                        {formatCurrency(Math.abs(mover.change))}
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          {report.debts.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  {t("report.debtPaydown")}: <span className="text-green-600">{formatCurrency(report.totalDebtPaydown)}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {report.debts.map(debt => (
+                  <div key={debt.accountName} className="flex items-center justify-between text-sm">
+                    <div>
+                      <div className="font-medium">{debt.accountName}</div>
+                      <div className="text-xs text-gray-500">
+                        {debt.isSettled ? t("report.settled") : debt.payoffDate ? t("report.payoff", { date: debt.payoffDate }) : null}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-gray-500">{formatCurrency(debt.startBalance)} → {formatCurrency(debt.endBalance)}</div>
+                      <div className={`font-medium ${debt.paidDown >= 0 ? "text-green-600" : "text-red-600"}`}>{formatCurrency(debt.paidDown)}</div>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {report.months.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{t("report.monthByMonth")}</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-gray-50">
+                      <th className="text-left py-2 px-3">{t("report.month")}</th>
+                      <th className="text-right py-2 px-3">{t("income")}</th>
+                      <th className="text-right py-2 px-3">{t("expenses")}</th>
+                      <th className="text-right py-2 px-3">{t("savings")}</th>
+                      <th className="text-right py-2 px-3">{t("savingsRate")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.months.map(m => (
+                      <tr key={m.month} className="border-b">
+                        <td className="py-2 px-3 capitalize">{formatMonth(m.month)}</td>
+                        <td className="py-2 px-3 text-right text-green-600">{formatCurrency(m.income)}</td>
+                        <td className="py-2 px-3 text-right text-red-600">{formatCurrency(m.expenses)}</td>
+                        <td className={`py-2 px-3 text-right ${m.net >= 0 ? "text-green-600" : "text-red-600"}`}>{formatCurrency(m.net)}</td>
+                        <td className="py-2 px-3 text-right">{formatRate(m)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
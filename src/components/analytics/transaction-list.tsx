@@ -5,8 +5,9 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Edit, Trash2, ArrowLeftRight } from "lucide-react"
 import { TransactionEditDialog } from "@/components/transactions/transaction-edit-dialog"
+import { RuleSuggestionBanner } from "@/components/transactions/rule-suggestion-banner"
 import { useTranslations, useLocale } from "next-intl"
-import type { Transaction, TransactionCategory } from "@/types"
+import type { CategoryRuleSuggestion, Transaction, TransactionCategory } from "@/types"
 
 interface TransactionListProps {
   transactions: Transaction[]
@@ -18,6 +19,7 @@ export function TransactionList({ transactions, categories, onRefresh }: Transac
   const t = useTranslations("transactions")
   const locale = useLocale()
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null)
+  const [ruleSuggestion, setRuleSuggestion] = useState<CategoryRuleSuggestion | null>(null)
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat(locale === "es" ? "es-ES" : "en-US", {
@@ -28,11 +30,15 @@ export function TransactionList({ transactions, categories, onRefresh }: Transac
 
   const handleCategoryChange = async (txId: number, categoryId: number | null) => {
     try {
-      await fetch(`/api/transactions/${txId}`, {
+      const res = await fetch(`/api/transactions/${txId}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ category_id: categoryId }),
       })
+      if (res.ok) {
+        const data = await res.json()
+        setRuleSuggestion(data.suggestion ?? null)
+      }
       onRefresh()
     } catch (err) {
       console.error("Failed to update category:", err)
@@ -66,6 +72,16 @@ export function TransactionList({ transactions, categories, onRefresh }: Transac
 
   return (
     <>
+      {ruleSuggestion && (
+        <div className="mb-4">
+          <RuleSuggestionBanner
+            suggestion={ruleSuggestion}
+            onClose={() => setRuleSuggestion(null)}
+            onAccepted={onRefresh}
+          />
+        </div>
+      )}
+
       {/* Desktop table */}
       <div className="hidden lg:block">
         <Card>
@@ -103,16 +119,25 @@ export function TransactionList({ transactions, categories, onRefresh }: Transac
                       </td>
                       <td className="py-3 px-4 max-w-[200px] truncate text-gray-500">{tx.detail}</td>
                       <td className="py-3 px-4">
-                        <select
-                          className="text-xs rounded border border-gray-200 px-1 py-0.5 max-w-[140px]"
-                          value={tx.category_id || ""}
-                          onChange={(e) => handleCategoryChange(tx.id, e.target.value ? Number(e.target.value) : null)}
-                        >
-                          <option value="">—</option>
-                          {categories.map(cat => (
-                            <option key={cat.id} value={cat.id}>{cat.name}</option>
-                          ))}
-                        </select>
+                        {tx.is_split ? (
+                          <button
+                            className="text-xs rounded border border-purple-200 bg-purple-50 px-1.5 py-0.5 text-purple-700"
+                            onClick={() => setEditingTransaction(tx)}
+                          >
+                            {t("split")}
+                          </button>
+                        ) : (
+                          <select
+                            className="text-xs rounded border border-gray-200 px-1 py-0.5 max-w-[140px]"
+                            value={tx.category_id || ""}
+                            onChange={(e) => handleCategoryChange(tx.id, e.target.value ? Number(e.target.value) : null)}
+                          >
+                            <option value="">—</option>
+                            {categories.map(cat => (
+                              <option key={cat.id} value={cat.id}>{cat.name}</option>
+                            ))}
+                          </select>
+                        )}
                       </td>
                       <td className={`py-3 px-4 text-right font-medium ${tx.amount < 0 ? "text-red-600" : "text-green-600"}`}>
                         {formatCurrency(tx.amount)}
@@ -184,16 +209,25 @@ export function TransactionList({ transactions, categories, onRefresh }: Transac
                 </div>
               </div>
               <div className="flex items-center justify-between mt-2">
-                <select
-                  className="text-xs rounded border border-gray-200 px-1 py-0.5"
-                  value={tx.category_id || ""}
-                  onChange={(e) => handleCategoryChange(tx.id, e.target.value ? Number(e.target.value) : null)}
-                >
-                  <option value="">— {t("noCategory")} —</option>
-                  {categories.map(cat => (
-                    <option key={cat.id} value={cat.id}>{cat.name}</option>
-                  ))}
-                </select>
+                {tx.is_split ? (
+                  <button
+                    className="text-xs rounded border border-purple-200 bg-purple-50 px-1.5 py-0.5 text-purple-700"
+                    onClick={() => setEditingTransaction(tx)}
+                  >
+                    {t("split")}
+                  </button>
+                ) : (
+                  <select
+                    className="text-xs rounded border border-gray-200 px-1 py-0.5"
+                    value={tx.category_id || ""}
+                    onChange={(e) => handleCategoryChange(tx.id, e.target.value ? Number(e.target.value) : null)}
+                  >
+                    <option value="">— {t("noCategory")} —</option>
+                    {categories.map(cat => (
+                      <option key={cat.id} value={cat.id}>{cat.name}</option>
+                    ))}
+                  </select>
+                )}
                 <div className="flex space-x-1">
                   <Button variant="ghost" size="sm" className="h-7 w-7 p-0"
                     onClick={() => handleToggleTransfer(tx.id, tx.is_transfer)}>
@@ -220,7 +254,7 @@ export function TransactionList({ transactions, categories, onRefresh }: Transac
         categories={categories}
         open={!!editingTransaction}
         onOpenChange={(open) => { if (!open) setEditingTransaction(null) }}
-        onSuccess={() => { setEditingTransaction(null); onRefresh() }}
+        onSuccess={(suggestion) => { setEditingTransaction(null); setRuleSuggestion(suggestion); onRefresh() }}
       />
     </>
   )
@@ -0,0 +1,226 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { ArrowRight, Check, Link2, Unlink, X, Search } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import type { Transaction, TransferPair } from "@/types"
+
+interface TransfersTabProps {
+  month: string
+  onSummaryRefresh: () => void
+}
+
+export function TransfersTab({ month, onSummaryRefresh }: TransfersTabProps) {
+  const t = useTranslations("analytics")
+  const locale = useLocale()
+  const [pairs, setPairs] = useState<TransferPair[]>([])
+  const [unmatched, setUnmatched] = useState<Transaction[]>([])
+  const [matching, setMatching] = useState(false)
+  const [matchedCount, setMatchedCount] = useState<number | null>(null)
+  const [linking, setLinking] = useState<Transaction | null>(null)
+  const [candidates, setCandidates] = useState<Transaction[]>([])
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat(locale === "es" ? "es-ES" : "en-US", {
+      style: "currency",
+      currency: "EUR",
+    }).format(amount)
+  }
+
+  const fetchPairs = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/transactions/transfer-pairs?month=${month}`)
+      if (res.ok) {
+        const data = await res.json()
+        setPairs(data.pairs)
+        setUnmatched(data.unmatched)
+      }
+    } catch (err) {
+      console.error("Failed to fetch transfer pairs:", err)
+    }
+  }, [month])
+
+  useEffect(() => { fetchPairs() }, [fetchPairs])
+
+  const refresh = () => {
+    fetchPairs()
+    onSummaryRefresh()
+  }
+
+  const handleMatch = async () => {
+    setMatching(true)
+    try {
+      const res = await fetch("/api/transactions/transfer-pairs/match", { method: "POST" })
+      if (res.ok) {
+        const data = await res.json()
+        setMatchedCount(data.matched)
+        refresh()
+      }
+    } catch (err) {
+      console.error("Failed to match transfers:", err)
+    } finally {
+      setMatching(false)
+    }
+  }
+
+  const handleStatus = async (pair: TransferPair, status: "confirmed" | "rejected") => {
+    const res = await fetch(`/api/transactions/transfer-pairs/${pair.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status }),
+    })
+    if (res.ok) refresh()
+  }
+
+  const handleNotTransfer = async (tx: Transaction) => {
+    const res = await fetch(`/api/transactions/${tx.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ is_transfer: false }),
+    })
+    if (res.ok) refresh()
+  }
+
+  const startLinking = async (tx: Transaction) => {
+    setLinking(tx)
+    setCandidates([])
+    try {
+      const res = await fetch(`/api/transactions/transfer-pairs/candidates?transactionId=${tx.id}`)
+      if (res.ok) setCandidates(await res.json())
+    } catch (err) {
+      console.error("Failed to fetch transfer candidates:", err)
+    }
+  }
+
+  const handleLink = async (counterpart: Transaction) => {
+    if (!linking) return
+    const res = await fetch("/api/transactions/transfer-pairs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ transaction_id: linking.id, counterpart_id: counterpart.id }),
+    })
+    if (res.ok) {
+      setLinking(null)
+      refresh()
+    }
+  }
+
+  const suggested = pairs.filter(p => p.status === "suggested")
+  const confirmed = pairs.filter(p => p.status === "confirmed")
+
+  const renderPair = (pair: TransferPair) => (
+    <div key={pair.id} className="flex flex-col gap-2 py-3 border-b last:border-b-0 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-center gap-2 text-sm min-w-0">
+        <div className="min-w-0">
+          <div className="font-medium truncate">{pair.out_account_name}</div>
+          <div className="text-xs text-gray-500 truncate">{pair.out_date} · {pair.out_description}</div>
+        </div>
+        <ArrowRight className="h-4 w-4 text-blue-500 flex-shrink-0" />
+        <div className="min-w-0">
+          <div className="font-medium truncate">{pair.in_account_name}</div>
+          <div className="text-xs text-gray-500 truncate">{pair.in_date} · {pair.in_description}</div>
+        </div>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <span className="font-medium">{formatCurrency(Math.abs(pair.out_amount ?? 0))}</span>
+        {pair.status === "suggested" ? (
+          <>
+            <Button size="sm" variant="outline" className="h-8 w-8 p-0" title={t("transfers.confirm")} onClick={() => handleStatus(pair, "confirmed")}>
+              <Check className="h-4 w-4 text-green-600" />
+            </Button>
+            <Button size="sm" variant="outline" className="h-8 w-8 p-0" title={t("transfers.reject")} onClick={() => handleStatus(pair, "rejected")}>
+              <X className="h-4 w-4 text-red-600" />
+            </Button>
+          </>
+        ) : (
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" title={t("transfers.unlink")} onClick={() => handleStatus(pair, "rejected")}>
+            <Unlink className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-gray-600">
+          {matchedCount !== null && t("transfers.matched", { count: matchedCount })}
+        </p>
+        <Button size="sm" onClick={handleMatch} disabled={matching}>
+          <Search className="mr-2 h-4 w-4" />
+          {t("transfers.findPairs")}
+        </Button>
+      </div>
+
+      {suggested.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{t("transfers.suggested")} ({suggested.length})</CardTitle>
+          </CardHeader>
+          <CardContent>{suggested.map(renderPair)}</CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{t("transfers.unmatched")} ({unmatched.length})</CardTitle>
+          <p className="text-sm text-gray-500">{t("transfers.unmatchedHint")}</p>
+        </CardHeader>
+        <CardContent>
+          {unmatched.length === 0 ? (
+            <p className="py-4 text-center text-sm text-gray-500">{t("transfers.noUnmatched")}</p>
+          ) : unmatched.map(tx => (
+            <div key={tx.id} className="py-3 border-b last:border-b-0">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <div className="text-sm min-w-0">
+                  <div className="font-medium truncate">{tx.description}</div>
+                  <div className="text-xs text-gray-500">{tx.date} · {tx.account_name}</div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className={`font-medium ${tx.amount < 0 ? "text-red-600" : "text-green-600"}`}>{formatCurrency(tx.amount)}</span>
+                  <Button size="sm" variant="outline" onClick={() => linking?.id === tx.id ? setLinking(null) : startLinking(tx)}>
+                    <Link2 className="mr-1 h-4 w-4" />
+                    {t("transfers.link")}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleNotTransfer(tx)}>
+                    {t("transfers.notTransfer")}
+                  </Button>
+                </div>
+              </div>
+
+              {linking?.id === tx.id && (
+                <div className="mt-2 rounded-md border bg-gray-50 p-2 space-y-1">
+                  {candidates.length === 0 ? (
+                    <p className="text-xs text-gray-500">{t("transfers.noCandidates")}</p>
+                  ) : candidates.map(c => (
+                    <button
+                      key={c.id}
+                      type="button"
+                      onClick={() => handleLink(c)}
+                      className="flex w-full items-center justify-between gap-2 rounded px-2 py-1 text-left text-sm hover:bg-white"
+                    >
+                      <span className="truncate">{c.date} · {c.account_name} · {c.description}</span>
+                      <span className="flex-shrink-0 font-medium">{formatCurrency(c.amount)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {confirmed.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{t("transfers.confirmed")} ({confirmed.length})</CardTitle>
+          </CardHeader>
+          <CardContent>{confirmed.map(renderPair)}</CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -6,6 +6,8 @@ import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
 import { useTranslations } from 'next-intl'
 import type { User } from "@/types"
+import { TwoFactorChallenge } from "./two-factor-challenge"
+import { TwoFactorEnrollment } from "./two-factor-enrollment"
 
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -41,6 +43,8 @@ export function LoginForm({ onLogin, onSwitchToRegister, onSwitchToForgotPasswor
   const t = useTranslations()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // After a correct password, 2FA may still ask for a code or for enrollment
+  const [twoFactorStep, setTwoFactorStep] = useState<"verify" | "setup" | null>(null)
 
   const loginSchema = createLoginSchema(t)
   
@@ -71,6 +75,11 @@ export function LoginForm({ onLogin, onSwitchToRegister, onSwitchToForgotPasswor
         throw new Error(data.error || 'Login failed')
       }
 
+      if (data.twoFactor) {
+        setTwoFactorStep(data.twoFactor)
+        return
+      }
+
       onLogin(data.user)
     } catch (err) {
       setError(err instanceof Error ? err.message : t('common.error'))
@@ -79,6 +88,26 @@ export function LoginForm({ onLogin, onSwitchToRegister, onSwitchToForgotPasswor
     }
   }
 
+  if (twoFactorStep) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{t('twoFactor.title')}</CardTitle>
+          <CardDescription>
+            {twoFactorStep === 'setup' ? t('twoFactor.setupRequired') : t('twoFactor.loginDescription')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {twoFactorStep === 'setup' ? (
+            <TwoFactorEnrollment onComplete={onLogin} onCancel={() => setTwoFactorStep(null)} />
+          ) : (
+            <TwoFactorChallenge onVerified={onLogin} onRestart={() => setTwoFactorStep(null)} />
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
   return (
     <Card className="w-full max-w-md">
       <CardHeader>
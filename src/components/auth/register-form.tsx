@@ -25,7 +25,7 @@ const createRegisterSchema = (t: any) => z.object({
   email: z.string().email(t('forms.invalidEmail')),
   password: z.string().min(8, "Password must be at least 8 characters"),
   confirmPassword: z.string(),
-  familyId: z.string().optional(),
+  inviteCode: z.string().optional(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
@@ -36,15 +36,16 @@ type RegisterFormValues = {
   email: string
   password: string
   confirmPassword: string
-  familyId?: string
+  inviteCode?: string
 }
 
 interface RegisterFormProps {
   onRegister: (user: User) => void
   onSwitchToLogin: () => void
+  inviteToken?: string | null // From an invitation link; replaces the code field
 }
 
-export function RegisterForm({ onRegister, onSwitchToLogin }: RegisterFormProps) {
+export function RegisterForm({ onRegister, onSwitchToLogin, inviteToken }: RegisterFormProps) {
   const t = useTranslations()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -58,7 +59,7 @@ export function RegisterForm({ onRegister, onSwitchToLogin }: RegisterFormProps)
       email: "",
       password: "",
       confirmPassword: "",
-      familyId: "",
+      inviteCode: "",
     },
   })
 
@@ -71,7 +72,7 @@ export function RegisterForm({ onRegister, onSwitchToLogin }: RegisterFormProps)
         name: values.name,
         email: values.email,
         password: values.password,
-        ...(values.familyId && { familyId: parseInt(values.familyId) }),
+        ...((inviteToken || values.inviteCode) && { inviteToken: inviteToken || values.inviteCode }),
       }
 
       const response = await fetch('/api/auth/register', {
@@ -173,22 +174,28 @@ export function RegisterForm({ onRegister, onSwitchToLogin }: RegisterFormProps)
                 </FormItem>
               )}
             />
-            <FormField
-              control={form.control}
-              name="familyId"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>{t('auth.familyIdOptional')}</FormLabel>
-                  <FormControl>
-                    <Input 
-                      placeholder={t('auth.familyIdDescription')} 
-                      {...field} 
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {inviteToken ? (
+              <div className="text-sm text-blue-800 bg-blue-50 p-3 rounded">
+                {t('auth.joiningWithInvitation')}
+              </div>
+            ) : (
+              <FormField
+                control={form.control}
+                name="inviteCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('auth.inviteCodeOptional')}</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder={t('auth.inviteCodeDescription')}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
             {error && (
               <div className="text-sm text-destructive bg-destructive/10 p-3 rounded">
                 {error}
@@ -0,0 +1,85 @@
+"use client"
+
+import { useState } from "react"
+import { useTranslations } from "next-intl"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { User } from "@/types"
+
+interface TwoFactorChallengeProps {
+  onVerified: (user: User) => void
+  onRestart: () => void
+}
+
+export function TwoFactorChallenge({ onVerified, onRestart }: TwoFactorChallengeProps) {
+  const t = useTranslations("twoFactor")
+  const [code, setCode] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [expired, setExpired] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/auth/two-factor/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || t("invalidCode"))
+        // Out of attempts or timed out: the password has to be entered again
+        setExpired(res.status === 401)
+        setCode("")
+        return
+      }
+      onVerified(data.user)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {useRecoveryCode ? t("recoveryInstructions") : t("verifyInstructions")}
+      </p>
+      <div className="space-y-1">
+        <Label htmlFor="two-factor-code">{useRecoveryCode ? t("recoveryCode") : t("code")}</Label>
+        <Input
+          id="two-factor-code"
+          autoFocus
+          inputMode={useRecoveryCode ? "text" : "numeric"}
+          autoComplete="one-time-code"
+          placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          disabled={expired}
+        />
+      </div>
+      {error && (
+        <div className="text-sm text-destructive bg-destructive/10 p-3 rounded">{error}</div>
+      )}
+      {expired ? (
+        <Button type="button" className="w-full" onClick={onRestart}>{t("signInAgain")}</Button>
+      ) : (
+        <Button type="submit" className="w-full" disabled={!code || isLoading}>{t("verify")}</Button>
+      )}
+      <div className="text-center">
+        <Button
+          type="button"
+          variant="link"
+          className="text-sm"
+          onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(""); setError(null) }}
+        >
+          {useRecoveryCode ? t("useAuthenticator") : t("useRecoveryCode")}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,140 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useTranslations } from "next-intl"
+import { Copy, Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { User } from "@/types"
+
+interface RecoveryCodesProps {
+  codes: string[]
+  onDone: () => void
+}
+
+export function RecoveryCodes({ codes, onDone }: RecoveryCodesProps) {
+  const t = useTranslations("twoFactor")
+
+  const download = () => {
+    const blob = new Blob([codes.join("\n") + "\n"], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "recovery-codes.txt"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+        {t("recoveryCodesNotice")}
+      </div>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-gray-50 p-3 font-mono text-sm">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(codes.join("\n"))}>
+          <Copy className="mr-2 h-4 w-4" />
+          {t("copy")}
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={download}>
+          <Download className="mr-2 h-4 w-4" />
+          {t("download")}
+        </Button>
+        <Button type="button" size="sm" onClick={onDone}>{t("savedCodes")}</Button>
+      </div>
+    </div>
+  )
+}
+
+interface TwoFactorEnrollmentProps {
+  onComplete: (user: User) => void
+  onCancel?: () => void
+}
+
+/**
+ * QR code, confirmation code and recovery codes. Used from settings and from the login
+ * of an administrator who has to set up 2FA before signing in.
+ */
+export function TwoFactorEnrollment({ onComplete, onCancel }: TwoFactorEnrollmentProps) {
+  const t = useTranslations("twoFactor")
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCode: string } | null>(null)
+  const [code, setCode] = useState("")
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [user, setUser] = useState<User | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    const start = async () => {
+      const res = await fetch("/api/auth/two-factor/setup", { method: "POST" })
+      const data = await res.json()
+      if (res.ok) {
+        setEnrollment(data)
+      } else {
+        setError(data.error || t("setupFailed"))
+      }
+    }
+    start()
+  }, [t])
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/auth/two-factor/enable", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || t("invalidCode"))
+        return
+      }
+      setRecoveryCodes(data.recoveryCodes)
+      setUser(data.user)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (recoveryCodes && user) {
+    return <RecoveryCodes codes={recoveryCodes} onDone={() => onComplete(user)} />
+  }
+
+  return (
+    <form onSubmit={handleConfirm} className="space-y-4">
+      <p className="text-sm text-gray-600">{t("scanInstructions")}</p>
+      {enrollment && (
+        <div className="flex flex-col items-center gap-2">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={enrollment.qrCode} alt={t("qrAlt")} className="h-44 w-44" />
+          <p className="text-xs text-gray-500">{t("manualEntry")}</p>
+          <code className="break-all rounded bg-gray-100 px-2 py-1 text-xs">{enrollment.secret}</code>
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label htmlFor="two-factor-enroll-code">{t("code")}</Label>
+        <Input
+          id="two-factor-enroll-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+        />
+      </div>
+      {error && (
+        <div className="text-sm text-destructive bg-destructive/10 p-3 rounded">{error}</div>
+      )}
+      <div className="flex gap-2">
+        <Button type="submit" disabled={!enrollment || !code || isLoading}>{t("enable")}</Button>
+        {onCancel && <Button type="button" variant="outline" onClick={onCancel}>{t("cancel")}</Button>}
+      </div>
+    </form>
+  )
+}
@@ -99,6 +99,9 @@ export function MainLayout({ children }: MainLayoutProps) {
           }}
         >
           <div className="p-4 pt-20 sm:p-6 lg:p-8 lg:pt-8">
+            {user.role === 'guest' && (
+              <p className="mb-4 rounded-md border border-gray-200 bg-gray-50 p-3 text-sm text-gray-600">{t('common.readOnlyAccess')}</p>
+            )}
             {children}
           </div>
         </main>
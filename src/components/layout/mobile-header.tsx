@@ -3,6 +3,7 @@
 import { Button } from "@/components/ui/button"
 import { Menu, X, Users } from "lucide-react"
 import { useTranslations } from 'next-intl'
+import { NotificationBell } from "./notification-bell"
 
 interface MobileHeaderProps {
   isMobileMenuOpen: boolean
@@ -34,11 +35,14 @@ export function MobileHeader({ isMobileMenuOpen, setIsMobileMenuOpen, pageTitle
           </div>
         </div>
         
-        {pageTitle && (
-          <h1 className="text-lg font-semibold text-gray-900 truncate">
-            {pageTitle}
-          </h1>
-        )}
+        <div className="flex items-center space-x-2 min-w-0">
+          {pageTitle && (
+            <h1 className="text-lg font-semibold text-gray-900 truncate">
+              {pageTitle}
+            </h1>
+          )}
+          <NotificationBell />
+        </div>
       </div>
     </div>
   )
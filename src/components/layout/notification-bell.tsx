@@ -0,0 +1,136 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useRouter } from "next/navigation"
+import { Bell } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import type { AppNotification } from "@/types"
+
+const POLL_INTERVAL_MS = 60000
+
+interface NotificationBellProps {
+  align?: "start" | "end"
+}
+
+export function NotificationBell({ align = "end" }: NotificationBellProps) {
+  const t = useTranslations("notificationCenter")
+  const locale = useLocale()
+  const router = useRouter()
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const res = await fetch("/api/notifications")
+      if (res.ok) {
+        const data = await res.json()
+        setNotifications(data.notifications)
+        setUnreadCount(data.unreadCount)
+      }
+    } catch (err) {
+      console.error("Failed to fetch notifications:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchNotifications])
+
+  const formatDateTime = (date: string) => {
+    return new Date(`${date.replace(" ", "T")}Z`).toLocaleString(locale === "es" ? "es-ES" : "en-US", {
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  const formatSize = (bytes: number) => {
+    return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`
+  }
+
+  const renderMessage = (notification: AppNotification) => {
+    const { data } = notification
+    return t(`events.${notification.type}`, {
+      ...data,
+      ...(notification.type === "backup_completed" ? { size: formatSize(Number(data.size) || 0) } : {}),
+    })
+  }
+
+  const handleOpen = async (notification: AppNotification) => {
+    if (!notification.read_at) {
+      await fetch(`/api/notifications/${notification.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ read: true }),
+      })
+      fetchNotifications()
+    }
+    if (notification.link) {
+      router.push(`/${locale}${notification.link}`)
+    }
+  }
+
+  const markAllRead = async () => {
+    const res = await fetch("/api/notifications/read-all", { method: "POST" })
+    if (res.ok) fetchNotifications()
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative h-9 w-9 p-0 tap-target" aria-label={t("title")}>
+          <Bell className="h-5 w-5 text-gray-600" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-medium text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align={align} className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>{t("title")}</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button className="px-2 text-xs text-blue-600 hover:underline" onClick={markAllRead}>
+              {t("markAllRead")}
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-gray-500">{t("empty")}</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => handleOpen(notification)}
+                className="items-start gap-2 py-2"
+              >
+                <span className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${notification.read_at ? "bg-transparent" : "bg-blue-600"}`} />
+                <div className="min-w-0">
+                  <p className={`text-sm ${notification.read_at ? "text-gray-600" : "font-medium text-gray-900"}`}>
+                    {renderMessage(notification)}
+                  </p>
+                  <p className="text-xs text-gray-500">{formatDateTime(notification.created_at)}</p>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
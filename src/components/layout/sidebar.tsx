@@ -5,6 +5,7 @@ import { usePathname } from "next/navigation"
 import { useState } from "react"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
+import { NotificationBell } from "./notification-bell"
 import {
   LayoutDashboard,
   Wallet,
@@ -17,7 +18,9 @@ import {
   Mail,
   Tag,
   MessageSquare,
-  BarChart3
+  BarChart3,
+  Repeat,
+  BellRing
 } from "lucide-react"
 import { useTranslations, useLocale } from 'next-intl'
 import type { User } from "@/types"
@@ -61,6 +64,16 @@ export function Sidebar({ user, onLogout, isMobileMenuOpen: externalMobileMenuOp
       href: `/${locale}/analytics`,
       icon: BarChart3,
     },
+    {
+      name: t('navigation.recurring'),
+      href: `/${locale}/recurring`,
+      icon: Repeat,
+    },
+    {
+      name: t('navigation.alerts'),
+      href: `/${locale}/alerts`,
+      icon: BellRing,
+    },
     {
       name: t('navigation.categories'),
       href: `/${locale}/categories`,
@@ -108,7 +121,7 @@ export function Sidebar({ user, onLogout, isMobileMenuOpen: externalMobileMenuOp
         "lg:translate-x-0 lg:shadow-none",
         isMobileMenuOpen ? "fixed z-50 translate-x-0" : "fixed -translate-x-full lg:relative lg:translate-x-0"
       )}>
-      <div className="flex h-16 items-center border-b border-gray-200 px-6">
+      <div className="flex h-16 items-center justify-between border-b border-gray-200 pl-6 pr-3">
         <div className="flex items-center space-x-2">
           <img 
             src="/logo/logo.png" 
@@ -117,6 +130,9 @@ export function Sidebar({ user, onLogout, isMobileMenuOpen: externalMobileMenuOp
           />
           <span className="text-lg font-semibold">{t('navigation.familyWealth')}</span>
         </div>
+        <div className="hidden lg:block">
+          <NotificationBell align="start" />
+        </div>
       </div>
       
       <div className="flex flex-1 flex-col justify-between">
@@ -0,0 +1,176 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Copy, Link as LinkIcon, MailPlus, Trash2 } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import type { FamilyInvitation, UserRole } from "@/types"
+
+const ROLES: UserRole[] = ["user", "guest", "administrator"]
+const EXPIRY_OPTIONS = ["1", "7", "30"]
+
+export function FamilyInvitations() {
+  const t = useTranslations("invitations")
+  const tRoles = useTranslations("roles")
+  const locale = useLocale()
+  const [invitations, setInvitations] = useState<FamilyInvitation[]>([])
+  const [role, setRole] = useState<UserRole>("user")
+  const [expiry, setExpiry] = useState("7")
+  const [copied, setCopied] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchInvitations = useCallback(async () => {
+    try {
+      const res = await fetch("/api/members/invitations")
+      if (res.ok) {
+        const data = await res.json()
+        setInvitations(data.invitations)
+      }
+    } catch (err) {
+      console.error("Failed to fetch invitations:", err)
+    }
+  }, [])
+
+  useEffect(() => { fetchInvitations() }, [fetchInvitations])
+
+  const formatDate = (date: string) => {
+    return new Date(`${date.replace(" ", "T")}Z`).toLocaleDateString(locale === "es" ? "es-ES" : "en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    })
+  }
+
+  const copy = async (key: string, text: string) => {
+    await navigator.clipboard.writeText(text)
+    setCopied(key)
+    setTimeout(() => setCopied(null), 2000)
+  }
+
+  const inviteLink = (invitation: FamilyInvitation) => {
+    return `${window.location.origin}/${locale}/invite/${invitation.token}`
+  }
+
+  const handleCreate = async () => {
+    setError(null)
+    const res = await fetch("/api/members/invitations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ role, expires_in_days: parseInt(expiry) }),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || t("createFailed"))
+      return
+    }
+    fetchInvitations()
+  }
+
+  const handleRevoke = async (invitation: FamilyInvitation) => {
+    if (!confirm(t("revokeConfirm", { code: invitation.code }))) return
+    const res = await fetch(`/api/members/invitations/${invitation.id}`, { method: "DELETE" })
+    if (res.ok) fetchInvitations()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg sm:text-xl">
+          <MailPlus className="mr-2 h-5 w-5" />
+          {t("title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">{t("description")}</p>
+
+        <div className="flex flex-col gap-3 rounded-md border p-3 sm:flex-row sm:items-end">
+          <div className="space-y-1">
+            <Label>{t("role")}</Label>
+            <Select value={role} onValueChange={value => setRole(value as UserRole)}>
+              <SelectTrigger className="sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map(option => (
+                  <SelectItem key={option} value={option}>{tRoles(option)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>{t("expiry")}</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option} value={option}>{t("expiryDays", { days: Number(option) })}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleCreate}>{t("create")}</Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {invitations.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("empty")}</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {invitations.map(invitation => {
+              const pending = invitation.status === "pending"
+              return (
+                <div key={invitation.id} className="flex flex-col gap-2 p-3 sm:flex-row sm:items-center sm:justify-between">
+                  <div className={`min-w-0 ${pending ? "" : "opacity-50"}`}>
+                    <div className="flex items-center gap-2">
+                      <code className="font-mono text-sm font-medium">{invitation.code}</code>
+                      <Badge variant="secondary">{tRoles(invitation.role)}</Badge>
+                      {!pending && (
+                        <Badge variant={invitation.status === "revoked" ? "destructive" : "secondary"}>
+                          {t(`status.${invitation.status}`)}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="mt-1 text-xs text-gray-500">
+                      {t("createdBy", { name: invitation.created_by_name || "", date: formatDate(invitation.created_at) })}
+                      {" · "}
+                      {invitation.status === "accepted" && invitation.accepted_at
+                        ? t("acceptedBy", { name: invitation.accepted_by_name || "", date: formatDate(invitation.accepted_at) })
+                        : t("expires", { date: formatDate(invitation.expires_at) })}
+                    </div>
+                  </div>
+                  {pending && (
+                    <div className="flex flex-shrink-0 items-center gap-1">
+                      <Button variant="outline" size="sm" onClick={() => copy(`link-${invitation.id}`, inviteLink(invitation))}>
+                        <LinkIcon className="mr-1 h-4 w-4" />
+                        {copied === `link-${invitation.id}` ? t("copied") : t("copyLink")}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => copy(`code-${invitation.id}`, invitation.code)}>
+                        <Copy className="mr-1 h-4 w-4" />
+                        {copied === `code-${invitation.id}` ? t("copied") : t("copyCode")}
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title={t("revoke")} onClick={() => handleRevoke(invitation)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,198 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Copy, KeyRound, Trash2 } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import type { ApiToken, ApiTokenScope } from "@/types"
+
+const SCOPES: ApiTokenScope[] = ["read", "balances:write", "transactions:import", "admin"]
+const EXPIRY_OPTIONS = ["30", "90", "365", "never"]
+
+interface ApiTokenSettingsProps {
+  isAdmin: boolean
+  readOnly?: boolean
+}
+
+export function ApiTokenSettings({ isAdmin, readOnly = false }: ApiTokenSettingsProps) {
+  const t = useTranslations("apiTokens")
+  const locale = useLocale()
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [name, setName] = useState("")
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"])
+  const [expiry, setExpiry] = useState("90")
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const res = await fetch("/api/tokens")
+      if (res.ok) setTokens(await res.json())
+    } catch (err) {
+      console.error("Failed to fetch API tokens:", err)
+    }
+  }, [])
+
+  useEffect(() => { fetchTokens() }, [fetchTokens])
+
+  const formatDate = (date: string) => {
+    return new Date(`${date.replace(" ", "T")}Z`).toLocaleDateString(locale === "es" ? "es-ES" : "en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    })
+  }
+
+  const isExpired = (token: ApiToken) => {
+    return !!token.expires_at && new Date(`${token.expires_at.replace(" ", "T")}Z`) < new Date()
+  }
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope))
+  }
+
+  const handleCreate = async () => {
+    setError(null)
+    const res = await fetch("/api/tokens", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, scopes, expires_in_days: expiry === "never" ? null : parseInt(expiry) }),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || t("saveFailed"))
+      return
+    }
+    setNewToken(data.token)
+    setName("")
+    setScopes(["read"])
+    fetchTokens()
+  }
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(t("revokeConfirm", { name: token.name }))) return
+    const res = await fetch(`/api/tokens/${token.id}`, { method: "DELETE" })
+    if (res.ok) fetchTokens()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="mr-2 h-5 w-5" />
+          {t("title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">{t("description")}</p>
+
+        {newToken && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 space-y-2">
+            <p className="text-sm text-amber-900">{t("tokenNotice")}</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate rounded bg-white px-2 py-1 text-xs">{newToken}</code>
+              <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(newToken)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setNewToken(null)}>{t("dismiss")}</Button>
+            </div>
+          </div>
+        )}
+
+        {tokens.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("empty")}</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {tokens.map(token => {
+              const inactive = !!token.revoked_at || isExpired(token)
+              return (
+                <div key={token.id} className="flex flex-col gap-2 p-3 sm:flex-row sm:items-center sm:justify-between">
+                  <div className={`min-w-0 ${inactive ? "opacity-50" : ""}`}>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm truncate">{token.name}</span>
+                      <code className="text-xs text-gray-500">{token.token_prefix}…</code>
+                      {token.revoked_at && <Badge variant="destructive">{t("revoked")}</Badge>}
+                      {!token.revoked_at && isExpired(token) && <Badge variant="secondary">{t("expired")}</Badge>}
+                    </div>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {token.scopes.map(scope => (
+                        <Badge key={scope} variant="secondary" className="font-mono font-normal">{scope}</Badge>
+                      ))}
+                    </div>
+                    <div className="mt-1 text-xs text-gray-500">
+                      {t("created", { date: formatDate(token.created_at) })}
+                      {" · "}
+                      {token.expires_at ? t("expires", { date: formatDate(token.expires_at) }) : t("neverExpires")}
+                      {" · "}
+                      {token.last_used_at ? t("lastUsed", { date: formatDate(token.last_used_at) }) : t("neverUsed")}
+                    </div>
+                  </div>
+                  {!token.revoked_at && (
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0 flex-shrink-0" title={t("revoke")} onClick={() => handleRevoke(token)}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="font-medium text-sm">{t("add")}</div>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="api-token-name">{t("name")}</Label>
+              <Input id="api-token-name" placeholder={t("namePlaceholder")} value={name} onChange={e => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>{t("expiry")}</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option} value={option}>
+                      {option === "never" ? t("neverExpires") : t("expiryDays", { days: Number(option) })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>{t("scopes")}</Label>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {SCOPES.filter(scope => (scope !== "admin" || isAdmin) && (scope === "read" || !readOnly)).map(scope => (
+                <label key={scope} className="flex items-start gap-2 text-sm">
+                  <Checkbox checked={scopes.includes(scope)} onCheckedChange={checked => toggleScope(scope, checked === true)} className="mt-0.5" />
+                  <span>
+                    <span className="font-mono">{scope}</span>
+                    <span className="block text-xs text-gray-500">{t(`scopeDescriptions.${scope.replace(":", "_")}`)}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button onClick={handleCreate} disabled={!name.trim() || scopes.length === 0}>{t("create")}</Button>
+        </div>
+
+        <p className="text-xs text-gray-500">{t("usageHint")}</p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,193 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Coins, Trash2, Upload } from "lucide-react"
+import { useTranslations } from "next-intl"
+import type { ExchangeRate } from "@/types"
+
+const CURRENCIES = ["EUR", "USD", "GBP", "CHF", "JPY", "CAD", "AUD"]
+
+export function CurrencySettings() {
+  const t = useTranslations()
+  const [baseCurrency, setBaseCurrency] = useState("EUR")
+  const [canChangeBase, setCanChangeBase] = useState(false)
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0])
+  const [currency, setCurrency] = useState("USD")
+  const [rate, setRate] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null)
+
+  const fetchSettings = async () => {
+    try {
+      const res = await fetch("/api/settings/currency")
+      if (res.ok) {
+        const data = await res.json()
+        setBaseCurrency(data.baseCurrency)
+        setCanChangeBase(data.canChangeBase)
+        setRates(data.rates)
+      }
+    } catch {}
+  }
+
+  useEffect(() => {
+    fetchSettings()
+  }, [])
+
+  const handleBaseCurrencyChange = async (value: string) => {
+    if (rates.length > 0 && !confirm(t("currency.confirmBaseChange", { count: rates.length }))) return
+    setMessage(null)
+    const res = await fetch("/api/settings/currency", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ baseCurrency: value }),
+    })
+    if (res.ok) {
+      setMessage({ ok: true, text: t("currency.baseCurrencySaved") })
+      fetchSettings()
+    }
+  }
+
+  const handleAddRate = async () => {
+    setSaving(true)
+    setMessage(null)
+    try {
+      const res = await fetch("/api/settings/currency/rates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date, currency, rate: parseFloat(rate.replace(",", ".")) }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setMessage({ ok: false, text: data.error || t("currency.saveFailed") })
+        return
+      }
+      setRate("")
+      fetchSettings()
+    } catch {
+      setMessage({ ok: false, text: t("currency.saveFailed") })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteRate = async (id: number) => {
+    const res = await fetch(`/api/settings/currency/rates/${id}`, { method: "DELETE" })
+    if (res.ok) {
+      setRates(prev => prev.filter(r => r.id !== id))
+    }
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+    setMessage(null)
+
+    const formData = new FormData()
+    formData.append("file", file)
+    try {
+      const res = await fetch("/api/settings/currency/rates/import", { method: "POST", body: formData })
+      const data = await res.json()
+      if (!res.ok) {
+        setMessage({ ok: false, text: data.error || t("currency.saveFailed") })
+        return
+      }
+      setMessage({
+        ok: data.errors.length === 0,
+        text: t("currency.importResult", { imported: data.imported, errors: data.errors.length }),
+      })
+      fetchSettings()
+    } catch {
+      setMessage({ ok: false, text: t("currency.saveFailed") })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Coins className="mr-2 h-5 w-5" />
+          {t("currency.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">{t("currency.description")}</p>
+
+        <div>
+          <Label>{t("currency.baseCurrency")}</Label>
+          <select
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm disabled:bg-gray-50"
+            value={baseCurrency}
+            disabled={!canChangeBase}
+            onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+          >
+            {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <p className="text-xs text-gray-400 mt-1">{t("currency.baseCurrencyHint")}</p>
+        </div>
+
+        <div className="border-t pt-4">
+          <h4 className="font-medium mb-3">{t("currency.exchangeRates")}</h4>
+          <div className="grid grid-cols-3 gap-2">
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            <select
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+            >
+              {CURRENCIES.filter(c => c !== baseCurrency).map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <Input
+              inputMode="decimal"
+              placeholder={t("currency.ratePlaceholder", { currency, base: baseCurrency })}
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+            />
+          </div>
+          <div className="flex space-x-3 mt-3">
+            <Button onClick={handleAddRate} disabled={!rate || saving} className="flex-1">
+              {t("currency.addRate")}
+            </Button>
+            <input id="ratesCsvInput" type="file" accept=".csv,.txt" onChange={handleImport} className="hidden" />
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => document.getElementById("ratesCsvInput")?.click()}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              {t("currency.importCsv")}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">{t("currency.csvFormat")}</p>
+        </div>
+
+        {message && (
+          <div className={`text-sm p-3 rounded ${message.ok ? "text-green-700 bg-green-50" : "text-red-700 bg-red-50"}`}>
+            {message.text}
+          </div>
+        )}
+
+        {rates.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">{t("currency.noRates")}</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto border rounded-md divide-y">
+            {rates.map(r => (
+              <div key={r.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span className="text-gray-600">{r.date}</span>
+                <span className="font-medium">1 {r.currency} = {r.rate} {baseCurrency}</span>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleDeleteRate(r.id)}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
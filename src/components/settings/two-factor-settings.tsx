@@ -0,0 +1,127 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { ShieldCheck } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import { TwoFactorEnrollment, RecoveryCodes } from "@/components/auth/two-factor-enrollment"
+import type { TwoFactorStatus } from "@/types"
+
+export function TwoFactorSettings() {
+  const t = useTranslations("twoFactor")
+  const locale = useLocale()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [enrolling, setEnrolling] = useState(false)
+  const [code, setCode] = useState("")
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const res = await fetch("/api/auth/two-factor")
+      if (res.ok) setStatus(await res.json())
+    } catch (err) {
+      console.error("Failed to fetch two-factor status:", err)
+    }
+  }, [])
+
+  useEffect(() => { fetchStatus() }, [fetchStatus])
+
+  const formatDate = (date: string) => {
+    return new Date(`${date.replace(" ", "T")}Z`).toLocaleDateString(locale === "es" ? "es-ES" : "en-US", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    })
+  }
+
+  const submitCode = async (path: string) => {
+    setError(null)
+    const res = await fetch(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code }),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || t("invalidCode"))
+      return null
+    }
+    setCode("")
+    return data
+  }
+
+  const handleRegenerate = async () => {
+    const data = await submitCode("/api/auth/two-factor/recovery-codes")
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes)
+      fetchStatus()
+    }
+  }
+
+  const handleDisable = async () => {
+    if (!confirm(t("disableConfirm"))) return
+    const data = await submitCode("/api/auth/two-factor/disable")
+    if (data) fetchStatus()
+  }
+
+  if (!status) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="mr-2 h-5 w-5" />
+          {t("title")}
+          {status.enabled && <Badge variant="secondary" className="ml-2">{t("on")}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">{t("description")}</p>
+
+        {recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : status.enabled ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {status.enabled_at && t("enabledSince", { date: formatDate(status.enabled_at) })}
+              {" · "}
+              {t("recoveryCodesRemaining", { count: status.recoveryCodesRemaining })}
+            </p>
+            {status.required && <p className="text-sm text-gray-500">{t("requiredForYou")}</p>}
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+              <div className="space-y-1 sm:w-48">
+                <Label htmlFor="two-factor-manage-code">{t("code")}</Label>
+                <Input
+                  id="two-factor-manage-code"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={e => setCode(e.target.value)}
+                />
+              </div>
+              <Button variant="outline" disabled={!code} onClick={handleRegenerate}>{t("regenerate")}</Button>
+              {!status.required && (
+                <Button variant="destructive" disabled={!code} onClick={handleDisable}>{t("disable")}</Button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">{t("manageHint")}</p>
+          </div>
+        ) : enrolling ? (
+          <TwoFactorEnrollment
+            onComplete={() => { setEnrolling(false); fetchStatus() }}
+            onCancel={() => setEnrolling(false)}
+          />
+        ) : (
+          <Button onClick={() => setEnrolling(true)}>{t("setUp")}</Button>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,269 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { Copy, KeyRound, Send, Trash2, Webhook as WebhookIcon } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import type { Webhook, WebhookDelivery, WebhookEvent } from "@/types"
+
+const EVENTS: WebhookEvent[] = ["balance.created", "transaction.imported", "debt.auto_updated", "backup.completed", "alert.triggered"]
+
+const STATUS_CLASSES: Record<WebhookDelivery["status"], string> = {
+  success: "bg-green-100 text-green-800",
+  pending: "bg-amber-100 text-amber-800",
+  failed: "bg-red-100 text-red-800",
+}
+
+export function WebhookSettings() {
+  const t = useTranslations("webhooks")
+  const locale = useLocale()
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [deliveries, setDeliveries] = useState<Record<number, WebhookDelivery[]>>({})
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const [url, setUrl] = useState("")
+  const [description, setDescription] = useState("")
+  const [events, setEvents] = useState<WebhookEvent[]>([])
+  const [secret, setSecret] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null)
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const res = await fetch("/api/webhooks")
+      if (res.ok) setWebhooks(await res.json())
+    } catch (err) {
+      console.error("Failed to fetch webhooks:", err)
+    }
+  }, [])
+
+  useEffect(() => { fetchWebhooks() }, [fetchWebhooks])
+
+  const fetchDeliveries = async (id: number) => {
+    const res = await fetch(`/api/webhooks/${id}/deliveries`)
+    if (res.ok) {
+      const data = await res.json()
+      setDeliveries(prev => ({ ...prev, [id]: data }))
+    }
+  }
+
+  const formatDateTime = (date: string) => {
+    return new Date(`${date.replace(" ", "T")}Z`).toLocaleString(locale === "es" ? "es-ES" : "en-US", {
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+  }
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(prev => checked ? [...prev, event] : prev.filter(e => e !== event))
+  }
+
+  const handleCreate = async () => {
+    setMessage(null)
+    const res = await fetch("/api/webhooks", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url, description, events }),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setMessage({ ok: false, text: data.error || t("saveFailed") })
+      return
+    }
+    setSecret(data.secret)
+    setUrl("")
+    setDescription("")
+    setEvents([])
+    fetchWebhooks()
+  }
+
+  const handleToggle = async (webhook: Webhook, isActive: boolean) => {
+    const res = await fetch(`/api/webhooks/${webhook.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ is_active: isActive }),
+    })
+    if (res.ok) fetchWebhooks()
+  }
+
+  const handleRotate = async (webhook: Webhook) => {
+    if (!confirm(t("rotateConfirm"))) return
+    const res = await fetch(`/api/webhooks/${webhook.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rotate_secret: true }),
+    })
+    if (res.ok) setSecret((await res.json()).secret)
+  }
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(t("deleteConfirm", { url: webhook.url }))) return
+    const res = await fetch(`/api/webhooks/${webhook.id}`, { method: "DELETE" })
+    if (res.ok) fetchWebhooks()
+  }
+
+  const handleTest = async (webhook: Webhook) => {
+    setMessage(null)
+    const res = await fetch(`/api/webhooks/${webhook.id}/test`, { method: "POST" })
+    if (!res.ok) return
+    const delivery: WebhookDelivery = await res.json()
+    setMessage(delivery.status === "success"
+      ? { ok: true, text: t("testSucceeded", { status: delivery.response_status ?? "" }) }
+      : { ok: false, text: t("testFailed", { error: delivery.error ?? "" }) })
+    if (expanded === webhook.id) fetchDeliveries(webhook.id)
+  }
+
+  const toggleDeliveries = (id: number) => {
+    if (expanded === id) {
+      setExpanded(null)
+      return
+    }
+    setExpanded(id)
+    fetchDeliveries(id)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <WebhookIcon className="mr-2 h-5 w-5" />
+          {t("title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">{t("description")}</p>
+
+        {secret && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 space-y-2">
+            <p className="text-sm text-amber-900">{t("secretNotice")}</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate rounded bg-white px-2 py-1 text-xs">{secret}</code>
+              <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(secret)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSecret(null)}>{t("dismiss")}</Button>
+            </div>
+          </div>
+        )}
+
+        {message && (
+          <p className={`text-sm ${message.ok ? "text-green-600" : "text-red-600"}`}>{message.text}</p>
+        )}
+
+        {webhooks.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("empty")}</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {webhooks.map(webhook => (
+              <div key={webhook.id} className="p-3 space-y-2">
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                  <div className={`min-w-0 ${webhook.is_active ? "" : "opacity-50"}`}>
+                    <div className="font-medium text-sm truncate">{webhook.url}</div>
+                    {webhook.description && <div className="text-xs text-gray-500">{webhook.description}</div>}
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {webhook.events.map(event => (
+                        <Badge key={event} variant="secondary" className="font-mono font-normal">{event}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Switch checked={webhook.is_active} onCheckedChange={checked => handleToggle(webhook, checked)} />
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title={t("test")} onClick={() => handleTest(webhook)}>
+                      <Send className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title={t("rotateSecret")} onClick={() => handleRotate(webhook)}>
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title={t("delete")} onClick={() => handleDelete(webhook)}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+                <button className="text-xs text-blue-600 hover:underline" onClick={() => toggleDeliveries(webhook.id)}>
+                  {expanded === webhook.id ? t("hideDeliveries") : t("showDeliveries")}
+                </button>
+                {expanded === webhook.id && (
+                  (deliveries[webhook.id] || []).length === 0 ? (
+                    <p className="text-xs text-gray-500">{t("noDeliveries")}</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="border-b bg-gray-50">
+                            <th className="text-left py-1 px-2">{t("date")}</th>
+                            <th className="text-left py-1 px-2">{t("event")}</th>
+                            <th className="text-left py-1 px-2">{t("status")}</th>
+                            <th className="text-right py-1 px-2">{t("attempts")}</th>
+                            <th className="text-left py-1 px-2">{t("response")}</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {deliveries[webhook.id].map(delivery => (
+                            <tr key={delivery.id} className="border-b">
+                              <td className="py-1 px-2 whitespace-nowrap">{formatDateTime(delivery.created_at)}</td>
+                              <td className="py-1 px-2 font-mono">{delivery.event}</td>
+                              <td className="py-1 px-2">
+                                <span className={`rounded-full px-2 py-0.5 ${STATUS_CLASSES[delivery.status]}`}>
+                                  {t(`statuses.${delivery.status}`)}
+                                </span>
+                              </td>
+                              <td className="py-1 px-2 text-right">{delivery.attempts}</td>
+                              <td className="py-1 px-2 text-gray-600">
+                                {delivery.error || delivery.response_status}
+                                {delivery.status === "pending" && delivery.next_attempt_at && (
+                                  <span className="block text-gray-400">{t("nextAttempt", { date: formatDateTime(delivery.next_attempt_at) })}</span>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="font-medium text-sm">{t("add")}</div>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="webhook-url">{t("url")}</Label>
+              <Input id="webhook-url" type="url" placeholder="https://" value={url} onChange={e => setUrl(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="webhook-description">{t("descriptionLabel")}</Label>
+              <Input id="webhook-description" value={description} onChange={e => setDescription(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>{t("events")}</Label>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {EVENTS.map(event => (
+                <label key={event} className="flex items-start gap-2 text-sm">
+                  <Checkbox checked={events.includes(event)} onCheckedChange={checked => toggleEvent(event, checked === true)} className="mt-0.5" />
+                  <span>
+                    <span className="font-mono">{event}</span>
+                    <span className="block text-xs text-gray-500">{t(`eventDescriptions.${event.replace(".", "_")}`)}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <Button onClick={handleCreate} disabled={!url || events.length === 0}>{t("create")}</Button>
+        </div>
+
+        <p className="text-xs text-gray-500">{t("signatureHint")}</p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,520 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Switch } from "@/components/ui/switch"
+import { Plus, Edit, Trash2, Play, Wand2, X } from "lucide-react"
+import { useTranslations } from "next-intl"
+import type {
+  Account, CategoryRule, CategoryRuleMatchType, CategoryRuleSign, CategoryRuleSuggestion, RuleField, TransactionCategory,
+} from "@/types"
+
+interface CategoryRulesTabProps {
+  categories: TransactionCategory[]
+}
+
+interface RuleForm {
+  name: string
+  category_id: string
+  priority: string
+  field: RuleField
+  match_type: CategoryRuleMatchType | ""
+  pattern: string
+  amount_min: string
+  amount_max: string
+  sign: CategoryRuleSign
+  account_id: string
+  movement_type: string
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  category_id: "",
+  priority: "0",
+  field: "any",
+  match_type: "contains",
+  pattern: "",
+  amount_min: "",
+  amount_max: "",
+  sign: "any",
+  account_id: "",
+  movement_type: "",
+}
+
+const FIELD_LABELS: Record<RuleField, string> = {
+  description: "fieldDescription",
+  detail: "fieldDetail",
+  observations: "fieldObservations",
+  any: "fieldAny",
+}
+
+export function CategoryRulesTab({ categories }: CategoryRulesTabProps) {
+  const t = useTranslations()
+  const [rules, setRules] = useState<CategoryRule[]>([])
+  const [suggestions, setSuggestions] = useState<CategoryRuleSuggestion[]>([])
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingRule, setEditingRule] = useState<CategoryRule | null>(null)
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+  const [overwrite, setOverwrite] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [applyResult, setApplyResult] = useState<string | null>(null)
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const res = await fetch("/api/transactions/category-rules")
+      if (res.ok) {
+        setRules(await res.json())
+      }
+    } catch (err) {
+      console.error("Failed to fetch category rules:", err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const fetchSuggestions = useCallback(async () => {
+    try {
+      const res = await fetch("/api/transactions/category-rules/suggestions")
+      if (res.ok) {
+        setSuggestions(await res.json())
+      }
+    } catch (err) {
+      console.error("Failed to fetch rule suggestions:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRules()
+    fetchSuggestions()
+    fetch("/api/accounts").then(r => r.ok ? r.json() : []).then(setAccounts).catch(() => {})
+  }, [fetchRules, fetchSuggestions])
+
+  const openCreate = () => {
+    setEditingRule(null)
+    setForm(EMPTY_FORM)
+    setError("")
+    setDialogOpen(true)
+  }
+
+  const openEdit = (rule: CategoryRule) => {
+    setEditingRule(rule)
+    setForm({
+      name: rule.name,
+      category_id: String(rule.category_id),
+      priority: String(rule.priority),
+      field: rule.field,
+      match_type: rule.match_type || "",
+      pattern: rule.pattern || "",
+      amount_min: rule.amount_min != null ? String(rule.amount_min) : "",
+      amount_max: rule.amount_max != null ? String(rule.amount_max) : "",
+      sign: rule.sign,
+      account_id: rule.account_id ? String(rule.account_id) : "",
+      movement_type: rule.movement_type || "",
+    })
+    setError("")
+    setDialogOpen(true)
+  }
+
+  const updateForm = <K extends keyof RuleForm>(key: K, value: RuleForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError("")
+
+    try {
+      const body = {
+        ...form,
+        match_type: form.pattern.trim() ? form.match_type || "contains" : "",
+        amount_min: form.amount_min.replace(",", "."),
+        amount_max: form.amount_max.replace(",", "."),
+      }
+
+      const res = await fetch(
+        editingRule ? `/api/transactions/category-rules/${editingRule.id}` : "/api/transactions/category-rules",
+        {
+          method: editingRule ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+      )
+
+      if (res.ok) {
+        setDialogOpen(false)
+        fetchRules()
+      } else {
+        const data = await res.json()
+        setError(data.error || t("categoryRules.saveFailed"))
+      }
+    } catch (err) {
+      console.error("Failed to save category rule:", err)
+      setError(t("categoryRules.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (rule: CategoryRule) => {
+    const newActive = !rule.is_active
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: newActive } : r))
+
+    try {
+      const res = await fetch(`/api/transactions/category-rules/${rule.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_active: newActive }),
+      })
+      if (!res.ok) {
+        setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: rule.is_active } : r))
+      }
+    } catch {
+      setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: rule.is_active } : r))
+    }
+  }
+
+  const handleDelete = async (rule: CategoryRule) => {
+    if (!confirm(t("categoryRules.deleteConfirm"))) return
+
+    try {
+      await fetch(`/api/transactions/category-rules/${rule.id}`, { method: "DELETE" })
+      fetchRules()
+    } catch (err) {
+      console.error("Failed to delete category rule:", err)
+    }
+  }
+
+  const handleApply = async () => {
+    setApplying(true)
+    setApplyResult(null)
+
+    try {
+      const res = await fetch("/api/transactions/category-rules/apply", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ overwrite }),
+      })
+      if (res.ok) {
+        const data = await res.json()
+        setApplyResult(t("categoryRules.applyResult", { matched: data.matched, scanned: data.scanned }))
+      }
+    } catch (err) {
+      console.error("Failed to apply category rules:", err)
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const handleSuggestion = async (suggestion: CategoryRuleSuggestion, accept: boolean) => {
+    setSuggestions(prev => prev.filter(s => s !== suggestion))
+
+    try {
+      await fetch(`/api/transactions/category-rules/suggestions${accept ? "" : "/dismiss"}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ counterparty_key: suggestion.counterparty_key, category_id: suggestion.category_id }),
+      })
+      if (accept) fetchRules()
+    } catch (err) {
+      console.error("Failed to update rule suggestion:", err)
+      fetchSuggestions()
+    }
+  }
+
+  const describeConditions = (rule: CategoryRule): string[] => {
+    const conditions: string[] = []
+    if (rule.match_type && rule.pattern) {
+      conditions.push(`${t(`transferRules.${FIELD_LABELS[rule.field]}`)} ${t(`categoryRules.match_${rule.match_type}`)} "${rule.pattern}"`)
+    }
+    if (rule.amount_min != null && rule.amount_max != null) {
+      conditions.push(t("categoryRules.amountBetween", { min: rule.amount_min, max: rule.amount_max }))
+    } else if (rule.amount_min != null) {
+      conditions.push(t("categoryRules.amountAtLeast", { min: rule.amount_min }))
+    } else if (rule.amount_max != null) {
+      conditions.push(t("categoryRules.amountAtMost", { max: rule.amount_max }))
+    }
+    if (rule.sign !== "any") conditions.push(t(`categoryRules.sign_${rule.sign}`))
+    if (rule.account_name) conditions.push(t("categoryRules.onAccount", { account: rule.account_name }))
+    if (rule.movement_type) conditions.push(t("categoryRules.movementTypeIs", { type: rule.movement_type }))
+    return conditions
+  }
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto" />
+        <p className="mt-2 text-gray-600">{t("categoryRules.loading")}</p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <p className="text-sm text-gray-600 mb-4">{t("categoryRules.description")}</p>
+
+      {suggestions.length > 0 && (
+        <Card className="mb-4 border-blue-200 bg-blue-50/50">
+          <CardContent className="p-4">
+            <p className="flex items-center text-sm font-medium text-blue-900 mb-2">
+              <Wand2 className="h-4 w-4 mr-2" />
+              {t("categoryRules.suggestions.title")}
+            </p>
+            <div className="space-y-2">
+              {suggestions.map((suggestion) => (
+                <div key={`${suggestion.counterparty_key}|${suggestion.category_id}`} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="text-gray-900">
+                      {t("categoryRules.suggestions.prompt", { pattern: suggestion.pattern, category: suggestion.category_name })}
+                    </p>
+                    <p className="text-xs text-gray-500">{t("categoryRules.suggestions.basedOn", { count: suggestion.corrections })}</p>
+                  </div>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <Button size="sm" variant="outline" onClick={() => handleSuggestion(suggestion, true)}>
+                      {t("categoryRules.suggestions.accept")}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title={t("categoryRules.suggestions.dismiss")}
+                      onClick={() => handleSuggestion(suggestion, false)}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {rules.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-gray-600 text-center mb-4">{t("categoryRules.noRules")}</p>
+            <Button onClick={openCreate}>
+              <Plus className="mr-2 h-4 w-4" />
+              {t("categoryRules.createRule")}
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="flex flex-col gap-3 mb-4 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex flex-wrap items-center gap-3">
+              <Button size="sm" variant="outline" onClick={handleApply} disabled={applying}>
+                <Play className="h-4 w-4 mr-1" />
+                {applying ? t("categoryRules.applying") : t("categoryRules.apply")}
+              </Button>
+              <label className="flex items-center space-x-2 text-sm text-gray-600">
+                <input type="checkbox" checked={overwrite} onChange={(e) => setOverwrite(e.target.checked)} />
+                <span>{t("categoryRules.overwrite")}</span>
+              </label>
+              {applyResult && <span className="text-sm text-green-700">{applyResult}</span>}
+            </div>
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-1" />
+              {t("categoryRules.addRule")}
+            </Button>
+          </div>
+
+          <div className="space-y-3">
+            {rules.map((rule) => (
+              <Card key={rule.id} className={`hover:shadow-md ${!rule.is_active ? "opacity-50" : ""}`}>
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center flex-wrap gap-2 mb-1">
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 text-gray-600 font-mono" title={t("categoryRules.priority")}>
+                          {rule.priority}
+                        </span>
+                        <p className="font-medium text-gray-900">{rule.name}</p>
+                        <span className="flex items-center text-xs text-gray-600">
+                          →
+                          <span className="w-2 h-2 rounded-full mx-1.5" style={{ backgroundColor: rule.category_color || "#9CA3AF" }} />
+                          {rule.category_name}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {describeConditions(rule).map((condition, i) => (
+                          <span key={i} className="text-xs px-2 py-0.5 rounded-full bg-blue-50 text-blue-700">
+                            {condition}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-1 ml-2">
+                      <Switch checked={rule.is_active} onCheckedChange={() => handleToggle(rule)} className="scale-90" />
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => openEdit(rule)}>
+                        <Edit className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleDelete(rule)}>
+                        <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* Rule Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingRule ? t("categoryRules.editRule") : t("categoryRules.createRule")}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">{error}</div>
+            )}
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t("categoryRules.name")}</label>
+                <input
+                  type="text"
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={form.name}
+                  onChange={(e) => updateForm("name", e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t("categoryRules.priority")}</label>
+                <input
+                  type="number"
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={form.priority}
+                  onChange={(e) => updateForm("priority", e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t("categoryRules.category")}</label>
+              <select
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                value={form.category_id}
+                onChange={(e) => updateForm("category_id", e.target.value)}
+              >
+                <option value="">—</option>
+                {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t("categoryRules.textCondition")}</label>
+              <div className="grid grid-cols-2 gap-3 mb-2">
+                <select
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={form.field}
+                  onChange={(e) => updateForm("field", e.target.value as RuleField)}
+                >
+                  {(Object.keys(FIELD_LABELS) as RuleField[]).map(field => (
+                    <option key={field} value={field}>{t(`transferRules.${FIELD_LABELS[field]}`)}</option>
+                  ))}
+                </select>
+                <select
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={form.match_type}
+                  onChange={(e) => updateForm("match_type", e.target.value as CategoryRuleMatchType)}
+                >
+                  <option value="contains">{t("categoryRules.match_contains")}</option>
+                  <option value="equals">{t("categoryRules.match_equals")}</option>
+                  <option value="regex">{t("categoryRules.match_regex")}</option>
+                </select>
+              </div>
+              <input
+                type="text"
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm font-mono"
+                placeholder={t("categoryRules.patternPlaceholder")}
+                value={form.pattern}
+                onChange={(e) => updateForm("pattern", e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t("categoryRules.amountMin")}</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={form.amount_min}
+                  onChange={(e) => updateForm("amount_min", e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t("categoryRules.amountMax")}</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={form.amount_max}
+                  onChange={(e) => updateForm("amount_max", e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t("categoryRules.sign")}</label>
+                <select
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={form.sign}
+                  onChange={(e) => updateForm("sign", e.target.value as CategoryRuleSign)}
+                >
+                  <option value="any">{t("categoryRules.sign_any")}</option>
+                  <option value="expense">{t("categoryRules.sign_expense")}</option>
+                  <option value="income">{t("categoryRules.sign_income")}</option>
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-400 -mt-2">{t("categoryRules.amountHelp")}</p>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t("categoryRules.account")}</label>
+                <select
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={form.account_id}
+                  onChange={(e) => updateForm("account_id", e.target.value)}
+                >
+                  <option value="">{t("categoryRules.anyAccount")}</option>
+                  {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t("categoryRules.movementType")}</label>
+                <input
+                  type="text"
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  value={form.movement_type}
+                  onChange={(e) => updateForm("movement_type", e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              {t("categoryRules.cancel")}
+            </Button>
+            <Button onClick={handleSave} disabled={!form.name.trim() || !form.category_id || saving}>
+              {saving ? t("categoryRules.saving") : t("categoryRules.save")}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
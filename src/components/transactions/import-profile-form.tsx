@@ -0,0 +1,217 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { useTranslations } from "next-intl"
+import type { ImportProfile } from "@/types"
+
+export interface CsvInspection {
+  delimiter: ImportProfile["delimiter"]
+  headers: string[]
+  sampleRows: string[][]
+}
+
+interface ImportProfileFormProps {
+  inspection: CsvInspection
+  onSaved: (profileId: number) => void
+  onCancel: () => void
+}
+
+type MappingKey = keyof ImportProfile["column_mapping"]
+
+const DATE_FORMATS: ImportProfile["date_format"][] = ["DD/MM/YYYY", "MM/DD/YYYY", "YYYY-MM-DD", "DD-MM-YYYY", "DD.MM.YYYY"]
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": ", (comma)",
+  ";": "; (semicolon)",
+  "\t": "Tab",
+  "|": "| (pipe)",
+}
+
+export function ImportProfileForm({ inspection, onSaved, onCancel }: ImportProfileFormProps) {
+  const t = useTranslations()
+  const [name, setName] = useState("")
+  const [delimiter, setDelimiter] = useState<ImportProfile["delimiter"]>(inspection.delimiter)
+  const [dateFormat, setDateFormat] = useState<ImportProfile["date_format"]>("DD/MM/YYYY")
+  const [decimalSeparator, setDecimalSeparator] = useState<ImportProfile["decimal_separator"]>(",")
+  const [defaultCurrency, setDefaultCurrency] = useState("EUR")
+  const [splitAmount, setSplitAmount] = useState(false)
+  const [mapping, setMapping] = useState<Partial<Record<MappingKey, string>>>({})
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const fields: { key: MappingKey; required: boolean }[] = [
+    { key: "date", required: true },
+    { key: "valueDate", required: false },
+    { key: "description", required: true },
+    { key: "detail", required: false },
+    ...(splitAmount
+      ? [{ key: "debit" as MappingKey, required: false }, { key: "credit" as MappingKey, required: false }]
+      : [{ key: "amount" as MappingKey, required: true }]),
+    { key: "balance", required: false },
+    { key: "currency", required: false },
+  ]
+
+  const canSave = name.trim()
+    && mapping.date
+    && mapping.description
+    && (splitAmount ? (mapping.debit || mapping.credit) : mapping.amount)
+
+  const handleSave = async () => {
+    if (!canSave) return
+    setSaving(true)
+    setError("")
+
+    // Only send the columns relevant to the chosen amount mode
+    const columnMapping = Object.fromEntries(
+      fields.filter(f => mapping[f.key]).map(f => [f.key, mapping[f.key]])
+    )
+
+    try {
+      const res = await fetch("/api/transactions/import-profiles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          delimiter,
+          date_format: dateFormat,
+          decimal_separator: decimalSeparator,
+          default_currency: defaultCurrency,
+          column_mapping: columnMapping,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || "Failed to save profile")
+        return
+      }
+      onSaved(data.id)
+    } catch {
+      setError("Failed to save profile")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-md text-sm">
+        {t("importProfiles.unknownFormatHelp")}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t("importProfiles.name")}</label>
+        <input
+          type="text"
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          placeholder={t("importProfiles.namePlaceholder")}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">{t("importProfiles.delimiter")}</label>
+          <select
+            className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+            value={delimiter}
+            onChange={(e) => setDelimiter(e.target.value as ImportProfile["delimiter"])}
+          >
+            {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">{t("importProfiles.dateFormat")}</label>
+          <select
+            className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+            value={dateFormat}
+            onChange={(e) => setDateFormat(e.target.value as ImportProfile["date_format"])}
+          >
+            {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">{t("importProfiles.decimalSeparator")}</label>
+          <select
+            className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+            value={decimalSeparator}
+            onChange={(e) => setDecimalSeparator(e.target.value as ImportProfile["decimal_separator"])}
+          >
+            <option value=",">1.234,56</option>
+            <option value=".">1,234.56</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">{t("importProfiles.defaultCurrency")}</label>
+          <select
+            className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+            value={defaultCurrency}
+            onChange={(e) => setDefaultCurrency(e.target.value)}
+          >
+            {["EUR", "USD", "GBP", "CHF", "JPY", "CAD", "AUD"].map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input type="checkbox" checked={splitAmount} onChange={(e) => setSplitAmount(e.target.checked)} />
+        <span>{t("importProfiles.splitAmount")}</span>
+      </label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {fields.map(({ key, required }) => (
+          <div key={key}>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              {t(`importProfiles.columns.${key}`)}{required && " *"}
+            </label>
+            <select
+              className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+              value={mapping[key] || ""}
+              onChange={(e) => setMapping(prev => ({ ...prev, [key]: e.target.value || undefined }))}
+            >
+              <option value="">—</option>
+              {inspection.headers.filter(Boolean).map(h => <option key={h} value={h}>{h}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {inspection.sampleRows.length > 0 && (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                {inspection.headers.map((h, i) => <th key={i} className="text-left py-1.5 px-2 whitespace-nowrap">{h}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {inspection.sampleRows.map((row, i) => (
+                <tr key={i} className="border-t">
+                  {row.map((cell, j) => <td key={j} className="py-1 px-2 whitespace-nowrap text-gray-600">{cell}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex space-x-3">
+        <Button variant="outline" className="flex-1" onClick={onCancel}>
+          {t("transactions.back")}
+        </Button>
+        <Button className="flex-1" onClick={handleSave} disabled={!canSave || saving}>
+          {saving ? t("transactions.saving") : t("importProfiles.saveAndParse")}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Wand2, X } from "lucide-react"
+import { useTranslations } from "next-intl"
+import type { CategoryRuleSuggestion } from "@/types"
+
+interface RuleSuggestionBannerProps {
+  suggestion: CategoryRuleSuggestion
+  onClose: () => void
+  onAccepted: () => void
+}
+
+/**
+ * Offers to turn a just-made correction into a categorization rule
+ */
+export function RuleSuggestionBanner({ suggestion, onClose, onAccepted }: RuleSuggestionBannerProps) {
+  const t = useTranslations("categoryRules")
+  const [saving, setSaving] = useState(false)
+
+  const body = JSON.stringify({
+    counterparty_key: suggestion.counterparty_key,
+    category_id: suggestion.category_id,
+  })
+
+  const handleAccept = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch("/api/transactions/category-rules/suggestions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+      })
+      if (res.ok) onAccepted()
+    } catch (err) {
+      console.error("Failed to create rule from suggestion:", err)
+    } finally {
+      setSaving(false)
+      onClose()
+    }
+  }
+
+  const handleDismiss = async () => {
+    onClose()
+    try {
+      await fetch("/api/transactions/category-rules/suggestions/dismiss", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+      })
+    } catch (err) {
+      console.error("Failed to dismiss rule suggestion:", err)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2 rounded-md border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-900 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-center gap-2">
+        <Wand2 className="h-4 w-4 flex-shrink-0" />
+        <span>
+          {t("suggestions.prompt", { pattern: suggestion.pattern, category: suggestion.category_name })}
+          <span className="ml-1 text-blue-700">({t("suggestions.basedOn", { count: suggestion.corrections })})</span>
+        </span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={handleAccept} disabled={saving}>
+          {t("suggestions.accept")}
+        </Button>
+        <Button size="sm" variant="ghost" className="h-8 w-8 p-0" title={t("suggestions.dismiss")} onClick={handleDismiss}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -3,17 +3,26 @@
 import { useState, useEffect } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
+import { Plus, Trash2 } from "lucide-react"
 import { useTranslations } from "next-intl"
-import type { Transaction, TransactionCategory } from "@/types"
+import type { CategoryRuleSuggestion, Transaction, TransactionCategory, TransactionSplit } from "@/types"
 
 interface TransactionEditDialogProps {
   transaction: Transaction | null
   categories: TransactionCategory[]
   open: boolean
   onOpenChange: (open: boolean) => void
-  onSuccess: () => void
+  onSuccess: (suggestion: CategoryRuleSuggestion | null) => void
 }
 
+interface SplitRow {
+  amount: string
+  category_id: number | null
+  notes: string
+}
+
+const toCents = (value: string) => Math.round(parseFloat(value.replace(",", ".")) * 100)
+
 export function TransactionEditDialog({
   transaction,
   categories,
@@ -26,32 +35,103 @@ export function TransactionEditDialog({
   const [isTransfer, setIsTransfer] = useState(false)
   const [notes, setNotes] = useState("")
   const [loading, setLoading] = useState(false)
+  const [splitMode, setSplitMode] = useState(false)
+  const [splits, setSplits] = useState<SplitRow[]>([])
+  const [error, setError] = useState("")
 
   useEffect(() => {
     if (transaction) {
       setCategoryId(transaction.category_id || null)
       setIsTransfer(transaction.is_transfer)
       setNotes(transaction.notes || "")
+      setSplitMode(!!transaction.is_split)
+      setSplits([])
+      setError("")
+
+      if (transaction.is_split) {
+        fetch(`/api/transactions/${transaction.id}/splits`)
+          .then(res => res.ok ? res.json() : [])
+          .then((data: TransactionSplit[]) => setSplits(data.map(split => ({
+            amount: String(Math.abs(split.amount)),
+            category_id: split.category_id ?? null,
+            notes: split.notes || "",
+          }))))
+          .catch(() => {})
+      }
     }
   }, [transaction])
 
+  // Split amounts are entered without sign and take the transaction's sign
+  const sign = transaction && transaction.amount < 0 ? -1 : 1
+  const totalCents = transaction ? Math.round(Math.abs(transaction.amount) * 100) : 0
+  const allocatedCents = splits.reduce((sum, split) => sum + (toCents(split.amount) || 0), 0)
+  const remainingCents = totalCents - allocatedCents
+  const splitsValid = splits.length >= 2
+    && remainingCents === 0
+    && splits.every(split => split.category_id && toCents(split.amount) > 0)
+
+  const startSplit = () => {
+    if (!transaction) return
+    const half = Math.floor(totalCents / 2)
+    setSplits([
+      { amount: ((totalCents - half) / 100).toFixed(2), category_id: categoryId, notes: "" },
+      { amount: (half / 100).toFixed(2), category_id: null, notes: "" },
+    ])
+    setSplitMode(true)
+  }
+
+  // Leaving split mode keeps the category of the largest allocation
+  const endSplit = () => {
+    const largest = [...splits].sort((a, b) => (toCents(b.amount) || 0) - (toCents(a.amount) || 0))[0]
+    if (largest?.category_id) setCategoryId(largest.category_id)
+    setSplitMode(false)
+  }
+
+  const updateSplit = (index: number, changes: Partial<SplitRow>) => {
+    setSplits(prev => prev.map((split, i) => i === index ? { ...split, ...changes } : split))
+  }
+
   const handleSave = async () => {
     if (!transaction) return
     setLoading(true)
+    setError("")
 
     try {
+      // Splits are saved first: a split transaction rejects a category of its own
+      if (splitMode || transaction.is_split) {
+        const splitRes = await fetch(`/api/transactions/${transaction.id}/splits`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            splits: splitMode
+              ? splits.map(split => ({
+                  amount: (sign * toCents(split.amount)) / 100,
+                  category_id: split.category_id,
+                  notes: split.notes,
+                }))
+              : [],
+          }),
+        })
+        if (!splitRes.ok) {
+          const data = await splitRes.json()
+          setError(data.error || t("transactions.splitFailed"))
+          return
+        }
+      }
+
       const res = await fetch(`/api/transactions/${transaction.id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          category_id: categoryId,
+          ...(splitMode ? {} : { category_id: categoryId }),
           is_transfer: isTransfer,
           notes,
         }),
       })
 
       if (res.ok) {
-        onSuccess()
+        const data = await res.json()
+        onSuccess(data.suggestion ?? null)
         onOpenChange(false)
       }
     } catch (err) {
@@ -99,23 +179,97 @@ export function TransactionEditDialog({
             </div>
           </div>
 
-          {/* Category selector */}
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">{error}</div>
+          )}
+
+          {/* Category selector, or one row per split */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              {t("transactions.category")}
-            </label>
-            <select
-              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
-              value={categoryId || ""}
-              onChange={(e) => setCategoryId(e.target.value ? Number(e.target.value) : null)}
-            >
-              <option value="">{t("transactions.noCategory")}</option>
-              {categories.map((cat) => (
-                <option key={cat.id} value={cat.id}>
-                  {cat.name} ({cat.type})
-                </option>
-              ))}
-            </select>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">
+                {t("transactions.category")}
+              </label>
+              <button
+                type="button"
+                className="text-xs text-blue-600 hover:underline"
+                onClick={() => splitMode ? endSplit() : startSplit()}
+              >
+                {splitMode ? t("transactions.removeSplit") : t("transactions.splitTransaction")}
+              </button>
+            </div>
+
+            {!splitMode ? (
+              <select
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                value={categoryId || ""}
+                onChange={(e) => setCategoryId(e.target.value ? Number(e.target.value) : null)}
+              >
+                <option value="">{t("transactions.noCategory")}</option>
+                {categories.map((cat) => (
+                  <option key={cat.id} value={cat.id}>
+                    {cat.name} ({cat.type})
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <div className="space-y-2">
+                {splits.map((split, index) => (
+                  <div key={index} className="space-y-1 rounded-md border border-gray-200 p-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        className="w-24 rounded-md border border-gray-300 px-2 py-1.5 text-sm text-right"
+                        value={split.amount}
+                        onChange={(e) => updateSplit(index, { amount: e.target.value })}
+                      />
+                      <select
+                        className="min-w-0 flex-1 rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+                        value={split.category_id || ""}
+                        onChange={(e) => updateSplit(index, { category_id: e.target.value ? Number(e.target.value) : null })}
+                      >
+                        <option value="">{t("transactions.noCategory")}</option>
+                        {categories.map((cat) => (
+                          <option key={cat.id} value={cat.id}>{cat.name}</option>
+                        ))}
+                      </select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        disabled={splits.length <= 2}
+                        onClick={() => setSplits(prev => prev.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                      </Button>
+                    </div>
+                    <input
+                      type="text"
+                      className="w-full rounded-md border border-gray-200 px-2 py-1 text-xs"
+                      placeholder={t("transactions.splitNotePlaceholder")}
+                      value={split.notes}
+                      onChange={(e) => updateSplit(index, { notes: e.target.value })}
+                    />
+                  </div>
+                ))}
+                <div className="flex items-center justify-between text-xs">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSplits(prev => [
+                      ...prev,
+                      { amount: remainingCents > 0 ? (remainingCents / 100).toFixed(2) : "", category_id: null, notes: "" },
+                    ])}
+                  >
+                    <Plus className="h-3.5 w-3.5 mr-1" />
+                    {t("transactions.addSplit")}
+                  </Button>
+                  <span className={remainingCents === 0 ? "text-green-600" : "text-red-600"}>
+                    {t("transactions.splitRemaining", { amount: formatCurrency(remainingCents / 100) })}
+                  </span>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Transfer toggle */}
@@ -150,7 +304,7 @@ export function TransactionEditDialog({
             <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
               {t("transactions.cancel")}
             </Button>
-            <Button className="flex-1" onClick={handleSave} disabled={loading}>
+            <Button className="flex-1" onClick={handleSave} disabled={loading || (splitMode && !splitsValid)}>
               {loading ? t("transactions.saving") : t("transactions.save")}
             </Button>
           </div>
@@ -7,6 +7,7 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Upload, CheckCircle, AlertCircle, ArrowRight, Ban, ArrowLeftRight, Sparkles, Loader2, Search, X } from "lucide-react"
 import { useTranslations } from "next-intl"
 import { aiChatEvents } from "@/components/ai-chat"
+import { ImportProfileForm, type CsvInspection } from "./import-profile-form"
 import type { Account, TransactionCategory } from "@/types"
 
 interface ImportDialogProps {
@@ -26,6 +27,7 @@ interface PreviewTransaction {
   movementType?: string
   balanceAfter?: number
   observations?: string
+  externalId?: string
   isTransfer: boolean
   categoryId?: number | null
 }
@@ -48,6 +50,9 @@ export function TransactionImportDialog({ open, onOpenChange, accounts, onSucces
   const [result, setResult] = useState<{ saved: number; duplicates: number; errors: number } | null>(null)
   const [error, setError] = useState("")
   const [filterText, setFilterText] = useState("")
+  const [inspection, setInspection] = useState<CsvInspection | null>(null)
+  const [closingBalance, setClosingBalance] = useState<{ amount: number; date: string } | null>(null)
+  const [matchedAccount, setMatchedAccount] = useState<{ id: number; name: string } | null>(null)
 
   useEffect(() => {
     if (open && step === 2 && categories.length === 0) {
@@ -66,15 +71,18 @@ export function TransactionImportDialog({ open, onOpenChange, accounts, onSucces
     }
   }
 
-  const handleParse = async () => {
-    if (!csvFile || !selectedAccountId) return
+  const handleParse = async (profileId?: number, accountId = selectedAccountId) => {
+    if (!csvFile || !accountId) return
     setLoading(true)
     setError("")
 
     try {
       const formData = new FormData()
       formData.append("csvFile", csvFile)
-      formData.append("accountId", String(selectedAccountId))
+      formData.append("accountId", String(accountId))
+      if (profileId) {
+        formData.append("profileId", String(profileId))
+      }
 
       const res = await fetch("/api/transactions/import/parse", {
         method: "POST",
@@ -84,7 +92,12 @@ export function TransactionImportDialog({ open, onOpenChange, accounts, onSucces
       const data = await res.json()
 
       if (!res.ok) {
-        setError(data.error || "Parse error")
+        if (data.inspection) {
+          // Unknown layout: let the user map the columns into an import profile
+          setInspection(data.inspection)
+        } else {
+          setError(data.error || "Parse error")
+        }
         setLoading(false)
         return
       }
@@ -93,6 +106,8 @@ export function TransactionImportDialog({ open, onOpenChange, accounts, onSucces
       setPreviewTransactions(data.transactions)
       setDuplicateCount(data.duplicateCount)
       setParseErrors(data.parseErrors || [])
+      setClosingBalance(data.closingBalance || null)
+      setMatchedAccount(data.matchedAccount || null)
       setStep(2)
     } catch (err) {
       setError("Failed to parse CSV")
@@ -171,6 +186,7 @@ export function TransactionImportDialog({ open, onOpenChange, accounts, onSucces
           accountId: selectedAccountId,
           transactions: previewTransactions,
           source: detectedFormat,
+          closingBalance,
         }),
       })
 
@@ -200,6 +216,9 @@ export function TransactionImportDialog({ open, onOpenChange, accounts, onSucces
     setParseErrors([])
     setResult(null)
     setError("")
+    setInspection(null)
+    setClosingBalance(null)
+    setMatchedAccount(null)
     onOpenChange(false)
     if (result && result.saved > 0) {
       onSuccess()
@@ -257,8 +276,20 @@ export function TransactionImportDialog({ open, onOpenChange, accounts, onSucces
           </div>
         )}
 
+        {/* Step 1b: Map columns of an unrecognized CSV */}
+        {step === 1 && inspection && (
+          <ImportProfileForm
+            inspection={inspection}
+            onCancel={() => setInspection(null)}
+            onSaved={(profileId) => {
+              setInspection(null)
+              handleParse(profileId)
+            }}
+          />
+        )}
+
         {/* Step 1: Select account + upload file */}
-        {step === 1 && (
+        {step === 1 && !inspection && (
           <div className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -291,7 +322,7 @@ export function TransactionImportDialog({ open, onOpenChange, accounts, onSucces
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".csv"
+                  accept=".csv,.txt,.ofx,.qfx,.xml"
                   className="hidden"
                   onChange={handleFileChange}
                 />
@@ -300,7 +331,7 @@ export function TransactionImportDialog({ open, onOpenChange, accounts, onSucces
 
             <Button
               className="w-full"
-              onClick={handleParse}
+              onClick={() => handleParse()}
               disabled={!selectedAccountId || !csvFile || loading}
             >
               {loading ? t("transactions.parsing") : t("transactions.parseFile")}
@@ -314,6 +345,11 @@ export function TransactionImportDialog({ open, onOpenChange, accounts, onSucces
             <div className="flex items-center justify-between">
               <div className="text-sm text-gray-600">
                 {t("transactions.format")}: <span className="font-medium">{detectedFormat}</span>
+                {closingBalance && (
+                  <span className="ml-3">
+                    {t("transactions.closingBalance")}: <span className="font-medium">{formatCurrency(closingBalance.amount)}</span> ({closingBalance.date})
+                  </span>
+                )}
               </div>
               <div className="text-sm text-gray-600">
                 {t("transactions.new")}: <span className="font-medium text-green-600">{previewTransactions.length}</span>
@@ -322,6 +358,25 @@ export function TransactionImportDialog({ open, onOpenChange, accounts, onSucces
               </div>
             </div>
 
+            {matchedAccount && (
+              <div className="flex items-center justify-between gap-3 bg-yellow-50 border border-yellow-200 px-4 py-3 rounded-md">
+                <p className="text-sm text-yellow-800">
+                  {t("transactions.statementAccountMismatch", { account: matchedAccount.name })}
+                </p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={loading}
+                  onClick={() => {
+                    setSelectedAccountId(matchedAccount.id)
+                    handleParse(undefined, matchedAccount.id)
+                  }}
+                >
+                  {t("transactions.useStatementAccount")}
+                </Button>
+              </div>
+            )}
+
             {parseErrors.length > 0 && (
               <div className="bg-yellow-50 border border-yellow-200 px-4 py-3 rounded-md">
                 <p className="text-sm font-medium text-yellow-800">{t("transactions.parseWarnings")}:</p>
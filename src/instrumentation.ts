@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts: refuse to run in production with the built-in
+ * development encryption key
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { assertEncryptionKeyConfigured } = await import('./lib/encryption');
+    assertEncryptionKeyConfigured();
+  }
+}
@@ -0,0 +1,220 @@
+import { getDatabase } from './database';
+import { hasPermission } from './permissions';
+import type { Account, AccountAccess, AccountFamilyAccess, AccountPermission, AccountSharing, User } from '@/types';
+
+export type AccountViewer = Pick<User, 'id' | 'role'>;
+
+/**
+ * Sees only what every member of the family sees. For output that goes to the whole
+ * family, such as report emails.
+ */
+export const FAMILY_VIEWER: AccountViewer = { id: 0, role: 'guest' };
+
+type SharingInput = {
+  owner_id?: number;
+  family_access?: AccountFamilyAccess;
+  count_in_family_totals?: boolean;
+  permissions?: Array<{ user_id: number; access: AccountPermission['access'] }>;
+};
+
+const FAMILY_ACCESS: AccountFamilyAccess[] = ['edit', 'view', 'none'];
+const ACCESS_RANK: Record<AccountAccess, number> = { view: 1, edit: 2, owner: 3 };
+const ALL = { sql: '1 = 1', params: [] as unknown[] };
+const NONE = { sql: '1 = 0', params: [] as unknown[] };
+
+// Owners (administrators for accounts without one), then the family-wide level, then the
+// member's own permission
+function accessCondition(viewer: AccountViewer | undefined, alias: string, familyAccess: string, grant: string) {
+  if (!viewer) return ALL;
+  return {
+    sql: `(${alias}.owner_id = ? OR (${alias}.owner_id IS NULL AND ? = 'administrator')
+      OR ${alias}.family_access ${familyAccess}
+      OR EXISTS (SELECT 1 FROM account_permissions ap WHERE ap.account_id = ${alias}.id AND ap.user_id = ? AND ap.access ${grant}))`,
+    params: [viewer.id, viewer.role, viewer.id],
+  };
+}
+
+function resolveSharing(
+  account: Pick<Account, 'owner_id' | 'family_access'>,
+  grant: AccountPermission['access'] | null | undefined,
+  viewer: AccountViewer
+): AccountAccess | null {
+  if (account.owner_id === viewer.id) return 'owner';
+  if (account.owner_id == null && viewer.role === 'administrator') return 'owner';
+
+  const familyAccess = account.family_access === 'none' ? null : account.family_access;
+  if (!grant) return familyAccess;
+  if (!familyAccess) return grant;
+  return ACCESS_RANK[grant] >= ACCESS_RANK[familyAccess] ? grant : familyAccess;
+}
+
+/**
+ * Per-account sharing. Every account has an owner (its creator), a level of access for
+ * the rest of the family (edit, view, or none for a private account) and optional
+ * permissions for individual members on top of that. Accounts without an owner are
+ * managed by the family's administrators.
+ */
+export class AccountAccessService {
+  /**
+   * The viewer's access to an account, given their own permission on it if any
+   */
+  static resolve(
+    account: Pick<Account, 'owner_id' | 'family_access'>,
+    grant: AccountPermission['access'] | null | undefined,
+    viewer: AccountViewer
+  ): AccountAccess | null {
+    const access = resolveSharing(account, grant, viewer);
+    // Read-only roles (guests) see what they are shared but change nothing
+    if (access && !hasPermission(viewer, 'canEditData')) return 'view';
+    return access;
+  }
+
+  static canEdit(access: AccountAccess | null | undefined): boolean {
+    return access === 'owner' || access === 'edit';
+  }
+
+  /**
+   * SQL condition on an accounts alias that keeps the accounts the viewer can see. Without
+   * a viewer every account is kept, for jobs that work on the whole family.
+   */
+  static visibleCondition(viewer: AccountViewer | undefined, alias: string = 'a'): { sql: string; params: unknown[] } {
+    return accessCondition(viewer, alias, "!= 'none'", "IN ('edit', 'view')");
+  }
+
+  /**
+   * SQL condition on an accounts alias that keeps the accounts the viewer can change
+   */
+  static editableCondition(viewer: AccountViewer | undefined, alias: string = 'a'): { sql: string; params: unknown[] } {
+    if (viewer && !hasPermission(viewer, 'canEditData')) return NONE;
+    return accessCondition(viewer, alias, "= 'edit'", "= 'edit'");
+  }
+
+  /**
+   * SQL condition that keeps rows whose account column points to an account the viewer
+   * can see (or, with editable, change), for tables such as transactions and balances
+   */
+  static accountFilter(column: string, viewer: AccountViewer | undefined, editable: boolean = false): { sql: string; params: unknown[] } {
+    if (!viewer) return ALL;
+    const condition = editable ? this.editableCondition(viewer, 'va') : this.visibleCondition(viewer, 'va');
+    return {
+      sql: `${column} IN (SELECT va.id FROM accounts va WHERE ${condition.sql})`,
+      params: condition.params,
+    };
+  }
+
+  static async getVisibleAccountIds(familyId: number, viewer: AccountViewer): Promise<number[]> {
+    const db = await getDatabase();
+    const visible = this.visibleCondition(viewer);
+    const rows = await db.all(
+      `SELECT a.id FROM accounts a WHERE a.family_id = ? AND ${visible.sql}`,
+      [familyId, ...visible.params]
+    ) as Array<{ id: number }>;
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * The user's access to an account, or null when it is in another family or hidden
+   * from them
+   */
+  static async getAccess(account: Account | null, user: User): Promise<AccountAccess | null> {
+    if (!account || account.family_id !== user.family_id) return null;
+    const db = await getDatabase();
+    const grant = await db.get(
+      'SELECT access FROM account_permissions WHERE account_id = ? AND user_id = ?',
+      [account.id, user.id]
+    ) as { access: AccountPermission['access'] } | undefined;
+    return this.resolve(account, grant?.access, user);
+  }
+
+  static async getAccountAccess(accountId: number, user: User): Promise<AccountAccess | null> {
+    const db = await getDatabase();
+    const account = await db.get('SELECT * FROM accounts WHERE id = ?', [accountId]) as Account | undefined;
+    return this.getAccess(account || null, user);
+  }
+
+  static async getSharing(account: Account): Promise<AccountSharing> {
+    const db = await getDatabase();
+    const permissions = await db.all(
+      `SELECT p.*, u.name as user_name
+       FROM account_permissions p
+       JOIN users u ON u.id = p.user_id
+       WHERE p.account_id = ?
+       ORDER BY u.name`,
+      [account.id]
+    ) as AccountPermission[];
+    return {
+      owner_id: account.owner_id ?? null,
+      family_access: account.family_access,
+      count_in_family_totals: !!account.count_in_family_totals,
+      permissions,
+    };
+  }
+
+  /**
+   * Returns an error message when the sharing settings are not usable for an account
+   * in the given family
+   */
+  static async validate(familyId: number, data: SharingInput): Promise<string | null> {
+    if (data.family_access !== undefined && !FAMILY_ACCESS.includes(data.family_access)) return 'Invalid family access';
+
+    const db = await getDatabase();
+    const members = await db.all('SELECT id FROM users WHERE family_id = ?', [familyId]) as Array<{ id: number }>;
+    const memberIds = new Set(members.map(member => member.id));
+
+    if (data.owner_id !== undefined && !memberIds.has(data.owner_id)) return 'The owner must be a member of this family';
+    if (data.permissions) {
+      const seen = new Set<number>();
+      for (const permission of data.permissions) {
+        if (!memberIds.has(permission.user_id)) return 'Accounts can only be shared with members of this family';
+        if (permission.access !== 'edit' && permission.access !== 'view') return 'Invalid access';
+        if (seen.has(permission.user_id)) return 'Each member can only be listed once';
+        seen.add(permission.user_id);
+      }
+    }
+    return null;
+  }
+
+  static async updateSharing(account: Account, data: SharingInput): Promise<AccountSharing> {
+    const db = await getDatabase();
+    const ownerId = data.owner_id ?? account.owner_id ?? null;
+
+    await db.run(
+      `UPDATE accounts SET owner_id = ?, family_access = ?, count_in_family_totals = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        ownerId,
+        data.family_access ?? account.family_access,
+        (data.count_in_family_totals ?? !!account.count_in_family_totals) ? 1 : 0,
+        account.id,
+      ]
+    );
+
+    if (data.permissions) {
+      await db.run('DELETE FROM account_permissions WHERE account_id = ?', [account.id]);
+      for (const permission of data.permissions) {
+        // The owner needs no permission of their own
+        if (permission.user_id === ownerId) continue;
+        await db.run(
+          'INSERT INTO account_permissions (account_id, user_id, access) VALUES (?, ?, ?)',
+          [account.id, permission.user_id, permission.access]
+        );
+      }
+    }
+
+    const updated = await db.get('SELECT * FROM accounts WHERE id = ?', [account.id]) as Account;
+    return this.getSharing(updated);
+  }
+
+  /**
+   * Forgets a member's ownership and permissions on accounts outside the family they are
+   * in now; on all accounts when they are deleted
+   */
+  static async removeMember(userId: number, currentFamilyId: number | null = null): Promise<void> {
+    const db = await getDatabase();
+    await db.run('UPDATE accounts SET owner_id = NULL WHERE owner_id = ? AND family_id IS NOT ?', [userId, currentFamilyId]);
+    await db.run(
+      'DELETE FROM account_permissions WHERE user_id = ? AND account_id IN (SELECT id FROM accounts WHERE family_id IS NOT ?)',
+      [userId, currentFamilyId]
+    );
+  }
+}
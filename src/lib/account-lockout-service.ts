@@ -0,0 +1,103 @@
+import { getDatabase } from './database';
+import { SettingsService } from './settings-service';
+import { systemLogger } from './system-logger';
+import type { ClientInfo } from './session-service';
+import type { LockedAccount, User } from '@/types';
+
+/**
+ * Temporary account locks after repeated wrong passwords or 2FA codes. The policy
+ * (failures, window, lock duration) comes from accountLockout in app settings.
+ */
+export class AccountLockoutService {
+  /**
+   * When the user's lock ends, or null when the account isn't locked
+   */
+  static async getLockedUntil(userId: number): Promise<string | null> {
+    const db = await getDatabase();
+    const row = await db.get(
+      `SELECT locked_until FROM account_lockouts WHERE user_id = ? AND locked_until > datetime('now')`,
+      [userId]
+    ) as { locked_until: string } | undefined;
+    return row?.locked_until ?? null;
+  }
+
+  /**
+   * Counts a failed sign-in for the user and locks the account once the limit is
+   * reached. Returns whether this failure locked it.
+   */
+  static async recordFailure(user: User, client: ClientInfo): Promise<boolean> {
+    const policy = await SettingsService.getAccountLockoutSettings();
+    const db = await getDatabase();
+    const windowStart = `-${policy.windowMinutes} minutes`;
+
+    // Failures from an earlier window are forgotten
+    await db.run(
+      `INSERT INTO account_lockouts (user_id, failed_attempts, window_started_at)
+       VALUES (?, 1, datetime('now'))
+       ON CONFLICT(user_id) DO UPDATE SET
+         failed_attempts = CASE WHEN window_started_at < datetime('now', ?) THEN 1 ELSE failed_attempts + 1 END,
+         window_started_at = CASE WHEN window_started_at < datetime('now', ?) THEN datetime('now') ELSE window_started_at END`,
+      [user.id, windowStart, windowStart]
+    );
+
+    const row = await db.get(
+      'SELECT failed_attempts FROM account_lockouts WHERE user_id = ?',
+      [user.id]
+    ) as { failed_attempts: number };
+    if (row.failed_attempts < policy.maxFailures) return false;
+
+    // Start counting afresh, so the account gets the full number of attempts once the lock ends
+    await db.run(
+      `UPDATE account_lockouts
+       SET failed_attempts = 0, window_started_at = datetime('now'),
+           locked_at = datetime('now'), locked_until = datetime('now', ?)
+       WHERE user_id = ?`,
+      [`+${policy.lockMinutes} minutes`, user.id]
+    );
+    await systemLogger.logWarning(
+      'auth',
+      'account_locked',
+      `${user.email} locked for ${policy.lockMinutes} minutes after ${row.failed_attempts} failed sign-in attempts`,
+      user.family_id,
+      user.id,
+      { failedAttempts: row.failed_attempts, lockMinutes: policy.lockMinutes, ip: client.ip, userAgent: client.userAgent }
+    );
+    return true;
+  }
+
+  /**
+   * Forgets failures and any lock, after a successful sign-in or password reset
+   */
+  static async clear(userId: number): Promise<void> {
+    const db = await getDatabase();
+    await db.run('DELETE FROM account_lockouts WHERE user_id = ?', [userId]);
+  }
+
+  static async getLockedAccounts(): Promise<LockedAccount[]> {
+    const db = await getDatabase();
+    return await db.all(
+      `SELECT u.id as user_id, u.email, u.name, u.family_id, l.locked_at, l.locked_until
+       FROM account_lockouts l
+       JOIN users u ON u.id = l.user_id
+       WHERE l.locked_until > datetime('now')
+       ORDER BY l.locked_at DESC`
+    ) as LockedAccount[];
+  }
+
+  static async unlock(user: User, admin: User): Promise<boolean> {
+    const lockedUntil = await this.getLockedUntil(user.id);
+    await this.clear(user.id);
+    if (!lockedUntil) return false;
+
+    await systemLogger.logSuccess(
+      'auth',
+      'account_unlocked',
+      `${admin.email} unlocked ${user.email}`,
+      user.family_id,
+      user.id,
+      undefined,
+      { unlockedBy: admin.id }
+    );
+    return true;
+  }
+}
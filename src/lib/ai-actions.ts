@@ -1,9 +1,12 @@
 import { getDatabase } from './database';
 import { AccountService, BalanceService } from './db-operations';
 import { CategoryService } from './category-service';
+import { BudgetService } from './budget-service';
+import { CategoryRuleService } from './category-rule-service';
 import { AIService } from './ai-service';
-import path from 'path';
-import fs from 'fs';
+import { BackupService } from './backup-service';
+import { AccountAccessService, type AccountViewer } from './account-access-service';
+import { hasPermission, type PermissionConfig } from './permissions';
 
 export interface ActionResult {
   success: boolean;
@@ -11,24 +14,44 @@ export interface ActionResult {
   message: string;
 }
 
+// Actions that change data or reach the backups need the same permission as the routes
+// that do this
+const ACTION_PERMISSIONS: Record<string, keyof PermissionConfig> = {
+  update_balance: 'canEditData',
+  categorize_transactions: 'canEditData',
+  create_backup: 'canAccessBackups',
+  list_backups: 'canAccessBackups',
+};
+
 export class AIActionExecutor {
-  static async execute(actionName: string, params: Record<string, any>, familyId: number): Promise<ActionResult> {
+  /**
+   * Runs an action on behalf of the member chatting, if their role allows it, limited to
+   * the accounts they can see (and, for changes, edit)
+   */
+  static async execute(actionName: string, params: Record<string, any>, familyId: number, viewer: AccountViewer): Promise<ActionResult> {
+    const permission = ACTION_PERMISSIONS[actionName];
+    if (permission && !hasPermission(viewer, permission)) {
+      return { success: false, data: null, message: `Your role does not allow ${actionName}` };
+    }
+
     try {
       switch (actionName) {
         case 'get_accounts':
-          return await this.getAccounts(familyId);
+          return await this.getAccounts(familyId, viewer);
         case 'update_balance':
-          return await this.updateBalance(familyId, params);
+          return await this.updateBalance(familyId, params, viewer);
         case 'get_spending_summary':
-          return await this.getSpendingSummary(familyId, params);
+          return await this.getSpendingSummary(familyId, params, viewer);
         case 'get_dashboard':
-          return await this.getDashboard(familyId);
+          return await this.getDashboard(familyId, viewer);
+        case 'get_budgets':
+          return await this.getBudgets(familyId, params, viewer);
         case 'create_backup':
-          return await this.createBackup(familyId);
+          return await this.createBackup();
         case 'list_backups':
           return await this.listBackups();
         case 'categorize_transactions':
-          return await this.categorizeTransactions(familyId);
+          return await this.categorizeTransactions(familyId, viewer);
         default:
           return { success: false, data: null, message: `Unknown action: ${actionName}` };
       }
@@ -37,8 +60,8 @@ export class AIActionExecutor {
     }
   }
 
-  private static async getAccounts(familyId: number): Promise<ActionResult> {
-    const accounts = await AccountService.getAccountsByFamilyId(familyId);
+  private static async getAccounts(familyId: number, viewer: AccountViewer): Promise<ActionResult> {
+    const accounts = await AccountService.getAccountsByFamilyId(familyId, viewer);
     const summary = accounts.map(a => ({
       name: a.name,
       category: a.category,
@@ -53,16 +76,17 @@ export class AIActionExecutor {
     };
   }
 
-  private static async updateBalance(familyId: number, params: Record<string, any>): Promise<ActionResult> {
+  private static async updateBalance(familyId: number, params: Record<string, any>, viewer: AccountViewer): Promise<ActionResult> {
     const { account_name, amount, date } = params;
     if (!account_name || amount === undefined) {
       return { success: false, data: null, message: 'account_name and amount are required' };
     }
 
     const db = await getDatabase();
+    const editable = AccountAccessService.editableCondition(viewer);
     const account = await db.get(
-      'SELECT id, name FROM accounts WHERE family_id = ? AND name LIKE ?',
-      [familyId, `%${account_name}%`]
+      `SELECT a.id, a.name FROM accounts a WHERE a.family_id = ? AND a.name LIKE ? AND ${editable.sql}`,
+      [familyId, `%${account_name}%`, ...editable.params]
     ) as any;
 
     if (!account) {
@@ -79,8 +103,10 @@ export class AIActionExecutor {
     };
   }
 
-  private static async getSpendingSummary(familyId: number, params: Record<string, any>): Promise<ActionResult> {
+  private static async getSpendingSummary(familyId: number, params: Record<string, any>, viewer: AccountViewer): Promise<ActionResult> {
     const db = await getDatabase();
+    const visible = AccountAccessService.accountFilter('account_id', viewer);
+    const allocationsVisible = AccountAccessService.accountFilter('t.account_id', viewer);
     const months = params.months || 1;
     const since = new Date();
     since.setMonth(since.getMonth() - months);
@@ -91,12 +117,12 @@ export class AIActionExecutor {
         SUM(CASE WHEN t.amount < 0 THEN ABS(t.amount) ELSE 0 END) as expenses,
         SUM(CASE WHEN t.amount > 0 THEN t.amount ELSE 0 END) as income,
         COUNT(*) as count
-       FROM transactions t
+       FROM transaction_allocations t
        JOIN transaction_categories tc ON t.category_id = tc.id
-       WHERE t.family_id = ? AND t.date >= ? AND t.is_transfer = 0
+       WHERE t.family_id = ? AND t.date >= ? AND t.is_transfer = 0 AND ${allocationsVisible.sql}
        GROUP BY tc.id
        ORDER BY expenses DESC`,
-      [familyId, sinceStr]
+      [familyId, sinceStr, ...allocationsVisible.params]
     ) as any[];
 
     const totals = await db.get(
@@ -104,8 +130,8 @@ export class AIActionExecutor {
         SUM(CASE WHEN amount < 0 AND is_transfer = 0 THEN ABS(amount) ELSE 0 END) as total_expenses,
         SUM(CASE WHEN amount > 0 AND is_transfer = 0 THEN amount ELSE 0 END) as total_income,
         COUNT(*) as total_transactions
-       FROM transactions WHERE family_id = ? AND date >= ?`,
-      [familyId, sinceStr]
+       FROM transactions WHERE family_id = ? AND date >= ? AND ${visible.sql}`,
+      [familyId, sinceStr, ...visible.params]
     ) as any;
 
     return {
@@ -115,67 +141,71 @@ export class AIActionExecutor {
     };
   }
 
-  private static async getDashboard(familyId: number): Promise<ActionResult> {
-    const db = await getDatabase();
-    const accounts = await AccountService.getAccountsByFamilyId(familyId);
-
-    const totalBanking = accounts.filter(a => a.category === 'Banking').reduce((s, a) => s + (a.current_balance || 0), 0);
-    const totalInvestment = accounts.filter(a => a.category === 'Investment').reduce((s, a) => s + (a.current_balance || 0), 0);
-    const totalDebt = accounts.filter(a => a.category === 'Debt').reduce((s, a) => s + (a.current_balance || 0), 0);
-    const netWorth = totalBanking + totalInvestment + totalDebt;
+  private static async getDashboard(familyId: number, viewer: AccountViewer): Promise<ActionResult> {
+    const accounts = await AccountService.getAccountsByFamilyId(familyId, viewer);
+    // Same totals as the member's dashboard: every balance converted to the family base currency
+    const dashboard = await BalanceService.getDashboardData(familyId, viewer);
 
     return {
       success: true,
       data: {
-        totalBanking: Math.round(totalBanking * 100) / 100,
-        totalInvestment: Math.round(totalInvestment * 100) / 100,
-        totalDebt: Math.round(totalDebt * 100) / 100,
-        netWorth: Math.round(netWorth * 100) / 100,
+        totalBanking: Math.round(dashboard.total_banking * 100) / 100,
+        totalInvestment: Math.round(dashboard.total_investment * 100) / 100,
+        totalDebt: Math.round(dashboard.total_debt * 100) / 100,
+        netWorth: Math.round(dashboard.net_worth * 100) / 100,
+        currency: dashboard.base_currency,
+        missingRates: dashboard.missing_rates,
         accountsCount: accounts.length,
       },
-      message: `Net worth: ${netWorth.toFixed(2)} EUR (${accounts.length} accounts)`,
+      message: `Net worth: ${dashboard.net_worth.toFixed(2)} ${dashboard.base_currency} (${accounts.length} accounts)`,
     };
   }
 
-  private static async createBackup(familyId: number): Promise<ActionResult> {
-    const dbPath = path.join(process.cwd(), 'data', 'wealth_tracker.db');
-    const backupDir = path.join(process.cwd(), 'data', 'backups');
-
-    if (!fs.existsSync(backupDir)) {
-      fs.mkdirSync(backupDir, { recursive: true });
-    }
-
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupPath = path.join(backupDir, `backup-${timestamp}.db`);
+  private static async getBudgets(familyId: number, params: Record<string, unknown>, viewer: AccountViewer): Promise<ActionResult> {
+    const month = typeof params.month === 'string' && /^\d{4}-\d{2}$/.test(params.month)
+      ? params.month
+      : new Date().toISOString().slice(0, 7);
+    const progress = await BudgetService.getBudgetProgress(familyId, month, viewer);
+    const atRisk = progress.filter(p => p.status !== 'on_track');
 
-    if (fs.existsSync(dbPath)) {
-      fs.copyFileSync(dbPath, backupPath);
-      const stats = fs.statSync(backupPath);
-      return {
-        success: true,
-        data: { filename: `backup-${timestamp}.db`, sizeKB: Math.round(stats.size / 1024) },
-        message: `Backup created: backup-${timestamp}.db (${Math.round(stats.size / 1024)} KB)`,
-      };
-    }
+    return {
+      success: true,
+      data: {
+        month,
+        budgets: progress.map(p => ({
+          category: p.budget.category_name,
+          member: p.budget.user_name || null,
+          limit: p.limit,
+          rollover: p.rolloverAmount,
+          available: p.available,
+          spent: p.spent,
+          projected: p.projected,
+          status: p.status,
+        })),
+      },
+      message: `${progress.length} budgets for ${month}, ${atRisk.length} at risk or over`,
+    };
+  }
 
-    return { success: false, data: null, message: 'Database file not found' };
+  private static async createBackup(): Promise<ActionResult> {
+    const backup = await BackupService.createBackup({ compress: true });
+    const sizeKB = Math.round(backup.size / 1024);
+    return {
+      success: true,
+      data: { filename: backup.name, sizeKB },
+      message: `Backup created: ${backup.name} (${sizeKB} KB)`,
+    };
   }
 
   private static async listBackups(): Promise<ActionResult> {
-    const backupDir = path.join(process.cwd(), 'data', 'backups');
-
-    if (!fs.existsSync(backupDir)) {
-      return { success: true, data: [], message: 'No backups directory' };
-    }
-
-    const files = fs.readdirSync(backupDir)
-      .filter(f => f.endsWith('.db'))
-      .map(f => {
-        const stats = fs.statSync(path.join(backupDir, f));
-        return { filename: f, sizeKB: Math.round(stats.size / 1024), date: stats.mtime.toISOString() };
-      })
-      .sort((a, b) => b.date.localeCompare(a.date))
-      .slice(0, 10);
+    const files = (await BackupService.listBackups())
+      .slice(0, 10)
+      .map(backup => ({
+        filename: backup.name,
+        sizeKB: Math.round(backup.size / 1024),
+        date: backup.created_at,
+        encrypted: !!backup.encrypted,
+      }));
 
     return {
       success: true,
@@ -184,26 +214,37 @@ export class AIActionExecutor {
     };
   }
 
-  private static async categorizeTransactions(familyId: number): Promise<ActionResult> {
+  private static async categorizeTransactions(familyId: number, viewer: AccountViewer): Promise<ActionResult> {
+    // Deterministic rules first, so only what they leave uncategorized costs an AI call
+    const { matched: ruleMatched } = await CategoryRuleService.applyToTransactions(familyId, {}, viewer);
+
+    // Only transactions the member can change are sent to the AI
     const db = await getDatabase();
+    const editable = AccountAccessService.accountFilter('account_id', viewer, true);
     const uncategorized = await db.all(
-      'SELECT * FROM transactions WHERE family_id = ? AND category_id IS NULL LIMIT 100',
-      [familyId]
+      `SELECT * FROM transactions WHERE family_id = ? AND category_id IS NULL AND is_split = 0 AND ${editable.sql} LIMIT 100`,
+      [familyId, ...editable.params]
     ) as any[];
 
     if (uncategorized.length === 0) {
-      return { success: true, data: { categorized: 0 }, message: 'No uncategorized transactions found' };
+      return {
+        success: true,
+        data: { categorized: 0, ruleMatched },
+        message: ruleMatched > 0
+          ? `Categorized ${ruleMatched} transactions with rules; none left for AI`
+          : 'No uncategorized transactions found',
+      };
     }
 
     const categories = await CategoryService.getCategoriesByFamily(familyId);
-    const { categorizations } = await AIService.categorizeTransactions(familyId, uncategorized, categories);
+    const { categorizations } = await AIService.categorizeTransactions(familyId, uncategorized, categories, viewer);
 
     let categorized = 0;
     for (const result of categorizations) {
       const cat = categories.find(c => c.id === result.categoryId);
       if (cat) {
         await db.run(
-          'UPDATE transactions SET category_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          'UPDATE transactions SET category_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND is_split = 0',
           [result.categoryId, result.transactionId]
         );
         categorized++;
@@ -212,8 +253,8 @@ export class AIActionExecutor {
 
     return {
       success: true,
-      data: { total: uncategorized.length, categorized },
-      message: `Categorized ${categorized} of ${uncategorized.length} transactions`,
+      data: { total: uncategorized.length, categorized, ruleMatched },
+      message: `Categorized ${ruleMatched} transactions with rules and ${categorized} of ${uncategorized.length} with AI`,
     };
   }
 }
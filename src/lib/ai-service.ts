@@ -1,5 +1,8 @@
 import { getDatabase } from './database';
 import { encryptIBAN, decryptIBAN } from './encryption';
+import { BudgetService } from './budget-service';
+import { CategoryCorrectionService } from './category-correction-service';
+import { AccountAccessService, type AccountViewer } from './account-access-service';
 import type { Transaction, TransactionCategory } from '@/types';
 
 export interface AISettings {
@@ -174,12 +177,14 @@ export class AIService {
   }
 
   /**
-   * Categorize transactions using AI
+   * Categorize transactions using AI; with a viewer, the example corrections come only
+   * from the accounts they can see
    */
   static async categorizeTransactions(
     familyId: number,
     transactions: Transaction[],
-    categories: TransactionCategory[]
+    categories: TransactionCategory[],
+    viewer?: AccountViewer
   ): Promise<CategorizationWithLogs> {
     const logs: Array<{ type: 'info' | 'success' | 'error'; message: string }> = [];
     const db = await getDatabase();
@@ -209,8 +214,17 @@ Rules:
 - Negative amounts are expenses, positive amounts are income.
 - If a transaction looks like an internal transfer between own accounts (e.g., "Transferencia recibida" from the account holder's own name, "OFF TO SAVE", "Move to save"), assign the "Transfers In" or "Transfers Out" category based on the amount sign.
 - If you are unsure, use the "Other" category with low confidence.
+- "corrections" lists transactions the family categorized by hand. Treat them as ground truth: give transactions from the same merchant or counterparty the same category with high confidence.
 - Respond ONLY with valid JSON matching the expected schema: { "categorizations": [{ "transactionId": number, "categoryId": number, "confidence": number }] }`;
 
+    // The family's own recent corrections act as few-shot examples
+    const eligibleIds = new Set(eligibleCategories.map(c => c.id));
+    const corrections = (await CategoryCorrectionService.getRecentExamples(familyId, viewer))
+      .filter(example => eligibleIds.has(example.categoryId));
+    if (corrections.length > 0) {
+      logs.push({ type: 'info', message: `Including ${corrections.length} manual corrections as examples` });
+    }
+
     const userMessage = JSON.stringify({
       categories: eligibleCategories.map(c => ({
         id: c.id,
@@ -225,6 +239,12 @@ Rules:
         amount: t.amount,
         movementType: t.movement_type || '',
       })),
+      corrections: corrections.map(c => ({
+        description: c.description,
+        detail: c.detail || '',
+        amount: c.amount,
+        categoryId: c.categoryId,
+      })),
     });
 
     console.log(`[AI] Request payload (${userMessage.length} chars):`, userMessage);
@@ -271,9 +291,10 @@ Rules:
   }
 
   /**
-   * Send a chat message to the AI with financial context
+   * Send a chat message to the AI with financial context; with a viewer, only from the
+   * accounts they can see
    */
-  static async chat(familyId: number, message: string, context?: string): Promise<string> {
+  static async chat(familyId: number, message: string, context?: string, viewer?: AccountViewer): Promise<string> {
     const db = await getDatabase();
     const settings = await db.get(
       'SELECT * FROM family_settings WHERE family_id = ?',
@@ -292,11 +313,12 @@ Rules:
     let financialContext = '';
 
     // Get account balances summary
+    const visible = AccountAccessService.visibleCondition(viewer);
     const accounts = await db.all(
       `SELECT a.name, a.category, a.currency,
         (SELECT b.amount FROM balances b WHERE b.account_id = a.id ORDER BY b.date DESC LIMIT 1) as balance
-       FROM accounts a WHERE a.family_id = ?`,
-      [familyId]
+       FROM accounts a WHERE a.family_id = ? AND ${visible.sql}`,
+      [familyId, ...visible.params]
     ) as any[];
 
     if (accounts.length > 0) {
@@ -308,13 +330,14 @@ Rules:
 
     // Get recent spending by category (current month)
     const currentMonth = new Date().toISOString().slice(0, 7);
+    const allocationsVisible = AccountAccessService.accountFilter('t.account_id', viewer);
     const recentSpending = await db.all(
       `SELECT tc.name, tc.type, SUM(ABS(t.amount)) as total, COUNT(*) as count
-       FROM transactions t
+       FROM transaction_allocations t
        JOIN transaction_categories tc ON t.category_id = tc.id
-       WHERE t.family_id = ? AND t.date LIKE ? || '%' AND t.is_transfer = 0
+       WHERE t.family_id = ? AND t.date LIKE ? || '%' AND t.is_transfer = 0 AND ${allocationsVisible.sql}
        GROUP BY tc.id ORDER BY total DESC LIMIT 10`,
-      [familyId, currentMonth]
+      [familyId, currentMonth, ...allocationsVisible.params]
     ) as any[];
 
     if (recentSpending.length > 0) {
@@ -325,12 +348,13 @@ Rules:
     }
 
     // Get total net for current month
+    const transactionsVisible = AccountAccessService.accountFilter('account_id', viewer);
     const monthSummary = await db.get(
       `SELECT
         SUM(CASE WHEN amount > 0 AND is_transfer = 0 THEN amount ELSE 0 END) as income,
         SUM(CASE WHEN amount < 0 AND is_transfer = 0 THEN ABS(amount) ELSE 0 END) as expenses
-       FROM transactions WHERE family_id = ? AND date LIKE ? || '%'`,
-      [familyId, currentMonth]
+       FROM transactions WHERE family_id = ? AND date LIKE ? || '%' AND ${transactionsVisible.sql}`,
+      [familyId, currentMonth, ...transactionsVisible.params]
     ) as any;
 
     if (monthSummary) {
@@ -340,6 +364,16 @@ Rules:
       financialContext += `- Net: ${((monthSummary.income || 0) - (monthSummary.expenses || 0)).toFixed(2)} EUR\n`;
     }
 
+    // Budgets over, or projected to end over, their monthly limit
+    const budgetsAtRisk = await BudgetService.getAtRiskBudgets(familyId, currentMonth, viewer);
+    if (budgetsAtRisk.length > 0) {
+      financialContext += `\nBudgets at risk (${currentMonth}):\n`;
+      for (const b of budgetsAtRisk) {
+        const who = b.budget.user_name ? ` [${b.budget.user_name}]` : '';
+        financialContext += `- ${b.budget.category_name}${who}: spent ${b.spent.toFixed(2)} of ${b.available.toFixed(2)} EUR, projected ${b.projected.toFixed(2)} EUR (${b.status === 'over' ? 'over budget' : 'at risk'})\n`;
+      }
+    }
+
     const systemPrompt = `You are a helpful financial assistant for a family wealth tracker application. You have access to the family's financial data and can answer questions about their finances. You respond in the same language the user writes in (Spanish or English). Be concise and helpful.${financialContext}${context ? '\n\nAdditional context:\n' + context : ''}`;
 
     const chatResponse = await fetch(`${baseUrl}/chat/completions`, {
@@ -419,6 +453,19 @@ Rules:
         },
       },
     },
+    {
+      type: "function" as const,
+      function: {
+        name: "get_budgets",
+        description: "Get monthly category budgets with amount spent, projected month-end spend and whether each is on track, at risk or over. Use when the user asks about budgets or whether they are overspending.",
+        parameters: {
+          type: "object" as const,
+          properties: {
+            month: { type: "string", description: "Month in YYYY-MM format. Defaults to the current month." },
+          },
+        },
+      },
+    },
     {
       type: "function" as const,
       function: {
@@ -0,0 +1,478 @@
+import { getDatabase } from './database';
+import { ExchangeRateService } from './exchange-rate-service';
+import { NotificationPreferencesService } from './notification-preferences-service';
+import { getUnifiedEmailService } from './unified-email-service';
+import { AlertTemplate } from './email-templates/alert-template';
+import { WebhookService } from './webhook-service';
+import { AccountAccessService, type AccountViewer } from './account-access-service';
+import type { AccountFamilyAccess, Alert, AlertDetails, AlertRule, AlertRuleType } from '@/types';
+
+type AlertRuleInput = {
+  name: string;
+  type: AlertRuleType;
+  account_id?: number | null;
+  category_id?: number | null;
+  threshold: number;
+  is_active?: boolean;
+};
+
+type AlertRuleRow = Omit<AlertRule, 'is_active'> & { is_active: number };
+type AlertRow = Omit<Alert, 'details'> & { details: string };
+
+// A rule match: fires once per dedup key. Not shared when it draws on a private
+// account, which keeps it out of the family's webhooks.
+interface Trigger {
+  key: string;
+  details: AlertDetails;
+  shared: boolean;
+}
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = [
+  'balance_below', 'category_spending_above', 'transaction_above', 'stale_balance', 'debt_milestone'
+];
+
+const DAY_MS = 86400000;
+
+const RULE_SELECT = `
+  SELECT r.*, a.name as account_name, tc.name as category_name
+  FROM alert_rules r
+  LEFT JOIN accounts a ON r.account_id = a.id
+  LEFT JOIN transaction_categories tc ON r.category_id = tc.id`;
+
+function rowToRule(row: AlertRuleRow): AlertRule {
+  return { ...row, is_active: !!row.is_active };
+}
+
+function rowToAlert(row: AlertRow): Alert {
+  return { ...row, details: JSON.parse(row.details) };
+}
+
+export class AlertService {
+  static async getRules(familyId: number, userId: number): Promise<AlertRule[]> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      `${RULE_SELECT} WHERE r.family_id = ? AND r.user_id = ? ORDER BY r.created_at DESC, r.id DESC`,
+      [familyId, userId]
+    ) as AlertRuleRow[];
+    return rows.map(rowToRule);
+  }
+
+  static async getRuleById(id: number, familyId: number, userId: number): Promise<AlertRule | null> {
+    const db = await getDatabase();
+    const row = await db.get(
+      `${RULE_SELECT} WHERE r.id = ? AND r.family_id = ? AND r.user_id = ?`,
+      [id, familyId, userId]
+    ) as AlertRuleRow | undefined;
+    return row ? rowToRule(row) : null;
+  }
+
+  /**
+   * Returns an error message when the rule is incomplete or points outside the family,
+   * or, with a viewer, at an account hidden from them
+   */
+  static async validate(familyId: number, data: AlertRuleInput, viewer?: AccountViewer): Promise<string | null> {
+    if (!data.name?.trim()) return 'Name is required';
+    if (!ALERT_RULE_TYPES.includes(data.type)) return 'Invalid alert type';
+    if (!Number.isFinite(data.threshold)) return 'Threshold must be a number';
+    // Only a balance threshold can be negative (an overdraft)
+    if (data.type !== 'balance_below' && data.threshold < 0) return 'Threshold cannot be negative';
+
+    const db = await getDatabase();
+    const needsAccount = data.type === 'balance_below' || data.type === 'debt_milestone';
+    if (needsAccount && !data.account_id) return 'An account is required for this alert';
+    if (data.account_id) {
+      const visible = AccountAccessService.visibleCondition(viewer);
+      const account = await db.get(
+        `SELECT a.category FROM accounts a WHERE a.id = ? AND a.family_id = ? AND ${visible.sql}`,
+        [data.account_id, familyId, ...visible.params]
+      ) as { category: string } | undefined;
+      if (!account) return 'Account not found';
+      if (data.type === 'debt_milestone' && account.category !== 'Debt') return 'Debt milestones need a Debt account';
+    }
+
+    if (data.type === 'category_spending_above') {
+      if (!data.category_id) return 'A category is required for this alert';
+      const category = await db.get(
+        'SELECT id FROM transaction_categories WHERE id = ? AND family_id = ?',
+        [data.category_id, familyId]
+      );
+      if (!category) return 'Category not found';
+    }
+
+    return null;
+  }
+
+  static async createRule(familyId: number, userId: number, data: AlertRuleInput): Promise<number> {
+    const db = await getDatabase();
+    const result = await db.run(
+      `INSERT INTO alert_rules (family_id, user_id, name, type, account_id, category_id, threshold, is_active)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        familyId,
+        userId,
+        data.name.trim(),
+        data.type,
+        data.account_id || null,
+        data.type === 'category_spending_above' ? data.category_id : null,
+        data.threshold,
+        data.is_active === false ? 0 : 1,
+      ]
+    );
+    return result.lastID;
+  }
+
+  static async updateRule(id: number, data: AlertRuleInput): Promise<void> {
+    const db = await getDatabase();
+    await db.run(
+      `UPDATE alert_rules SET name = ?, type = ?, account_id = ?, category_id = ?, threshold = ?, is_active = ?,
+         updated_at = datetime('now')
+       WHERE id = ?`,
+      [
+        data.name.trim(),
+        data.type,
+        data.account_id || null,
+        data.type === 'category_spending_above' ? data.category_id : null,
+        data.threshold,
+        data.is_active === false ? 0 : 1,
+        id,
+      ]
+    );
+  }
+
+  /**
+   * Pause a rule for the given number of days; 0 wakes it up
+   */
+  static async snoozeRule(id: number, days: number): Promise<void> {
+    const db = await getDatabase();
+    await db.run(
+      `UPDATE alert_rules SET snoozed_until = ${days > 0 ? "datetime('now', ?)" : 'NULL'}, updated_at = datetime('now') WHERE id = ?`,
+      days > 0 ? [`+${days} days`, id] : [id]
+    );
+  }
+
+  static async deleteRule(id: number, familyId: number, userId: number): Promise<void> {
+    const db = await getDatabase();
+    const result = await db.run(
+      'DELETE FROM alert_rules WHERE id = ? AND family_id = ? AND user_id = ?',
+      [id, familyId, userId]
+    );
+    if (result.changes > 0) {
+      await db.run('DELETE FROM alerts WHERE rule_id = ?', [id]);
+    }
+  }
+
+  static async getAlerts(userId: number, unreadOnly = false, limit = 100): Promise<Alert[]> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      `SELECT al.*, r.name as rule_name, r.type as rule_type, r.snoozed_until as rule_snoozed_until
+       FROM alerts al
+       JOIN alert_rules r ON al.rule_id = r.id
+       WHERE al.user_id = ? ${unreadOnly ? 'AND al.read_at IS NULL' : ''}
+       ORDER BY al.created_at DESC, al.id DESC
+       LIMIT ?`,
+      [userId, limit]
+    ) as AlertRow[];
+    return rows.map(rowToAlert);
+  }
+
+  static async getUnreadCount(userId: number): Promise<number> {
+    const db = await getDatabase();
+    const row = await db.get(
+      'SELECT COUNT(*) as count FROM alerts WHERE user_id = ? AND read_at IS NULL',
+      [userId]
+    ) as { count: number };
+    return row.count;
+  }
+
+  static async markRead(id: number, userId: number, read: boolean): Promise<boolean> {
+    const db = await getDatabase();
+    const result = await db.run(
+      `UPDATE alerts SET read_at = ${read ? "datetime('now')" : 'NULL'} WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+    return result.changes > 0;
+  }
+
+  static async markAllRead(userId: number): Promise<void> {
+    const db = await getDatabase();
+    await db.run(
+      "UPDATE alerts SET read_at = datetime('now') WHERE user_id = ? AND read_at IS NULL",
+      [userId]
+    );
+  }
+
+  /**
+   * Evaluate the family's active, unsnoozed rules. New alerts land in the owner's
+   * inbox and are emailed right away to owners who receive alert emails. Rules only
+   * look at the accounts their owner can see.
+   */
+  static async evaluateFamily(familyId: number): Promise<{ triggered: number }> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      `${RULE_SELECT}
+       WHERE r.family_id = ? AND r.is_active = 1
+         AND (r.snoozed_until IS NULL OR r.snoozed_until <= datetime('now'))`,
+      [familyId]
+    ) as AlertRuleRow[];
+    const members = await db.all('SELECT id, role FROM users WHERE family_id = ?', [familyId]) as AccountViewer[];
+    const viewers = new Map(members.map(member => [member.id, member]));
+
+    const created: Alert[] = [];
+    const sharedIds = new Set<number>();
+    for (const rule of rows.map(rowToRule)) {
+      // Owners who left the family keep only what every member sees
+      const viewer = viewers.get(rule.user_id) ?? { id: rule.user_id, role: 'guest' };
+      try {
+        for (const trigger of await this.evaluateRule(rule, viewer)) {
+          const result = await db.run(
+            `INSERT OR IGNORE INTO alerts (family_id, user_id, rule_id, dedup_key, details) VALUES (?, ?, ?, ?, ?)`,
+            [familyId, rule.user_id, rule.id, trigger.key, JSON.stringify(trigger.details)]
+          );
+          if (result.changes > 0) {
+            if (trigger.shared) sharedIds.add(result.lastID);
+            created.push({
+              id: result.lastID,
+              family_id: familyId,
+              user_id: rule.user_id,
+              rule_id: rule.id,
+              dedup_key: trigger.key,
+              details: trigger.details,
+              read_at: null,
+              emailed_at: null,
+              created_at: new Date().toISOString(),
+              rule_name: rule.name,
+              rule_type: rule.type,
+            });
+          }
+        }
+      } catch (error) {
+        console.error(`Error evaluating alert rule ${rule.id}:`, error);
+      }
+    }
+
+    for (const alert of created.filter(alert => sharedIds.has(alert.id))) {
+      await WebhookService.emit(familyId, 'alert.triggered', {
+        alert_id: alert.id,
+        rule_id: alert.rule_id,
+        rule_name: alert.rule_name,
+        rule_type: alert.rule_type,
+        user_id: alert.user_id,
+        details: alert.details,
+      });
+    }
+    if (created.length > 0) {
+      await this.emailAlerts(created);
+    }
+    return { triggered: created.length };
+  }
+
+  /**
+   * Cron entry point: every family with at least one active rule
+   */
+  static async evaluateAll(): Promise<{ families: number; triggered: number }> {
+    const db = await getDatabase();
+    const families = await db.all(
+      'SELECT DISTINCT family_id FROM alert_rules WHERE is_active = 1'
+    ) as Array<{ family_id: number }>;
+
+    let triggered = 0;
+    for (const { family_id } of families) {
+      triggered += (await this.evaluateFamily(family_id)).triggered;
+    }
+    return { families: families.length, triggered };
+  }
+
+  private static async evaluateRule(rule: AlertRule, viewer: AccountViewer): Promise<Trigger[]> {
+    switch (rule.type) {
+      case 'balance_below': return this.evaluateBalanceBelow(rule, viewer);
+      case 'category_spending_above': return this.evaluateCategorySpending(rule, viewer);
+      case 'transaction_above': return this.evaluateLargeTransactions(rule, viewer);
+      case 'stale_balance': return this.evaluateStaleBalances(rule, viewer);
+      case 'debt_milestone': return this.evaluateDebtMilestone(rule, viewer);
+    }
+  }
+
+  /**
+   * Latest balance under the threshold; fires at most once a month
+   */
+  private static async evaluateBalanceBelow(rule: AlertRule, viewer: AccountViewer): Promise<Trigger[]> {
+    const db = await getDatabase();
+    const visible = AccountAccessService.visibleCondition(viewer);
+    const latest = await db.get(
+      `SELECT b.amount, b.date, a.name, a.currency, a.family_access
+       FROM balances b JOIN accounts a ON b.account_id = a.id
+       WHERE b.account_id = ? AND a.family_id = ? AND ${visible.sql}
+       ORDER BY b.date DESC, b.id DESC LIMIT 1`,
+      [rule.account_id, rule.family_id, ...visible.params]
+    ) as { amount: number; date: string; name: string; currency: string; family_access: AccountFamilyAccess } | undefined;
+
+    if (!latest || latest.amount >= rule.threshold) return [];
+    return [{
+      key: latest.date.slice(0, 7),
+      details: { accountName: latest.name, amount: latest.amount, currency: latest.currency, threshold: rule.threshold, date: latest.date },
+      shared: latest.family_access !== 'none',
+    }];
+  }
+
+  /**
+   * Net spending in the category this month above the threshold; once a month.
+   * Transfers never count and split transactions count their allocation.
+   */
+  private static async evaluateCategorySpending(rule: AlertRule, viewer: AccountViewer): Promise<Trigger[]> {
+    const db = await getDatabase();
+    const month = new Date().toISOString().slice(0, 7);
+    const visible = AccountAccessService.accountFilter('account_id', viewer);
+    const row = await db.get(
+      `SELECT -SUM(amount) as spent,
+              MAX(account_id IN (SELECT id FROM accounts WHERE family_access = 'none')) as has_private
+       FROM transaction_allocations
+       WHERE family_id = ? AND category_id = ? AND is_transfer = 0 AND strftime('%Y-%m', date) = ? AND ${visible.sql}`,
+      [rule.family_id, rule.category_id, month, ...visible.params]
+    ) as { spent: number | null; has_private: number | null };
+
+    const spent = Math.round((row.spent || 0) * 100) / 100;
+    if (spent <= rule.threshold) return [];
+    return [{
+      key: month,
+      details: {
+        categoryName: rule.category_name,
+        amount: spent,
+        currency: await ExchangeRateService.getBaseCurrency(rule.family_id),
+        threshold: rule.threshold,
+        date: month,
+      },
+      shared: !row.has_private,
+    }];
+  }
+
+  /**
+   * Transactions above the threshold (either sign) added since the rule was created,
+   * so a new rule doesn't flag the whole history; once per transaction
+   */
+  private static async evaluateLargeTransactions(rule: AlertRule, viewer: AccountViewer): Promise<Trigger[]> {
+    const db = await getDatabase();
+    const visible = AccountAccessService.accountFilter('t.account_id', viewer);
+    const transactions = await db.all(
+      `SELECT t.id, t.amount, t.currency, t.date, t.description, a.name as account_name, a.family_access
+       FROM transactions t
+       LEFT JOIN accounts a ON t.account_id = a.id
+       WHERE t.family_id = ? AND t.is_transfer = 0 AND ABS(t.amount) > ? AND t.created_at >= ?
+         ${rule.account_id ? 'AND t.account_id = ?' : ''} AND ${visible.sql}
+       ORDER BY t.date, t.id`,
+      rule.account_id
+        ? [rule.family_id, rule.threshold, rule.created_at, rule.account_id, ...visible.params]
+        : [rule.family_id, rule.threshold, rule.created_at, ...visible.params]
+    ) as Array<{ id: number; amount: number; currency: string; date: string; description: string; account_name: string; family_access: AccountFamilyAccess }>;
+
+    return transactions.map(tx => ({
+      key: `tx:${tx.id}`,
+      details: {
+        accountName: tx.account_name,
+        description: tx.description,
+        amount: tx.amount,
+        currency: tx.currency,
+        threshold: rule.threshold,
+        date: tx.date,
+      },
+      shared: tx.family_access !== 'none',
+    }));
+  }
+
+  /**
+   * Accounts whose latest balance is older than the threshold in days; once per
+   * latest balance, so recording a new one re-arms the rule
+   */
+  private static async evaluateStaleBalances(rule: AlertRule, viewer: AccountViewer): Promise<Trigger[]> {
+    const db = await getDatabase();
+    const visible = AccountAccessService.visibleCondition(viewer);
+    const accounts = await db.all(
+      `SELECT a.id, a.name, a.family_access, MAX(b.date) as last_date
+       FROM accounts a
+       JOIN balances b ON b.account_id = a.id
+       WHERE a.family_id = ? AND COALESCE(a.is_settled, 0) = 0 ${rule.account_id ? 'AND a.id = ?' : ''} AND ${visible.sql}
+       GROUP BY a.id`,
+      rule.account_id
+        ? [rule.family_id, rule.account_id, ...visible.params]
+        : [rule.family_id, ...visible.params]
+    ) as Array<{ id: number; name: string; family_access: AccountFamilyAccess; last_date: string }>;
+
+    const today = Date.parse(new Date().toISOString().slice(0, 10));
+    const triggers: Trigger[] = [];
+    for (const account of accounts) {
+      const days = Math.floor((today - Date.parse(account.last_date)) / DAY_MS);
+      if (days <= rule.threshold) continue;
+      triggers.push({
+        key: `${account.id}:${account.last_date}`,
+        details: { accountName: account.name, threshold: rule.threshold, date: account.last_date, days },
+        shared: account.family_access !== 'none',
+      });
+    }
+    return triggers;
+  }
+
+  /**
+   * Loan down to the threshold in remaining months; fires once per threshold
+   */
+  private static async evaluateDebtMilestone(rule: AlertRule, viewer: AccountViewer): Promise<Trigger[]> {
+    const db = await getDatabase();
+    const visible = AccountAccessService.visibleCondition(viewer);
+    const account = await db.get(
+      `SELECT a.name, a.remaining_months, a.family_access FROM accounts a WHERE a.id = ? AND a.family_id = ? AND ${visible.sql}`,
+      [rule.account_id, rule.family_id, ...visible.params]
+    ) as { name: string; remaining_months: number | null; family_access: AccountFamilyAccess } | undefined;
+
+    if (!account || account.remaining_months == null || account.remaining_months > rule.threshold) return [];
+    return [{
+      key: `months:${rule.threshold}`,
+      details: { accountName: account.name, remainingMonths: account.remaining_months, threshold: rule.threshold },
+      shared: account.family_access !== 'none',
+    }];
+  }
+
+  /**
+   * One email per owner with all their new alerts
+   */
+  private static async emailAlerts(alerts: Alert[]): Promise<void> {
+    const emailService = getUnifiedEmailService();
+    if (!emailService.isConfigured()) return;
+
+    const db = await getDatabase();
+    const byUser = new Map<number, Alert[]>();
+    for (const alert of alerts) {
+      if (!byUser.has(alert.user_id)) byUser.set(alert.user_id, []);
+      byUser.get(alert.user_id)!.push(alert);
+    }
+
+    for (const [userId, userAlerts] of byUser) {
+      try {
+        const preferences = await NotificationPreferencesService.getPreferences(userId);
+        if (!preferences.alerts) continue;
+
+        const user = await db.get('SELECT email FROM users WHERE id = ?', [userId]) as { email: string } | undefined;
+        if (!user) continue;
+
+        const unsubscribeUrl = NotificationPreferencesService.getUnsubscribeUrl(userId, 'alerts');
+        const { subject, html, text } = AlertTemplate.generate(userAlerts, { locale: preferences.locale, unsubscribeUrl });
+        const result = await emailService.sendEmail({
+          to: user.email,
+          subject,
+          html,
+          text,
+          headers: NotificationPreferencesService.getUnsubscribeHeaders(unsubscribeUrl)
+        });
+
+        if (result.success) {
+          const ids = userAlerts.map(a => a.id);
+          await db.run(
+            `UPDATE alerts SET emailed_at = datetime('now') WHERE id IN (${ids.map(() => '?').join(',')})`,
+            ids
+          );
+        } else {
+          console.error(`Failed to email alerts to user ${userId}:`, result.error);
+        }
+      } catch (error) {
+        console.error(`Error emailing alerts to user ${userId}:`, error);
+      }
+    }
+  }
+}
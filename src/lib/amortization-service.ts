@@ -1,6 +1,8 @@
-import { Account } from '@/types';
+import { Account, AccountFamilyAccess } from '@/types';
 import { getDatabase } from '@/lib/database';
 import { systemLogger } from './system-logger';
+import { WebhookService } from './webhook-service';
+import { AccountAccessService, type AccountViewer } from './account-access-service';
 
 export interface AmortizationPayment {
   month: number;
@@ -375,6 +377,17 @@ export class AmortizationService {
         }
       );
 
+      // Webhooks go to the whole family's integrations, so private accounts stay out of them
+      if (account.family_access !== 'none') await WebhookService.emit(account.family_id, 'debt.auto_updated', {
+        account_id: accountId,
+        account_name: account.name,
+        previous_balance: account.current_balance,
+        new_balance: newBalance,
+        interest_added: interestAdded,
+        remaining_months: newRemainingMonths,
+        payment_date: nextPaymentDate.toISOString().split('T')[0],
+      });
+
       return { success: true, newBalance, interestAdded };
     } catch (error) {
       console.error('Error applying monthly update:', error);
@@ -581,11 +594,12 @@ export class AmortizationService {
   }
 
   /**
-   * Get debt summaries for all family debt accounts
+   * Get debt summaries for all family debt accounts, or with a viewer those they can see
    */
-  async getDebtSummaries(familyId: number): Promise<DebtSummary[]> {
+  async getDebtSummaries(familyId: number, viewer?: AccountViewer): Promise<DebtSummary[]> {
     try {
       const db = await getDatabase();
+      const visible = AccountAccessService.visibleCondition(viewer);
       
       const debts = await db.all(`
         SELECT a.*,
@@ -597,9 +611,9 @@ export class AmortizationService {
                  0
                ) as current_balance
         FROM accounts a 
-        WHERE a.family_id = ? AND a.category = 'Debt'
+        WHERE a.family_id = ? AND a.category = 'Debt' AND ${visible.sql}
         ORDER BY a.name
-      `, [familyId]) as (Account & { current_balance: number })[];
+      `, [familyId, ...visible.params]) as (Account & { current_balance: number })[];
 
       return debts.map(debt => {
         const nextPayment = this.calculateNextPayment(debt, debt.current_balance);
@@ -635,31 +649,34 @@ export class AmortizationService {
   }
 
   /**
-   * Run monthly updates for all eligible debt accounts
+   * Run monthly updates for all eligible debt accounts. `shared` counts the updated
+   * accounts the whole family can see.
    */
-  async runMonthlyUpdatesForFamily(familyId: number): Promise<{ updated: number; errors: string[] }> {
+  async runMonthlyUpdatesForFamily(familyId: number): Promise<{ updated: number; shared: number; errors: string[] }> {
     const timer = systemLogger.createTimer('debt_update', 'monthly_updates_family', familyId, undefined, { familyId });
     
     try {
       const db = await getDatabase();
       
       const eligibleDebts = await db.all(`
-        SELECT id FROM accounts
+        SELECT id, family_access FROM accounts
         WHERE family_id = ?
           AND category = 'Debt'
           AND auto_update_enabled = 1
           AND apr_rate IS NOT NULL
           AND remaining_months > 0
           AND is_settled = 0
-      `, [familyId]) as { id: number }[];
+      `, [familyId]) as Array<{ id: number; family_access: AccountFamilyAccess }>;
 
       let updated = 0;
+      let shared = 0;
       const errors: string[] = [];
 
       for (const debt of eligibleDebts) {
         const result = await this.applyMonthlyUpdate(debt.id);
         if (result.success) {
           updated++;
+          if (debt.family_access !== 'none') shared++;
         } else if (result.error && !result.error.includes('Already updated this month')) {
           errors.push(`Account ${debt.id}: ${result.error}`);
         }
@@ -688,11 +705,11 @@ export class AmortizationService {
         );
       }
 
-      return { updated, errors };
+      return { updated, shared, errors };
     } catch (error) {
       console.error('Error running monthly updates:', error);
       await timer.error(error, 'Database error during family monthly updates');
-      return { updated: 0, errors: ['Database error'] };
+      return { updated: 0, shared: 0, errors: ['Database error'] };
     }
   }
 }
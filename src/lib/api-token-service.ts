@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { getDatabase } from './database';
+import { getUserPermissions } from './permissions';
+import type { ApiToken, ApiTokenScope, User, UserRole } from '@/types';
+
+type ApiTokenInput = {
+  name: string;
+  scopes: ApiTokenScope[];
+  expires_in_days?: number | null; // null or missing never expires
+};
+
+type ApiTokenRow = Omit<ApiToken, 'scopes'> & { scopes: string };
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['read', 'balances:write', 'transactions:import', 'admin'];
+
+const TOKEN_PREFIX = 'fwt_';
+const MAX_EXPIRY_DAYS = 3650;
+
+// Write routes each scope opens up, besides read which covers every GET
+const WRITE_SCOPE_ROUTES: Partial<Record<ApiTokenScope, string[]>> = {
+  'balances:write': ['/api/balances', '/api/import/csv'],
+  'transactions:import': ['/api/transactions/import'],
+};
+
+// Never reachable with a token: signing in and out, minting more tokens and joining a family
+const SESSION_ONLY_ROUTES = ['/api/auth', '/api/tokens', '/api/invitations'];
+// Whole-instance data that only the admin scope reaches, even for GET
+const ADMIN_SCOPE_ROUTES = ['/api/admin', '/api/backups', '/api/debug'];
+
+function rowToToken(row: ApiTokenRow): ApiToken {
+  return { ...row, scopes: JSON.parse(row.scopes) };
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function matchesRoute(pathname: string, routes: string[]): boolean {
+  return routes.some(route => pathname === route || pathname.startsWith(`${route}/`));
+}
+
+function scopeAllows(scopes: ApiTokenScope[], method: string, pathname: string): boolean {
+  if (matchesRoute(pathname, SESSION_ONLY_ROUTES)) return false;
+  if (scopes.includes('admin')) return true;
+  if (matchesRoute(pathname, ADMIN_SCOPE_ROUTES)) return false;
+  if (method === 'GET' || method === 'HEAD') return scopes.includes('read');
+  return scopes.some(scope => matchesRoute(pathname, WRITE_SCOPE_ROUTES[scope] || []));
+}
+
+/**
+ * Personal access tokens. A valid bearer token stands in for the session cookie and
+ * resolves to the token owner, limited to what the token's scopes allow.
+ */
+export class ApiTokenService {
+  static async getTokens(userId: number): Promise<ApiToken[]> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      `SELECT id, user_id, family_id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at
+       FROM api_tokens WHERE user_id = ?
+       ORDER BY revoked_at IS NOT NULL, created_at DESC, id DESC`,
+      [userId]
+    ) as ApiTokenRow[];
+    return rows.map(rowToToken);
+  }
+
+  /**
+   * Returns an error message when the name, scopes or expiry are not usable
+   */
+  static validate(data: ApiTokenInput, role: UserRole): string | null {
+    if (!data.name?.trim()) return 'A token name is required';
+    if (!Array.isArray(data.scopes) || data.scopes.length === 0) return 'Select at least one scope';
+    if (data.scopes.some(scope => !API_TOKEN_SCOPES.includes(scope))) return 'Unknown token scope';
+    if (data.scopes.includes('admin') && role !== 'administrator') return 'Only administrators can create admin tokens';
+    if (!getUserPermissions(role).canEditData && data.scopes.some(scope => scope !== 'read')) return 'Your role can only create read tokens';
+    if (data.expires_in_days != null) {
+      const days = data.expires_in_days;
+      if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) return 'Invalid expiry';
+    }
+    return null;
+  }
+
+  /**
+   * Creates the token and returns it in plain text, which is only shown this once
+   */
+  static async createToken(user: User, data: ApiTokenInput): Promise<{ id: number; token: string }> {
+    const db = await getDatabase();
+    const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const result = await db.run(
+      `INSERT INTO api_tokens (user_id, family_id, name, token_hash, token_prefix, scopes, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ${data.expires_in_days ? "datetime('now', ?)" : 'NULL'})`,
+      [
+        user.id,
+        user.family_id,
+        data.name.trim(),
+        hashToken(token),
+        token.substring(0, TOKEN_PREFIX.length + 8),
+        JSON.stringify(Array.from(new Set(data.scopes))),
+        ...(data.expires_in_days ? [`+${data.expires_in_days} days`] : []),
+      ]
+    );
+    return { id: result.lastID, token };
+  }
+
+  static async revokeToken(id: number, userId: number): Promise<boolean> {
+    const db = await getDatabase();
+    const result = await db.run(
+      "UPDATE api_tokens SET revoked_at = datetime('now') WHERE id = ? AND user_id = ? AND revoked_at IS NULL",
+      [id, userId]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Resolves a bearer token to its owner for a request, or null when the token is
+   * unknown, revoked, expired or its scopes don't cover the method and path
+   */
+  static async authenticate(token: string, method: string, pathname: string): Promise<User | null> {
+    if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+    const db = await getDatabase();
+    const row = await db.get(
+      `SELECT id, user_id, scopes FROM api_tokens
+       WHERE token_hash = ? AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > datetime('now'))`,
+      [hashToken(token)]
+    ) as { id: number; user_id: number; scopes: string } | undefined;
+    if (!row || !scopeAllows(JSON.parse(row.scopes), method.toUpperCase(), pathname)) return null;
+
+    // Role and family are read fresh so a demoted or moved user's tokens follow them
+    const user = await db.get(
+      'SELECT id, email, name, family_id, role, created_at FROM users WHERE id = ?',
+      [row.user_id]
+    ) as User | undefined;
+    if (!user) return null;
+
+    await db.run("UPDATE api_tokens SET last_used_at = datetime('now') WHERE id = ?", [row.id]);
+    return user;
+  }
+}
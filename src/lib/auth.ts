@@ -1,7 +1,10 @@
 import bcrypt from 'bcryptjs';
 import { getIronSession } from 'iron-session';
 import { NextRequest, NextResponse } from 'next/server';
-import type { AuthSession } from '@/types';
+import { ApiTokenService } from './api-token-service';
+import { SessionService, type ClientInfo } from './session-service';
+import { AccountLockoutService } from './account-lockout-service';
+import type { AuthSession, User } from '@/types';
 
 export async function hashPassword(password: string): Promise<string> {
   const saltRounds = 12;
@@ -29,10 +32,27 @@ export const sessionOptions = {
 };
 
 
+/**
+ * Scripts authenticate with `Authorization: Bearer <personal access token>` instead of
+ * the cookie. The token resolves to the same session.user, or to an empty session when
+ * it is invalid or outside its scopes, so routes answer 401 as for a missing cookie.
+ * Token sessions are per request: there is nothing to save or destroy.
+ */
+async function getTokenSession(req: NextRequest, token: string): Promise<AuthSession> {
+  const user = await ApiTokenService.authenticate(token, req.method, req.nextUrl.pathname);
+  return user ? { user } : {};
+}
+
 export async function getSession(req: NextRequest, res?: NextResponse): Promise<AuthSession> {
+  const authorization = req.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return await getTokenSession(req, authorization.substring(7).trim());
+  }
+
   const response = res || new NextResponse();
+  let session: AuthSession;
   try {
-    return await getIronSession<AuthSession>(req, response, sessionOptions);
+    session = await getIronSession<AuthSession>(req, response, sessionOptions);
   } catch (error) {
     console.log('Session decryption error, clearing cookie:', error);
     // Clear the corrupted cookie
@@ -41,10 +61,114 @@ export async function getSession(req: NextRequest, res?: NextResponse): Promise<
       maxAge: 0 
     });
     // Return a new empty session
-    return await getIronSession<AuthSession>(req, response, sessionOptions);
+    session = await getIronSession<AuthSession>(req, response, sessionOptions);
+  }
+
+  // A revoked or unknown session (including cookies from before the registry) is
+  // signed out, whatever the cookie still says. Role and family come from the database,
+  // so a member made a guest is read-only from their next request on.
+  if (session.user) {
+    const current = session.sessionId ? await SessionService.getActiveUser(session.sessionId, session.user.id) : null;
+    if (current) {
+      session.user = { ...session.user, role: current.role, family_id: current.family_id };
+    } else {
+      delete session.user;
+      delete session.sessionId;
+    }
   }
+  return session;
+}
+
+/**
+ * Reverse proxies in front of the app (TRUST_PROXY, e.g. 1 behind the bundled nginx or
+ * the Cloudflare tunnel); 0 when the app is reached directly
+ */
+function trustedProxyHops(): number {
+  const value = process.env.TRUST_PROXY;
+  if (value === 'true') return 1;
+  const hops = parseInt(value || '', 10);
+  return hops > 0 ? hops : 0;
+}
+
+/**
+ * Client address and agent for the session registry, login audit and rate limits.
+ * Each trusted proxy appends the address it was reached from to X-Forwarded-For, so the
+ * client is that many entries from the end; entries further left, and the header itself
+ * without TRUST_PROXY, come from the client and can be forged. Next.js gives route
+ * handlers no connection address of their own (it only fills X-Forwarded-For when the
+ * client sent none), so without TRUST_PROXY no address is kept and only the per-email
+ * limits apply.
+ */
+export function getClientInfo(req: NextRequest): ClientInfo {
+  const hops = trustedProxyHops();
+  const forwarded = hops > 0
+    ? (req.headers.get('x-forwarded-for') || '').split(',').map(address => address.trim()).filter(Boolean)
+    : [];
+  return {
+    ip: forwarded.length >= hops && hops > 0 ? forwarded[forwarded.length - hops] : null,
+    userAgent: req.headers.get('user-agent'),
+  };
+}
+
+/**
+ * Signs the user in on this session: registers it server-side, replacing whatever this
+ * cookie was signed in as before, records the login and resets failed attempts
+ */
+export async function establishSession(session: AuthSession, user: User, req: NextRequest): Promise<void> {
+  const client = getClientInfo(req);
+  if (session.sessionId) await SessionService.revokeByKey(session.sessionId);
+  delete session.pendingTwoFactor;
+  session.sessionId = await SessionService.createSession(user.id, client);
+  session.user = toSessionUser(user);
+  await SessionService.recordLogin(user.email, user.id, client);
+  await AccountLockoutService.clear(user.id);
+}
+
+// How long a login can wait for its second factor, and how many wrong codes it gets
+const TWO_FACTOR_LOGIN_WINDOW_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+/**
+ * The fields kept in the session cookie, without hashes or other database columns
+ */
+export function toSessionUser(user: User): User {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    family_id: user.family_id,
+    role: user.role,
+    created_at: user.created_at,
+  };
+}
+
+/**
+ * Park a login whose password was right until the second factor is given (or, with
+ * setup, until the user enrolls). The session has no user meanwhile.
+ */
+export function startTwoFactorLogin(session: AuthSession, userId: number, setup: boolean): void {
+  delete session.user;
+  session.pendingTwoFactor = { userId, setup, expiresAt: Date.now() + TWO_FACTOR_LOGIN_WINDOW_MS, attempts: 0 };
+}
+
+/**
+ * User id of a pending two-factor login of the given kind, or null if there is none
+ * or it expired
+ */
+export function getPendingTwoFactorUserId(session: AuthSession, setup: boolean): number | null {
+  const pending = session.pendingTwoFactor;
+  if (!pending || pending.setup !== setup || pending.expiresAt < Date.now()) return null;
+  return pending.userId;
 }
 
-export function generateFamilyId(): number {
-  return Math.floor(Math.random() * 1000000) + 1;
+/**
+ * Count a wrong code against the pending login. Returns false once it ran out of
+ * attempts, dropping it so the password has to be entered again.
+ */
+export function recordTwoFactorFailure(session: AuthSession): boolean {
+  if (!session.pendingTwoFactor) return false;
+  session.pendingTwoFactor.attempts += 1;
+  if (session.pendingTwoFactor.attempts < MAX_TWO_FACTOR_ATTEMPTS) return true;
+  delete session.pendingTwoFactor;
+  return false;
 }
\ No newline at end of file
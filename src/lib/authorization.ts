@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasPermission } from './permissions';
+import { getRoutePermission } from './route-permissions';
+import type { User } from '@/types';
+
+/**
+ * Checks the request against ROUTE_PERMISSIONS for the session's user. Returns the
+ * response to send when it is not allowed (401 without a user, 403 when the role lacks
+ * the permission or the route does not declare the method), or null to go on.
+ */
+export function authorizeRequest(user: User | null | undefined, request: NextRequest): NextResponse | null {
+  const permission = getRoutePermission(request.method, request.nextUrl.pathname);
+  if (permission === 'public') return null;
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+  if (permission === 'authenticated') return null;
+  if (!permission || !hasPermission(user, permission)) {
+    return NextResponse.json({ error: 'Your role does not allow this' }, { status: 403 });
+  }
+  return null;
+}
@@ -1,5 +1,7 @@
 import cron from 'node-cron'
 import { BackupService } from './backup-service'
+import { NotificationCenterService } from './notification-center-service'
+import { WebhookService } from './webhook-service'
 import { promises as fs } from 'fs'
 import path from 'path'
 import { systemLogger } from './system-logger'
@@ -74,8 +76,19 @@ export class BackupScheduler {
       try {
         console.log(`Running scheduled backup at ${new Date().toISOString()}`)
         
-        await BackupService.createBackup()
+        // Scheduled backups are always compressed, and encrypted when BACKUP_PASSPHRASE is set
+        const backup = await BackupService.createBackup({
+          compress: true,
+          passphrase: process.env.BACKUP_PASSPHRASE || undefined
+        })
         await BackupService.cleanupOldBackups(config.maxBackups)
+        await WebhookService.emitToAllFamilies('backup.completed', {
+          name: backup.name,
+          size: backup.size,
+          created_at: backup.created_at,
+          scheduled: true,
+        })
+        await NotificationCenterService.notifyAdministrators('backup_completed', { name: backup.name, size: backup.size }, { link: '/backups' })
         
         const updatedConfig = { 
           ...config, 
@@ -1,6 +1,10 @@
 import { promises as fs } from 'fs'
 import path from 'path'
-import { getDatabase } from './database'
+import crypto from 'crypto'
+import zlib from 'zlib'
+import { promisify } from 'util'
+import sqlite3 from 'sqlite3'
+import { getDatabase, closeDatabase } from './database'
 
 export interface BackupInfo {
   id: string
@@ -9,10 +13,102 @@ export interface BackupInfo {
   created_at: string
   location: 'local' | 'dropbox' | 'google-drive'
   filePath: string
+  // Backups from before verification have none of these
+  checksum?: string // SHA-256 of the file as stored
+  compressed?: boolean
+  encrypted?: boolean
+  manifest?: BackupManifest
 }
 
+/**
+ * Row count of every table in the backed-up database, checked again before a restore
+ */
+export type BackupManifest = Record<string, number>
+
+export interface BackupOptions {
+  compress?: boolean
+  passphrase?: string
+}
+
+/**
+ * A backup that can't be used: damaged, changed since it was taken, or the wrong passphrase
+ */
+export class BackupVerificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BackupVerificationError'
+  }
+}
+
+// Encrypted backups are MAGIC, then the scrypt salt, the AES-256-GCM iv and auth tag,
+// then the ciphertext of the (possibly gzipped) database
+const ENCRYPTED_MAGIC = Buffer.from('FWTBACKUP1')
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b])
+const SQLITE_MAGIC = Buffer.from('SQLite format 3\0')
+
+const gzip = promisify(zlib.gzip)
+const gunzip = promisify(zlib.gunzip)
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+function sha256(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex')
+}
+
+async function encrypt(buffer: Buffer, passphrase: string): Promise<Buffer> {
+  const salt = crypto.randomBytes(SALT_LENGTH)
+  const iv = crypto.randomBytes(IV_LENGTH)
+  const cipher = crypto.createCipheriv('aes-256-gcm', await scrypt(passphrase, salt, 32), iv)
+  const ciphertext = Buffer.concat([cipher.update(buffer), cipher.final()])
+  return Buffer.concat([ENCRYPTED_MAGIC, salt, iv, cipher.getAuthTag(), ciphertext])
+}
+
+async function decrypt(buffer: Buffer, passphrase: string): Promise<Buffer> {
+  let offset = ENCRYPTED_MAGIC.length
+  const salt = buffer.subarray(offset, offset += SALT_LENGTH)
+  const iv = buffer.subarray(offset, offset += IV_LENGTH)
+  const tag = buffer.subarray(offset, offset += TAG_LENGTH)
+  const decipher = crypto.createDecipheriv('aes-256-gcm', await scrypt(passphrase, salt, 32), iv)
+  decipher.setAuthTag(tag)
+  try {
+    return Buffer.concat([decipher.update(buffer.subarray(offset)), decipher.final()])
+  } catch {
+    throw new BackupVerificationError('Wrong passphrase for this backup')
+  }
+}
+
+function startsWith(buffer: Buffer, magic: Buffer): boolean {
+  return buffer.length >= magic.length && buffer.subarray(0, magic.length).equals(magic)
+}
+
+function openReadOnly(filePath: string): Promise<sqlite3.Database> {
+  return new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(filePath, sqlite3.OPEN_READONLY, (err) => err ? reject(err) : resolve(db))
+  })
+}
+
+function query<T>(db: sqlite3.Database, sql: string): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    db.all(sql, (err, rows) => err ? reject(err) : resolve(rows as T[]))
+  })
+}
+
+function manifestsMatch(a: BackupManifest, b: BackupManifest): boolean {
+  const tables = Object.keys(a)
+  return tables.length === Object.keys(b).length && tables.every(table => a[table] === b[table])
+}
+
+/**
+ * Backups are taken with VACUUM INTO, which writes a consistent snapshot while the app
+ * keeps working, then checked with PRAGMA integrity_check and a row count per table before
+ * they are kept. They can be gzipped and encrypted with a passphrase; the checksum of the
+ * stored file goes into the metadata and is checked again, with the manifest, on restore.
+ */
 export class BackupService {
   private static backupDir = path.join(process.cwd(), 'data', 'backups')
+  private static dbPath = path.join(process.cwd(), 'data', 'wealth_tracker.db')
 
   static async initializeBackupDirectory(): Promise<void> {
     try {
@@ -22,62 +118,69 @@ export class BackupService {
     }
   }
 
-  static async createBackup(): Promise<BackupInfo> {
+  static async createBackup(options: BackupOptions = {}): Promise<BackupInfo> {
     await this.initializeBackupDirectory()
     
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
     const backupId = `backup-${timestamp}`
-    const backupName = `wealth-tracker-${timestamp}.db`
+    const snapshotPath = path.join(this.backupDir, `wealth-tracker-${timestamp}.db`)
+    const backupName = `wealth-tracker-${timestamp}.db${options.compress ? '.gz' : ''}${options.passphrase ? '.enc' : ''}`
     const backupPath = path.join(this.backupDir, backupName)
     
-    const originalDbPath = path.join(process.cwd(), 'data', 'wealth_tracker.db')
-    
     try {
-      await fs.copyFile(originalDbPath, backupPath)
-      
-      const stats = await fs.stat(backupPath)
+      const db = await getDatabase()
+      await db.run('VACUUM INTO ?', [snapshotPath])
+      const manifest = await this.verifyDatabase(snapshotPath)
+
+      const stored = await this.pack(await fs.readFile(snapshotPath), options)
+      await fs.writeFile(backupPath, stored)
+      if (backupPath !== snapshotPath) await fs.unlink(snapshotPath)
       
       const backupInfo: BackupInfo = {
         id: backupId,
         name: backupName,
-        size: stats.size,
+        size: stored.length,
         created_at: new Date().toISOString(),
         location: 'local',
-        filePath: backupPath
+        filePath: backupPath,
+        checksum: sha256(stored),
+        compressed: !!options.compress,
+        encrypted: !!options.passphrase,
+        manifest,
       }
 
       await this.saveBackupMetadata(backupInfo)
       return backupInfo
     } catch (error) {
-      throw new Error(`Failed to create backup: ${error}`)
+      await Promise.all([snapshotPath, backupPath].map(file => fs.unlink(file).catch(() => {})))
+      throw new Error(`Failed to create backup: ${error instanceof Error ? error.message : error}`)
     }
   }
 
-  static async saveUploadedBackup(buffer: Buffer, backupId: string, fileName: string): Promise<BackupInfo> {
+  /**
+   * Keeps an uploaded backup (plain, gzipped or encrypted) once it has been checked. An
+   * encrypted one needs its passphrase to be checked.
+   */
+  static async saveUploadedBackup(buffer: Buffer, backupId: string, fileName: string, passphrase?: string): Promise<BackupInfo> {
     await this.initializeBackupDirectory()
     
     const backupPath = path.join(this.backupDir, fileName)
     
     try {
-      // Save the uploaded file
+      const { manifest, compressed, encrypted } = await this.verifyPacked(buffer, passphrase)
       await fs.writeFile(backupPath, buffer)
       
-      // Validate the uploaded backup
-      const isValid = await this.validateBackup(backupPath)
-      if (!isValid) {
-        await fs.unlink(backupPath) // Clean up invalid file
-        throw new Error('Invalid backup file. The uploaded file does not appear to be a valid database.')
-      }
-      
-      const stats = await fs.stat(backupPath)
-      
       const backupInfo: BackupInfo = {
         id: backupId,
         name: fileName,
-        size: stats.size,
+        size: buffer.length,
         created_at: new Date().toISOString(),
         location: 'local',
-        filePath: backupPath
+        filePath: backupPath,
+        checksum: sha256(buffer),
+        compressed,
+        encrypted,
+        manifest,
       }
 
       await this.saveBackupMetadata(backupInfo)
@@ -87,8 +190,9 @@ export class BackupService {
       try {
         await fs.unlink(backupPath)
       } catch {}
-      
-      throw new Error(`Failed to save uploaded backup: ${error}`)
+
+      if (error instanceof BackupVerificationError) throw error
+      throw new Error(`Failed to save uploaded backup: ${error instanceof Error ? error.message : error}`)
     }
   }
 
@@ -130,33 +234,131 @@ export class BackupService {
     }
   }
 
-  static async restoreBackup(backupId: string): Promise<void> {
+  /**
+   * Replaces the database with a backup. The stored file must match its checksum and,
+   * once decrypted and unpacked, pass the integrity check and match its manifest; only
+   * then is the current database closed and swapped. It is kept next to it as
+   * wealth_tracker.db.before-restore.
+   */
+  static async restoreBackup(backupId: string, passphrase?: string): Promise<void> {
     const backup = await this.getBackupById(backupId)
     if (!backup) {
       throw new Error('Backup not found')
     }
 
-    const originalDbPath = path.join(process.cwd(), 'data', 'wealth_tracker.db')
-    
+    const stored = await this.readStored(backup)
+
+    const restorePath = path.join(this.backupDir, `restore-${Date.now()}.db`)
     try {
-      await fs.copyFile(backup.filePath, originalDbPath)
+      await fs.writeFile(restorePath, (await this.unpack(stored, passphrase)).database)
+      const manifest = await this.verifyDatabase(restorePath)
+      this.checkManifest(backup, manifest)
+
+      await closeDatabase()
+      await fs.copyFile(this.dbPath, `${this.dbPath}.before-restore`).catch(() => {})
+      await fs.rename(restorePath, this.dbPath)
     } catch (error) {
-      throw new Error(`Failed to restore backup: ${error}`)
+      await fs.unlink(restorePath).catch(() => {})
+      // Reopen whatever is in place; a failure there is logged so it doesn't hide this one
+      await getDatabase().catch(reopenError => console.error('Failed to reopen the database after a failed restore:', reopenError))
+      if (error instanceof BackupVerificationError) throw error
+      throw new Error(`Failed to restore backup: ${error instanceof Error ? error.message : error}`)
     }
+
+    // Opens the restored database, bringing an older one up to date with the migrations
+    await getDatabase()
   }
 
-  static async validateBackup(backupPath: string): Promise<boolean> {
+  /**
+   * Runs PRAGMA integrity_check on a database file and returns its row counts
+   */
+  static async verifyDatabase(filePath: string): Promise<BackupManifest> {
+    let db: sqlite3.Database
     try {
-      const tempDb = new (await import('sqlite3')).Database(backupPath)
-      
-      return new Promise((resolve) => {
-        tempDb.get('SELECT name FROM sqlite_master WHERE type="table"', (err, row) => {
-          tempDb.close()
-          resolve(!err && !!row)
-        })
-      })
+      db = await openReadOnly(filePath)
     } catch {
-      return false
+      throw new BackupVerificationError('The backup is not a valid database')
+    }
+
+    try {
+      const integrity = await query<{ integrity_check: string }>(db, 'PRAGMA integrity_check')
+      if (integrity.length !== 1 || integrity[0].integrity_check !== 'ok') {
+        throw new BackupVerificationError('The backup failed the database integrity check')
+      }
+
+      const tables = await query<{ name: string }>(
+        db,
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+      )
+      if (tables.length === 0) {
+        throw new BackupVerificationError('The backup is not a valid database')
+      }
+
+      const manifest: BackupManifest = {}
+      for (const { name } of tables) {
+        const [row] = await query<{ count: number }>(db, `SELECT COUNT(*) as count FROM "${name.replace(/"/g, '""')}"`)
+        manifest[name] = row.count
+      }
+      return manifest
+    } catch (error) {
+      if (error instanceof BackupVerificationError) throw error
+      throw new BackupVerificationError('The backup is not a valid database')
+    } finally {
+      await new Promise(resolve => db.close(resolve))
+    }
+  }
+
+  private static async readStored(backup: BackupInfo): Promise<Buffer> {
+    const stored = await fs.readFile(backup.filePath)
+    if (backup.checksum && sha256(stored) !== backup.checksum) {
+      throw new BackupVerificationError('The backup file does not match its checksum; it is damaged or was changed')
+    }
+    return stored
+  }
+
+  private static checkManifest(backup: BackupInfo, manifest: BackupManifest): void {
+    if (backup.manifest && !manifestsMatch(backup.manifest, manifest)) {
+      throw new BackupVerificationError('The backup does not hold the rows recorded when it was taken')
+    }
+  }
+
+  private static async pack(database: Buffer, options: BackupOptions): Promise<Buffer> {
+    const packed = options.compress ? await gzip(database) : database
+    return options.passphrase ? await encrypt(packed, options.passphrase) : packed
+  }
+
+  // Works out from the content whether a backup is encrypted and compressed, so uploads
+  // need no metadata
+  private static async unpack(stored: Buffer, passphrase?: string): Promise<{ database: Buffer; compressed: boolean; encrypted: boolean }> {
+    let database = stored
+    const encrypted = startsWith(database, ENCRYPTED_MAGIC)
+    if (encrypted) {
+      if (!passphrase) throw new BackupVerificationError('This backup is encrypted; enter its passphrase')
+      database = await decrypt(database, passphrase)
+    }
+    const compressed = startsWith(database, GZIP_MAGIC)
+    if (compressed) {
+      try {
+        database = await gunzip(database)
+      } catch {
+        throw new BackupVerificationError('The backup could not be decompressed')
+      }
+    }
+    if (!startsWith(database, SQLITE_MAGIC)) {
+      throw new BackupVerificationError('The backup is not a valid database')
+    }
+    return { database, compressed, encrypted }
+  }
+
+  private static async verifyPacked(stored: Buffer, passphrase?: string): Promise<{ manifest: BackupManifest; compressed: boolean; encrypted: boolean }> {
+    await this.initializeBackupDirectory()
+    const checkPath = path.join(this.backupDir, `verify-${crypto.randomBytes(6).toString('hex')}.db`)
+    try {
+      const { database, compressed, encrypted } = await this.unpack(stored, passphrase)
+      await fs.writeFile(checkPath, database)
+      return { manifest: await this.verifyDatabase(checkPath), compressed, encrypted }
+    } finally {
+      await fs.unlink(checkPath).catch(() => {})
     }
   }
 
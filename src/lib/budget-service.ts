@@ -0,0 +1,257 @@
+import { getDatabase } from './database';
+import { AccountAccessService, type AccountViewer } from './account-access-service';
+import type { Budget, BudgetProgress, BudgetScope, BudgetStatus } from '@/types';
+
+type BudgetInput = {
+  category_id: number;
+  amount: number;
+  rollover?: boolean;
+  scope?: BudgetScope;
+  user_id?: number | null;
+  account_ids?: number[] | null;
+  start_month?: string;
+};
+
+type BudgetRow = Omit<Budget, 'rollover' | 'account_ids'> & { rollover: number; account_ids: string | null };
+
+// Rollover is accumulated over at most this many previous months
+const MAX_ROLLOVER_MONTHS = 12;
+
+function rowToBudget(row: BudgetRow): Budget {
+  return {
+    ...row,
+    rollover: !!row.rollover,
+    account_ids: row.account_ids ? JSON.parse(row.account_ids) : null,
+  };
+}
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, m] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, m - 1 + delta, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+function daysInMonth(month: string): number {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m, 0)).getUTCDate();
+}
+
+const BUDGET_SELECT = `
+  SELECT b.*, tc.name as category_name, tc.color as category_color, tc.icon as category_icon,
+    u.name as user_name
+  FROM budgets b
+  JOIN transaction_categories tc ON b.category_id = tc.id
+  LEFT JOIN users u ON b.user_id = u.id`;
+
+export class BudgetService {
+  static async getBudgetsByFamily(familyId: number): Promise<Budget[]> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      `${BUDGET_SELECT} WHERE b.family_id = ? ORDER BY b.scope, u.name, tc.name`,
+      [familyId]
+    ) as BudgetRow[];
+    return rows.map(rowToBudget);
+  }
+
+  static async getBudgetById(id: number, familyId: number): Promise<Budget | null> {
+    const db = await getDatabase();
+    const row = await db.get(
+      `${BUDGET_SELECT} WHERE b.id = ? AND b.family_id = ?`,
+      [id, familyId]
+    ) as BudgetRow | undefined;
+    return row ? rowToBudget(row) : null;
+  }
+
+  static async createBudget(familyId: number, data: BudgetInput): Promise<number> {
+    const db = await getDatabase();
+    const scope = data.scope || 'family';
+    const result = await db.run(
+      `INSERT INTO budgets (family_id, category_id, amount, rollover, scope, user_id, account_ids, start_month)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        familyId,
+        data.category_id,
+        data.amount,
+        data.rollover ? 1 : 0,
+        scope,
+        scope === 'member' ? data.user_id : null,
+        scope === 'member' && data.account_ids ? JSON.stringify(data.account_ids) : null,
+        data.start_month || new Date().toISOString().slice(0, 7),
+      ]
+    );
+    return result.lastID;
+  }
+
+  static async updateBudget(id: number, familyId: number, data: Partial<BudgetInput>): Promise<void> {
+    const db = await getDatabase();
+    const sets: string[] = [];
+    const params: unknown[] = [];
+
+    if (data.category_id !== undefined) { sets.push('category_id = ?'); params.push(data.category_id); }
+    if (data.amount !== undefined) { sets.push('amount = ?'); params.push(data.amount); }
+    if (data.rollover !== undefined) { sets.push('rollover = ?'); params.push(data.rollover ? 1 : 0); }
+    if (data.start_month !== undefined) { sets.push('start_month = ?'); params.push(data.start_month); }
+    if (data.scope !== undefined) {
+      sets.push('scope = ?', 'user_id = ?', 'account_ids = ?');
+      params.push(
+        data.scope,
+        data.scope === 'member' ? data.user_id : null,
+        data.scope === 'member' && data.account_ids ? JSON.stringify(data.account_ids) : null
+      );
+    }
+
+    if (sets.length === 0) return;
+
+    sets.push("updated_at = datetime('now')");
+    params.push(id, familyId);
+    await db.run(
+      `UPDATE budgets SET ${sets.join(', ')} WHERE id = ? AND family_id = ?`,
+      params
+    );
+  }
+
+  static async deleteBudget(id: number, familyId: number): Promise<void> {
+    const db = await getDatabase();
+    await db.run('DELETE FROM budgets WHERE id = ? AND family_id = ?', [id, familyId]);
+  }
+
+  /**
+   * Validate a budget payload against the family's categories, members and
+   * accounts (with a viewer, only the accounts they can see), returning an error
+   * message or null
+   */
+  static async validate(familyId: number, data: Partial<BudgetInput>, viewer?: AccountViewer): Promise<string | null> {
+    const db = await getDatabase();
+
+    if (typeof data.amount !== 'number' || !isFinite(data.amount) || data.amount <= 0) {
+      return 'amount must be a positive number';
+    }
+    if (data.start_month !== undefined && !/^\d{4}-(0[1-9]|1[0-2])$/.test(data.start_month)) {
+      return 'start_month must be YYYY-MM';
+    }
+
+    const category = await db.get(
+      'SELECT type FROM transaction_categories WHERE id = ? AND family_id = ?',
+      [data.category_id, familyId]
+    ) as { type: string } | undefined;
+    if (!category) return 'Category not found';
+    if (category.type !== 'expense' && category.type !== 'both') {
+      return 'Budgets can only be set on expense categories';
+    }
+
+    const scope = data.scope || 'family';
+    if (scope !== 'family' && scope !== 'member') return 'Invalid scope';
+    if (scope === 'member') {
+      const member = await db.get(
+        'SELECT id FROM users WHERE id = ? AND family_id = ?',
+        [data.user_id, familyId]
+      );
+      if (!member) return 'Member not found';
+
+      const accountIds = data.account_ids || [];
+      if (accountIds.length === 0) return 'Select the accounts that count towards this member budget';
+      const visible = AccountAccessService.accountFilter('id', viewer);
+      const owned = await db.get(
+        `SELECT COUNT(*) as count FROM accounts
+         WHERE family_id = ? AND id IN (${accountIds.map(() => '?').join(',')}) AND ${visible.sql}`,
+        [familyId, ...accountIds, ...visible.params]
+      ) as { count: number };
+      if (owned.count !== new Set(accountIds).size) return 'Account not found';
+    }
+
+    return null;
+  }
+
+  /**
+   * Spent vs. budget for every family budget in a month, with rollover and
+   * a month-end projection at the current daily spending pace. With a viewer,
+   * only spending in accounts they can see counts.
+   */
+  static async getBudgetProgress(familyId: number, month: string, viewer?: AccountViewer): Promise<BudgetProgress[]> {
+    const budgets = await this.getBudgetsByFamily(familyId);
+    const progress: BudgetProgress[] = [];
+    for (const budget of budgets) {
+      progress.push(await this.computeProgress(familyId, budget, month, viewer));
+    }
+    return progress;
+  }
+
+  /**
+   * Budgets of the current month that are already over, or projected to end over, their limit
+   */
+  static async getAtRiskBudgets(
+    familyId: number,
+    month: string = new Date().toISOString().slice(0, 7),
+    viewer?: AccountViewer
+  ): Promise<BudgetProgress[]> {
+    const progress = await this.getBudgetProgress(familyId, month, viewer);
+    return progress.filter(p => p.status !== 'on_track');
+  }
+
+  private static async computeProgress(familyId: number, budget: Budget, month: string, viewer?: AccountViewer): Promise<BudgetProgress> {
+    const db = await getDatabase();
+
+    // Months whose unspent amount may roll into this one
+    let firstMonth = month;
+    if (budget.rollover) {
+      firstMonth = shiftMonth(month, -MAX_ROLLOVER_MONTHS);
+      if (budget.start_month > firstMonth) firstMonth = budget.start_month;
+      if (firstMonth > month) firstMonth = month;
+    }
+
+    // Net spending (refunds in the category reduce it); transfers never count.
+    // Split transactions contribute their allocations in this category.
+    const accountFilter = budget.scope === 'member' && budget.account_ids?.length
+      ? `AND account_id IN (${budget.account_ids.map(() => '?').join(',')})`
+      : '';
+    const visible = AccountAccessService.accountFilter('account_id', viewer);
+    const rows = await db.all(
+      `SELECT strftime('%Y-%m', date) as month, -SUM(amount) as spent
+       FROM transaction_allocations
+       WHERE family_id = ? AND category_id = ? AND is_transfer = 0
+         AND date >= ? AND date < ? ${accountFilter} AND ${visible.sql}
+       GROUP BY strftime('%Y-%m', date)`,
+      [
+        familyId,
+        budget.category_id,
+        `${firstMonth}-01`,
+        `${shiftMonth(month, 1)}-01`,
+        ...(accountFilter ? budget.account_ids! : []),
+        ...visible.params,
+      ]
+    ) as Array<{ month: string; spent: number }>;
+    const spentByMonth = new Map(rows.map(r => [r.month, Math.max(0, r.spent || 0)]));
+
+    let rolloverAmount = 0;
+    for (let m = firstMonth; m < month; m = shiftMonth(m, 1)) {
+      rolloverAmount = Math.max(0, budget.amount + rolloverAmount - (spentByMonth.get(m) || 0));
+    }
+
+    const spent = Math.round((spentByMonth.get(month) || 0) * 100) / 100;
+    const available = Math.round((budget.amount + rolloverAmount) * 100) / 100;
+
+    // Only the running month is projected; past months are final
+    const today = new Date();
+    const currentMonth = today.toISOString().slice(0, 7);
+    const projected = month === currentMonth
+      ? Math.round((spent / today.getDate()) * daysInMonth(month) * 100) / 100
+      : spent;
+
+    let status: BudgetStatus = 'on_track';
+    if (spent > available) status = 'over';
+    else if (projected > available) status = 'at_risk';
+
+    return {
+      budget,
+      month,
+      limit: budget.amount,
+      rolloverAmount: Math.round(rolloverAmount * 100) / 100,
+      available,
+      spent,
+      remaining: Math.round((available - spent) * 100) / 100,
+      projected,
+      percentUsed: available > 0 ? Math.round((spent / available) * 1000) / 10 : 0,
+      status,
+    };
+  }
+}
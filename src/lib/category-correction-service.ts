@@ -0,0 +1,281 @@
+import { getDatabase } from './database';
+import { CategoryRuleService } from './category-rule-service';
+import { AccountAccessService, type AccountViewer } from './account-access-service';
+import { normalizeCounterparty } from './recurring-service';
+import type { CategoryRuleSuggestion } from '@/types';
+
+// Corrections of one counterparty needed before a rule is suggested
+const MIN_CORRECTIONS = 2;
+// Share of a counterparty's corrections that must agree on the category
+const MIN_AGREEMENT = 0.8;
+// Corrections sent to the AI as few-shot examples
+const FEW_SHOT_EXAMPLES = 20;
+
+export interface CorrectionExample {
+  description: string;
+  detail: string | null;
+  amount: number;
+  categoryId: number;
+}
+
+/**
+ * SQL condition on a category_corrections alias that keeps the corrections of
+ * transactions in accounts the viewer can see; everything without a viewer
+ */
+function visibleCorrections(alias: string, viewer?: AccountViewer): { sql: string; params: unknown[] } {
+  if (!viewer) return { sql: '1 = 1', params: [] };
+  const visible = AccountAccessService.accountFilter('t.account_id', viewer);
+  return {
+    sql: `${alias}.transaction_id IN (SELECT t.id FROM transactions t WHERE ${visible.sql})`,
+    params: visible.params,
+  };
+}
+
+/**
+ * A transaction as it was before a manual category change
+ */
+export interface CorrectionCandidate {
+  id: number;
+  description: string;
+  detail: string | null;
+  amount: number;
+  category_id: number | null;
+  ai_confidence: number | null;
+}
+
+interface CorrectionGroup {
+  counterparty_key: string;
+  category_id: number;
+  category_name: string;
+  category_color: string | null;
+  corrections: number;
+  key_total: number;
+}
+
+/**
+ * Lowercased and without accents, like normalizeCounterparty, but one character out
+ * per character in so positions still point into the original text
+ */
+function foldForMatching(text: string): string {
+  return text.split('').map(ch => ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().charAt(0) || ch).join('');
+}
+
+/**
+ * Longest run of counterparty words contained in every description, in the
+ * bank's own casing ("COMPRA MERCADONA 1234" + "COMPRA MERCADONA 98" → "COMPRA MERCADONA").
+ * Falls back to the first description when no run is shared.
+ */
+export function suggestPattern(descriptions: string[]): string {
+  descriptions = descriptions.map(d => d.normalize('NFC'));
+  const words = normalizeCounterparty(descriptions[0]).split(' ').filter(Boolean);
+  const lowered = descriptions.map(foldForMatching);
+
+  let best = '';
+  for (let start = 0; start < words.length; start++) {
+    for (let end = start + 1; end <= words.length; end++) {
+      const candidate = words.slice(start, end).join(' ');
+      if (candidate.length > best.length && lowered.every(d => d.includes(candidate))) {
+        best = candidate;
+      }
+    }
+  }
+
+  if (!best) return descriptions[0].trim();
+  const index = lowered[0].indexOf(best);
+  return descriptions[0].slice(index, index + best.length);
+}
+
+export class CategoryCorrectionService {
+  /**
+   * Load the transactions a category change would correct. Must run before the
+   * update so the previous category is known; transactions already in the target
+   * category are left out.
+   */
+  static async getCandidates(
+    familyId: number,
+    transactionIds: number[],
+    categoryId: number | null
+  ): Promise<CorrectionCandidate[]> {
+    if (categoryId == null || transactionIds.length === 0) return [];
+    const db = await getDatabase();
+
+    const transactions = await db.all(
+      `SELECT id, description, detail, amount, category_id, ai_confidence
+       FROM transactions
+       WHERE id IN (${transactionIds.map(() => '?').join(',')}) AND family_id = ? AND is_split = 0`,
+      [...transactionIds, familyId]
+    ) as CorrectionCandidate[];
+    return transactions.filter(tx => tx.category_id !== categoryId);
+  }
+
+  /**
+   * Record the manual category change of candidates from getCandidates, once the
+   * update went through. Returns the counterparty keys recorded.
+   */
+  static async recordCorrections(
+    familyId: number,
+    userId: number,
+    candidates: CorrectionCandidate[],
+    categoryId: number | null
+  ): Promise<string[]> {
+    if (categoryId == null || candidates.length === 0) return [];
+    const db = await getDatabase();
+
+    const keys = new Set<string>();
+    for (const tx of candidates) {
+      const key = normalizeCounterparty(tx.description);
+
+      // Only the latest correction of a transaction counts
+      await db.run('DELETE FROM category_corrections WHERE transaction_id = ?', [tx.id]);
+      await db.run(
+        `INSERT INTO category_corrections (
+          family_id, user_id, transaction_id, description, detail, amount,
+          counterparty_key, previous_category_id, previous_ai_confidence, category_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [familyId, userId, tx.id, tx.description, tx.detail, tx.amount, key, tx.category_id, tx.ai_confidence, categoryId]
+      );
+      if (key) keys.add(key);
+    }
+
+    return [...keys];
+  }
+
+  /**
+   * Rules worth proposing: counterparties corrected at least MIN_CORRECTIONS times,
+   * mostly to the same category, that no active rule already categorizes that way.
+   * With a viewer, only corrections in accounts they can see count.
+   */
+  static async getSuggestions(familyId: number, viewer?: AccountViewer): Promise<CategoryRuleSuggestion[]> {
+    const db = await getDatabase();
+    const visibleTotal = visibleCorrections('k', viewer);
+    const visible = visibleCorrections('cc', viewer);
+    const groups = await db.all(
+      `SELECT cc.counterparty_key, cc.category_id, tc.name as category_name, tc.color as category_color,
+        COUNT(*) as corrections,
+        (SELECT COUNT(*) FROM category_corrections k
+         WHERE k.family_id = cc.family_id AND k.counterparty_key = cc.counterparty_key AND k.dismissed = 0
+           AND ${visibleTotal.sql}) as key_total
+       FROM category_corrections cc
+       JOIN transaction_categories tc ON cc.category_id = tc.id
+       WHERE cc.family_id = ? AND cc.dismissed = 0 AND cc.counterparty_key != '' AND ${visible.sql}
+       GROUP BY cc.counterparty_key, cc.category_id
+       HAVING COUNT(*) >= ?
+       ORDER BY corrections DESC`,
+      [...visibleTotal.params, familyId, ...visible.params, MIN_CORRECTIONS]
+    ) as CorrectionGroup[];
+
+    const rules = await CategoryRuleService.getRulesByFamily(familyId);
+    const suggestions: CategoryRuleSuggestion[] = [];
+
+    for (const group of groups) {
+      if (group.corrections / group.key_total < MIN_AGREEMENT) continue;
+
+      const rows = await db.all(
+        `SELECT cc.description, cc.detail, cc.amount FROM category_corrections cc
+         WHERE cc.family_id = ? AND cc.counterparty_key = ? AND cc.category_id = ? AND cc.dismissed = 0 AND ${visible.sql}
+         ORDER BY cc.id DESC`,
+        [familyId, group.counterparty_key, group.category_id, ...visible.params]
+      ) as Array<{ description: string; detail: string | null; amount: number }>;
+
+      // Already handled by an existing rule
+      const covered = rows.every(row => {
+        const rule = CategoryRuleService.evaluateRules(row, rules);
+        return rule?.category_id === group.category_id;
+      });
+      if (covered) continue;
+
+      suggestions.push({
+        counterparty_key: group.counterparty_key,
+        pattern: suggestPattern(rows.map(row => row.description)),
+        category_id: group.category_id,
+        category_name: group.category_name,
+        category_color: group.category_color ?? undefined,
+        corrections: group.corrections,
+        sample_description: rows[0].description,
+      });
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * The suggestion for one of the given counterparties and category, if any;
+   * used to offer a rule right after a correction
+   */
+  static async getSuggestionFor(
+    familyId: number,
+    counterpartyKeys: string[],
+    categoryId: number,
+    viewer?: AccountViewer
+  ): Promise<CategoryRuleSuggestion | null> {
+    if (counterpartyKeys.length === 0) return null;
+    const suggestions = await this.getSuggestions(familyId, viewer);
+    return suggestions.find(s => s.category_id === categoryId && counterpartyKeys.includes(s.counterparty_key)) || null;
+  }
+
+  /**
+   * Turn a suggestion into a "description contains" rule and apply it to
+   * uncategorized transactions (with a viewer, in the accounts they can edit).
+   * Returns null when the suggestion no longer exists.
+   */
+  static async acceptSuggestion(
+    familyId: number,
+    counterpartyKey: string,
+    categoryId: number,
+    viewer?: AccountViewer
+  ): Promise<{ ruleId: number; applied: number } | null> {
+    const suggestion = await this.getSuggestionFor(familyId, [counterpartyKey], categoryId, viewer);
+    if (!suggestion) return null;
+
+    const ruleId = await CategoryRuleService.createRule(familyId, {
+      name: suggestion.pattern,
+      category_id: categoryId,
+      field: 'description',
+      match_type: 'contains',
+      pattern: suggestion.pattern,
+    });
+    // Settled: don't propose it again even if the pattern misses an odd description
+    await this.dismissSuggestion(familyId, counterpartyKey, categoryId);
+    const { matched } = await CategoryRuleService.applyToTransactions(familyId, {}, viewer);
+    return { ruleId, applied: matched };
+  }
+
+  static async dismissSuggestion(familyId: number, counterpartyKey: string, categoryId: number): Promise<void> {
+    const db = await getDatabase();
+    await db.run(
+      'UPDATE category_corrections SET dismissed = 1 WHERE family_id = ? AND counterparty_key = ? AND category_id = ?',
+      [familyId, counterpartyKey, categoryId]
+    );
+  }
+
+  /**
+   * Most recent correction of each counterparty, newest first, as few-shot
+   * examples for AI categorization; with a viewer, from accounts they can see
+   */
+  static async getRecentExamples(
+    familyId: number,
+    viewer?: AccountViewer,
+    limit: number = FEW_SHOT_EXAMPLES
+  ): Promise<CorrectionExample[]> {
+    const db = await getDatabase();
+    const visible = visibleCorrections('cc', viewer);
+    const rows = await db.all(
+      `SELECT description, detail, amount, category_id FROM category_corrections
+       WHERE id IN (
+         SELECT MAX(cc.id) FROM category_corrections cc
+         WHERE cc.family_id = ? AND ${visible.sql}
+         GROUP BY cc.counterparty_key, cc.category_id
+       )
+       ORDER BY id DESC
+       LIMIT ?`,
+      [familyId, ...visible.params, limit]
+    ) as Array<{ description: string; detail: string | null; amount: number; category_id: number }>;
+
+    return rows.map(row => ({
+      description: row.description,
+      detail: row.detail,
+      amount: row.amount,
+      categoryId: row.category_id,
+    }));
+  }
+}
@@ -0,0 +1,336 @@
+import { getDatabase } from './database';
+import { AccountAccessService, type AccountViewer } from './account-access-service';
+import type { CategoryRule, CategoryRuleMatchType, CategoryRuleSign, ParsedTransaction, RuleField } from '@/types';
+
+export interface CategoryRuleInput {
+  name: string;
+  category_id: number;
+  priority?: number;
+  field?: RuleField;
+  match_type?: CategoryRuleMatchType | null;
+  pattern?: string | null;
+  amount_min?: number | null;
+  amount_max?: number | null;
+  sign?: CategoryRuleSign;
+  account_id?: number | null;
+  movement_type?: string | null;
+  is_active?: boolean;
+}
+
+/**
+ * The transaction fields rules can look at; covers both parsed (not yet
+ * imported) and stored transactions
+ */
+export interface RuleTarget {
+  description: string;
+  detail?: string | null;
+  observations?: string | null;
+  amount: number;
+  movementType?: string | null;
+  accountId?: number | null;
+}
+
+export interface ApplyRulesResult {
+  scanned: number;
+  matched: number;
+  matchedIds: number[];
+}
+
+type CategoryRuleRow = Omit<CategoryRule, 'is_active'> & { is_active: number };
+
+const RULE_SELECT = `
+  SELECT cr.*, tc.name as category_name, tc.color as category_color, a.name as account_name
+  FROM category_rules cr
+  JOIN transaction_categories tc ON cr.category_id = tc.id
+  LEFT JOIN accounts a ON cr.account_id = a.id`;
+
+const UPDATABLE_FIELDS = [
+  'name', 'category_id', 'priority', 'field', 'match_type', 'pattern',
+  'amount_min', 'amount_max', 'sign', 'account_id', 'movement_type',
+] as const;
+
+function rowToRule(row: CategoryRuleRow): CategoryRule {
+  return { ...row, is_active: !!row.is_active };
+}
+
+function getFieldValue(tx: RuleTarget, field: RuleField): string {
+  switch (field) {
+    case 'description': return tx.description || '';
+    case 'detail': return tx.detail || '';
+    case 'observations': return tx.observations || '';
+    default: return [tx.description, tx.detail, tx.observations].filter(Boolean).join(' ');
+  }
+}
+
+function matchesRule(rule: CategoryRule, tx: RuleTarget): boolean {
+  if (rule.match_type && rule.pattern) {
+    const value = getFieldValue(tx, rule.field);
+    if (!value) return false;
+    switch (rule.match_type) {
+      case 'contains':
+        if (!value.toLowerCase().includes(rule.pattern.toLowerCase())) return false;
+        break;
+      case 'equals':
+        if (value.trim().toUpperCase() !== rule.pattern.trim().toUpperCase()) return false;
+        break;
+      case 'regex':
+        try {
+          if (!new RegExp(rule.pattern, 'i').test(value)) return false;
+        } catch {
+          return false;
+        }
+        break;
+    }
+  }
+
+  const absAmount = Math.abs(tx.amount);
+  if (rule.amount_min != null && absAmount < rule.amount_min) return false;
+  if (rule.amount_max != null && absAmount > rule.amount_max) return false;
+  if (rule.sign === 'expense' && tx.amount >= 0) return false;
+  if (rule.sign === 'income' && tx.amount <= 0) return false;
+  if (rule.account_id != null && tx.accountId !== rule.account_id) return false;
+  if (rule.movement_type && (tx.movementType || '').trim().toUpperCase() !== rule.movement_type.trim().toUpperCase()) {
+    return false;
+  }
+  return true;
+}
+
+export class CategoryRuleService {
+  /**
+   * All rules of a family in evaluation order: highest priority first, then oldest
+   */
+  static async getRulesByFamily(familyId: number): Promise<CategoryRule[]> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      `${RULE_SELECT} WHERE cr.family_id = ? ORDER BY cr.priority DESC, cr.id`,
+      [familyId]
+    ) as CategoryRuleRow[];
+    return rows.map(rowToRule);
+  }
+
+  static async getRuleById(id: number, familyId: number): Promise<CategoryRule | null> {
+    const db = await getDatabase();
+    const row = await db.get(
+      `${RULE_SELECT} WHERE cr.id = ? AND cr.family_id = ?`,
+      [id, familyId]
+    ) as CategoryRuleRow | undefined;
+    return row ? rowToRule(row) : null;
+  }
+
+  static async createRule(familyId: number, data: CategoryRuleInput): Promise<number> {
+    const db = await getDatabase();
+    const result = await db.run(
+      `INSERT INTO category_rules (
+        family_id, name, category_id, priority, field, match_type, pattern,
+        amount_min, amount_max, sign, account_id, movement_type, is_active
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        familyId,
+        data.name.trim(),
+        data.category_id,
+        data.priority ?? 0,
+        data.field || 'any',
+        data.match_type || null,
+        data.pattern || null,
+        data.amount_min ?? null,
+        data.amount_max ?? null,
+        data.sign || 'any',
+        data.account_id ?? null,
+        data.movement_type || null,
+        data.is_active === false ? 0 : 1,
+      ]
+    );
+    return result.lastID;
+  }
+
+  static async updateRule(id: number, familyId: number, data: Partial<CategoryRuleInput>): Promise<void> {
+    const db = await getDatabase();
+    const sets: string[] = [];
+    const params: unknown[] = [];
+
+    for (const key of UPDATABLE_FIELDS) {
+      if (data[key] !== undefined) {
+        sets.push(`${key} = ?`);
+        params.push(data[key] === '' ? null : data[key]);
+      }
+    }
+    if (data.is_active !== undefined) { sets.push('is_active = ?'); params.push(data.is_active ? 1 : 0); }
+
+    if (sets.length === 0) return;
+
+    sets.push("updated_at = datetime('now')");
+    params.push(id, familyId);
+    await db.run(
+      `UPDATE category_rules SET ${sets.join(', ')} WHERE id = ? AND family_id = ?`,
+      params
+    );
+  }
+
+  static async deleteRule(id: number, familyId: number): Promise<void> {
+    const db = await getDatabase();
+    await db.run('DELETE FROM category_rules WHERE id = ? AND family_id = ?', [id, familyId]);
+  }
+
+  /**
+   * Pick the rule fields out of a request body, converting numeric strings and
+   * mapping empty values to null; fields absent from the body stay undefined
+   */
+  static normalizeInput(body: Record<string, unknown>): Partial<CategoryRuleInput> {
+    const toNumber = (value: unknown) => value === null || value === '' ? null : Number(value);
+    const toText = (value: unknown) => value === null || value === '' ? null : String(value).trim();
+    const input: Partial<CategoryRuleInput> = {};
+
+    if (body.name !== undefined) input.name = String(body.name);
+    if (body.category_id !== undefined) input.category_id = Number(body.category_id);
+    if (body.priority !== undefined) input.priority = Number(body.priority) || 0;
+    if (body.field !== undefined) input.field = body.field as RuleField;
+    if (body.match_type !== undefined) input.match_type = toText(body.match_type) as CategoryRuleMatchType | null;
+    if (body.pattern !== undefined) input.pattern = toText(body.pattern);
+    if (body.amount_min !== undefined) input.amount_min = toNumber(body.amount_min);
+    if (body.amount_max !== undefined) input.amount_max = toNumber(body.amount_max);
+    if (body.sign !== undefined) input.sign = body.sign as CategoryRuleSign;
+    if (body.account_id !== undefined) input.account_id = toNumber(body.account_id);
+    if (body.movement_type !== undefined) input.movement_type = toText(body.movement_type);
+    if (body.is_active !== undefined) input.is_active = !!body.is_active;
+    return input;
+  }
+
+  /**
+   * Validate a rule payload, returning an error message or null
+   */
+  static async validate(familyId: number, data: Partial<CategoryRuleInput>): Promise<string | null> {
+    const db = await getDatabase();
+
+    if (!data.name?.trim()) return 'name is required';
+
+    const category = await db.get(
+      'SELECT id FROM transaction_categories WHERE id = ? AND family_id = ?',
+      [data.category_id, familyId]
+    );
+    if (!category) return 'Category not found';
+
+    if (data.field !== undefined && !['description', 'detail', 'observations', 'any'].includes(data.field)) {
+      return 'Invalid field';
+    }
+    if (data.match_type && !['contains', 'regex', 'equals'].includes(data.match_type)) return 'Invalid match_type';
+    if (data.sign !== undefined && !['any', 'expense', 'income'].includes(data.sign)) return 'Invalid sign';
+    if (data.match_type && !data.pattern) return 'pattern is required for a text condition';
+    if (data.pattern && !data.match_type) return 'match_type is required for a text condition';
+    if (data.match_type === 'regex') {
+      try {
+        new RegExp(data.pattern!, 'i');
+      } catch {
+        return 'pattern is not a valid regular expression';
+      }
+    }
+
+    for (const bound of [data.amount_min, data.amount_max]) {
+      if (bound != null && (typeof bound !== 'number' || !isFinite(bound) || bound < 0)) {
+        return 'Amount bounds must be non-negative numbers';
+      }
+    }
+    if (data.amount_min != null && data.amount_max != null && data.amount_min > data.amount_max) {
+      return 'amount_min cannot be greater than amount_max';
+    }
+
+    if (data.account_id != null) {
+      const account = await db.get(
+        'SELECT id FROM accounts WHERE id = ? AND family_id = ?',
+        [data.account_id, familyId]
+      );
+      if (!account) return 'Account not found';
+    }
+
+    const hasCondition = !!data.pattern
+      || data.amount_min != null
+      || data.amount_max != null
+      || (data.sign !== undefined && data.sign !== 'any')
+      || data.account_id != null
+      || !!data.movement_type;
+    if (!hasCondition) return 'A rule needs at least one condition';
+
+    return null;
+  }
+
+  /**
+   * First active rule (in priority order) matching the transaction, or null
+   */
+  static evaluateRules(tx: RuleTarget, rules: CategoryRule[]): CategoryRule | null {
+    for (const rule of rules) {
+      if (rule.is_active && matchesRule(rule, tx)) return rule;
+    }
+    return null;
+  }
+
+  /**
+   * Category for each parsed transaction of an import (null when no rule matches)
+   */
+  static async categorizeParsed(familyId: number, accountId: number, transactions: ParsedTransaction[]): Promise<Array<number | null>> {
+    const rules = await this.getRulesByFamily(familyId);
+    return transactions.map(tx => {
+      const rule = this.evaluateRules({ ...tx, accountId }, rules);
+      return rule ? rule.category_id : null;
+    });
+  }
+
+  /**
+   * Run the rules over stored transactions and save the categories they assign.
+   * Only uncategorized transactions are touched unless `overwrite` is set;
+   * `transactionIds` limits the run to those transactions, and a viewer to the
+   * accounts they can edit.
+   */
+  static async applyToTransactions(
+    familyId: number,
+    options: { overwrite?: boolean; transactionIds?: number[] } = {},
+    viewer?: AccountViewer
+  ): Promise<ApplyRulesResult> {
+    const db = await getDatabase();
+    const rules = await this.getRulesByFamily(familyId);
+    const result: ApplyRulesResult = { scanned: 0, matched: 0, matchedIds: [] };
+    if (!rules.some(r => r.is_active)) return result;
+
+    // Split transactions keep their allocations even when overwriting
+    const editable = AccountAccessService.accountFilter('account_id', viewer, true);
+    const conditions = ['family_id = ?', 'is_split = 0', editable.sql];
+    const params: unknown[] = [familyId, ...editable.params];
+    if (!options.overwrite) conditions.push('category_id IS NULL');
+    if (options.transactionIds) {
+      if (options.transactionIds.length === 0) return result;
+      conditions.push(`id IN (${options.transactionIds.map(() => '?').join(',')})`);
+      params.push(...options.transactionIds);
+    }
+
+    const transactions = await db.all(
+      `SELECT id, account_id, amount, description, detail, observations, movement_type, category_id
+       FROM transactions WHERE ${conditions.join(' AND ')}`,
+      params
+    ) as Array<{
+      id: number; account_id: number; amount: number; description: string; detail: string | null;
+      observations: string | null; movement_type: string | null; category_id: number | null;
+    }>;
+
+    result.scanned = transactions.length;
+    for (const tx of transactions) {
+      const rule = this.evaluateRules({
+        description: tx.description,
+        detail: tx.detail,
+        observations: tx.observations,
+        amount: tx.amount,
+        movementType: tx.movement_type,
+        accountId: tx.account_id,
+      }, rules);
+      if (!rule) continue;
+
+      if (rule.category_id !== tx.category_id) {
+        await db.run(
+          `UPDATE transactions SET category_id = ?, updated_at = datetime('now') WHERE id = ? AND ${editable.sql}`,
+          [rule.category_id, tx.id, ...editable.params]
+        );
+      }
+      result.matched++;
+      result.matchedIds.push(tx.id);
+    }
+
+    return result;
+  }
+}
@@ -1,6 +1,7 @@
 import sqlite3 from 'sqlite3';
 import { promisify } from 'util';
 import path from 'path';
+import { loadKeyring } from './encryption';
 
 interface Database {
   run: (sql: string, params?: unknown[]) => Promise<{ lastID: number; changes: number }>;
@@ -9,13 +10,32 @@ interface Database {
   close: () => Promise<void>;
 }
 
-let db: Database | null = null;
+// Next.js can load this module once per route bundle; keeping the connection on globalThis
+// lets closeDatabase() (before a restore) reach every route, not only the one that called it
+const globalForDatabase = globalThis as typeof globalThis & {
+  __database?: Database | null;
+  __databaseInit?: Promise<Database> | null;
+};
 
 export async function getDatabase(): Promise<Database> {
-  if (db) {
-    return db;
+  if (globalForDatabase.__database) {
+    return globalForDatabase.__database;
   }
 
+  // Concurrent callers share one initialization, and the connection is only handed out
+  // once the migrations have run and the keys are loaded
+  globalForDatabase.__databaseInit ??= openDatabase()
+    .then(db => {
+      globalForDatabase.__database = db;
+      return db;
+    })
+    .finally(() => {
+      globalForDatabase.__databaseInit = null;
+    });
+  return globalForDatabase.__databaseInit;
+}
+
+async function openDatabase(): Promise<Database> {
   const dbPath = path.join(process.cwd(), 'data', 'wealth_tracker.db');
   
   const sqlite = new sqlite3.Database(dbPath);
@@ -24,7 +44,7 @@ export async function getDatabase(): Promise<Database> {
   const allAsync = promisify(sqlite.all.bind(sqlite)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
   const closeAsync = promisify(sqlite.close.bind(sqlite)) as () => Promise<void>;
 
-  db = {
+  const db: Database = {
     run: async (sql: string, params?: unknown[]) => {
       return new Promise<{ lastID: number; changes: number }>((resolve, reject) => {
         sqlite.run(sql, params || [], function(this: any, err: Error | null) {
@@ -41,10 +61,30 @@ export async function getDatabase(): Promise<Database> {
     close: closeAsync,
   };
 
-  await initializeDatabase(db);
+  try {
+    await initializeDatabase(db);
+    await loadKeyring(db);
+  } catch (error) {
+    // The next getDatabase() starts over with a fresh connection
+    await db.close().catch(() => undefined);
+    throw error;
+  }
   return db;
 }
 
+/**
+ * Closes the connection. The next getDatabase() opens the file again and runs the
+ * migrations on it, as after a backup was restored over it.
+ */
+export async function closeDatabase(): Promise<void> {
+  // A connection still being opened is closed once it is ready
+  await globalForDatabase.__databaseInit?.catch(() => undefined);
+  const current = globalForDatabase.__database;
+  if (!current) return;
+  globalForDatabase.__database = null;
+  await current.close();
+}
+
 async function initializeDatabase(db: Database) {
   const createUsersTable = `
     CREATE TABLE IF NOT EXISTS users (
@@ -162,6 +202,26 @@ async function initializeDatabase(db: Database) {
   await migrateDatabaseForPasswordReset(db);
   await migrateFamilySettingsForChat(db);
   await migrateDatabaseForChatTables(db);
+  await migrateDatabaseForImportProfiles(db);
+  await migrateDatabaseForExchangeRates(db);
+  await migrateDatabaseForBudgets(db);
+  await migrateDatabaseForRecurringSeries(db);
+  await migrateDatabaseForCategoryRules(db);
+  await migrateDatabaseForCategoryCorrections(db);
+  await migrateDatabaseForTransactionSplits(db);
+  await migrateDatabaseForTransferPairs(db);
+  await migrateDatabaseForNotificationPreferences(db);
+  await migrateDatabaseForAlerts(db);
+  await migrateDatabaseForNotifications(db);
+  await migrateDatabaseForWebhooks(db);
+  await migrateDatabaseForApiTokens(db);
+  await migrateDatabaseForTwoFactor(db);
+  await migrateDatabaseForSessions(db);
+  await migrateDatabaseForAccountLockout(db);
+  await migrateDatabaseForEncryptionKeys(db);
+  await migrateDatabaseForFamilyInvitations(db);
+  await migrateDatabaseForFamilies(db);
+  await migrateDatabaseForAccountAccess(db);
 }
 
 async function migrateDatabaseForPasswordReset(db: Database) {
@@ -608,4 +668,692 @@ async function migrateChatMessagesDropRoleCheck(db: Database) {
     await db.run('ROLLBACK');
     console.error('Error migrating chat_messages:', error);
   }
-}
\ No newline at end of file
+}
+async function migrateDatabaseForImportProfiles(db: Database) {
+  try {
+    // Saved column mappings for bank CSV exports without a built-in parser
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS import_profiles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        delimiter TEXT NOT NULL DEFAULT ',',
+        date_format TEXT NOT NULL DEFAULT 'DD/MM/YYYY',
+        decimal_separator TEXT CHECK(decimal_separator IN (',', '.')) NOT NULL DEFAULT ',',
+        column_mapping TEXT NOT NULL, -- JSON CsvColumnMapping
+        default_currency TEXT NOT NULL DEFAULT 'EUR',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (family_id) REFERENCES users(family_id),
+        UNIQUE(family_id, name)
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_import_profiles_family_id ON import_profiles(family_id)`);
+  } catch (error) {
+    console.error('Error creating import_profiles table:', error);
+  }
+}
+
+async function migrateDatabaseForExchangeRates(db: Database) {
+  try {
+    const tableInfo = await db.all(`PRAGMA table_info(family_settings)`) as Array<{ name: string }>;
+    if (!tableInfo.some(column => column.name === 'base_currency')) {
+      console.log('Adding base_currency column to family_settings table...');
+      await db.run(`ALTER TABLE family_settings ADD COLUMN base_currency TEXT DEFAULT 'EUR'`);
+    }
+
+    // rate = value of 1 unit of `currency` expressed in the family's base currency
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS exchange_rates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        date DATE NOT NULL,
+        currency TEXT NOT NULL,
+        rate REAL NOT NULL CHECK(rate > 0),
+        source TEXT CHECK(source IN ('manual', 'csv')) NOT NULL DEFAULT 'manual',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (family_id) REFERENCES users(family_id),
+        UNIQUE(family_id, currency, date)
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_exchange_rates_family_currency ON exchange_rates(family_id, currency, date)`);
+  } catch (error) {
+    console.error('Error migrating database for exchange rates:', error);
+  }
+}
+
+async function migrateDatabaseForBudgets(db: Database) {
+  try {
+    // Monthly spending limits per expense category, for the whole family or one member
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS budgets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        category_id INTEGER NOT NULL,
+        amount DECIMAL(15,2) NOT NULL CHECK(amount > 0),
+        rollover BOOLEAN DEFAULT 0,
+        scope TEXT CHECK(scope IN ('family', 'member')) NOT NULL DEFAULT 'family',
+        user_id INTEGER DEFAULT NULL,
+        account_ids TEXT DEFAULT NULL, -- JSON number[]: accounts counted for a member budget
+        start_month TEXT NOT NULL, -- YYYY-MM, first month rollover is accumulated from
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (family_id) REFERENCES users(family_id),
+        FOREIGN KEY (category_id) REFERENCES transaction_categories(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_budgets_family_id ON budgets(family_id)`);
+    // One budget per category for the family and per category for each member
+    await db.run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_unique ON budgets(family_id, category_id, COALESCE(user_id, 0))`);
+  } catch (error) {
+    console.error('Error creating budgets table:', error);
+  }
+}
+
+async function migrateDatabaseForRecurringSeries(db: Database) {
+  try {
+    // Charges detected as recurring: one row per counterparty and account
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS recurring_series (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        account_id INTEGER NOT NULL,
+        counterparty_key TEXT NOT NULL, -- Normalized description the transactions are grouped by
+        name TEXT NOT NULL,
+        cadence TEXT CHECK(cadence IN ('weekly', 'monthly', 'yearly')) NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'EUR',
+        average_amount DECIMAL(15,2) NOT NULL,
+        last_amount DECIMAL(15,2) NOT NULL,
+        previous_amount DECIMAL(15,2) DEFAULT NULL, -- Set when the last charge is higher than the one before
+        occurrences INTEGER NOT NULL,
+        first_date DATE NOT NULL,
+        last_date DATE NOT NULL,
+        next_expected_date DATE NOT NULL,
+        category_id INTEGER DEFAULT NULL,
+        suggested_category_id INTEGER DEFAULT NULL,
+        dismissed BOOLEAN DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (family_id) REFERENCES users(family_id),
+        FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+        FOREIGN KEY (category_id) REFERENCES transaction_categories(id) ON DELETE SET NULL,
+        FOREIGN KEY (suggested_category_id) REFERENCES transaction_categories(id) ON DELETE SET NULL,
+        UNIQUE(family_id, account_id, counterparty_key)
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_recurring_series_family_id ON recurring_series(family_id)`);
+
+    const tableInfo = await db.all(`PRAGMA table_info(transactions)`) as Array<{ name: string }>;
+    if (!tableInfo.some(column => column.name === 'recurring_series_id')) {
+      console.log('Adding recurring_series_id column to transactions table...');
+      await db.run(`ALTER TABLE transactions ADD COLUMN recurring_series_id INTEGER DEFAULT NULL`);
+    }
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_transactions_recurring_series ON transactions(recurring_series_id)`);
+  } catch (error) {
+    console.error('Error migrating database for recurring series:', error);
+  }
+}
+
+async function migrateDatabaseForCategoryRules(db: Database) {
+  try {
+    // Deterministic categorization rules, evaluated by priority before any AI call.
+    // Every condition is optional, but a rule needs at least one.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS category_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        category_id INTEGER NOT NULL,
+        priority INTEGER NOT NULL DEFAULT 0, -- Higher runs first
+        field TEXT CHECK(field IN ('description', 'detail', 'observations', 'any')) NOT NULL DEFAULT 'any',
+        match_type TEXT CHECK(match_type IN ('contains', 'regex', 'equals')) DEFAULT NULL,
+        pattern TEXT DEFAULT NULL,
+        amount_min DECIMAL(15,2) DEFAULT NULL, -- Bounds on the absolute amount
+        amount_max DECIMAL(15,2) DEFAULT NULL,
+        sign TEXT CHECK(sign IN ('any', 'expense', 'income')) NOT NULL DEFAULT 'any',
+        account_id INTEGER DEFAULT NULL,
+        movement_type TEXT DEFAULT NULL,
+        is_active BOOLEAN DEFAULT TRUE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (family_id) REFERENCES users(family_id),
+        FOREIGN KEY (category_id) REFERENCES transaction_categories(id) ON DELETE CASCADE,
+        FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_category_rules_family_id ON category_rules(family_id)`);
+  } catch (error) {
+    console.error('Error creating category_rules table:', error);
+  }
+}
+
+async function migrateDatabaseForCategoryCorrections(db: Database) {
+  try {
+    // Manual category changes, used to suggest rules and as AI few-shot examples.
+    // The transaction's text is copied so corrections survive re-imports.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS category_corrections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        user_id INTEGER DEFAULT NULL,
+        transaction_id INTEGER DEFAULT NULL,
+        description TEXT NOT NULL,
+        detail TEXT DEFAULT NULL,
+        amount DECIMAL(15,2) NOT NULL,
+        counterparty_key TEXT NOT NULL,
+        previous_category_id INTEGER DEFAULT NULL,
+        previous_ai_confidence REAL DEFAULT NULL,
+        category_id INTEGER NOT NULL,
+        dismissed BOOLEAN DEFAULT 0, -- Rule suggestion rejected by the user
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (family_id) REFERENCES users(family_id),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+        FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE SET NULL,
+        FOREIGN KEY (previous_category_id) REFERENCES transaction_categories(id) ON DELETE SET NULL,
+        FOREIGN KEY (category_id) REFERENCES transaction_categories(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_category_corrections_family_key ON category_corrections(family_id, counterparty_key)`);
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_category_corrections_transaction ON category_corrections(transaction_id)`);
+  } catch (error) {
+    console.error('Error creating category_corrections table:', error);
+  }
+}
+
+async function migrateDatabaseForTransactionSplits(db: Database) {
+  try {
+    // Allocations of one transaction across several categories; they must add up
+    // to the parent amount. A split parent has is_split = 1 and no category of its own.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS transaction_splits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        transaction_id INTEGER NOT NULL,
+        family_id INTEGER NOT NULL,
+        amount DECIMAL(15,2) NOT NULL,
+        category_id INTEGER DEFAULT NULL,
+        notes TEXT DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE CASCADE,
+        FOREIGN KEY (family_id) REFERENCES users(family_id),
+        FOREIGN KEY (category_id) REFERENCES transaction_categories(id) ON DELETE SET NULL
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction_id ON transaction_splits(transaction_id)`);
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_transaction_splits_category_id ON transaction_splits(category_id)`);
+    // Splits left behind by deletes from before they removed them explicitly
+    await db.run(`DELETE FROM transaction_splits WHERE transaction_id NOT IN (SELECT id FROM transactions)`);
+
+    const tableInfo = await db.all(`PRAGMA table_info(transactions)`) as Array<{ name: string }>;
+    if (!tableInfo.some(column => column.name === 'is_split')) {
+      console.log('Adding is_split column to transactions table...');
+      await db.run(`ALTER TABLE transactions ADD COLUMN is_split BOOLEAN DEFAULT 0`);
+    }
+
+    // One row per split for split transactions and one per transaction otherwise;
+    // category aggregations read this instead of transactions
+    await db.run(`
+      CREATE VIEW IF NOT EXISTS transaction_allocations AS
+      SELECT t.id AS transaction_id, s.id AS split_id, t.family_id, t.account_id, t.date,
+        t.is_transfer, t.currency,
+        CASE WHEN s.id IS NULL THEN t.amount ELSE s.amount END AS amount,
+        CASE WHEN s.id IS NULL THEN t.category_id ELSE s.category_id END AS category_id
+      FROM transactions t
+      LEFT JOIN transaction_splits s ON s.transaction_id = t.id
+    `);
+  } catch (error) {
+    console.error('Error migrating database for transaction splits:', error);
+  }
+}
+
+async function migrateDatabaseForTransferPairs(db: Database) {
+  try {
+    // A transfer out of one account linked to the deposit into another. Rejected
+    // pairs are kept so the matcher doesn't propose them again.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS transfer_pairs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        out_transaction_id INTEGER NOT NULL,
+        in_transaction_id INTEGER NOT NULL,
+        status TEXT CHECK(status IN ('suggested', 'confirmed', 'rejected')) NOT NULL DEFAULT 'suggested',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (family_id) REFERENCES users(family_id),
+        FOREIGN KEY (out_transaction_id) REFERENCES transactions(id) ON DELETE CASCADE,
+        FOREIGN KEY (in_transaction_id) REFERENCES transactions(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_transfer_pairs_family_id ON transfer_pairs(family_id)`);
+
+    const tableInfo = await db.all(`PRAGMA table_info(transactions)`) as Array<{ name: string }>;
+    if (!tableInfo.some(column => column.name === 'transfer_pair_id')) {
+      console.log('Adding transfer_pair_id column to transactions table...');
+      await db.run(`ALTER TABLE transactions ADD COLUMN transfer_pair_id INTEGER DEFAULT NULL`);
+    }
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_transactions_transfer_pair ON transactions(transfer_pair_id)`);
+  } catch (error) {
+    console.error('Error migrating database for transfer pairs:', error);
+  }
+}
+
+async function migrateDatabaseForNotificationPreferences(db: Database) {
+  try {
+    // One row per user who changed a default; users without a row get every report,
+    // in English, on the day set by the administrator (digest_day NULL)
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS notification_preferences (
+        user_id INTEGER PRIMARY KEY,
+        weekly_report BOOLEAN NOT NULL DEFAULT 1,
+        monthly_report BOOLEAN NOT NULL DEFAULT 1,
+        yearly_report BOOLEAN NOT NULL DEFAULT 1,
+        alerts BOOLEAN NOT NULL DEFAULT 1,
+        locale TEXT CHECK(locale IN ('en', 'es')) NOT NULL DEFAULT 'en',
+        digest_day TEXT CHECK(digest_day IN ('monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday')) DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // users.notifications_enabled was the old weekly report switch, added lazily
+    // by the preferences route; carry over whoever turned it off
+    const tableInfo = await db.all(`PRAGMA table_info(users)`) as Array<{ name: string }>;
+    if (tableInfo.some(column => column.name === 'notifications_enabled')) {
+      await db.run(`
+        INSERT OR IGNORE INTO notification_preferences (user_id, weekly_report)
+        SELECT id, 0 FROM users WHERE notifications_enabled = 0
+      `);
+    }
+  } catch (error) {
+    console.error('Error migrating database for notification preferences:', error);
+  }
+}
+
+async function migrateDatabaseForAlerts(db: Database) {
+  try {
+    // User-defined threshold rules. threshold is an amount, a number of days
+    // (stale_balance) or of remaining months (debt_milestone) depending on the type.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS alert_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        type TEXT CHECK(type IN ('balance_below', 'category_spending_above', 'transaction_above', 'stale_balance', 'debt_milestone')) NOT NULL,
+        account_id INTEGER DEFAULT NULL,
+        category_id INTEGER DEFAULT NULL,
+        threshold DECIMAL(15, 2) NOT NULL,
+        is_active BOOLEAN NOT NULL DEFAULT 1,
+        snoozed_until DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (family_id) REFERENCES users(family_id),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+        FOREIGN KEY (category_id) REFERENCES transaction_categories(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Triggered alerts, the in-app inbox. A rule fires at most once per dedup_key
+    // (the month, the transaction, the balance date...).
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        rule_id INTEGER NOT NULL,
+        dedup_key TEXT NOT NULL,
+        details TEXT NOT NULL,
+        read_at DATETIME DEFAULT NULL,
+        emailed_at DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (rule_id) REFERENCES alert_rules(id) ON DELETE CASCADE,
+        UNIQUE(rule_id, dedup_key)
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_alert_rules_family_id ON alert_rules(family_id)`);
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_alerts_user_id ON alerts(user_id, read_at)`);
+  } catch (error) {
+    console.error('Error migrating database for alerts:', error);
+  }
+}
+
+async function migrateDatabaseForNotifications(db: Database) {
+  try {
+    // In-app notification feed: one row per recipient. data holds the values of the
+    // localized message for the type; link is an app path without the locale.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        type TEXT CHECK(type IN ('debt_update', 'backup_completed', 'import_completed', 'balance_import_completed', 'ai_categorization', 'member_joined')) NOT NULL,
+        data TEXT NOT NULL DEFAULT '{}',
+        link TEXT DEFAULT NULL,
+        read_at DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, read_at)`);
+  } catch (error) {
+    console.error('Error migrating database for notifications:', error);
+  }
+}
+
+async function migrateDatabaseForWebhooks(db: Database) {
+  try {
+    // Outgoing webhooks. events is a JSON array of subscribed event names; the
+    // signing secret is encrypted like the other stored credentials.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        description TEXT DEFAULT NULL,
+        secret_encrypted TEXT NOT NULL,
+        events TEXT NOT NULL DEFAULT '[]',
+        is_active BOOLEAN NOT NULL DEFAULT 1,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (family_id) REFERENCES users(family_id)
+      )
+    `);
+
+    // Delivery log and retry queue. Pending rows are retried once next_attempt_at
+    // has passed, with growing delays, until they succeed or run out of attempts.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        webhook_id INTEGER NOT NULL,
+        family_id INTEGER NOT NULL,
+        event TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT CHECK(status IN ('pending', 'success', 'failed')) NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER DEFAULT NULL,
+        error TEXT DEFAULT NULL,
+        next_attempt_at DATETIME DEFAULT NULL,
+        delivered_at DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_webhooks_family_id ON webhooks(family_id)`);
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at)`);
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries(status, next_attempt_at)`);
+  } catch (error) {
+    console.error('Error migrating database for webhooks:', error);
+  }
+}
+
+async function migrateDatabaseForApiTokens(db: Database) {
+  try {
+    // Personal access tokens for scripts. Only the SHA-256 of the token is stored;
+    // token_prefix is kept so users can tell their tokens apart in settings.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        family_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        token_prefix TEXT NOT NULL,
+        scopes TEXT NOT NULL DEFAULT '[]',
+        expires_at DATETIME DEFAULT NULL,
+        last_used_at DATETIME DEFAULT NULL,
+        revoked_at DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id)`);
+  } catch (error) {
+    console.error('Error migrating database for API tokens:', error);
+  }
+}
+
+async function migrateDatabaseForTwoFactor(db: Database) {
+  try {
+    // TOTP secrets, AES encrypted. pending_secret_encrypted holds a secret being enrolled
+    // until the user confirms it with a code; last_used_step stops a code being replayed.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS two_factor_auth (
+        user_id INTEGER PRIMARY KEY,
+        secret_encrypted TEXT DEFAULT NULL,
+        pending_secret_encrypted TEXT DEFAULT NULL,
+        enabled_at DATETIME DEFAULT NULL,
+        last_used_step INTEGER NOT NULL DEFAULT 0,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Single-use recovery codes, stored as SHA-256 hashes
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        code_hash TEXT NOT NULL,
+        used_at DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user_id ON two_factor_recovery_codes(user_id)`);
+  } catch (error) {
+    console.error('Error migrating database for two-factor authentication:', error);
+  }
+}
+
+async function migrateDatabaseForSessions(db: Database) {
+  try {
+    // Server-side registry of signed-in sessions. The cookie carries session_key; a
+    // session whose row is missing or revoked is treated as signed out.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        session_key TEXT NOT NULL UNIQUE,
+        device TEXT DEFAULT NULL,
+        ip_address TEXT DEFAULT NULL,
+        user_agent TEXT DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        revoked_at DATETIME DEFAULT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Login audit: every sign-in attempt, successful or not. Recent failures for an
+    // email drive the login backoff.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS login_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER DEFAULT NULL,
+        email TEXT NOT NULL,
+        success BOOLEAN NOT NULL,
+        reason TEXT DEFAULT NULL,
+        ip_address TEXT DEFAULT NULL,
+        user_agent TEXT DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id)`);
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_login_events_email ON login_events(email, created_at)`);
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_login_events_user_id ON login_events(user_id, created_at)`);
+  } catch (error) {
+    console.error('Error migrating database for sessions:', error);
+  }
+}
+
+async function migrateDatabaseForAccountLockout(db: Database) {
+  try {
+    // Wrong passwords and 2FA codes per user. Reaching the limit within the window sets
+    // locked_until; a successful sign-in, password reset or admin unlock removes the row.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS account_lockouts (
+        user_id INTEGER PRIMARY KEY,
+        failed_attempts INTEGER NOT NULL DEFAULT 0,
+        window_started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        locked_at DATETIME DEFAULT NULL,
+        locked_until DATETIME DEFAULT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+  } catch (error) {
+    console.error('Error migrating database for account lockout:', error);
+  }
+}
+
+async function migrateDatabaseForEncryptionKeys(db: Database) {
+  try {
+    // Data keys for encrypted columns, each wrapped with a key derived from ENCRYPTION_KEY
+    // and its own salt. Encrypted values name the key they were written with; the newest
+    // key encrypts new values.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS encryption_keys (
+        id TEXT PRIMARY KEY,
+        wrapped_key TEXT NOT NULL,
+        kek_salt TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  } catch (error) {
+    console.error('Error migrating database for encryption keys:', error);
+  }
+}
+
+async function migrateDatabaseForFamilyInvitations(db: Database) {
+  try {
+    // Invitations into a family. The link token is an HMAC over id and nonce, so only the
+    // nonce is stored; the short code is for typing in by hand. Single use: accepting
+    // sets accepted_by.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS family_invitations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        code TEXT NOT NULL UNIQUE,
+        nonce TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('administrator', 'user', 'guest')),
+        created_by INTEGER NOT NULL,
+        expires_at DATETIME NOT NULL,
+        accepted_by INTEGER DEFAULT NULL,
+        accepted_at DATETIME DEFAULT NULL,
+        revoked_at DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (created_by) REFERENCES users(id),
+        FOREIGN KEY (accepted_by) REFERENCES users(id)
+      )
+    `);
+
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_family_invitations_family_id ON family_invitations(family_id)`);
+  } catch (error) {
+    console.error('Error migrating database for family invitations:', error);
+  }
+}
+
+async function migrateDatabaseForFamilies(db: Database) {
+  try {
+    // One row per family_id. The id keeps the value users and data tables already carry;
+    // new families get the next one. Family-wide preferences live here, including the
+    // base currency that used to be in family_settings.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS families (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        owner_id INTEGER DEFAULT NULL,
+        base_currency TEXT NOT NULL DEFAULT 'EUR' CHECK (base_currency IN ('EUR', 'USD', 'GBP', 'CHF', 'JPY', 'CAD', 'AUD')),
+        locale TEXT NOT NULL DEFAULT 'en' CHECK (locale IN ('en', 'es')),
+        timezone TEXT NOT NULL DEFAULT 'UTC',
+        fiscal_year_start_month INTEGER NOT NULL DEFAULT 1 CHECK (fiscal_year_start_month BETWEEN 1 AND 12),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (owner_id) REFERENCES users(id)
+      )
+    `);
+
+    // Families from before the table: named after and owned by their first administrator
+    // (or first member), keeping any base currency chosen in family_settings
+    const missing = await db.all(`
+      SELECT DISTINCT family_id FROM users
+      WHERE family_id NOT IN (SELECT id FROM families)
+    `) as Array<{ family_id: number }>;
+    if (missing.length > 0) {
+      console.log(`Creating families rows for ${missing.length} existing families...`);
+    }
+    for (const { family_id } of missing) {
+      const owner = await db.get(
+        `SELECT id, name FROM users WHERE family_id = ?
+         ORDER BY role = 'administrator' DESC, created_at, id LIMIT 1`,
+        [family_id]
+      ) as { id: number; name: string };
+      const settings = await db.get(
+        'SELECT base_currency FROM family_settings WHERE family_id = ?',
+        [family_id]
+      ) as { base_currency: string | null } | undefined;
+      await db.run(
+        'INSERT INTO families (id, name, owner_id, base_currency) VALUES (?, ?, ?, ?)',
+        [family_id, `${owner.name}'s Family`, owner.id, settings?.base_currency || 'EUR']
+      );
+    }
+
+    // Accounts left behind by a family without members keep their id reserved, so a
+    // new family can't be handed someone else's data
+    await db.run(`
+      INSERT INTO families (id, name)
+      SELECT DISTINCT family_id, 'Family ' || family_id FROM accounts
+      WHERE family_id NOT IN (SELECT id FROM families)
+    `);
+  } catch (error) {
+    console.error('Error migrating database for families:', error);
+  }
+}
+
+async function migrateDatabaseForAccountAccess(db: Database) {
+  try {
+    const tableInfo = await db.all(`PRAGMA table_info(accounts)`) as Array<{ name: string }>;
+
+    // Accounts from before sharing settings have no owner and stay editable by the
+    // whole family, as they were
+    if (!tableInfo.some(column => column.name === 'family_access')) {
+      console.log('Adding sharing columns to accounts table...');
+      await db.run('ALTER TABLE accounts ADD COLUMN owner_id INTEGER DEFAULT NULL REFERENCES users(id)');
+      await db.run(`ALTER TABLE accounts ADD COLUMN family_access TEXT NOT NULL DEFAULT 'edit' CHECK (family_access IN ('edit', 'view', 'none'))`);
+      await db.run('ALTER TABLE accounts ADD COLUMN count_in_family_totals BOOLEAN NOT NULL DEFAULT 0');
+    }
+
+    // Per-member access on top of what the rest of the family gets
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS account_permissions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        access TEXT NOT NULL CHECK (access IN ('edit', 'view')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(account_id, user_id),
+        FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      )
+    `);
+    await db.run(`CREATE INDEX IF NOT EXISTS idx_account_permissions_user_id ON account_permissions(user_id)`);
+  } catch (error) {
+    console.error('Error migrating database for account access:', error);
+  }
+}
@@ -1,6 +1,18 @@
 import { getDatabase } from './database';
 import { encryptIBAN, decryptIBAN } from './encryption';
-import type { User, Account, Balance, AccountWithBalance, UserRole } from '@/types';
+import { ExchangeRateService } from './exchange-rate-service';
+import { AccountAccessService, type AccountViewer } from './account-access-service';
+import type { User, Account, AccountPermission, Balance, AccountWithBalance, UserRole, DashboardData } from '@/types';
+
+// An IBAN that fails to decrypt is left out rather than taking the account list down
+function decryptAccountIban(encrypted: string): string {
+  try {
+    return decryptIBAN(encrypted);
+  } catch (error) {
+    console.error('Failed to decrypt IBAN:', error);
+    return '';
+  }
+}
 
 export class UserService {
   static async createUser(email: string, passwordHash: string, name: string, familyId: number, role: UserRole = 'user'): Promise<number> {
@@ -44,6 +56,9 @@ export class UserService {
       'UPDATE users SET family_id = ? WHERE id = ?',
       [newFamilyId, userId]
     );
+    // A member who moves on no longer owns the family they left, nor its accounts
+    await db.run('UPDATE families SET owner_id = NULL WHERE owner_id = ? AND id != ?', [userId, newFamilyId]);
+    await AccountAccessService.removeMember(userId, newFamilyId);
   }
 
   static async changePassword(userId: number, newPasswordHash: string): Promise<void> {
@@ -65,6 +80,13 @@ export class UserService {
   static async deleteUser(userId: number): Promise<void> {
     const db = await getDatabase();
     await db.run('DELETE FROM users WHERE id = ?', [userId]);
+    await db.run('DELETE FROM api_tokens WHERE user_id = ?', [userId]);
+    await db.run('DELETE FROM two_factor_auth WHERE user_id = ?', [userId]);
+    await db.run('DELETE FROM two_factor_recovery_codes WHERE user_id = ?', [userId]);
+    await db.run('DELETE FROM user_sessions WHERE user_id = ?', [userId]);
+    await db.run('DELETE FROM account_lockouts WHERE user_id = ?', [userId]);
+    await db.run('UPDATE families SET owner_id = NULL WHERE owner_id = ?', [userId]);
+    await AccountAccessService.removeMember(userId);
   }
 
   static async getUsersByRole(familyId: number, role: UserRole): Promise<User[]> {
@@ -135,7 +157,8 @@ export class AccountService {
       autoUpdateEnabled?: boolean;
       originalBalance?: number;
       loanStartDate?: string;
-    }
+    },
+    ownerId: number | null = null
   ): Promise<number> {
     const db = await getDatabase();
     const encryptedIban = iban ? encryptIBAN(iban) : '';
@@ -155,8 +178,8 @@ export class AccountService {
         `INSERT INTO accounts (
           family_id, name, category, currency, iban_encrypted, notes,
           apr_rate, monthly_payment, loan_term_months, remaining_months,
-          payment_type, auto_update_enabled, original_balance, loan_start_date
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          payment_type, auto_update_enabled, original_balance, loan_start_date, owner_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           familyId, name, category, currency, encryptedIban, notes,
           amortizationData.aprRate || null,
@@ -166,7 +189,8 @@ export class AccountService {
           amortizationData.paymentType || 'fixed',
           amortizationData.autoUpdateEnabled || false,
           amortizationData.originalBalance || null,
-          amortizationData.loanStartDate || null
+          amortizationData.loanStartDate || null,
+          ownerId
         ]
       );
       
@@ -221,20 +245,26 @@ export class AccountService {
       return accountId;
     } else {
       const result = await db.run(
-        'INSERT INTO accounts (family_id, name, category, currency, iban_encrypted, notes) VALUES (?, ?, ?, ?, ?, ?)',
-        [familyId, name, category, currency, encryptedIban, notes]
+        'INSERT INTO accounts (family_id, name, category, currency, iban_encrypted, notes, owner_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [familyId, name, category, currency, encryptedIban, notes, ownerId]
       );
       return result.lastID;
     }
   }
 
-  static async getAccountsByFamilyId(familyId: number): Promise<AccountWithBalance[]> {
+  /**
+   * All accounts of the family, or with a viewer only those they can see, each with the
+   * viewer's access
+   */
+  static async getAccountsByFamilyId(familyId: number, viewer?: AccountViewer): Promise<AccountWithBalance[]> {
     const db = await getDatabase();
+    const visible = AccountAccessService.visibleCondition(viewer);
     const accounts = await db.all(`
       SELECT 
         a.*,
         b.amount as current_balance,
-        b.date as last_balance_date
+        b.date as last_balance_date,
+        p.access as granted_access
       FROM accounts a
       LEFT JOIN (
         SELECT 
@@ -244,16 +274,37 @@ export class AccountService {
           ROW_NUMBER() OVER (PARTITION BY account_id ORDER BY created_at DESC, id DESC) as rn
         FROM balances
       ) b ON a.id = b.account_id AND b.rn = 1
-      WHERE a.family_id = ?
+      LEFT JOIN account_permissions p ON p.account_id = a.id AND p.user_id = ?
+      WHERE a.family_id = ? AND ${visible.sql}
       ORDER BY a.name
-    `, [familyId]) as AccountWithBalance[];
+    `, [viewer?.id ?? 0, familyId, ...visible.params]) as Array<AccountWithBalance & { granted_access: AccountPermission['access'] | null }>;
 
-    return accounts.map((account: AccountWithBalance) => ({
+    return accounts.map(({ granted_access, ...account }) => ({
       ...account,
-      iban_encrypted: account.iban_encrypted ? decryptIBAN(account.iban_encrypted) : ''
+      iban_encrypted: account.iban_encrypted ? decryptAccountIban(account.iban_encrypted) : '',
+      ...(viewer && { access: AccountAccessService.resolve(account, granted_access, viewer) ?? undefined }),
     }));
   }
 
+  /**
+   * Find the family account a bank statement belongs to. The reference may be a full IBAN
+   * or a Spanish CCC, either complete (20 digits) or without check digits (18, as in Norma 43).
+   */
+  static async findAccountByStatementReference(familyId: number, reference: string, viewer?: AccountViewer): Promise<AccountWithBalance | null> {
+    const ref = reference.replace(/[\s-]/g, '').toUpperCase();
+    if (!ref) return null;
+
+    const accounts = await this.getAccountsByFamilyId(familyId, viewer);
+    return accounts.find(account => {
+      const iban = (account.iban_encrypted || '').replace(/[\s-]/g, '').toUpperCase();
+      if (!iban) return false;
+      if (iban === ref) return true;
+      if (/^\d{20}$/.test(ref)) return iban.slice(4) === ref;
+      if (/^\d{18}$/.test(ref)) return iban.slice(4, 12) + iban.slice(14) === ref;
+      return false;
+    }) || null;
+  }
+
   static async updateAccount(
     id: number,
     name: string,
@@ -377,6 +428,7 @@ export class AccountService {
 
   static async deleteAccount(id: number): Promise<void> {
     const db = await getDatabase();
+    await db.run('DELETE FROM account_permissions WHERE account_id = ?', [id]);
     await db.run('DELETE FROM accounts WHERE id = ?', [id]);
   }
 
@@ -387,7 +439,7 @@ export class AccountService {
     
     return {
       ...account,
-      iban_encrypted: account.iban_encrypted ? decryptIBAN(account.iban_encrypted) : ''
+      iban_encrypted: account.iban_encrypted ? decryptAccountIban(account.iban_encrypted) : ''
     };
   }
 }
@@ -429,14 +481,21 @@ export class BalanceService {
     ) as Balance[];
   }
 
-  static async getBalancesByFamilyId(familyId: number): Promise<Balance[]> {
+  static async getBalancesByFamilyId(familyId: number, viewer?: AccountViewer): Promise<Balance[]> {
     const db = await getDatabase();
+    const visible = AccountAccessService.visibleCondition(viewer);
     return await db.all(`
       SELECT b.* FROM balances b
       JOIN accounts a ON b.account_id = a.id
-      WHERE a.family_id = ?
+      WHERE a.family_id = ? AND ${visible.sql}
       ORDER BY b.date DESC
-    `, [familyId]) as Balance[];
+    `, [familyId, ...visible.params]) as Balance[];
+  }
+
+  static async getBalanceById(id: number): Promise<Balance | null> {
+    const db = await getDatabase();
+    const balance = await db.get('SELECT * FROM balances WHERE id = ?', [id]) as Balance | undefined;
+    return balance || null;
   }
 
   static async updateBalance(id: number, amount: number, date: string): Promise<void> {
@@ -452,46 +511,49 @@ export class BalanceService {
     await db.run('DELETE FROM balances WHERE id = ?', [id]);
   }
 
-  static async getDashboardData(familyId: number): Promise<{
-    total_banking: number;
-    total_investment: number;
-    total_debt: number;
-    net_worth: number;
-    month_over_month_change: number;
-  }> {
+  /**
+   * Family totals. With a viewer, accounts hidden from them only count when their owner
+   * shares them in the family totals, and their balances are left out of converted_balances.
+   */
+  static async getDashboardData(familyId: number, viewer?: AccountViewer): Promise<DashboardData> {
     const db = await getDatabase();
-    
-    const currentTotals = await db.get(`
+    const converter = await ExchangeRateService.getConverter(familyId);
+    const visible = AccountAccessService.visibleCondition(viewer);
+    const counted = `(${visible.sql} OR a.count_in_family_totals = 1)`;
+
+    // Latest balance per account; each one is converted with the rate nearest its own date
+    const currentBalances = await db.all(`
       SELECT 
-        SUM(CASE WHEN a.category = 'Banking' THEN COALESCE(b.amount, 0) ELSE 0 END) as total_banking,
-        SUM(CASE WHEN a.category = 'Investment' THEN COALESCE(b.amount, 0) ELSE 0 END) as total_investment,
-        SUM(CASE WHEN a.category = 'Debt' THEN COALESCE(b.amount, 0) ELSE 0 END) as total_debt,
-        (SUM(CASE WHEN a.category = 'Banking' THEN COALESCE(b.amount, 0) ELSE 0 END) + 
-         SUM(CASE WHEN a.category = 'Investment' THEN COALESCE(b.amount, 0) ELSE 0 END) - 
-         SUM(CASE WHEN a.category = 'Debt' THEN COALESCE(b.amount, 0) ELSE 0 END)) as net_worth
+        a.id as account_id,
+        a.category,
+        a.currency,
+        b.amount,
+        b.date,
+        CASE WHEN ${visible.sql} THEN 1 ELSE 0 END as visible
       FROM accounts a
-      LEFT JOIN (
+      JOIN (
         SELECT 
           account_id,
           amount,
+          date,
           ROW_NUMBER() OVER (PARTITION BY account_id ORDER BY created_at DESC, id DESC) as rn
         FROM balances
       ) b ON a.id = b.account_id AND b.rn = 1
-      WHERE a.family_id = ?
-    `, [familyId]) as any;
-    
+      WHERE a.family_id = ? AND ${counted}
+    `, [...visible.params, familyId, ...visible.params]) as Array<{ account_id: number; category: Account['category']; currency: string; amount: number; date: string; visible: number }>;
 
     const lastMonth = new Date();
     lastMonth.setMonth(lastMonth.getMonth() - 1);
     const lastMonthStr = lastMonth.toISOString().split('T')[0];
 
-    const lastMonthTotals = await db.get(`
+    const lastMonthBalances = await db.all(`
       SELECT 
-        (SUM(CASE WHEN a.category = 'Banking' THEN COALESCE(b.amount, 0) ELSE 0 END) + 
-         SUM(CASE WHEN a.category = 'Investment' THEN COALESCE(b.amount, 0) ELSE 0 END) - 
-         SUM(CASE WHEN a.category = 'Debt' THEN COALESCE(b.amount, 0) ELSE 0 END)) as last_month_net_worth
+        a.category,
+        a.currency,
+        b.amount,
+        b.date
       FROM accounts a
-      LEFT JOIN (
+      JOIN (
         SELECT 
           account_id,
           amount,
@@ -500,19 +562,43 @@ export class BalanceService {
         FROM balances
         WHERE date <= ?
       ) b ON a.id = b.account_id AND b.rn = 1
-      WHERE a.family_id = ?
-    `, [lastMonthStr, lastMonthStr, familyId]) as any;
+      WHERE a.family_id = ? AND ${counted}
+    `, [lastMonthStr, lastMonthStr, familyId, ...visible.params]) as Array<{ category: Account['category']; currency: string; amount: number; date: string }>;
+
+    const totals = { Banking: 0, Investment: 0, Debt: 0 };
+    const convertedBalances: Record<number, number> = {};
+    let privateAccounts = 0;
+    for (const row of currentBalances) {
+      const converted = converter.convert(row.amount || 0, row.currency, row.date);
+      if (row.visible) {
+        convertedBalances[row.account_id] = converted;
+      } else {
+        privateAccounts++;
+      }
+      totals[row.category] += converted;
+    }
+    const netWorth = totals.Banking + totals.Investment - totals.Debt;
+
+    const lastMonthTotals = { Banking: 0, Investment: 0, Debt: 0 };
+    for (const row of lastMonthBalances) {
+      lastMonthTotals[row.category] += converter.convert(row.amount || 0, row.currency, row.date);
+    }
+    const lastMonthNetWorth = lastMonthTotals.Banking + lastMonthTotals.Investment - lastMonthTotals.Debt;
 
-    const monthOverMonthChange = lastMonthTotals?.last_month_net_worth > 0
-      ? ((currentTotals.net_worth - lastMonthTotals.last_month_net_worth) / lastMonthTotals.last_month_net_worth) * 100
+    const monthOverMonthChange = lastMonthNetWorth > 0
+      ? ((netWorth - lastMonthNetWorth) / lastMonthNetWorth) * 100
       : 0;
 
     return {
-      total_banking: currentTotals.total_banking || 0,
-      total_investment: currentTotals.total_investment || 0,
-      total_debt: currentTotals.total_debt || 0,
-      net_worth: currentTotals.net_worth || 0,
-      month_over_month_change: monthOverMonthChange
+      total_banking: totals.Banking,
+      total_investment: totals.Investment,
+      total_debt: totals.Debt,
+      net_worth: netWorth,
+      month_over_month_change: monthOverMonthChange,
+      base_currency: converter.baseCurrency,
+      converted_balances: convertedBalances,
+      missing_rates: Array.from(converter.missingRates),
+      private_accounts: privateAccounts,
     };
   }
 }
\ No newline at end of file
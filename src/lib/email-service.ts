@@ -30,6 +30,7 @@ export interface SendEmailOptions {
     content: Buffer | string;
     contentType?: string;
   }>;
+  headers?: Record<string, string>;
 }
 
 export class EmailService {
@@ -93,7 +94,8 @@ export class EmailService {
         subject: options.subject,
         html: options.html,
         text: options.text,
-        attachments: options.attachments
+        attachments: options.attachments,
+        headers: options.headers
       });
 
       return {
@@ -0,0 +1,201 @@
+import type { Alert, AlertDetails, AlertRuleType, NotificationLocale } from '@/types';
+
+export interface AlertTemplateOptions {
+  locale: NotificationLocale;
+  unsubscribeUrl?: string;
+}
+
+export class AlertTemplate {
+
+  static generate(alerts: Alert[], options: AlertTemplateOptions): { subject: string; html: string; text: string } {
+    const t = options.locale === 'es' ? spanishTranslations : englishTranslations;
+
+    const subject = alerts.length === 1
+      ? `${t.alert}: ${alerts[0].rule_name}`
+      : `${t.alerts}: ${alerts.length} ${t.newAlerts}`;
+
+    const lines = alerts.map(alert => ({
+      name: alert.rule_name || '',
+      message: this.formatMessage(alert.rule_type!, alert.details, t),
+    }));
+
+    const html = this.generateHTML(lines, t, options.unsubscribeUrl);
+    const text = this.generateText(lines, t, options.unsubscribeUrl);
+
+    return { subject, html, text };
+  }
+
+  /**
+   * Human readable description of what fired, in the recipient's language
+   */
+  private static formatMessage(type: AlertRuleType, details: AlertDetails, t: TranslationStrings): string {
+    const money = (amount?: number) => this.formatMoney(amount ?? 0, details.currency || 'EUR', t);
+    const values: Record<string, string> = {
+      account: details.accountName || '',
+      category: details.categoryName || '',
+      description: details.description || '',
+      amount: money(details.amount),
+      threshold: type === 'stale_balance' || type === 'debt_milestone' ? String(details.threshold) : money(details.threshold),
+      date: details.date || '',
+      days: String(details.days ?? ''),
+      months: String(details.remainingMonths ?? ''),
+    };
+    return t.messages[type].replace(/\{(\w+)\}/g, (_, key: string) => values[key] ?? '');
+  }
+
+  private static generateHTML(lines: Array<{ name: string; message: string }>, t: TranslationStrings, unsubscribeUrl?: string): string {
+    return `
+<!DOCTYPE html>
+<html lang="${t.locale}" dir="ltr">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${t.alerts}</title>
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      line-height: 1.6;
+      color: #1e293b;
+      background-color: #f8fafc;
+      margin: 0;
+      padding: 20px;
+    }
+    .container {
+      max-width: 600px;
+      margin: 0 auto;
+      background: white;
+      border-radius: 12px;
+      overflow: hidden;
+      box-shadow: 0 4px 6px rgba(0, 0, 0, 0.05);
+    }
+    .header {
+      background: #f59e0b;
+      color: white;
+      padding: 24px;
+    }
+    .header h1 {
+      margin: 0;
+      font-size: 22px;
+    }
+    .content {
+      padding: 24px;
+    }
+    .alert {
+      border-left: 4px solid #f59e0b;
+      background: #fffbeb;
+      border-radius: 6px;
+      padding: 12px 16px;
+      margin-bottom: 12px;
+    }
+    .alert strong {
+      display: block;
+      margin-bottom: 4px;
+    }
+    .footer {
+      background: #f8fafc;
+      padding: 24px;
+      text-align: center;
+      color: #64748b;
+      font-size: 14px;
+      border-top: 1px solid #e2e8f0;
+    }
+    .unsubscribe {
+      margin-top: 16px;
+    }
+    .unsubscribe a {
+      color: #6366f1;
+      text-decoration: none;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${t.alerts}</h1>
+    </div>
+    <div class="content">
+      ${lines.map(line => `
+      <div class="alert">
+        <strong>${line.name}</strong>
+        ${line.message}
+      </div>
+      `).join('')}
+    </div>
+    <div class="footer">
+      <div>${t.manage}</div>
+      <div style="margin-top: 8px;">${t.fromApp}</div>
+      ${unsubscribeUrl ? `
+      <div class="unsubscribe">
+        <a href="${unsubscribeUrl}">${t.unsubscribe}</a>
+      </div>
+      ` : ''}
+    </div>
+  </div>
+</body>
+</html>
+    `.trim();
+  }
+
+  private static generateText(lines: Array<{ name: string; message: string }>, t: TranslationStrings, unsubscribeUrl?: string): string {
+    let text = `${t.alerts}\n\n`;
+    lines.forEach(line => {
+      text += `• ${line.name}: ${line.message}\n`;
+    });
+    text += `\n${t.manage}\n${t.fromApp}`;
+
+    if (unsubscribeUrl) {
+      text += `\n\n${t.unsubscribe}: ${unsubscribeUrl}`;
+    }
+
+    return text;
+  }
+
+  private static formatMoney(amount: number, currency: string, t: TranslationStrings): string {
+    return new Intl.NumberFormat(t.locale === 'es' ? 'es-ES' : 'en-US', { style: 'currency', currency }).format(amount);
+  }
+}
+
+interface TranslationStrings {
+  locale: string;
+  alert: string;
+  alerts: string;
+  newAlerts: string;
+  messages: Record<AlertRuleType, string>;
+  manage: string;
+  fromApp: string;
+  unsubscribe: string;
+}
+
+const englishTranslations: TranslationStrings = {
+  locale: 'en',
+  alert: 'Alert',
+  alerts: 'Alerts',
+  newAlerts: 'new alerts',
+  messages: {
+    balance_below: '{account} is at {amount} on {date}, below {threshold}.',
+    category_spending_above: 'Spending in {category} reached {amount} in {date}, above {threshold}.',
+    transaction_above: '{description} ({account}, {date}): {amount}, over {threshold}.',
+    stale_balance: '{account} has not been updated for {days} days (last balance on {date}).',
+    debt_milestone: '{account} has {months} months left to pay.',
+  },
+  manage: 'Manage your alert rules on the Alerts page.',
+  fromApp: 'Family Wealth Tracker',
+  unsubscribe: 'Stop alert emails'
+};
+
+const spanishTranslations: TranslationStrings = {
+  locale: 'es',
+  alert: 'Alerta',
+  alerts: 'Alertas',
+  newAlerts: 'alertas nuevas',
+  messages: {
+    balance_below: '{account} está en {amount} el {date}, por debajo de {threshold}.',
+    category_spending_above: 'El gasto en {category} llegó a {amount} en {date}, por encima de {threshold}.',
+    transaction_above: '{description} ({account}, {date}): {amount}, más de {threshold}.',
+    stale_balance: '{account} lleva {days} días sin actualizarse (último saldo el {date}).',
+    debt_milestone: 'A {account} le quedan {months} meses por pagar.',
+  },
+  manage: 'Gestiona tus reglas de alerta en la página de Alertas.',
+  fromApp: 'Family Wealth Tracker',
+  unsubscribe: 'Dejar de recibir alertas por email'
+};
@@ -0,0 +1,503 @@
+import type { PeriodicReportData, ReportTotals } from '@/types';
+import type { EmailTemplateOptions } from './weekly-report-template';
+
+export class PeriodicReportTemplate {
+
+  static generate(data: PeriodicReportData, options: EmailTemplateOptions): { subject: string; html: string; text: string } {
+    const { locale, customMessage, unsubscribeUrl } = options;
+    const t = locale === 'es' ? spanishTranslations : englishTranslations;
+
+    const title = data.type === 'yearly' ? t.yearlyReport : t.monthlyReport;
+    const subject = `${data.familyName} - ${title} (${this.formatPeriod(data, t)})`;
+
+    const html = this.generateHTML(data, t, title, customMessage, unsubscribeUrl);
+    const text = this.generateText(data, t, title, customMessage, unsubscribeUrl);
+
+    return { subject, html, text };
+  }
+
+  private static generateHTML(
+    data: PeriodicReportData,
+    t: TranslationStrings,
+    title: string,
+    customMessage?: string,
+    unsubscribeUrl?: string
+  ): string {
+    const { totals, previousTotals, familyName } = data;
+    const money = (amount: number) => this.formatMoney(amount, data.currency);
+
+    return `
+<!DOCTYPE html>
+<html lang="${t.locale}" dir="ltr">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <style>
+    body {
+      margin: 0;
+      padding: 0;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      line-height: 1.6;
+      background-color: #f9fafb;
+    }
+    .container {
+      max-width: 600px;
+      margin: 0 auto;
+      background-color: #ffffff;
+      box-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.1);
+    }
+    .header {
+      background: linear-gradient(135deg, #2563eb 0%, #3b82f6 100%);
+      color: white;
+      padding: 24px;
+      text-align: center;
+    }
+    .header h1 {
+      margin: 0;
+      font-size: 28px;
+      font-weight: 600;
+    }
+    .period {
+      margin-top: 8px;
+      font-size: 16px;
+      opacity: 0.9;
+    }
+    .content {
+      padding: 24px;
+    }
+    .summary-grid {
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: 16px;
+      margin-bottom: 32px;
+    }
+    .summary-card {
+      background: #f8fafc;
+      border: 1px solid #e2e8f0;
+      border-radius: 8px;
+      padding: 20px;
+      text-align: center;
+    }
+    .summary-card.highlight {
+      background: linear-gradient(135deg, #fef3c7 0%, #fef9e7 100%);
+      border-color: #f59e0b;
+    }
+    .summary-title {
+      font-size: 14px;
+      color: #64748b;
+      margin-bottom: 8px;
+      font-weight: 500;
+    }
+    .summary-amount {
+      font-size: 24px;
+      font-weight: 700;
+      color: #1e293b;
+      margin-bottom: 4px;
+    }
+    .summary-change {
+      font-size: 13px;
+      color: #64748b;
+    }
+    .positive { color: #10b981; }
+    .negative { color: #ef4444; }
+    .section {
+      margin-top: 32px;
+    }
+    .section-title {
+      font-size: 20px;
+      font-weight: 600;
+      color: #1e293b;
+      margin-bottom: 16px;
+      border-bottom: 2px solid #e2e8f0;
+      padding-bottom: 8px;
+    }
+    .report-table {
+      width: 100%;
+      border-collapse: collapse;
+      margin-bottom: 24px;
+    }
+    .report-table th {
+      background: #f1f5f9;
+      color: #475569;
+      font-weight: 600;
+      font-size: 14px;
+      padding: 12px;
+      text-align: left;
+      border-bottom: 2px solid #e2e8f0;
+    }
+    .report-table td {
+      padding: 12px;
+      border-bottom: 1px solid #f1f5f9;
+      font-size: 14px;
+    }
+    .swatch {
+      display: inline-block;
+      width: 10px;
+      height: 10px;
+      border-radius: 50%;
+      margin-right: 6px;
+    }
+    .custom-message {
+      background: #f0f9ff;
+      border: 1px solid #7dd3fc;
+      border-radius: 8px;
+      padding: 16px;
+      margin-bottom: 24px;
+      color: #0369a1;
+    }
+    .footer {
+      background: #f8fafc;
+      padding: 24px;
+      text-align: center;
+      color: #64748b;
+      font-size: 14px;
+      border-top: 1px solid #e2e8f0;
+    }
+    .unsubscribe {
+      margin-top: 16px;
+    }
+    .unsubscribe a {
+      color: #6366f1;
+      text-decoration: none;
+    }
+    @media (max-width: 480px) {
+      .summary-grid {
+        grid-template-columns: 1fr;
+      }
+      .report-table th,
+      .report-table td {
+        padding: 8px;
+      }
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <!-- Header -->
+    <div class="header">
+      <h1>${familyName}</h1>
+      <div class="period">${title} • ${this.formatPeriod(data, t)}</div>
+    </div>
+
+    <div class="content">
+      ${customMessage ? `
+        <div class="custom-message">
+          <strong>${t.personalNote}:</strong> ${customMessage}
+        </div>
+      ` : ''}
+
+      <!-- Summary Grid -->
+      <div class="summary-grid">
+        <div class="summary-card">
+          <div class="summary-title">${t.income}</div>
+          <div class="summary-amount positive">${money(totals.income)}</div>
+          <div class="summary-change">${t.previous}: ${money(previousTotals.income)}</div>
+        </div>
+
+        <div class="summary-card">
+          <div class="summary-title">${t.expenses}</div>
+          <div class="summary-amount negative">${money(totals.expenses)}</div>
+          <div class="summary-change">${t.previous}: ${money(previousTotals.expenses)}</div>
+        </div>
+
+        <div class="summary-card">
+          <div class="summary-title">${t.net}</div>
+          <div class="summary-amount ${totals.net >= 0 ? 'positive' : 'negative'}">${money(totals.net)}</div>
+          <div class="summary-change">${t.previous}: ${money(previousTotals.net)}</div>
+        </div>
+
+        <div class="summary-card highlight">
+          <div class="summary-title">${t.savingsRate}</div>
+          <div class="summary-amount">${this.formatRate(totals)}</div>
+          <div class="summary-change">${t.previous}: ${this.formatRate(previousTotals)}</div>
+        </div>
+      </div>
+
+      <!-- Top Categories -->
+      <div class="section">
+        <h2 class="section-title">${t.topCategories}</h2>
+        ${data.topCategories.length === 0 ? `<p style="color: #64748b; font-style: italic;">${t.noExpenses}</p>` : `
+        <table class="report-table">
+          <tbody>
+            ${data.topCategories.map(cat => `
+              <tr>
+                <td><span class="swatch" style="background: ${cat.categoryColor};"></span>${cat.categoryName}</td>
+                <td style="text-align: right; font-weight: 600;">${money(cat.amount)}</td>
+                <td style="text-align: right; color: #64748b;">${cat.percentage.toFixed(1)}%</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        `}
+      </div>
+
+      ${data.biggestMovers.length > 0 ? `
+      <!-- Biggest Movers -->
+      <div class="section">
+        <h2 class="section-title">${t.biggestMovers}</h2>
+        <table class="report-table">
+          <thead>
+            <tr>
+              <th>${t.category}</th>
+              <th style="text-align: right;">${t.previous}</th>
+              <th style="text-align: right;">${t.current}</th>
+              <th style="text-align: right;">${t.change}</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${data.biggestMovers.map(m => `
+              <tr>
+                <td><span class="swatch" style="background: ${m.categoryColor};"></span>${m.categoryName}</td>
+                <td style="text-align: right;">${money(m.previousAmount)}</td>
+                <td style="text-align: right;">${money(m.amount)}</td>
+                <td style="text-align: right;" class="${m.change > 0 ? 'negative' : 'positive'}">${m.change > 0 ? '+' : ''}${money(m.change)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+      ` : ''}
+
+      ${data.debts.length > 0 ? `
+      <!-- Debt Paydown -->
+      <div class="section">
+        <h2 class="section-title">${t.debtPaydown}: ${money(data.totalDebtPaydown)}</h2>
+        <table class="report-table">
+          <thead>
+            <tr>
+              <th>${t.account}</th>
+              <th style="text-align: right;">${t.balance}</th>
+              <th style="text-align: right;">${t.paidDown}</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${data.debts.map(d => `
+              <tr>
+                <td>
+                  <strong>${d.accountName}</strong>
+                  ${d.isSettled ? `<br><small class="positive">${t.settled}</small>` : d.payoffDate ? `<br><small>${t.payoffDate}: ${d.payoffDate}</small>` : ''}
+                </td>
+                <td style="text-align: right;">${money(d.startBalance)} → ${money(d.endBalance)}</td>
+                <td style="text-align: right;" class="${d.paidDown >= 0 ? 'positive' : 'negative'}">${money(d.paidDown)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+      ` : ''}
+
+      ${data.months.length > 0 ? `
+      <!-- Month by Month -->
+      <div class="section">
+        <h2 class="section-title">${t.monthByMonth}</h2>
+        <table class="report-table">
+          <thead>
+            <tr>
+              <th>${t.month}</th>
+              <th style="text-align: right;">${t.income}</th>
+              <th style="text-align: right;">${t.expenses}</th>
+              <th style="text-align: right;">${t.savingsRate}</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${data.months.map(m => `
+              <tr>
+                <td>${this.formatMonth(m.month, t)}</td>
+                <td style="text-align: right;">${money(m.income)}</td>
+                <td style="text-align: right;">${money(m.expenses)}</td>
+                <td style="text-align: right;" class="${m.net >= 0 ? 'positive' : 'negative'}">${this.formatRate(m)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+      ` : ''}
+    </div>
+
+    <!-- Footer -->
+    <div class="footer">
+      <div>${t.generatedAt}: ${new Date(data.generatedAt).toLocaleDateString(t.locale === 'es' ? 'es-ES' : 'en-US')}</div>
+      <div style="margin-top: 8px;">${t.fromApp}</div>
+      ${unsubscribeUrl ? `
+      <div class="unsubscribe">
+        <a href="${unsubscribeUrl}">${data.type === 'yearly' ? t.unsubscribeYearly : t.unsubscribeMonthly}</a>
+      </div>
+      ` : ''}
+    </div>
+  </div>
+</body>
+</html>
+    `.trim();
+  }
+
+  private static generateText(
+    data: PeriodicReportData,
+    t: TranslationStrings,
+    title: string,
+    customMessage?: string,
+    unsubscribeUrl?: string
+  ): string {
+    const { totals, previousTotals } = data;
+    const money = (amount: number) => this.formatMoney(amount, data.currency);
+
+    let text = `${data.familyName} - ${title}\n`;
+    text += `${t.period}: ${this.formatPeriod(data, t)}\n\n`;
+
+    if (customMessage) {
+      text += `${t.personalNote}: ${customMessage}\n\n`;
+    }
+
+    text += `• ${t.income}: ${money(totals.income)} (${t.previous}: ${money(previousTotals.income)})\n`;
+    text += `• ${t.expenses}: ${money(totals.expenses)} (${t.previous}: ${money(previousTotals.expenses)})\n`;
+    text += `• ${t.net}: ${money(totals.net)} (${t.previous}: ${money(previousTotals.net)})\n`;
+    text += `• ${t.savingsRate}: ${this.formatRate(totals)} (${t.previous}: ${this.formatRate(previousTotals)})\n`;
+
+    if (data.topCategories.length > 0) {
+      text += `\n${t.topCategories}:\n`;
+      data.topCategories.forEach(cat => {
+        text += `• ${cat.categoryName}: ${money(cat.amount)} (${cat.percentage.toFixed(1)}%)\n`;
+      });
+    }
+
+    if (data.biggestMovers.length > 0) {
+      text += `\n${t.biggestMovers}:\n`;
+      data.biggestMovers.forEach(m => {
+        text += `• ${m.categoryName}: ${money(m.previousAmount)} → ${money(m.amount)} (${m.change > 0 ? '+' : ''}${money(m.change)})\n`;
+      });
+    }
+
+    if (data.debts.length > 0) {
+      text += `\n${t.debtPaydown}: ${money(data.totalDebtPaydown)}\n`;
+      data.debts.forEach(d => {
+        text += `• ${d.accountName}: ${money(d.startBalance)} → ${money(d.endBalance)} (${money(d.paidDown)})\n`;
+      });
+    }
+
+    if (data.months.length > 0) {
+      text += `\n${t.monthByMonth}:\n`;
+      data.months.forEach(m => {
+        text += `• ${this.formatMonth(m.month, t)}: ${money(m.income)} / ${money(m.expenses)} (${this.formatRate(m)})\n`;
+      });
+    }
+
+    text += `\n${t.generatedAt}: ${new Date(data.generatedAt).toLocaleDateString()}\n`;
+    text += `${t.fromApp}`;
+
+    if (unsubscribeUrl) {
+      text += `\n\n${data.type === 'yearly' ? t.unsubscribeYearly : t.unsubscribeMonthly}: ${unsubscribeUrl}`;
+    }
+
+    return text;
+  }
+
+  private static formatMoney(amount: number, currency: string): string {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  }
+
+  private static formatRate(totals: ReportTotals): string {
+    return totals.savingsRate === null ? '—' : `${totals.savingsRate.toFixed(1)}%`;
+  }
+
+  private static formatPeriod(data: PeriodicReportData, t: TranslationStrings): string {
+    return data.type === 'yearly' ? data.period.label : this.formatMonth(data.period.label, t);
+  }
+
+  private static formatMonth(month: string, t: TranslationStrings): string {
+    const [year, m] = month.split('-').map(Number);
+    return new Date(year, m - 1, 1).toLocaleDateString(t.locale === 'es' ? 'es-ES' : 'en-US', { month: 'long', year: 'numeric' });
+  }
+}
+
+interface TranslationStrings {
+  locale: string;
+  monthlyReport: string;
+  yearlyReport: string;
+  period: string;
+  income: string;
+  expenses: string;
+  net: string;
+  savingsRate: string;
+  previous: string;
+  current: string;
+  change: string;
+  topCategories: string;
+  noExpenses: string;
+  biggestMovers: string;
+  category: string;
+  debtPaydown: string;
+  account: string;
+  balance: string;
+  paidDown: string;
+  payoffDate: string;
+  settled: string;
+  monthByMonth: string;
+  month: string;
+  personalNote: string;
+  generatedAt: string;
+  fromApp: string;
+  unsubscribeMonthly: string;
+  unsubscribeYearly: string;
+}
+
+const englishTranslations: TranslationStrings = {
+  locale: 'en',
+  monthlyReport: 'Monthly Financial Report',
+  yearlyReport: 'Annual Financial Report',
+  period: 'Period',
+  income: 'Income',
+  expenses: 'Expenses',
+  net: 'Net Savings',
+  savingsRate: 'Savings Rate',
+  previous: 'Previous',
+  current: 'Current',
+  change: 'Change',
+  topCategories: 'Top Spending Categories',
+  noExpenses: 'No expenses recorded in this period.',
+  biggestMovers: 'Biggest Movers',
+  category: 'Category',
+  debtPaydown: 'Debt Paid Down',
+  account: 'Account',
+  balance: 'Balance',
+  paidDown: 'Paid Down',
+  payoffDate: 'Payoff',
+  settled: 'Settled',
+  monthByMonth: 'Month by Month',
+  month: 'Month',
+  personalNote: 'Personal Note',
+  generatedAt: 'Generated on',
+  fromApp: 'Family Wealth Tracker',
+  unsubscribeMonthly: 'Unsubscribe from monthly reports',
+  unsubscribeYearly: 'Unsubscribe from annual reports'
+};
+
+const spanishTranslations: TranslationStrings = {
+  locale: 'es',
+  monthlyReport: 'Resumen Financiero Mensual',
+  yearlyReport: 'Resumen Financiero Anual',
+  period: 'Período',
+  income: 'Ingresos',
+  expenses: 'Gastos',
+  net: 'Ahorro Neto',
+  savingsRate: 'Tasa de Ahorro',
+  previous: 'Anterior',
+  current: 'Actual',
+  change: 'Cambio',
+  topCategories: 'Categorías con Más Gasto',
+  noExpenses: 'No hay gastos registrados en este período.',
+  biggestMovers: 'Mayores Variaciones',
+  category: 'Categoría',
+  debtPaydown: 'Deuda Amortizada',
+  account: 'Cuenta',
+  balance: 'Saldo',
+  paidDown: 'Amortizado',
+  payoffDate: 'Fin previsto',
+  settled: 'Liquidada',
+  monthByMonth: 'Mes a Mes',
+  month: 'Mes',
+  personalNote: 'Nota Personal',
+  generatedAt: 'Generado el',
+  fromApp: 'Family Wealth Tracker',
+  unsubscribeMonthly: 'Darse de baja de los resúmenes mensuales',
+  unsubscribeYearly: 'Darse de baja de los resúmenes anuales'
+};
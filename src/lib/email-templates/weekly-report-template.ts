@@ -1,21 +1,23 @@
 import type { WeeklyReportData } from '../weekly-report-service';
+import type { BudgetProgress } from '@/types';
 
 export interface EmailTemplateOptions {
   locale: 'en' | 'es';
   includeCharts: boolean;
   customMessage?: string;
+  unsubscribeUrl?: string; // Signed one-click link for the recipient; test emails have none
 }
 
 export class WeeklyReportTemplate {
   
   static generate(data: WeeklyReportData, options: EmailTemplateOptions): { subject: string; html: string; text: string } {
-    const { locale, includeCharts, customMessage } = options;
+    const { locale, includeCharts, customMessage, unsubscribeUrl } = options;
     const t = locale === 'es' ? spanishTranslations : englishTranslations;
     
     const subject = `${data.familyName} - ${t.weeklyReport} (${data.period.start} - ${data.period.end})`;
     
-    const html = this.generateHTML(data, t, includeCharts, customMessage);
-    const text = this.generateText(data, t, customMessage);
+    const html = this.generateHTML(data, t, includeCharts, customMessage, unsubscribeUrl);
+    const text = this.generateText(data, t, customMessage, unsubscribeUrl);
     
     return { subject, html, text };
   }
@@ -24,12 +26,14 @@ export class WeeklyReportTemplate {
     data: WeeklyReportData, 
     t: TranslationStrings, 
     includeCharts: boolean,
-    customMessage?: string
+    customMessage?: string,
+    unsubscribeUrl?: string
   ): string {
     const { summary, accounts, period, familyName } = data;
     
     const netWorthChangeColor = summary.weekOverWeekChange >= 0 ? '#10b981' : '#ef4444';
     const netWorthChangeIcon = summary.weekOverWeekChange >= 0 ? '↗️' : '↘️';
+    const base = this.currencyPrefix(summary.baseCurrency);
     
     return `
 <!DOCTYPE html>
@@ -200,24 +204,24 @@ export class WeeklyReportTemplate {
       <div class="summary-grid">
         <div class="summary-card">
           <div class="summary-title">${t.banking}</div>
-          <div class="summary-amount">€${summary.totalBanking.toLocaleString()}</div>
+          <div class="summary-amount">${base}${summary.totalBanking.toLocaleString()}</div>
         </div>
         
         <div class="summary-card">
           <div class="summary-title">${t.investments}</div>
-          <div class="summary-amount">€${summary.totalInvestment.toLocaleString()}</div>
+          <div class="summary-amount">${base}${summary.totalInvestment.toLocaleString()}</div>
         </div>
         
         <div class="summary-card">
           <div class="summary-title">${t.debt}</div>
-          <div class="summary-amount debt-amount">€${summary.totalDebt.toLocaleString()}</div>
+          <div class="summary-amount debt-amount">${base}${summary.totalDebt.toLocaleString()}</div>
         </div>
         
         <div class="summary-card highlight">
           <div class="summary-title">${t.netWorth}</div>
-          <div class="summary-amount">€${summary.netWorth.toLocaleString()}</div>
+          <div class="summary-amount">${base}${summary.netWorth.toLocaleString()}</div>
           <div class="summary-change ${summary.weekOverWeekChange >= 0 ? 'positive' : 'negative'}">
-            ${netWorthChangeIcon} €${Math.abs(summary.weekOverWeekChange).toLocaleString()} 
+            ${netWorthChangeIcon} ${base}${Math.abs(summary.weekOverWeekChange).toLocaleString()} 
             (${summary.weekOverWeekPercentage.toFixed(2)}%)
           </div>
         </div>
@@ -227,17 +231,27 @@ export class WeeklyReportTemplate {
       <div class="accounts-section">
         <h2 class="section-title">${t.accountDetails}</h2>
         
-        ${this.generateAccountsTable(accounts, t)}
+        ${this.generateAccountsTable(accounts, t, summary.baseCurrency)}
       </div>
+
+      ${data.budgetsAtRisk.length > 0 ? `
+      <!-- Budgets Section -->
+      <div class="accounts-section">
+        <h2 class="section-title">${t.budgetsAtRisk}</h2>
+        ${this.generateBudgetsTable(data.budgetsAtRisk, t, summary.baseCurrency)}
+      </div>
+      ` : ''}
     </div>
 
     <!-- Footer -->
     <div class="footer">
       <div>${t.generatedAt}: ${new Date(data.generatedAt).toLocaleDateString(t.locale === 'es' ? 'es-ES' : 'en-US')}</div>
       <div style="margin-top: 8px;">${t.fromApp}</div>
+      ${unsubscribeUrl ? `
       <div class="unsubscribe">
-        <a href="#unsubscribe">${t.unsubscribe}</a>
+        <a href="${unsubscribeUrl}">${t.unsubscribe}</a>
       </div>
+      ` : ''}
     </div>
   </div>
 </body>
@@ -245,7 +259,7 @@ export class WeeklyReportTemplate {
     `.trim();
   }
 
-  private static generateAccountsTable(accounts: any[], t: TranslationStrings): string {
+  private static generateAccountsTable(accounts: any[], t: TranslationStrings, baseCurrency: string): string {
     if (accounts.length === 0) {
       return `<p style="color: #64748b; font-style: italic;">${t.noAccounts}</p>`;
     }
@@ -281,6 +295,9 @@ export class WeeklyReportTemplate {
                 <td>${account.currency}</td>
                 <td style="text-align: right; font-weight: 600;">
                   ${account.currency} ${account.currentBalance.toLocaleString()}
+                  ${account.currency !== baseCurrency
+                    ? `<br><small>≈ ${this.currencyPrefix(baseCurrency)}${account.convertedBalance.toLocaleString()}</small>`
+                    : ''}
                 </td>
                 <td style="text-align: right;" class="${account.weekChange >= 0 ? 'positive' : 'negative'}">
                   ${account.weekChange >= 0 ? '+' : ''}${account.currency} ${account.weekChange.toLocaleString()}
@@ -296,9 +313,42 @@ export class WeeklyReportTemplate {
     return html;
   }
 
-  private static generateText(data: WeeklyReportData, t: TranslationStrings, customMessage?: string): string {
+  private static generateBudgetsTable(budgets: BudgetProgress[], t: TranslationStrings, baseCurrency: string): string {
+    const base = this.currencyPrefix(baseCurrency);
+    return `
+        <table class="account-table">
+          <thead>
+            <tr>
+              <th>${t.budgetCategory}</th>
+              <th style="text-align: right;">${t.budgetSpent}</th>
+              <th style="text-align: right;">${t.budgetProjected}</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${budgets.map(b => `
+              <tr>
+                <td>
+                  <strong>${b.budget.category_name}</strong>${b.budget.user_name ? ` (${b.budget.user_name})` : ''}
+                  <br><small class="${b.status === 'over' ? 'negative' : ''}">${b.status === 'over' ? t.budgetOver : t.budgetAtRisk}</small>
+                </td>
+                <td style="text-align: right;">${base}${b.spent.toLocaleString()} / ${base}${b.available.toLocaleString()}</td>
+                <td style="text-align: right;" class="negative">${base}${b.projected.toLocaleString()}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+    `;
+  }
+
+  private static currencyPrefix(currency: string): string {
+    const symbols: Record<string, string> = { EUR: '€', USD: '$', GBP: '£', JPY: '¥' };
+    return symbols[currency] || `${currency} `;
+  }
+
+  private static generateText(data: WeeklyReportData, t: TranslationStrings, customMessage?: string, unsubscribeUrl?: string): string {
     const { summary, accounts, period, familyName } = data;
     
+    const base = this.currencyPrefix(summary.baseCurrency);
     let text = `${familyName} - ${t.weeklyReport}\n`;
     text += `${t.period}: ${this.formatWeekPeriod(period.start, period.end, t)}\n\n`;
     
@@ -307,13 +357,13 @@ export class WeeklyReportTemplate {
     }
     
     text += `${t.summary}:\n`;
-    text += `• ${t.banking}: €${summary.totalBanking.toLocaleString()}\n`;
-    text += `• ${t.investments}: €${summary.totalInvestment.toLocaleString()}\n`;
-    text += `• ${t.debt}: €${summary.totalDebt.toLocaleString()}\n`;
-    text += `• ${t.netWorth}: €${summary.netWorth.toLocaleString()}`;
+    text += `• ${t.banking}: ${base}${summary.totalBanking.toLocaleString()}\n`;
+    text += `• ${t.investments}: ${base}${summary.totalInvestment.toLocaleString()}\n`;
+    text += `• ${t.debt}: ${base}${summary.totalDebt.toLocaleString()}\n`;
+    text += `• ${t.netWorth}: ${base}${summary.netWorth.toLocaleString()}`;
     
     if (summary.weekOverWeekChange !== 0) {
-      text += ` (${summary.weekOverWeekChange >= 0 ? '+' : ''}€${summary.weekOverWeekChange.toLocaleString()}, ${summary.weekOverWeekPercentage.toFixed(2)}%)\n\n`;
+      text += ` (${summary.weekOverWeekChange >= 0 ? '+' : ''}${base}${summary.weekOverWeekChange.toLocaleString()}, ${summary.weekOverWeekPercentage.toFixed(2)}%)\n\n`;
     } else {
       text += '\n\n';
     }
@@ -321,14 +371,31 @@ export class WeeklyReportTemplate {
     text += `${t.accountDetails}:\n`;
     accounts.forEach(account => {
       text += `• ${account.name} (${account.category}): ${account.currency} ${account.currentBalance.toLocaleString()}`;
+      if (account.currency !== summary.baseCurrency) {
+        text += ` ≈ ${base}${account.convertedBalance.toLocaleString()}`;
+      }
       if (account.weekChange !== 0) {
         text += ` (${account.weekChange >= 0 ? '+' : ''}${account.currency} ${account.weekChange.toLocaleString()})`;
       }
       text += '\n';
     });
+
+    if (data.budgetsAtRisk.length > 0) {
+      text += `\n${t.budgetsAtRisk}:\n`;
+      data.budgetsAtRisk.forEach(b => {
+        text += `• ${b.budget.category_name}${b.budget.user_name ? ` (${b.budget.user_name})` : ''}: `;
+        text += `${base}${b.spent.toLocaleString()} / ${base}${b.available.toLocaleString()}, `;
+        text += `${t.budgetProjected.toLowerCase()} ${base}${b.projected.toLocaleString()}`;
+        text += ` - ${b.status === 'over' ? t.budgetOver : t.budgetAtRisk}\n`;
+      });
+    }
     
     text += `\n${t.generatedAt}: ${new Date(data.generatedAt).toLocaleDateString()}\n`;
     text += `${t.fromApp}`;
+
+    if (unsubscribeUrl) {
+      text += `\n\n${t.unsubscribe}: ${unsubscribeUrl}`;
+    }
     
     return text;
   }
@@ -367,6 +434,12 @@ interface TranslationStrings {
   fromApp: string;
   unsubscribe: string;
   noAccounts: string;
+  budgetsAtRisk: string;
+  budgetCategory: string;
+  budgetSpent: string;
+  budgetProjected: string;
+  budgetAtRisk: string;
+  budgetOver: string;
   categories: {
     Banking: string;
     Investment: string;
@@ -393,6 +466,12 @@ const englishTranslations: TranslationStrings = {
   fromApp: 'Family Wealth Tracker',
   unsubscribe: 'Unsubscribe from weekly reports',
   noAccounts: 'No accounts found for this family.',
+  budgetsAtRisk: 'Budgets at Risk',
+  budgetCategory: 'Category',
+  budgetSpent: 'Spent / Budget',
+  budgetProjected: 'Projected',
+  budgetAtRisk: 'Projected to exceed this month',
+  budgetOver: 'Already over budget',
   categories: {
     Banking: 'Banking',
     Investment: 'Investments',
@@ -419,6 +498,12 @@ const spanishTranslations: TranslationStrings = {
   fromApp: 'Family Wealth Tracker',
   unsubscribe: 'Darse de baja de los reportes semanales',
   noAccounts: 'No se encontraron cuentas para esta familia.',
+  budgetsAtRisk: 'Presupuestos en Riesgo',
+  budgetCategory: 'Categoría',
+  budgetSpent: 'Gastado / Presupuesto',
+  budgetProjected: 'Previsto',
+  budgetAtRisk: 'Se prevé superarlo este mes',
+  budgetOver: 'Presupuesto ya superado',
   categories: {
     Banking: 'Bancario',
     Investment: 'Inversiones',
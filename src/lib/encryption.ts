@@ -1,41 +1,226 @@
 import crypto from 'crypto';
 
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'default-dev-key-32-chars-long!!';
+// Development fallback only; refused when NODE_ENV is production
+const DEFAULT_ENCRYPTION_KEY = 'default-dev-key-32-chars-long!!';
 
+// Encrypted values look like "v2:<key id>:<iv>:<auth tag>:<ciphertext>" (base64 parts),
+// AES-256-GCM under a random data key. Data keys are stored in encryption_keys, wrapped
+// with a key derived from ENCRYPTION_KEY. Values from before look like "<iv>:<ciphertext>"
+// (hex, AES-256-CBC) and can still be read until the next key rotation rewrites them.
+const ENVELOPE_VERSION = 'v2';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const LEGACY_FORMAT = /^[0-9a-f]{32}:[0-9a-f]+$/i;
+
+export class DecryptionError extends Error {
+  constructor(message: string = 'Failed to decrypt value') {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+export interface DataKeyRecord {
+  id: string;
+  wrapped_key: string;
+  kek_salt: string;
+}
+
+interface KeyStore {
+  run: (sql: string, params?: unknown[]) => Promise<unknown>;
+  all: (sql: string, params?: unknown[]) => Promise<unknown[]>;
+}
+
+interface Keyring {
+  activeKeyId: string | null;
+  keys: Map<string, Buffer>;
+}
+
+// Next.js can load this module once per route bundle; keeping the keyring on globalThis
+// lets a rotation done by one route take effect in all of them
+const globalForKeyring = globalThis as typeof globalThis & { __encryptionKeyring?: Keyring };
+const keyring: Keyring = globalForKeyring.__encryptionKeyring ??= { activeKeyId: null, keys: new Map() };
+
+let warnedAboutDefaultKey = false;
+
+function masterSecret(): string {
+  const secret = process.env.ENCRYPTION_KEY;
+  if (secret && secret !== DEFAULT_ENCRYPTION_KEY) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('ENCRYPTION_KEY must be set to a secret value in production (generate one with: openssl rand -hex 32)');
+  }
+  if (!warnedAboutDefaultKey) {
+    console.warn('ENCRYPTION_KEY is not set, using the development default key');
+    warnedAboutDefaultKey = true;
+  }
+  return DEFAULT_ENCRYPTION_KEY;
+}
+
+/**
+ * Throws when the app would run with the built-in default key in production
+ */
+export function assertEncryptionKeyConfigured(): void {
+  masterSecret();
+}
+
+function seal(key: Buffer, plaintext: Buffer, associatedData: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(associatedData));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+}
+
+function open(key: Buffer, sealed: string, associatedData: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(Buffer.from(associatedData));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function wrapDataKey(id: string, key: Buffer, secret: string): Pick<DataKeyRecord, 'wrapped_key' | 'kek_salt'> {
+  const salt = crypto.randomBytes(16);
+  const kek = crypto.scryptSync(secret, salt, KEY_LENGTH);
+  return { wrapped_key: seal(kek, key, `data-key:${id}`), kek_salt: salt.toString('hex') };
+}
+
+function unwrapDataKey(record: DataKeyRecord, secret: string): Buffer {
+  const kek = crypto.scryptSync(secret, Buffer.from(record.kek_salt, 'hex'), KEY_LENGTH);
+  return open(kek, record.wrapped_key, `data-key:${record.id}`);
+}
+
+/**
+ * A new random data key, wrapped for storage in encryption_keys. It only becomes usable
+ * once passed to registerDataKey.
+ */
+export function createDataKey(): { record: DataKeyRecord; key: Buffer } {
+  const id = crypto.randomBytes(4).toString('hex');
+  const key = crypto.randomBytes(KEY_LENGTH);
+  return { record: { id, ...wrapDataKey(id, key, masterSecret()) }, key };
+}
+
+export function registerDataKey(id: string, key: Buffer, activate: boolean): void {
+  keyring.keys.set(id, key);
+  if (activate) keyring.activeKeyId = id;
+}
+
+export function activateDataKey(id: string): void {
+  if (!keyring.keys.has(id)) throw new Error(`Unknown encryption key ${id}`);
+  keyring.activeKeyId = id;
+}
+
+export function removeDataKey(id: string): void {
+  if (keyring.activeKeyId === id) throw new Error(`Encryption key ${id} is still active`);
+  keyring.keys.delete(id);
+}
+
+export function getActiveKeyId(): string | null {
+  return keyring.activeKeyId;
+}
+
+/**
+ * Loads the data keys, creating the first one on a new database. When ENCRYPTION_KEY was
+ * changed, ENCRYPTION_KEY_PREVIOUS lets the keys be unwrapped once and re-wrapped with the
+ * new value; the encrypted fields themselves don't change.
+ */
+export async function loadKeyring(db: KeyStore): Promise<void> {
+  const secret = masterSecret();
+  const previousSecret = process.env.ENCRYPTION_KEY_PREVIOUS;
+
+  let records = await db.all(
+    'SELECT id, wrapped_key, kek_salt FROM encryption_keys ORDER BY created_at, rowid'
+  ) as DataKeyRecord[];
+  if (records.length === 0) {
+    const { record } = createDataKey();
+    await db.run(
+      'INSERT INTO encryption_keys (id, wrapped_key, kek_salt) VALUES (?, ?, ?)',
+      [record.id, record.wrapped_key, record.kek_salt]
+    );
+    records = [record];
+  }
+
+  for (const record of records) {
+    let key: Buffer;
+    try {
+      key = unwrapDataKey(record, secret);
+    } catch {
+      if (!previousSecret) {
+        throw new Error(
+          `Encryption key ${record.id} cannot be unlocked with ENCRYPTION_KEY. If ENCRYPTION_KEY was changed, set ENCRYPTION_KEY_PREVIOUS to the old value.`
+        );
+      }
+      key = unwrapDataKey(record, previousSecret);
+      const rewrapped = wrapDataKey(record.id, key, secret);
+      await db.run(
+        'UPDATE encryption_keys SET wrapped_key = ?, kek_salt = ? WHERE id = ?',
+        [rewrapped.wrapped_key, rewrapped.kek_salt, record.id]
+      );
+    }
+    keyring.keys.set(record.id, key);
+  }
+
+  keyring.activeKeyId = records[records.length - 1].id;
+}
+
+/**
+ * Key id an encrypted value was written with, 'legacy' for the pre-v2 format, or null
+ * when the value isn't recognised
+ */
+export function getValueKeyId(value: string): string | null {
+  const parts = value.split(':');
+  if (parts[0] === ENVELOPE_VERSION && parts.length === 5) return parts[1];
+  return LEGACY_FORMAT.test(value) ? 'legacy' : null;
+}
+
+export function encryptWithKey(plaintext: string, keyId: string): string {
+  const key = keyring.keys.get(keyId);
+  if (!key) throw new Error(`Unknown encryption key ${keyId}`);
+  const prefix = `${ENVELOPE_VERSION}:${keyId}`;
+  return `${prefix}:${seal(key, Buffer.from(plaintext, 'utf8'), prefix)}`;
+}
+
+function decryptLegacy(value: string): string {
+  const [ivHex, encrypted] = value.split(':');
+  const secrets = [masterSecret(), process.env.ENCRYPTION_KEY_PREVIOUS].filter((s): s is string => !!s);
+  for (const secret of secrets) {
+    try {
+      const key = crypto.scryptSync(secret, 'salt', 32);
+      const decipher = crypto.createDecipheriv('aes-256-cbc', key, Buffer.from(ivHex, 'hex'));
+      return decipher.update(encrypted, 'hex', 'utf8') + decipher.final('utf8');
+    } catch {
+      // Try the next secret
+    }
+  }
+  throw new DecryptionError('Failed to decrypt legacy value');
+}
+
+/**
+ * Encrypts with the active data key. Used for IBANs and every other secret column.
+ */
 export function encryptIBAN(iban: string): string {
-  try {
-    const algorithm = 'aes-256-cbc';
-    const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
-    const iv = crypto.randomBytes(16);
-    
-    const cipher = crypto.createCipheriv(algorithm, key, iv);
-    let encrypted = cipher.update(iban, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    
-    return iv.toString('hex') + ':' + encrypted;
-  } catch (error) {
-    throw new Error('Failed to encrypt IBAN');
+  if (!keyring.activeKeyId) {
+    throw new Error('Encryption keys are not loaded yet');
   }
+  return encryptWithKey(iban, keyring.activeKeyId);
 }
 
+/**
+ * Decrypts a value written by encryptIBAN, or by the legacy scheme. Throws
+ * DecryptionError when the value was tampered with or its key is unavailable.
+ */
 export function decryptIBAN(encryptedData: string): string {
+  const keyId = getValueKeyId(encryptedData);
+  if (keyId === 'legacy') return decryptLegacy(encryptedData);
+  if (!keyId) throw new DecryptionError('Value is not in a known encrypted format');
+
+  const key = keyring.keys.get(keyId);
+  if (!key) throw new DecryptionError(`Unknown encryption key ${keyId}`);
+
+  const prefix = `${ENVELOPE_VERSION}:${keyId}`;
   try {
-    const parts = encryptedData.split(':');
-    if (parts.length !== 2) {
-      return encryptedData;
-    }
-    
-    const [ivHex, encrypted] = parts;
-    const algorithm = 'aes-256-cbc';
-    const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
-    const iv = Buffer.from(ivHex, 'hex');
-    
-    const decipher = crypto.createDecipheriv(algorithm, key, iv);
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-    
-    return decrypted;
-  } catch (error) {
-    return encryptedData;
-  }
-}
\ No newline at end of file
+    return open(key, encryptedData.slice(prefix.length + 1), prefix).toString('utf8');
+  } catch {
+    throw new DecryptionError();
+  }
+}
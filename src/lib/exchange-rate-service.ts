@@ -0,0 +1,186 @@
+import { getDatabase } from './database';
+import { currencySchema } from './validation';
+import { FamilyService } from './family-service';
+import type { Account, ExchangeRate } from '@/types';
+
+type Currency = Account['currency'];
+
+export interface ExchangeRateInput {
+  date: string;
+  currency: string;
+  rate: number;
+}
+
+export interface RateImportResult {
+  imported: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
+const DAY_MS = 86400000;
+
+/**
+ * Converts amounts into the family's base currency using the stored rate
+ * nearest to each amount's date (earlier or later). Currencies without any
+ * stored rate are passed through unchanged and reported in `missingRates`.
+ */
+export class CurrencyConverter {
+  readonly missingRates = new Set<string>();
+
+  constructor(
+    readonly baseCurrency: Currency,
+    private readonly rates: Map<string, Array<{ date: string; rate: number }>>
+  ) {}
+
+  rateFor(currency: string, date: string): number | null {
+    if (currency === this.baseCurrency) return 1;
+    const series = this.rates.get(currency);
+    if (!series || series.length === 0) return null;
+
+    // Binary search for the first rate on or after the date, then pick the closer neighbour
+    const target = Date.parse(date);
+    let lo = 0;
+    let hi = series.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (Date.parse(series[mid].date) < target) lo = mid + 1;
+      else hi = mid;
+    }
+    const after = series[lo];
+    const before = series[lo - 1];
+    if (!after) return before.rate;
+    if (!before) return after.rate;
+    const distBefore = Math.abs(target - Date.parse(before.date)) / DAY_MS;
+    const distAfter = Math.abs(Date.parse(after.date) - target) / DAY_MS;
+    return distBefore <= distAfter ? before.rate : after.rate;
+  }
+
+  convert(amount: number, currency: string, date: string): number {
+    const rate = this.rateFor(currency, date);
+    if (rate === null) {
+      this.missingRates.add(currency);
+      return amount;
+    }
+    return Math.round(amount * rate * 100) / 100;
+  }
+}
+
+function normalizeRateDate(value: string): string | null {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  return null;
+}
+
+export class ExchangeRateService {
+  static async getBaseCurrency(familyId: number): Promise<Currency> {
+    return (await FamilyService.getSettings(familyId)).base_currency;
+  }
+
+  /**
+   * Changing the base currency deletes the family's stored rates (see FamilyService.updateSettings)
+   */
+  static async setBaseCurrency(familyId: number, currency: Currency): Promise<void> {
+    await FamilyService.updateSettings(familyId, { base_currency: currency });
+  }
+
+  static async getRates(familyId: number): Promise<ExchangeRate[]> {
+    const db = await getDatabase();
+    return await db.all(
+      'SELECT * FROM exchange_rates WHERE family_id = ? ORDER BY date DESC, currency',
+      [familyId]
+    ) as ExchangeRate[];
+  }
+
+  /**
+   * Insert a rate, replacing any existing rate for the same currency and date
+   */
+  static async saveRate(familyId: number, data: ExchangeRateInput, source: ExchangeRate['source'] = 'manual'): Promise<void> {
+    const db = await getDatabase();
+    await db.run(
+      `INSERT INTO exchange_rates (family_id, date, currency, rate, source)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(family_id, currency, date) DO UPDATE SET
+         rate = excluded.rate, source = excluded.source, updated_at = CURRENT_TIMESTAMP`,
+      [familyId, data.date, data.currency, data.rate, source]
+    );
+  }
+
+  static async deleteRate(id: number, familyId: number): Promise<boolean> {
+    const db = await getDatabase();
+    const result = await db.run(
+      'DELETE FROM exchange_rates WHERE id = ? AND family_id = ?',
+      [id, familyId]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Validate a rate payload, returning an error message or null
+   */
+  static validateRate(data: Partial<ExchangeRateInput>, baseCurrency: string): string | null {
+    if (!data.date || !/^\d{4}-\d{2}-\d{2}$/.test(data.date) || isNaN(Date.parse(data.date))) {
+      return 'date must be YYYY-MM-DD';
+    }
+    if (!currencySchema.safeParse(data.currency).success) return 'Unsupported currency';
+    if (data.currency === baseCurrency) return 'Rates are not needed for the base currency';
+    if (typeof data.rate !== 'number' || !isFinite(data.rate) || data.rate <= 0) return 'rate must be a positive number';
+    return null;
+  }
+
+  /**
+   * Import rates from CSV text with `date,currency,rate` columns (header optional,
+   * `,` `;` or tab delimited; `;` files may use a decimal comma).
+   */
+  static async importCsv(familyId: number, csvText: string): Promise<RateImportResult> {
+    const baseCurrency = await this.getBaseCurrency(familyId);
+    const lines = csvText.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const result: RateImportResult = { imported: 0, errors: [] };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) continue;
+
+      const delimiter = line.includes(';') ? ';' : line.includes('\t') ? '\t' : ',';
+      const [dateRaw = '', currencyRaw = '', rateRaw = ''] = line.split(delimiter).map(f => f.trim().replace(/^"|"$/g, ''));
+
+      // Skip a header row
+      if (i === 0 && !normalizeRateDate(dateRaw)) continue;
+
+      const data: ExchangeRateInput = {
+        date: normalizeRateDate(dateRaw) || dateRaw,
+        currency: currencyRaw.toUpperCase(),
+        rate: parseFloat(delimiter === ';' ? rateRaw.replace(',', '.') : rateRaw),
+      };
+      const error = this.validateRate(data, baseCurrency);
+      if (error) {
+        result.errors.push({ row: i + 1, message: error });
+        continue;
+      }
+
+      await this.saveRate(familyId, data, 'csv');
+      result.imported++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Load the family's base currency and all its rates into a converter
+   */
+  static async getConverter(familyId: number): Promise<CurrencyConverter> {
+    const db = await getDatabase();
+    const baseCurrency = await this.getBaseCurrency(familyId);
+    const rows = await db.all(
+      'SELECT currency, date, rate FROM exchange_rates WHERE family_id = ? ORDER BY currency, date',
+      [familyId]
+    ) as Array<{ currency: string; date: string; rate: number }>;
+
+    const rates = new Map<string, Array<{ date: string; rate: number }>>();
+    for (const row of rows) {
+      if (!rates.has(row.currency)) rates.set(row.currency, []);
+      rates.get(row.currency)!.push({ date: row.date, rate: row.rate });
+    }
+    return new CurrencyConverter(baseCurrency, rates);
+  }
+}
@@ -0,0 +1,134 @@
+import { getDatabase } from './database';
+import type { Family, FamilyPreferences, NotificationLocale } from '@/types';
+
+const CURRENCIES: Family['base_currency'][] = ['EUR', 'USD', 'GBP', 'CHF', 'JPY', 'CAD', 'AUD'];
+const LOCALES: NotificationLocale[] = ['en', 'es'];
+const MAX_NAME_LENGTH = 100;
+
+// For a family_id without a families row, e.g. data left behind after its last member left
+const DEFAULT_SETTINGS: Omit<FamilyPreferences, 'name'> = {
+  base_currency: 'EUR',
+  locale: 'en',
+  timezone: 'UTC',
+  fiscal_year_start_month: 1,
+};
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Families and the preferences their members share: name, base currency, default
+ * language, timezone and fiscal year. Services that work on a familyId load them with
+ * getSettings.
+ */
+export class FamilyService {
+  static async getFamily(familyId: number): Promise<Family | null> {
+    const db = await getDatabase();
+    const family = await db.get('SELECT * FROM families WHERE id = ?', [familyId]) as Family | undefined;
+    return family || null;
+  }
+
+  static async getSettings(familyId: number): Promise<FamilyPreferences> {
+    const family = await this.getFamily(familyId);
+    if (!family) return { name: `Family ${familyId}`, ...DEFAULT_SETTINGS };
+
+    const { name, base_currency, locale, timezone, fiscal_year_start_month } = family;
+    return { name, base_currency, locale, timezone, fiscal_year_start_month };
+  }
+
+  /**
+   * Returns an error message when one of the given settings is not usable
+   */
+  static validate(updates: Partial<FamilyPreferences>): string | null {
+    if (updates.name !== undefined) {
+      const name = String(updates.name).trim();
+      if (!name) return 'A family name is required';
+      if (name.length > MAX_NAME_LENGTH) return `The family name can be at most ${MAX_NAME_LENGTH} characters`;
+    }
+    if (updates.base_currency !== undefined && !CURRENCIES.includes(updates.base_currency)) return 'Unsupported currency';
+    if (updates.locale !== undefined && !LOCALES.includes(updates.locale)) return 'Unsupported language';
+    if (updates.timezone !== undefined && !isValidTimezone(String(updates.timezone))) return 'Unknown timezone';
+    if (updates.fiscal_year_start_month !== undefined) {
+      const month = updates.fiscal_year_start_month;
+      if (!Number.isInteger(month) || month < 1 || month > 12) return 'Invalid fiscal year start month';
+    }
+    return null;
+  }
+
+  /**
+   * Creates a family and returns its id, which becomes the family_id of its members
+   */
+  static async createFamily(name: string, ownerId: number | null = null): Promise<number> {
+    const db = await getDatabase();
+    const result = await db.run(
+      'INSERT INTO families (name, owner_id) VALUES (?, ?)',
+      [name.trim().substring(0, MAX_NAME_LENGTH), ownerId]
+    );
+    return result.lastID;
+  }
+
+  static async updateSettings(familyId: number, updates: Partial<FamilyPreferences>): Promise<FamilyPreferences> {
+    const db = await getDatabase();
+    const fields: string[] = [];
+    const values: unknown[] = [];
+    for (const key of ['name', 'base_currency', 'locale', 'timezone', 'fiscal_year_start_month'] as const) {
+      if (updates[key] === undefined) continue;
+      fields.push(`${key} = ?`);
+      values.push(key === 'name' ? String(updates.name).trim() : updates[key]);
+    }
+
+    if (fields.length > 0) {
+      const previous = await this.getSettings(familyId);
+      await this.ensureFamily(familyId);
+      await db.run(
+        `UPDATE families SET ${fields.join(', ')}, updated_at = datetime('now') WHERE id = ?`,
+        [...values, familyId]
+      );
+      // Stored rates are quoted in the old base currency and would convert wrongly
+      // against the new one, so they have to be entered again
+      if (updates.base_currency !== undefined && updates.base_currency !== previous.base_currency) {
+        await db.run('DELETE FROM exchange_rates WHERE family_id = ?', [familyId]);
+      }
+    }
+    return this.getSettings(familyId);
+  }
+
+  static async setOwner(familyId: number, ownerId: number): Promise<void> {
+    const db = await getDatabase();
+    await this.ensureFamily(familyId);
+    await db.run(
+      "UPDATE families SET owner_id = ?, updated_at = datetime('now') WHERE id = ?",
+      [ownerId, familyId]
+    );
+  }
+
+  /**
+   * Families without a row yet (see DEFAULT_SETTINGS) get one on their first change
+   */
+  private static async ensureFamily(familyId: number): Promise<void> {
+    const db = await getDatabase();
+    await db.run(
+      'INSERT INTO families (id, name) VALUES (?, ?) ON CONFLICT(id) DO NOTHING',
+      [familyId, `Family ${familyId}`]
+    );
+  }
+
+  /**
+   * Today's date (YYYY-MM-DD) in the family's timezone
+   */
+  static today(settings: FamilyPreferences, now: Date = new Date()): string {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: settings.timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(now);
+  }
+}
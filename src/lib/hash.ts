@@ -5,8 +5,13 @@ export function computeSourceHash(
   date: string,
   amount: number,
   description: string,
-  detail: string
+  detail: string,
+  externalId?: string
 ): string {
-  const raw = `${accountId}|${date}|${amount}|${description}|${detail || ''}`;
+  // A bank-assigned id (OFX FITID, CAMT AcctSvcrRef) identifies the movement exactly,
+  // so two identical same-day charges are not collapsed into one
+  const raw = externalId
+    ? `${accountId}|ext|${externalId}`
+    : `${accountId}|${date}|${amount}|${description}|${detail || ''}`;
   return crypto.createHash('sha256').update(raw, 'utf8').digest('hex');
 }
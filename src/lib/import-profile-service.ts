@@ -0,0 +1,113 @@
+import { getDatabase } from './database';
+import { GenericCSVParser } from './parsers';
+import type { ImportProfile } from '@/types';
+
+type ImportProfileInput = Pick<ImportProfile,
+  'name' | 'delimiter' | 'date_format' | 'decimal_separator' | 'column_mapping' | 'default_currency'>;
+
+type ImportProfileRow = Omit<ImportProfile, 'column_mapping'> & { column_mapping: string };
+
+function rowToProfile(row: ImportProfileRow): ImportProfile {
+  return { ...row, column_mapping: JSON.parse(row.column_mapping) };
+}
+
+export class ImportProfileService {
+  static async getProfilesByFamily(familyId: number): Promise<ImportProfile[]> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      'SELECT * FROM import_profiles WHERE family_id = ? ORDER BY name',
+      [familyId]
+    ) as ImportProfileRow[];
+    return rows.map(rowToProfile);
+  }
+
+  static async getProfileById(id: number, familyId: number): Promise<ImportProfile | null> {
+    const db = await getDatabase();
+    const row = await db.get(
+      'SELECT * FROM import_profiles WHERE id = ? AND family_id = ?',
+      [id, familyId]
+    ) as ImportProfileRow | undefined;
+    return row ? rowToProfile(row) : null;
+  }
+
+  static async createProfile(familyId: number, data: ImportProfileInput): Promise<number> {
+    const db = await getDatabase();
+    const result = await db.run(
+      `INSERT INTO import_profiles (family_id, name, delimiter, date_format, decimal_separator, column_mapping, default_currency)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        familyId,
+        data.name,
+        data.delimiter,
+        data.date_format,
+        data.decimal_separator,
+        JSON.stringify(data.column_mapping),
+        data.default_currency || 'EUR',
+      ]
+    );
+    return result.lastID;
+  }
+
+  static async updateProfile(id: number, familyId: number, data: Partial<ImportProfileInput>): Promise<void> {
+    const db = await getDatabase();
+    const sets: string[] = [];
+    const params: unknown[] = [];
+
+    if (data.name !== undefined) { sets.push('name = ?'); params.push(data.name); }
+    if (data.delimiter !== undefined) { sets.push('delimiter = ?'); params.push(data.delimiter); }
+    if (data.date_format !== undefined) { sets.push('date_format = ?'); params.push(data.date_format); }
+    if (data.decimal_separator !== undefined) { sets.push('decimal_separator = ?'); params.push(data.decimal_separator); }
+    if (data.column_mapping !== undefined) { sets.push('column_mapping = ?'); params.push(JSON.stringify(data.column_mapping)); }
+    if (data.default_currency !== undefined) { sets.push('default_currency = ?'); params.push(data.default_currency); }
+
+    if (sets.length === 0) return;
+
+    sets.push("updated_at = datetime('now')");
+    params.push(id, familyId);
+    await db.run(
+      `UPDATE import_profiles SET ${sets.join(', ')} WHERE id = ? AND family_id = ?`,
+      params
+    );
+  }
+
+  static async deleteProfile(id: number, familyId: number): Promise<void> {
+    const db = await getDatabase();
+    await db.run('DELETE FROM import_profiles WHERE id = ? AND family_id = ?', [id, familyId]);
+  }
+
+  /**
+   * Validate a profile payload, returning an error message or null
+   */
+  static validate(data: Partial<ImportProfileInput>): string | null {
+    if (!data.name?.trim()) return 'name is required';
+    if (!data.delimiter || ![',', ';', '\t', '|'].includes(data.delimiter)) return 'Invalid delimiter';
+    if (!data.decimal_separator || ![',', '.'].includes(data.decimal_separator)) return 'Invalid decimal separator';
+    if (!data.date_format) return 'date_format is required';
+
+    const mapping = data.column_mapping;
+    if (!mapping?.date || !mapping?.description) return 'date and description columns are required';
+    if (!mapping.amount && !mapping.debit && !mapping.credit) {
+      return 'Either an amount column or debit/credit columns are required';
+    }
+    return null;
+  }
+
+  static toParser(profile: ImportProfile): GenericCSVParser {
+    return new GenericCSVParser({
+      name: profile.name,
+      delimiter: profile.delimiter,
+      dateFormat: profile.date_format,
+      decimalSeparator: profile.decimal_separator,
+      columns: profile.column_mapping,
+      defaultCurrency: profile.default_currency,
+    });
+  }
+
+  /**
+   * Parsers for every saved profile of a family, in the order they should be tried
+   */
+  static async getParsersForFamily(familyId: number): Promise<GenericCSVParser[]> {
+    const profiles = await this.getProfilesByFamily(familyId);
+    return profiles.map(p => this.toParser(p));
+  }
+}
@@ -0,0 +1,250 @@
+import crypto from 'crypto';
+import { getDatabase } from './database';
+import { UserService } from './db-operations';
+import { FamilyService } from './family-service';
+import { SessionService } from './session-service';
+import { NotificationCenterService } from './notification-center-service';
+import { systemLogger } from './system-logger';
+import type { FamilyInvitation, InvitationPreview, InvitationStatus, User, UserRole } from '@/types';
+
+type InvitationInput = {
+  role: UserRole;
+  expires_in_days?: number;
+};
+
+type InvitationRow = Omit<FamilyInvitation, 'status' | 'token'> & { nonce: string; expired: number };
+
+const INVITATION_ROLES: UserRole[] = ['administrator', 'user', 'guest'];
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 30;
+
+// No 0/O or 1/I/L, so a code read out loud or copied by hand still works
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+const SELECT_INVITATION = `
+  SELECT i.*, i.expires_at <= datetime('now') as expired,
+         c.name as created_by_name, a.name as accepted_by_name
+  FROM family_invitations i
+  LEFT JOIN users c ON c.id = i.created_by
+  LEFT JOIN users a ON a.id = i.accepted_by`;
+
+function sign(id: number, nonce: string): string {
+  const secret = process.env.SESSION_SECRET || 'default-dev-secret-32-chars-long!!';
+  return crypto.createHmac('sha256', secret).update(`invitation:${id}:${nonce}`).digest('base64url');
+}
+
+function generateCode(): string {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  }
+  return `${code.substring(0, 4)}-${code.substring(4)}`;
+}
+
+/**
+ * Codes are compared in their stored form, whatever case and separators were typed
+ */
+function normalizeCode(input: string): string {
+  const code = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return `${code.substring(0, 4)}-${code.substring(4)}`;
+}
+
+function getStatus(row: InvitationRow): InvitationStatus {
+  if (row.accepted_at) return 'accepted';
+  if (row.revoked_at) return 'revoked';
+  return row.expired ? 'expired' : 'pending';
+}
+
+function rowToInvitation(row: InvitationRow): FamilyInvitation {
+  const status = getStatus(row);
+  return {
+    id: row.id,
+    family_id: row.family_id,
+    code: row.code,
+    role: row.role,
+    created_by: row.created_by,
+    created_by_name: row.created_by_name,
+    expires_at: row.expires_at,
+    accepted_by: row.accepted_by,
+    accepted_by_name: row.accepted_by_name,
+    accepted_at: row.accepted_at,
+    revoked_at: row.revoked_at,
+    created_at: row.created_at,
+    status,
+    ...(status === 'pending' && { token: `${row.id}.${sign(row.id, row.nonce)}` }),
+  };
+}
+
+/**
+ * Invitations into a family, created by its administrators. Each one can be opened
+ * through a signed link token or typed in as a short code, and is used up by the
+ * first person who joins with it.
+ */
+export class InvitationService {
+  static async getInvitations(familyId: number): Promise<FamilyInvitation[]> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      `${SELECT_INVITATION}
+       WHERE i.family_id = ?
+       ORDER BY i.accepted_at IS NOT NULL OR i.revoked_at IS NOT NULL, i.created_at DESC, i.id DESC`,
+      [familyId]
+    ) as InvitationRow[];
+    return rows.map(rowToInvitation);
+  }
+
+  /**
+   * Returns an error message when the role or expiry are not usable
+   */
+  static validate(data: InvitationInput): string | null {
+    if (!INVITATION_ROLES.includes(data.role)) return 'Invalid role';
+    if (data.expires_in_days != null) {
+      const days = data.expires_in_days;
+      if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) return 'Invalid expiry';
+    }
+    return null;
+  }
+
+  static async createInvitation(admin: User, data: InvitationInput): Promise<FamilyInvitation> {
+    const db = await getDatabase();
+    const days = data.expires_in_days ?? DEFAULT_EXPIRY_DAYS;
+
+    const result = await db.run(
+      `INSERT INTO family_invitations (family_id, code, nonce, role, created_by, expires_at)
+       VALUES (?, ?, ?, ?, ?, datetime('now', ?))`,
+      [admin.family_id, generateCode(), crypto.randomBytes(16).toString('hex'), data.role, admin.id, `+${days} days`]
+    );
+
+    await systemLogger.logSuccess(
+      'auth',
+      'invitation_created',
+      `${admin.email} invited a new ${data.role} to family ${admin.family_id}`,
+      admin.family_id,
+      admin.id,
+      undefined,
+      { invitationId: result.lastID, role: data.role, expiresInDays: days }
+    );
+
+    const row = await db.get(`${SELECT_INVITATION} WHERE i.id = ?`, [result.lastID]) as InvitationRow;
+    return rowToInvitation(row);
+  }
+
+  static async revokeInvitation(id: number, admin: User): Promise<boolean> {
+    const db = await getDatabase();
+    const result = await db.run(
+      `UPDATE family_invitations SET revoked_at = datetime('now')
+       WHERE id = ? AND family_id = ? AND accepted_at IS NULL AND revoked_at IS NULL`,
+      [id, admin.family_id]
+    );
+    if (result.changes === 0) return false;
+
+    await systemLogger.logSuccess(
+      'auth',
+      'invitation_revoked',
+      `${admin.email} revoked invitation ${id}`,
+      admin.family_id,
+      admin.id
+    );
+    return true;
+  }
+
+  /**
+   * The pending invitation behind a link token or code, or null when it is unknown,
+   * used, revoked or expired
+   */
+  static async findPending(tokenOrCode: string): Promise<FamilyInvitation | null> {
+    const db = await getDatabase();
+    let row: InvitationRow | undefined;
+
+    const [id, signature] = tokenOrCode.trim().split('.');
+    if (signature) {
+      row = await db.get(`${SELECT_INVITATION} WHERE i.id = ?`, [parseInt(id) || 0]) as InvitationRow | undefined;
+      const expected = row ? Buffer.from(sign(row.id, row.nonce)) : null;
+      if (!expected || expected.length !== Buffer.byteLength(signature) || !crypto.timingSafeEqual(expected, Buffer.from(signature))) {
+        return null;
+      }
+    } else {
+      row = await db.get(`${SELECT_INVITATION} WHERE i.code = ?`, [normalizeCode(tokenOrCode)]) as InvitationRow | undefined;
+    }
+
+    if (!row || getStatus(row) !== 'pending') return null;
+    return rowToInvitation(row);
+  }
+
+  static async getPreview(invitation: FamilyInvitation): Promise<InvitationPreview> {
+    return {
+      familyName: (await FamilyService.getSettings(invitation.family_id)).name,
+      invitedBy: invitation.created_by_name || '',
+      role: invitation.role,
+      expires_at: invitation.expires_at,
+    };
+  }
+
+  /**
+   * Returns an error message when the user can't move into the invitation's family
+   */
+  static async checkCanJoin(invitation: FamilyInvitation, user: User): Promise<string | null> {
+    if (invitation.family_id === user.family_id) return 'You are already in this family';
+
+    // Leaving must not strand the rest of the family without an administrator
+    const members = await UserService.getUsersByFamilyId(user.family_id);
+    const admins = members.filter(member => member.role === 'administrator');
+    if (members.length > 1 && admins.length === 1 && admins[0].id === user.id) {
+      return 'Make another member an administrator before leaving this family';
+    }
+    const family = await FamilyService.getFamily(user.family_id);
+    if (members.length > 1 && family?.owner_id === user.id) {
+      return 'Transfer ownership of this family before leaving it';
+    }
+    return null;
+  }
+
+  /**
+   * Marks the invitation used by the given user. Returns false when someone else used
+   * it first, or it was revoked or expired in the meantime.
+   */
+  static async markAccepted(invitation: FamilyInvitation, userId: number): Promise<boolean> {
+    const db = await getDatabase();
+    const result = await db.run(
+      `UPDATE family_invitations SET accepted_by = ?, accepted_at = datetime('now')
+       WHERE id = ? AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > datetime('now')`,
+      [userId, invitation.id]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Moves an existing user into the invitation's family with its role. Their other
+   * sessions are signed out, since those still carry the old family.
+   */
+  static async join(invitation: FamilyInvitation, user: User, currentSessionKey?: string): Promise<boolean> {
+    if (!(await this.markAccepted(invitation, user.id))) return false;
+
+    await UserService.changeFamilyId(user.id, invitation.family_id);
+    await UserService.updateUserRole(user.id, invitation.role);
+    await SessionService.revokeAllSessions(user.id, currentSessionKey);
+    await this.announce(invitation, user);
+    return true;
+  }
+
+  /**
+   * Tells the family about a member who joined with an invitation
+   */
+  static async announce(invitation: FamilyInvitation, user: Pick<User, 'id' | 'email' | 'name'>): Promise<void> {
+    await NotificationCenterService.notifyFamily(
+      invitation.family_id,
+      'member_joined',
+      { name: user.name },
+      { link: '/members', excludeUserIds: [user.id] }
+    );
+    await systemLogger.logSuccess(
+      'auth',
+      'invitation_accepted',
+      `${user.email} joined family ${invitation.family_id} as ${invitation.role}`,
+      invitation.family_id,
+      user.id,
+      undefined,
+      { invitationId: invitation.id, role: invitation.role }
+    );
+  }
+}
@@ -0,0 +1,219 @@
+import { getDatabase } from './database';
+import {
+  createDataKey,
+  registerDataKey,
+  activateDataKey,
+  removeDataKey,
+  getActiveKeyId,
+  getValueKeyId,
+  encryptWithKey,
+  decryptIBAN,
+  type DataKeyRecord,
+} from './encryption';
+import { systemLogger } from './system-logger';
+import type { EncryptionKeyInfo, EncryptionStatus, KeyRotationProgress, User } from '@/types';
+
+// Every column written with encryptIBAN
+const ENCRYPTED_COLUMNS = [
+  { table: 'accounts', column: 'iban_encrypted' },
+  { table: 'family_settings', column: 'ai_api_key_encrypted' },
+  { table: 'webhooks', column: 'secret_encrypted' },
+  { table: 'two_factor_auth', column: 'secret_encrypted' },
+  { table: 'two_factor_auth', column: 'pending_secret_encrypted' },
+] as const;
+
+interface EncryptedValue {
+  table: string;
+  column: string;
+  rowid: number;
+  value: string;
+}
+
+// The last rotation started by this process, polled by the admin page
+let rotation: KeyRotationProgress | null = null;
+
+async function readEncryptedValues(): Promise<EncryptedValue[]> {
+  const db = await getDatabase();
+  const values: EncryptedValue[] = [];
+  for (const { table, column } of ENCRYPTED_COLUMNS) {
+    // Aliased: for tables with an INTEGER PRIMARY KEY, sqlite reports rowid under the key's name
+    const rows = await db.all(
+      `SELECT rowid as row_id, ${column} as value FROM ${table} WHERE ${column} IS NOT NULL AND ${column} != ''`
+    ) as Array<{ row_id: number; value: string }>;
+    values.push(...rows.map(row => ({ table, column, rowid: row.row_id, value: row.value })));
+  }
+  return values;
+}
+
+/**
+ * Re-encrypts the values not yet written with keyId (only those written with `from` when
+ * given), one row at a time. A row that changed since it was read is left alone, and
+ * passes repeat until none is left.
+ */
+async function reencryptValues(
+  keyId: string,
+  options: { from?: string; onPass?: (count: number) => void; onValue?: (value: EncryptedValue) => void } = {}
+): Promise<void> {
+  const db = await getDatabase();
+  for (;;) {
+    const pending = (await readEncryptedValues()).filter(value => {
+      const valueKeyId = getValueKeyId(value.value);
+      return options.from ? valueKeyId === options.from : valueKeyId !== keyId;
+    });
+    if (pending.length === 0) return;
+    options.onPass?.(pending.length);
+    for (const value of pending) {
+      options.onValue?.(value);
+      await db.run(
+        `UPDATE ${value.table} SET ${value.column} = ? WHERE rowid = ? AND ${value.column} = ?`,
+        [encryptWithKey(decryptIBAN(value.value), keyId), value.rowid, value.value]
+      );
+    }
+  }
+}
+
+/**
+ * Data key rotation: a new key is created and every encrypted column is re-encrypted
+ * with it row by row, after which the old keys are deleted. No transaction spans the
+ * job, since the connection is shared with the requests served meanwhile.
+ */
+export class KeyRotationService {
+  static async getStatus(): Promise<EncryptionStatus> {
+    const db = await getDatabase();
+    const keys = await db.all(
+      'SELECT id, created_at FROM encryption_keys ORDER BY created_at, rowid'
+    ) as Array<{ id: string; created_at: string }>;
+
+    const counts = new Map<string, number>();
+    for (const { value } of await readEncryptedValues()) {
+      const keyId = getValueKeyId(value) || 'unknown';
+      counts.set(keyId, (counts.get(keyId) || 0) + 1);
+    }
+
+    const activeKeyId = getActiveKeyId();
+    const keyInfo: EncryptionKeyInfo[] = keys.map(key => ({
+      id: key.id,
+      created_at: key.created_at,
+      active: key.id === activeKeyId,
+      values: counts.get(key.id) || 0,
+    }));
+    // Values naming a key that no longer exists can't be read; list them so they show up
+    for (const [id, values] of counts) {
+      if (id !== 'legacy' && !keys.some(key => key.id === id)) {
+        keyInfo.push({ id, created_at: null, active: false, values });
+      }
+    }
+
+    return { keys: keyInfo, legacyValues: counts.get('legacy') || 0, rotation };
+  }
+
+  /**
+   * Starts a rotation in the background and returns its progress, or null when one is
+   * already running
+   */
+  static startRotation(admin: User): KeyRotationProgress | null {
+    if (rotation?.status === 'running') return null;
+
+    const { record, key } = createDataKey();
+    rotation = {
+      status: 'running',
+      newKeyId: record.id,
+      processed: 0,
+      total: 0,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      error: null,
+    };
+    const progress = rotation;
+
+    this.rotate(progress, record, key, admin).catch(error => {
+      console.error('Key rotation error:', error);
+    });
+    return progress;
+  }
+
+  private static async rotate(
+    progress: KeyRotationProgress,
+    record: DataKeyRecord,
+    key: Buffer,
+    admin: User
+  ): Promise<void> {
+    const db = await getDatabase();
+    const previousKeyId = getActiveKeyId();
+    const startTime = Date.now();
+    await systemLogger.logStart(
+      'system',
+      'encryption_key_rotation',
+      `${admin.email} started rotating the encryption key to ${record.id}`,
+      admin.family_id,
+      admin.id
+    );
+
+    const failedAt: { value?: EncryptedValue } = {};
+    let registered = false;
+    try {
+      await db.run(
+        'INSERT INTO encryption_keys (id, wrapped_key, kek_salt) VALUES (?, ?, ?)',
+        [record.id, record.wrapped_key, record.kek_salt]
+      );
+      // Values written while the rotation runs already use the new key
+      registerDataKey(record.id, key, true);
+      registered = true;
+
+      await reencryptValues(record.id, {
+        onPass: count => { progress.total += count; },
+        onValue: value => {
+          failedAt.value = value;
+          progress.processed++;
+        },
+      });
+      delete failedAt.value;
+
+      // Only now that nothing refers to them can the old keys go
+      await db.run('DELETE FROM encryption_keys WHERE id != ?', [record.id]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      progress.status = 'failed';
+      progress.error = failedAt.value
+        ? `${failedAt.value.table}.${failedAt.value.column} row ${failedAt.value.rowid}: ${message}`
+        : message;
+      progress.finishedAt = new Date().toISOString();
+
+      if (previousKeyId) {
+        activateDataKey(previousKeyId);
+        try {
+          // Values already moved to the new key go back before it is dropped
+          if (registered) await reencryptValues(previousKeyId, { from: record.id });
+          await db.run('DELETE FROM encryption_keys WHERE id = ?', [record.id]);
+          removeDataKey(record.id);
+        } catch (revertError) {
+          // The new key stays so that nothing written with it becomes unreadable
+          console.error('Key rotation revert error:', revertError);
+        }
+      }
+
+      await systemLogger.logError(
+        'system',
+        'encryption_key_rotation',
+        message,
+        progress.error,
+        admin.family_id,
+        admin.id,
+        Date.now() - startTime
+      );
+      return;
+    }
+
+    progress.status = 'completed';
+    progress.finishedAt = new Date().toISOString();
+    await systemLogger.logSuccess(
+      'system',
+      'encryption_key_rotation',
+      `Re-encrypted ${progress.total} values with key ${record.id}`,
+      admin.family_id,
+      admin.id,
+      Date.now() - startTime,
+      { newKeyId: record.id, previousKeyId, values: progress.total }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { getDatabase } from './database';
+import type { AppNotification, NotificationEvent } from '@/types';
+
+type NotificationData = AppNotification['data'];
+type NotificationRow = Omit<AppNotification, 'data'> & { data: string };
+
+interface NotifyOptions {
+  link?: string;
+  excludeUserIds?: number[]; // Usually whoever caused the event, who already saw the result
+}
+
+function rowToNotification(row: NotificationRow): AppNotification {
+  return { ...row, data: JSON.parse(row.data) };
+}
+
+/**
+ * Per-user in-app notification feed. Notifying never throws: a failed notification
+ * must not fail the import, backup or update that triggered it.
+ */
+export class NotificationCenterService {
+  static async notifyFamily(
+    familyId: number,
+    type: NotificationEvent,
+    data: NotificationData,
+    options: NotifyOptions = {}
+  ): Promise<void> {
+    try {
+      const db = await getDatabase();
+      const members = await db.all(
+        'SELECT id FROM users WHERE family_id = ?',
+        [familyId]
+      ) as Array<{ id: number }>;
+      const recipients = members.filter(m => !options.excludeUserIds?.includes(m.id));
+      await this.insert(recipients.map(m => ({ familyId, userId: m.id })), type, data, options.link);
+    } catch (error) {
+      console.error(`Error creating ${type} notifications for family ${familyId}:`, error);
+    }
+  }
+
+  /**
+   * For system-wide events such as backups, which only administrators manage
+   */
+  static async notifyAdministrators(type: NotificationEvent, data: NotificationData, options: NotifyOptions = {}): Promise<void> {
+    try {
+      const db = await getDatabase();
+      const admins = await db.all(
+        "SELECT id, family_id FROM users WHERE role = 'administrator'"
+      ) as Array<{ id: number; family_id: number }>;
+      const recipients = admins.filter(a => !options.excludeUserIds?.includes(a.id));
+      await this.insert(recipients.map(a => ({ familyId: a.family_id, userId: a.id })), type, data, options.link);
+    } catch (error) {
+      console.error(`Error creating ${type} notifications for administrators:`, error);
+    }
+  }
+
+  static async getNotifications(userId: number, unreadOnly = false, limit = 50): Promise<AppNotification[]> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      `SELECT * FROM notifications
+       WHERE user_id = ? ${unreadOnly ? 'AND read_at IS NULL' : ''}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?`,
+      [userId, limit]
+    ) as NotificationRow[];
+    return rows.map(rowToNotification);
+  }
+
+  static async getUnreadCount(userId: number): Promise<number> {
+    const db = await getDatabase();
+    const row = await db.get(
+      'SELECT COUNT(*) as count FROM notifications WHERE user_id = ? AND read_at IS NULL',
+      [userId]
+    ) as { count: number };
+    return row.count;
+  }
+
+  static async markRead(id: number, userId: number, read: boolean): Promise<boolean> {
+    const db = await getDatabase();
+    const result = await db.run(
+      `UPDATE notifications SET read_at = ${read ? "datetime('now')" : 'NULL'} WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+    return result.changes > 0;
+  }
+
+  static async markAllRead(userId: number): Promise<void> {
+    const db = await getDatabase();
+    await db.run(
+      "UPDATE notifications SET read_at = datetime('now') WHERE user_id = ? AND read_at IS NULL",
+      [userId]
+    );
+  }
+
+  private static async insert(
+    recipients: Array<{ familyId: number; userId: number }>,
+    type: NotificationEvent,
+    data: NotificationData,
+    link?: string
+  ): Promise<void> {
+    const db = await getDatabase();
+    const json = JSON.stringify(data);
+    for (const { familyId, userId } of recipients) {
+      await db.run(
+        'INSERT INTO notifications (family_id, user_id, type, data, link) VALUES (?, ?, ?, ?, ?)',
+        [familyId, userId, type, json, link || null]
+      );
+    }
+  }
+}
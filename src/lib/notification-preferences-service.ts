@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import { getDatabase } from './database';
+import type { DigestDay, NotificationPreferences, NotificationType, ReportRecipient } from '@/types';
+
+export const DIGEST_DAYS: DigestDay[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+export const NOTIFICATION_TYPES: NotificationType[] = ['weekly', 'monthly', 'yearly', 'alerts'];
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  weeklyReport: true,
+  monthlyReport: true,
+  yearlyReport: true,
+  alerts: true,
+  locale: 'en',
+  digestDay: null,
+};
+
+// Preference switch behind each notification type
+const PREFERENCE_KEYS: Record<NotificationType, 'weeklyReport' | 'monthlyReport' | 'yearlyReport' | 'alerts'> = {
+  weekly: 'weeklyReport',
+  monthly: 'monthlyReport',
+  yearly: 'yearlyReport',
+  alerts: 'alerts',
+};
+
+interface PreferencesRow {
+  weekly_report: number | null;
+  monthly_report: number | null;
+  yearly_report: number | null;
+  alerts: number | null;
+  locale: NotificationPreferences['locale'] | null;
+  digest_day: DigestDay | null;
+}
+
+function toPreferences(row: PreferencesRow | undefined): NotificationPreferences {
+  if (!row || row.weekly_report === null) return { ...DEFAULT_PREFERENCES };
+  return {
+    weeklyReport: !!row.weekly_report,
+    monthlyReport: !!row.monthly_report,
+    yearlyReport: !!row.yearly_report,
+    alerts: !!row.alerts,
+    locale: row.locale || 'en',
+    digestDay: row.digest_day,
+  };
+}
+
+function sign(payload: string): string {
+  const secret = process.env.SESSION_SECRET || 'default-dev-secret-32-chars-long!!';
+  return crypto.createHmac('sha256', secret).update(`unsubscribe:${payload}`).digest('base64url');
+}
+
+export class NotificationPreferencesService {
+  static async getPreferences(userId: number): Promise<NotificationPreferences> {
+    const db = await getDatabase();
+    const row = await db.get(
+      'SELECT * FROM notification_preferences WHERE user_id = ?',
+      [userId]
+    ) as PreferencesRow | undefined;
+    return toPreferences(row);
+  }
+
+  static async updatePreferences(userId: number, updates: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    const preferences = { ...(await this.getPreferences(userId)), ...updates };
+    const db = await getDatabase();
+    await db.run(
+      `INSERT INTO notification_preferences (user_id, weekly_report, monthly_report, yearly_report, alerts, locale, digest_day)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET
+         weekly_report = excluded.weekly_report,
+         monthly_report = excluded.monthly_report,
+         yearly_report = excluded.yearly_report,
+         alerts = excluded.alerts,
+         locale = excluded.locale,
+         digest_day = excluded.digest_day,
+         updated_at = datetime('now')`,
+      [
+        userId,
+        preferences.weeklyReport ? 1 : 0,
+        preferences.monthlyReport ? 1 : 0,
+        preferences.yearlyReport ? 1 : 0,
+        preferences.alerts ? 1 : 0,
+        preferences.locale,
+        preferences.digestDay,
+      ]
+    );
+    return preferences;
+  }
+
+  /**
+   * Family members with their language, digest day and whether they want the given
+   * kind of notification
+   */
+  static async getFamilyRecipients(familyId: number, type: NotificationType): Promise<ReportRecipient[]> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      `SELECT u.id, u.email, u.name, p.weekly_report, p.monthly_report, p.yearly_report, p.alerts, p.locale, p.digest_day,
+              f.locale as family_locale
+       FROM users u
+       LEFT JOIN notification_preferences p ON p.user_id = u.id
+       LEFT JOIN families f ON f.id = u.family_id
+       WHERE u.family_id = ?
+       ORDER BY u.id`,
+      [familyId]
+    ) as Array<PreferencesRow & { id: number; email: string; name: string; family_locale: NotificationPreferences['locale'] | null }>;
+
+    return rows.map(row => {
+      const preferences = toPreferences(row);
+      return {
+        userId: row.id,
+        email: row.email,
+        name: row.name,
+        notificationsEnabled: preferences[PREFERENCE_KEYS[type]],
+        // Members who never chose a language get the family's
+        locale: row.locale ?? row.family_locale ?? preferences.locale,
+        digestDay: preferences.digestDay,
+      };
+    });
+  }
+
+  /**
+   * Signed token identifying a user and a notification type. It carries no expiry so
+   * links in old emails keep working.
+   */
+  static createUnsubscribeToken(userId: number, type: NotificationType): string {
+    const payload = `${userId}.${type}`;
+    return `${payload}.${sign(payload)}`;
+  }
+
+  static verifyUnsubscribeToken(token: string): { userId: number; type: NotificationType } | null {
+    const [userId, type, signature] = token.split('.');
+    if (!userId || !type || !signature || !/^\d+$/.test(userId)) return null;
+    if (!NOTIFICATION_TYPES.includes(type as NotificationType)) return null;
+
+    const expected = Buffer.from(sign(`${userId}.${type}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+    return { userId: parseInt(userId), type: type as NotificationType };
+  }
+
+  static getUnsubscribeUrl(userId: number, type: NotificationType): string {
+    const appUrl = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+    return `${appUrl}/api/notifications/unsubscribe?token=${this.createUnsubscribeToken(userId, type)}`;
+  }
+
+  /**
+   * Headers letting mail clients offer one-click unsubscribe (RFC 8058)
+   */
+  static getUnsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+    return {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+  }
+
+  static async unsubscribe(userId: number, type: NotificationType): Promise<NotificationPreferences> {
+    return this.updatePreferences(userId, { [PREFERENCE_KEYS[type]]: false });
+  }
+}
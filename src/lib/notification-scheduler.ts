@@ -1,17 +1,31 @@
-import cron from 'node-cron';
+import cron, { type ScheduledTask } from 'node-cron';
 import { WeeklyReportService, type WeeklyReportData } from './weekly-report-service';
 import { WeeklyReportTemplate, type EmailTemplateOptions } from './email-templates/weekly-report-template';
+import { PeriodicReportService } from './periodic-report-service';
+import { PeriodicReportTemplate } from './email-templates/periodic-report-template';
 import { getUnifiedEmailService } from './unified-email-service';
-import { SettingsService } from './settings-service';
+import { SettingsService, type NotificationSettings } from './settings-service';
+import { NotificationPreferencesService, DIGEST_DAYS } from './notification-preferences-service';
 import { amortizationService } from './amortization-service';
+import { AlertService } from './alert-service';
+import { NotificationCenterService } from './notification-center-service';
+import { WebhookService } from './webhook-service';
+import { FAMILY_VIEWER } from './account-access-service';
 import { getDatabase } from './database';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { systemLogger } from './system-logger';
+import type { DigestDay, NotificationType, PeriodicReportData, PeriodicReportType, ReportRecipient } from '@/types';
+
+// Language and unsubscribe link are set per recipient
+export type ReportDeliveryOptions = Omit<EmailTemplateOptions, 'locale' | 'unsubscribeUrl'>;
+
+type RenderedEmail = { subject: string; html: string; text: string };
 
 export interface NotificationHistory {
   id: string;
   familyId: number;
+  reportType?: 'weekly' | PeriodicReportType; // Missing on entries logged before monthly reports existed
   sentAt: string;
   success: boolean;
   error?: string;
@@ -24,8 +38,12 @@ export interface NotificationHistory {
 
 export class NotificationScheduler {
   private static instance: NotificationScheduler | null = null;
-  private currentTask: cron.ScheduledTask | null = null;
-  private monthlyDebtTask: cron.ScheduledTask | null = null;
+  private currentTask: ScheduledTask | null = null;
+  private monthlyDebtTask: ScheduledTask | null = null;
+  private monthlyReportTask: ScheduledTask | null = null;
+  private yearlyReportTask: ScheduledTask | null = null;
+  private alertTask: ScheduledTask | null = null;
+  private webhookRetryTask: ScheduledTask | null = null;
   private historyPath = path.join(process.cwd(), 'data', 'notification-history.json');
 
   static getInstance(): NotificationScheduler {
@@ -40,9 +58,14 @@ export class NotificationScheduler {
     if (settings.enabled) {
       await this.scheduleWeeklyNotifications(settings.day, settings.time, settings.timezone);
     }
+    await this.schedulePeriodicReports(settings);
     
     // Start monthly debt updates (runs on the 1st of each month at 2 AM)
     await this.scheduleMonthlyDebtUpdates();
+
+    // Alert rules are also evaluated after imports and balance changes
+    await this.scheduleAlertEvaluation();
+    await this.scheduleWebhookRetries();
   }
 
   async scheduleWeeklyNotifications(
@@ -56,23 +79,29 @@ export class NotificationScheduler {
       this.currentTask = null;
     }
 
-    const cronExpression = this.getCronExpression(day, time);
-    if (!cronExpression) {
+    // Runs every day: members get the report on their own digest day, or on the
+    // configured day if they haven't picked one
+    const cronExpression = this.getDailyCronExpression(time);
+    if (!cronExpression || !DIGEST_DAYS.includes(day.toLowerCase() as DigestDay)) {
       throw new Error(`Invalid day or time: ${day} ${time}`);
     }
 
-    console.log(`Scheduling weekly notifications: ${cronExpression} (${timezone})`);
+    console.log(`Scheduling weekly notifications: ${cronExpression} (${timezone}), default day ${day}`);
 
     this.currentTask = cron.schedule(cronExpression, async () => {
       console.log(`Running weekly notification task at ${new Date().toISOString()}`);
-      await this.sendWeeklyReportsToAllFamilies();
+      await this.sendWeeklyReportsToAllFamilies(this.getWeekday(timezone));
     }, {
       scheduled: true,
       timezone: timezone
     });
   }
 
-  async sendWeeklyReportsToAllFamilies(): Promise<void> {
+  /**
+   * Send the weekly report to every family. With a weekday, only members whose digest
+   * day it is receive it; without one (manual sends) everyone subscribed does.
+   */
+  async sendWeeklyReportsToAllFamilies(today?: DigestDay): Promise<void> {
     try {
       const emailService = getUnifiedEmailService();
       
@@ -87,14 +116,20 @@ export class NotificationScheduler {
       console.log(`Sending weekly reports to ${familyIds.length} families`);
 
       const settings = await SettingsService.getNotificationSettings();
+      const defaultDay = settings.day.toLowerCase();
+      const isDue = (recipient: ReportRecipient) => !today || (recipient.digestDay || defaultDay) === today;
       
       for (const familyId of familyIds) {
         try {
+          if (today) {
+            const recipients = await NotificationPreferencesService.getFamilyRecipients(familyId, 'weekly');
+            if (!recipients.some(r => r.notificationsEnabled && isDue(r))) continue;
+          }
+
           await this.sendWeeklyReportToFamily(familyId, {
-            locale: 'en', // TODO: Get from family preferences
             includeCharts: settings.includeCharts,
             customMessage: settings.customMessage
-          });
+          }, isDue);
         } catch (error) {
           console.error(`Failed to send weekly report to family ${familyId}:`, error);
         }
@@ -108,7 +143,8 @@ export class NotificationScheduler {
 
   async sendWeeklyReportToFamily(
     familyId: number, 
-    options: EmailTemplateOptions
+    options: ReportDeliveryOptions,
+    recipientFilter: (recipient: ReportRecipient) => boolean = () => true
   ): Promise<{ success: boolean; error?: string }> {
     const timer = systemLogger.createTimer('email', 'send_weekly_report', familyId, undefined, { familyId, options });
     
@@ -118,34 +154,25 @@ export class NotificationScheduler {
       
       // Filter recipients who want notifications
       const recipients = reportData.recipients
-        .filter(r => r.notificationsEnabled)
-        .map(r => r.email);
+        .filter(r => r.notificationsEnabled && recipientFilter(r));
 
       if (recipients.length === 0) {
         console.log(`No recipients for family ${familyId} - skipping`);
         return { success: true };
       }
 
-      // Generate email template
-      const { subject, html, text } = WeeklyReportTemplate.generate(reportData, options);
-
-      // Send email
-      const emailService = getUnifiedEmailService();
-      const result = await emailService.sendEmail({
-        to: recipients,
-        subject,
-        html,
-        text
-      });
+      const result = await this.deliverReport(recipients, 'weekly', options,
+        templateOptions => WeeklyReportTemplate.generate(reportData, templateOptions));
 
       // Log history
       await this.logNotificationHistory({
         id: `${familyId}_${Date.now()}`,
         familyId,
+        reportType: 'weekly',
         sentAt: new Date().toISOString(),
         success: result.success,
         error: result.error,
-        recipients,
+        recipients: recipients.map(r => r.email),
         reportPeriod: {
           start: reportData.period.start,
           end: reportData.period.end
@@ -185,6 +212,7 @@ export class NotificationScheduler {
       await this.logNotificationHistory({
         id: `${familyId}_${Date.now()}`,
         familyId,
+        reportType: 'weekly',
         sentAt: new Date().toISOString(),
         success: false,
         error: errorMessage,
@@ -201,26 +229,181 @@ export class NotificationScheduler {
     }
   }
 
+  /**
+   * (Re)schedule the monthly and yearly reports from their own settings; each
+   * one covers the month or year before the day it is sent
+   */
+  async schedulePeriodicReports(settings: NotificationSettings): Promise<void> {
+    for (const task of [this.monthlyReportTask, this.yearlyReportTask]) {
+      task?.stop();
+    }
+    this.monthlyReportTask = null;
+    this.yearlyReportTask = null;
+
+    const { monthlyReport, yearlyReport, timezone } = settings;
+
+    if (monthlyReport.enabled) {
+      const cronExpression = this.getDayOfMonthCronExpression(monthlyReport.dayOfMonth, monthlyReport.time);
+      if (!cronExpression) {
+        throw new Error(`Invalid monthly report schedule: day ${monthlyReport.dayOfMonth} ${monthlyReport.time}`);
+      }
+      console.log(`Scheduling monthly reports: ${cronExpression} (${timezone})`);
+      this.monthlyReportTask = cron.schedule(cronExpression, async () => {
+        console.log(`Running monthly report task at ${new Date().toISOString()}`);
+        await this.sendPeriodicReportsToAllFamilies('monthly');
+      }, { timezone });
+    }
+
+    if (yearlyReport.enabled) {
+      const cronExpression = this.getDayOfMonthCronExpression(yearlyReport.dayOfMonth, yearlyReport.time, yearlyReport.month);
+      if (!cronExpression) {
+        throw new Error(`Invalid yearly report schedule: ${yearlyReport.month}/${yearlyReport.dayOfMonth} ${yearlyReport.time}`);
+      }
+      console.log(`Scheduling yearly reports: ${cronExpression} (${timezone})`);
+      this.yearlyReportTask = cron.schedule(cronExpression, async () => {
+        console.log(`Running yearly report task at ${new Date().toISOString()}`);
+        await this.sendPeriodicReportsToAllFamilies('yearly');
+      }, { timezone });
+    }
+  }
+
+  async sendPeriodicReportsToAllFamilies(type: PeriodicReportType): Promise<void> {
+    try {
+      const emailService = getUnifiedEmailService();
+      if (!emailService.isConfigured()) {
+        console.error(`Email service not configured. Skipping ${type} reports.`);
+        return;
+      }
+
+      const familyIds = await WeeklyReportService.getAllFamiliesForReporting();
+      console.log(`Sending ${type} reports to ${familyIds.length} families`);
+
+      const settings = await SettingsService.getNotificationSettings();
+
+      for (const familyId of familyIds) {
+        try {
+          await this.sendPeriodicReportToFamily(familyId, type, {
+            includeCharts: settings.includeCharts,
+            customMessage: settings.customMessage
+          });
+        } catch (error) {
+          console.error(`Failed to send ${type} report to family ${familyId}:`, error);
+        }
+      }
+
+      console.log(`${type} report task completed`);
+    } catch (error) {
+      console.error(`${type} report task failed:`, error);
+    }
+  }
+
+  async sendPeriodicReportToFamily(
+    familyId: number,
+    type: PeriodicReportType,
+    options: ReportDeliveryOptions
+  ): Promise<{ success: boolean; error?: string }> {
+    const timer = systemLogger.createTimer('email', `send_${type}_report`, familyId, undefined, { familyId, type, options });
+    let reportData: PeriodicReportData | null = null;
+
+    try {
+      reportData = await this.generatePeriodicReport(familyId, type);
+
+      const recipients = reportData.recipients.filter(r => r.notificationsEnabled);
+
+      if (recipients.length === 0) {
+        console.log(`No recipients for family ${familyId} - skipping`);
+        return { success: true };
+      }
+
+      const periodicReport = reportData;
+      const result = await this.deliverReport(recipients, type, options,
+        templateOptions => PeriodicReportTemplate.generate(periodicReport, templateOptions));
+
+      await this.logNotificationHistory({
+        id: `${familyId}_${Date.now()}`,
+        familyId,
+        reportType: type,
+        sentAt: new Date().toISOString(),
+        success: result.success,
+        error: result.error,
+        recipients: recipients.map(r => r.email),
+        reportPeriod: {
+          start: reportData.period.start,
+          end: reportData.period.end
+        }
+      });
+
+      if (result.success) {
+        await timer.success(
+          `${type} report sent to family ${familyId}: ${recipients.length} recipients`,
+          { familyId, recipientCount: recipients.length, reportPeriod: reportData.period }
+        );
+      } else {
+        await timer.error(
+          result.error || 'Unknown email error',
+          `Failed to send ${type} report to family ${familyId}`,
+          { familyId, recipientCount: recipients.length, emailError: result.error }
+        );
+      }
+
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      await this.logNotificationHistory({
+        id: `${familyId}_${Date.now()}`,
+        familyId,
+        reportType: type,
+        sentAt: new Date().toISOString(),
+        success: false,
+        error: errorMessage,
+        recipients: [],
+        reportPeriod: {
+          start: reportData?.period.start || '',
+          end: reportData?.period.end || ''
+        }
+      });
+
+      console.error(`Error sending ${type} report to family ${familyId}:`, error);
+      await timer.error(error instanceof Error ? error : errorMessage, `Error generating or sending ${type} report for family ${familyId}`);
+      return { success: false, error: errorMessage };
+    }
+  }
+
   async sendTestReport(
     familyId: number, 
     testEmail: string,
-    options: EmailTemplateOptions
+    options: EmailTemplateOptions,
+    reportType: 'weekly' | PeriodicReportType = 'weekly'
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      // Generate report data
-      const reportData = await WeeklyReportService.generateWeeklyReport(familyId);
-      
-      // Override recipients for test
-      reportData.recipients = [
+      const testRecipients: ReportRecipient[] = [
         {
+          userId: 0,
           email: testEmail,
           name: 'Test User',
-          notificationsEnabled: true
+          notificationsEnabled: true,
+          locale: options.locale,
+          digestDay: null
         }
       ];
 
+      let template: RenderedEmail;
+      if (reportType === 'weekly') {
+        // Generate report data
+        const reportData = await WeeklyReportService.generateWeeklyReport(familyId);
+        
+        // Override recipients for test
+        reportData.recipients = testRecipients;
+        template = WeeklyReportTemplate.generate(reportData, options);
+      } else {
+        const reportData = await this.generatePeriodicReport(familyId, reportType);
+        reportData.recipients = testRecipients;
+        template = PeriodicReportTemplate.generate(reportData, options);
+      }
+
       // Generate email template with test subject
-      const { subject, html, text } = WeeklyReportTemplate.generate(reportData, options);
+      const { subject, html, text } = template;
       const testSubject = `[TEST] ${subject}`;
 
       // Send email
@@ -258,6 +441,44 @@ export class NotificationScheduler {
     console.log('Monthly debt updates scheduled for 1st day of each month at 2:00 AM UTC');
   }
 
+  async scheduleAlertEvaluation(): Promise<void> {
+    if (this.alertTask) {
+      this.alertTask.stop();
+      this.alertTask = null;
+    }
+
+    // Hourly, to catch stale balances and debt milestones reached by the monthly update
+    this.alertTask = cron.schedule('0 * * * *', async () => {
+      try {
+        const result = await AlertService.evaluateAll();
+        if (result.triggered > 0) {
+          console.log(`Alert evaluation: ${result.triggered} new alerts across ${result.families} families`);
+        }
+      } catch (error) {
+        console.error('Alert evaluation failed:', error);
+      }
+    }, { timezone: 'UTC' });
+
+    console.log('Alert rules scheduled for evaluation every hour');
+  }
+
+  async scheduleWebhookRetries(): Promise<void> {
+    if (this.webhookRetryTask) {
+      this.webhookRetryTask.stop();
+      this.webhookRetryTask = null;
+    }
+
+    this.webhookRetryTask = cron.schedule('* * * * *', async () => {
+      try {
+        await WebhookService.retryDueDeliveries();
+      } catch (error) {
+        console.error('Webhook retries failed:', error);
+      }
+    }, { timezone: 'UTC' });
+
+    console.log('Webhook delivery retries scheduled every minute');
+  }
+
   async runMonthlyDebtUpdates(): Promise<{ totalUpdated: number; errors: string[] }> {
     const timer = systemLogger.createTimer('debt_update', 'monthly_updates_all_families', undefined, undefined, { scope: 'all_families' });
     
@@ -288,6 +509,10 @@ export class NotificationScheduler {
         if (result.updated > 0) {
           console.log(`Updated ${result.updated} debt accounts for family ${family_id}`);
         }
+        // The whole family is notified, so private accounts aren't counted
+        if (result.shared > 0) {
+          await NotificationCenterService.notifyFamily(family_id, 'debt_update', { count: result.shared }, { link: '/accounts' });
+        }
       }
 
       console.log(`Monthly debt updates completed: ${totalUpdated} accounts updated across ${familyIds.length} families`);
@@ -323,6 +548,12 @@ export class NotificationScheduler {
       this.monthlyDebtTask = null;
       console.log('Monthly debt update schedule stopped');
     }
+
+    for (const task of [this.monthlyReportTask, this.yearlyReportTask]) {
+      task?.stop();
+    }
+    this.monthlyReportTask = null;
+    this.yearlyReportTask = null;
   }
 
   async getNotificationHistory(limit: number = 50): Promise<NotificationHistory[]> {
@@ -371,22 +602,72 @@ export class NotificationScheduler {
     }
   }
 
-  private getCronExpression(day: string, time: string): string | null {
-    const dayMap: Record<string, number> = {
-      'sunday': 0,
-      'monday': 1,
-      'tuesday': 2,
-      'wednesday': 3,
-      'thursday': 4,
-      'friday': 5,
-      'saturday': 6
-    };
-
-    const dayNumber = dayMap[day.toLowerCase()];
-    if (dayNumber === undefined) {
+  /**
+   * Email the report to each recipient separately, in their language and with their
+   * own signed unsubscribe link
+   */
+  private async deliverReport(
+    recipients: ReportRecipient[],
+    type: NotificationType,
+    options: ReportDeliveryOptions,
+    render: (templateOptions: EmailTemplateOptions) => RenderedEmail
+  ): Promise<{ success: boolean; error?: string }> {
+    const emailService = getUnifiedEmailService();
+    const errors: string[] = [];
+
+    for (const recipient of recipients) {
+      const unsubscribeUrl = NotificationPreferencesService.getUnsubscribeUrl(recipient.userId, type);
+      const { subject, html, text } = render({ ...options, locale: recipient.locale, unsubscribeUrl });
+      const result = await emailService.sendEmail({
+        to: recipient.email,
+        subject,
+        html,
+        text,
+        headers: NotificationPreferencesService.getUnsubscribeHeaders(unsubscribeUrl)
+      });
+      if (!result.success) {
+        errors.push(`${recipient.email}: ${result.error || 'Unknown email error'}`);
+      }
+    }
+
+    return errors.length === 0 ? { success: true } : { success: false, error: errors.join('; ') };
+  }
+
+  private getDailyCronExpression(time: string): string | null {
+    const parsed = this.parseTime(time);
+    if (!parsed) {
+      return null;
+    }
+
+    // Cron format: minute hour * * *
+    return `${parsed.minute} ${parsed.hour} * * *`;
+  }
+
+  private getWeekday(timezone: string): DigestDay {
+    return new Intl.DateTimeFormat('en-US', { weekday: 'long', timeZone: timezone })
+      .format(new Date())
+      .toLowerCase() as DigestDay;
+  }
+
+  private getDayOfMonthCronExpression(dayOfMonth: number, time: string, month?: number): string | null {
+    // Capped at 28 so the report goes out in every month
+    if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 28) {
+      return null;
+    }
+    if (month !== undefined && (!Number.isInteger(month) || month < 1 || month > 12)) {
+      return null;
+    }
+
+    const parsed = this.parseTime(time);
+    if (!parsed) {
       return null;
     }
 
+    // Cron format: minute hour day-of-month month *
+    return `${parsed.minute} ${parsed.hour} ${dayOfMonth} ${month ?? '*'} *`;
+  }
+
+  private parseTime(time: string): { hour: number; minute: number } | null {
     const timeParts = time.split(':');
     if (timeParts.length !== 2) {
       return null;
@@ -399,7 +680,13 @@ export class NotificationScheduler {
       return null;
     }
 
-    // Cron format: minute hour * * day-of-week
-    return `${minute} ${hour} * * ${dayNumber}`;
+    return { hour, minute };
+  }
+
+  private generatePeriodicReport(familyId: number, type: PeriodicReportType): Promise<PeriodicReportData> {
+    // Reports are emailed to the whole family, so private accounts stay out of them
+    return type === 'yearly'
+      ? PeriodicReportService.generateYearlyReport(familyId, undefined, FAMILY_VIEWER)
+      : PeriodicReportService.generateMonthlyReport(familyId, undefined, FAMILY_VIEWER);
   }
 }
\ No newline at end of file
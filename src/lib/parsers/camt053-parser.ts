@@ -0,0 +1,109 @@
+import { BankParser, ParseResult, ParsedTransaction, ParseError, StatementBalance } from './types';
+import { xmlBlocks, xmlText, xmlAttr } from './markup-utils';
+
+function signedAmount(block: string, amountPath: string[]): number {
+  const raw = xmlText(block, amountPath);
+  const amount = raw ? parseFloat(raw) : NaN;
+  return xmlText(block, ['CdtDbtInd']) === 'DBIT' ? -amount : amount;
+}
+
+function entryDate(block: string, tag: string): string | undefined {
+  // <BookgDt><Dt>..</Dt></BookgDt>, <BookgDt><DtTm>..</DtTm></BookgDt> and the nested <Dt><Dt>..</Dt></Dt> of balances
+  return xmlBlocks(block, tag)[0]?.match(/\d{4}-\d{2}-\d{2}/)?.[0];
+}
+
+/**
+ * Parser for ISO 20022 CAMT.053 (Bank to Customer Statement) XML files.
+ */
+export class Camt053Parser implements BankParser {
+  readonly formatName = 'CAMT.053';
+
+  detect(text: string): boolean {
+    const head = text.slice(0, 5000);
+    return head.includes('camt.053') || /<(?:\w+:)?BkToCstmrStmt[\s>]/.test(head);
+  }
+
+  parse(text: string): ParseResult {
+    const transactions: ParsedTransaction[] = [];
+    const errors: ParseError[] = [];
+    let openingBalance: StatementBalance | undefined;
+    let closingBalance: StatementBalance | undefined;
+    let accountReference: string | undefined;
+
+    const statements = xmlBlocks(text, 'Stmt');
+    if (statements.length === 0) {
+      return {
+        transactions: [],
+        errors: [{ row: 0, message: 'No <Stmt> element found in CAMT.053 file' }],
+        detectedFormat: this.formatName,
+      };
+    }
+
+    let row = 0;
+    for (const stmt of statements) {
+      accountReference = accountReference || xmlText(stmt, ['Acct', 'Id', 'IBAN']);
+      for (const bal of xmlBlocks(stmt, 'Bal')) {
+        const code = xmlText(bal, ['Tp', 'CdOrPrtry', 'Cd']);
+        const date = entryDate(bal, 'Dt');
+        const amount = signedAmount(bal, ['Amt']);
+        if (!date || isNaN(amount)) continue;
+        // OPBD/CLBD = opening/closing booked; PRCD (previously closed) also serves as opening
+        if ((code === 'OPBD' || code === 'PRCD') && !openingBalance) openingBalance = { amount, date };
+        if (code === 'CLBD') closingBalance = { amount, date };
+      }
+
+      for (const entry of xmlBlocks(stmt, 'Ntry')) {
+        row++;
+        try {
+          // Pending entries are not booked yet and may still change
+          if (xmlText(entry, ['Sts']) === 'PDNG' || xmlText(entry, ['Sts', 'Cd']) === 'PDNG') continue;
+
+          const date = entryDate(entry, 'BookgDt');
+          if (!date) {
+            errors.push({ row, message: 'Missing BookgDt' });
+            continue;
+          }
+
+          const amount = signedAmount(entry, ['Amt']);
+          if (isNaN(amount)) {
+            errors.push({ row, message: 'Invalid Amt' });
+            continue;
+          }
+
+          const valueDate = entryDate(entry, 'ValDt');
+          const details = xmlBlocks(entry, 'TxDtls')[0] || '';
+          // Counterparty: creditor for outgoing payments, debtor for incoming ones
+          const counterparty = amount < 0
+            ? xmlText(details, ['RltdPties', 'Cdtr', 'Nm'])
+            : xmlText(details, ['RltdPties', 'Dbtr', 'Nm']);
+          const remittance = xmlBlocks(details, 'Ustrd').map(u => u.trim()).join(' ') || undefined;
+          const additionalInfo = xmlText(entry, ['AddtlNtryInf']);
+
+          transactions.push({
+            date,
+            valueDate: valueDate && valueDate !== date ? valueDate : undefined,
+            description: counterparty || additionalInfo || remittance || '',
+            detail: remittance && remittance !== counterparty ? remittance : undefined,
+            amount,
+            currency: xmlAttr(entry, 'Amt', 'Ccy') || 'EUR',
+            movementType: xmlText(entry, ['BkTxCd', 'Prtry', 'Cd']) || xmlText(entry, ['BkTxCd', 'Domn', 'Cd']),
+            observations: counterparty && additionalInfo ? additionalInfo : undefined,
+            externalId: xmlText(entry, ['AcctSvcrRef']) || xmlText(entry, ['NtryRef'])
+              || xmlText(details, ['Refs', 'AcctSvcrRef']),
+          });
+        } catch (e) {
+          errors.push({ row, message: `Parse error: ${(e as Error).message}` });
+        }
+      }
+    }
+
+    return {
+      transactions,
+      errors,
+      detectedFormat: this.formatName,
+      openingBalance,
+      closingBalance,
+      accountReference,
+    };
+  }
+}
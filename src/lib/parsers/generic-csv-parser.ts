@@ -0,0 +1,240 @@
+import {
+  BankParser,
+  ParseResult,
+  ParsedTransaction,
+  ParseError,
+  CsvProfileConfig,
+  CsvDelimiter,
+  CsvDateFormat,
+  DecimalSeparator,
+} from './types';
+
+const CANDIDATE_DELIMITERS: CsvDelimiter[] = [';', ',', '\t', '|'];
+
+function parseDateWithFormat(dateStr: string, format: CsvDateFormat): string {
+  const value = dateStr.trim();
+  const parts = value.split(/[/.\-]/);
+  if (parts.length !== 3) return value;
+
+  let day: string, month: string, year: string;
+  switch (format) {
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts;
+      break;
+    case 'YYYY-MM-DD':
+      [year, month, day] = parts;
+      break;
+    default:
+      // DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY
+      [day, month, year] = parts;
+  }
+
+  if (year.length === 2) year = `20${year}`;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+function parseNumber(value: string, decimalSeparator: DecimalSeparator): number {
+  // Drop currency symbols and spaces, then normalise the thousands/decimal separators
+  let cleaned = value.trim().replace(/[^\d,.\-+]/g, '');
+  if (decimalSeparator === ',') {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+  return parseFloat(cleaned);
+}
+
+/**
+ * Split a delimited line respecting quoted fields ("" escapes a quote).
+ */
+export function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  result.push(current.trim());
+  return result;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().replace(/^\uFEFF/, '').toLowerCase();
+}
+
+/**
+ * Guess the delimiter and header row of an unknown CSV so the user can map its columns.
+ */
+export function inspectCsv(csvText: string): {
+  delimiter: CsvDelimiter;
+  headers: string[];
+  sampleRows: string[][];
+} {
+  const lines = csvText.split(/\r?\n/).filter(l => l.trim());
+  const sample = lines.slice(0, 30);
+
+  // The delimiter that yields the most consistent multi-column split wins
+  let delimiter: CsvDelimiter = ',';
+  let bestScore = 0;
+  for (const candidate of CANDIDATE_DELIMITERS) {
+    const counts = sample.map(l => splitDelimitedLine(l, candidate).length);
+    const maxCount = Math.max(0, ...counts);
+    if (maxCount < 2) continue;
+    const score = counts.filter(c => c === maxCount).length * maxCount;
+    if (score > bestScore) {
+      bestScore = score;
+      delimiter = candidate;
+    }
+  }
+
+  // Header is the first line with the full column count (banks often prepend metadata rows)
+  const splitLines = lines.map(l => splitDelimitedLine(l, delimiter));
+  const columnCount = Math.max(0, ...splitLines.slice(0, 30).map(f => f.length));
+  const headerIndex = Math.max(0, splitLines.findIndex(f => f.length === columnCount));
+
+  return {
+    delimiter,
+    headers: (splitLines[headerIndex] || []).map(h => h.replace(/^\uFEFF/, '')),
+    sampleRows: splitLines.slice(headerIndex + 1, headerIndex + 6),
+  };
+}
+
+/**
+ * Parser for any bank CSV, driven by a user-defined column mapping (import profile).
+ */
+export class GenericCSVParser implements BankParser {
+  readonly formatName: string;
+
+  constructor(private readonly config: CsvProfileConfig) {
+    this.formatName = config.name;
+  }
+
+  detect(csvText: string): boolean {
+    const lines = csvText.split(/\r?\n/).filter(l => l.trim());
+    return this.findHeader(lines) !== null;
+  }
+
+  parse(csvText: string): ParseResult {
+    const transactions: ParsedTransaction[] = [];
+    const errors: ParseError[] = [];
+    const lines = csvText.split(/\r?\n/).filter(l => l.trim());
+
+    const header = this.findHeader(lines);
+    if (!header) {
+      return {
+        transactions: [],
+        errors: [{ row: 0, message: `Header row for profile "${this.config.name}" not found` }],
+        detectedFormat: this.formatName,
+      };
+    }
+
+    const { index: headerIndex, columns } = header;
+    const { dateFormat, decimalSeparator, defaultCurrency } = this.config;
+    const field = (fields: string[], key: keyof typeof columns): string => {
+      const idx = columns[key];
+      return idx === undefined ? '' : (fields[idx] || '').trim();
+    };
+
+    for (let i = headerIndex + 1; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) continue;
+
+      try {
+        const fields = splitDelimitedLine(line, this.config.delimiter);
+        const dateStr = field(fields, 'date');
+        if (!dateStr) {
+          errors.push({ row: i + 1, message: 'Missing date' });
+          continue;
+        }
+
+        let amount: number;
+        if (columns.amount !== undefined) {
+          amount = parseNumber(field(fields, 'amount'), decimalSeparator);
+        } else {
+          // Split debit/credit columns: debit is always an outflow, credit an inflow
+          const debitStr = field(fields, 'debit');
+          const creditStr = field(fields, 'credit');
+          const debit = debitStr ? parseNumber(debitStr, decimalSeparator) : 0;
+          const credit = creditStr ? parseNumber(creditStr, decimalSeparator) : 0;
+          amount = (isNaN(credit) ? 0 : Math.abs(credit)) - (isNaN(debit) ? 0 : Math.abs(debit));
+          if (!debitStr && !creditStr) amount = NaN;
+        }
+
+        if (isNaN(amount)) {
+          errors.push({ row: i + 1, message: `Invalid amount: ${field(fields, 'amount') || field(fields, 'debit') || field(fields, 'credit')}` });
+          continue;
+        }
+
+        const date = parseDateWithFormat(dateStr, dateFormat);
+        const valueDateStr = field(fields, 'valueDate');
+        const valueDate = valueDateStr ? parseDateWithFormat(valueDateStr, dateFormat) : undefined;
+        const balanceStr = field(fields, 'balance');
+        const balanceAfter = balanceStr ? parseNumber(balanceStr, decimalSeparator) : NaN;
+
+        transactions.push({
+          date,
+          valueDate: valueDate && valueDate !== date ? valueDate : undefined,
+          description: field(fields, 'description'),
+          detail: field(fields, 'detail') || undefined,
+          amount,
+          currency: field(fields, 'currency') || defaultCurrency,
+          balanceAfter: isNaN(balanceAfter) ? undefined : balanceAfter,
+        });
+      } catch (e) {
+        errors.push({ row: i + 1, message: `Parse error: ${(e as Error).message}` });
+      }
+    }
+
+    return {
+      transactions,
+      errors,
+      detectedFormat: this.formatName,
+    };
+  }
+
+  /**
+   * Locate the header line containing every mapped column and resolve column indexes.
+   */
+  private findHeader(lines: string[]): {
+    index: number;
+    columns: Partial<Record<keyof CsvProfileConfig['columns'], number>>;
+  } | null {
+    const mapping = this.config.columns;
+    const mappedKeys = (Object.keys(mapping) as (keyof typeof mapping)[])
+      .filter(key => mapping[key]);
+
+    for (let i = 0; i < Math.min(lines.length, 30); i++) {
+      const headers = splitDelimitedLine(lines[i], this.config.delimiter).map(normalizeHeader);
+      const columns: Partial<Record<keyof typeof mapping, number>> = {};
+      let matched = true;
+
+      for (const key of mappedKeys) {
+        const idx = headers.indexOf(normalizeHeader(mapping[key]!));
+        if (idx === -1) {
+          matched = false;
+          break;
+        }
+        columns[key] = idx;
+      }
+
+      if (matched && mappedKeys.length > 0) {
+        return { index: i, columns };
+      }
+    }
+    return null;
+  }
+}
@@ -1,21 +1,41 @@
 import { BankParser, ParseResult } from './types';
 import { B100Parser } from './b100-parser';
 import { BBVAParser } from './bbva-parser';
+import { OFXParser } from './ofx-parser';
+import { Camt053Parser } from './camt053-parser';
+import { Norma43Parser } from './norma43-parser';
+import { GenericCSVParser, inspectCsv, splitDelimitedLine } from './generic-csv-parser';
 
-const parsers: BankParser[] = [new B100Parser(), new BBVAParser()];
+// Statement formats first: their markers are unambiguous, unlike CSV header heuristics
+const parsers: BankParser[] = [new OFXParser(), new Camt053Parser(), new Norma43Parser(), new B100Parser(), new BBVAParser()];
 
-export function detectAndParse(csvText: string): ParseResult {
-  for (const parser of parsers) {
+/**
+ * Detect the file format and parse it. Built-in bank parsers are tried first,
+ * then any family-specific parsers (e.g. saved CSV import profiles).
+ */
+export function detectAndParse(csvText: string, extraParsers: BankParser[] = []): ParseResult {
+  for (const parser of [...parsers, ...extraParsers]) {
     if (parser.detect(csvText)) {
       return parser.parse(csvText);
     }
   }
   return {
     transactions: [],
-    errors: [{ row: 0, message: 'Formato CSV no reconocido. Formatos soportados: B100, BBVA.' }],
+    errors: [{ row: 0, message: 'Formato no reconocido. Formatos soportados: B100, BBVA, OFX/QFX, CAMT.053, Norma 43 o un perfil de importación guardado.' }],
     detectedFormat: 'unknown',
   };
 }
 
-export { B100Parser, BBVAParser };
-export type { BankParser, ParsedTransaction, ParseError, ParseResult } from './types';
+export { B100Parser, BBVAParser, OFXParser, Camt053Parser, Norma43Parser, GenericCSVParser, inspectCsv, splitDelimitedLine };
+export type {
+  BankParser,
+  ParsedTransaction,
+  ParseError,
+  ParseResult,
+  StatementBalance,
+  CsvColumnMapping,
+  CsvProfileConfig,
+  CsvDelimiter,
+  CsvDateFormat,
+  DecimalSeparator,
+} from './types';
@@ -0,0 +1,63 @@
+/**
+ * Minimal helpers for reading tagged statement formats (OFX SGML/XML, ISO 20022 XML)
+ * without pulling in a full XML parser. Namespace prefixes (e.g. `ns2:Ntry`) are ignored.
+ */
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&nbsp;': ' ',
+};
+
+export function decodeEntities(value: string): string {
+  return value
+    .replace(/&(amp|lt|gt|quot|apos|nbsp);/g, m => ENTITIES[m])
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .trim();
+}
+
+/**
+ * Return the inner content of every `<tag>...</tag>` element (non-nested).
+ */
+export function xmlBlocks(xml: string, tag: string): string[] {
+  const re = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(xml)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+}
+
+/**
+ * Follow a path of element names (e.g. ['BookgDt', 'Dt']) and return the text of the last one.
+ */
+export function xmlText(xml: string, path: string[]): string | undefined {
+  let current: string | undefined = xml;
+  for (const tag of path) {
+    if (current === undefined) return undefined;
+    current = xmlBlocks(current, tag)[0];
+  }
+  return current !== undefined ? decodeEntities(current) : undefined;
+}
+
+/**
+ * Read an attribute of the first `<tag ...>` element, e.g. the `Ccy` of `<Amt Ccy="EUR">`.
+ */
+export function xmlAttr(xml: string, tag: string, attr: string): string | undefined {
+  const re = new RegExp(`<(?:\\w+:)?${tag}\\s[^>]*\\b${attr}="([^"]*)"`);
+  return re.exec(xml)?.[1];
+}
+
+/**
+ * OFX 1.x (SGML) leaf elements have no closing tag: `<TRNAMT>-12.50`.
+ * This also works for OFX 2.x (XML), where the value is followed by `</TRNAMT>`.
+ */
+export function sgmlValue(block: string, tag: string): string | undefined {
+  const re = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i');
+  const match = re.exec(block);
+  return match ? decodeEntities(match[1]) || undefined : undefined;
+}
@@ -0,0 +1,206 @@
+import { BankParser, ParseResult, ParsedTransaction, ParseError, StatementBalance } from './types';
+
+/**
+ * AEB Norma 43 (Cuaderno 43) common concept codes ("conceptos comunes").
+ */
+const COMMON_CONCEPTS: Record<string, string> = {
+  '01': 'Talones - Reintegros',
+  '02': 'Abonarés - Entregas - Ingresos',
+  '03': 'Domiciliados - Recibos - Letras - Pagos por su cuenta',
+  '04': 'Giros - Transferencias - Traspasos - Cheques',
+  '05': 'Amortizaciones préstamos, créditos, etc.',
+  '06': 'Remesas efectos',
+  '07': 'Suscripciones - Dividendos pasivos - Canje',
+  '08': 'Dividendos - Cupones - Prima junta - Amortizaciones',
+  '09': 'Operaciones de bolsa y/o compra/venta valores',
+  '10': 'Cheques gasolina',
+  '11': 'Cajero automático',
+  '12': 'Tarjetas de crédito - Tarjetas de débito',
+  '13': 'Operaciones extranjero',
+  '14': 'Devoluciones e impagados',
+  '15': 'Nóminas - Seguros sociales',
+  '16': 'Timbres - Corretaje - Póliza',
+  '17': 'Intereses - Comisiones - Custodia - Gastos e impuestos',
+  '98': 'Anulaciones - Correcciones asiento',
+  '99': 'Varios',
+};
+
+// ISO 4217 numeric → alpha codes for the currencies accounts can hold
+const CURRENCY_CODES: Record<string, string> = {
+  '978': 'EUR',
+  '840': 'USD',
+  '826': 'GBP',
+  '756': 'CHF',
+  '392': 'JPY',
+  '124': 'CAD',
+  '036': 'AUD',
+};
+
+function parseN43Date(value: string): string | undefined {
+  // AAMMDD → YYYY-MM-DD
+  if (!/^\d{6}$/.test(value)) return undefined;
+  return `20${value.slice(0, 2)}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+}
+
+function parseN43Amount(signKey: string, digits: string): number {
+  // 14 digits with 2 implicit decimals; key 1 = debit (negative), 2 = credit (positive)
+  if (!/^\d{14}$/.test(digits)) return NaN;
+  const value = parseInt(digits, 10) / 100;
+  return signKey === '1' ? -value : value;
+}
+
+interface AccountGroup {
+  reference: string;       // bank + branch + account number (18 digits)
+  currency: string;
+  openingBalance?: StatementBalance;
+  closingBalance?: StatementBalance;
+  transactions: ParsedTransaction[];
+}
+
+/**
+ * Parser for the AEB Norma 43 fixed-width (80 columns) bank statement format.
+ * Record types: 11 account header, 22 movement, 23 complementary concept,
+ * 24 currency equivalence (ignored), 33 account totals, 88 end of file.
+ */
+export class Norma43Parser implements BankParser {
+  readonly formatName = 'Norma 43';
+
+  detect(text: string): boolean {
+    const lines = text.split(/\r?\n/).filter(l => l.trim());
+    if (lines.length < 2) return false;
+    // Starts with an account header and every record begins with a known type code
+    return /^11\d{18}\d{12}[12]\d{14}/.test(lines[0])
+      && lines.every(l => /^(11|22|23|24|33|88)/.test(l));
+  }
+
+  parse(text: string): ParseResult {
+    const errors: ParseError[] = [];
+    const lines = text.split(/\r?\n/).filter(l => l.trim());
+    const groups: AccountGroup[] = [];
+    let current: AccountGroup | null = null;
+    let lastTransaction: ParsedTransaction | null = null;
+    let runningBalance = NaN;
+    let endDate: string | undefined;
+
+    lines.forEach((rawLine, i) => {
+      const row = i + 1;
+      const line = rawLine.padEnd(80, ' ');
+      const type = line.slice(0, 2);
+
+      try {
+        switch (type) {
+          case '11': {
+            const startDate = parseN43Date(line.slice(20, 26));
+            endDate = parseN43Date(line.slice(26, 32));
+            const opening = parseN43Amount(line.slice(32, 33), line.slice(33, 47));
+            current = {
+              reference: line.slice(2, 20),
+              currency: CURRENCY_CODES[line.slice(47, 50)] || 'EUR',
+              openingBalance: startDate && !isNaN(opening) ? { amount: opening, date: startDate } : undefined,
+              transactions: [],
+            };
+            groups.push(current);
+            runningBalance = opening;
+            lastTransaction = null;
+            break;
+          }
+          case '22': {
+            if (!current) {
+              errors.push({ row, message: 'Movement record (22) before account header (11)' });
+              break;
+            }
+            const date = parseN43Date(line.slice(10, 16));
+            const valueDate = parseN43Date(line.slice(16, 22));
+            const amount = parseN43Amount(line.slice(27, 28), line.slice(28, 42));
+            if (!date || isNaN(amount)) {
+              errors.push({ row, message: `Invalid movement record: ${rawLine.trim()}` });
+              lastTransaction = null;
+              break;
+            }
+
+            const concept = line.slice(22, 24);
+            const references = [line.slice(52, 64).trim(), line.slice(64, 80).trim()]
+              .filter(r => r && !/^0+$/.test(r));
+            // Movements are listed in booking order, so the running balance is exact
+            runningBalance = Math.round((runningBalance + amount) * 100) / 100;
+
+            lastTransaction = {
+              date,
+              valueDate: valueDate && valueDate !== date ? valueDate : undefined,
+              description: COMMON_CONCEPTS[concept] || `Concepto ${concept}`,
+              amount,
+              currency: current.currency,
+              movementType: COMMON_CONCEPTS[concept],
+              balanceAfter: isNaN(runningBalance) ? undefined : runningBalance,
+              observations: references.length > 0 ? references.join(' ') : undefined,
+            };
+            current.transactions.push(lastTransaction);
+            break;
+          }
+          case '23': {
+            // Complementary concepts: first line becomes the description, the rest the detail
+            if (!lastTransaction) break;
+            const concept = [line.slice(4, 42).trim(), line.slice(42, 80).trim()].filter(Boolean).join(' ');
+            if (!concept) break;
+            if (lastTransaction.description === lastTransaction.movementType) {
+              lastTransaction.description = concept;
+            } else {
+              lastTransaction.detail = lastTransaction.detail ? `${lastTransaction.detail} ${concept}` : concept;
+            }
+            break;
+          }
+          case '33': {
+            if (!current) break;
+            const closing = parseN43Amount(line.slice(58, 59), line.slice(59, 73));
+            if (!isNaN(closing) && endDate) {
+              current.closingBalance = { amount: closing, date: endDate };
+            }
+
+            // Cross-check the record totals against the movements read
+            const debitCount = parseInt(line.slice(20, 25), 10);
+            const creditCount = parseInt(line.slice(39, 44), 10);
+            const expected = debitCount + creditCount;
+            if (!isNaN(expected) && expected !== current.transactions.length) {
+              errors.push({ row, message: `Totals record expects ${expected} movements, found ${current.transactions.length}` });
+            }
+            if (!isNaN(closing) && !isNaN(runningBalance) && Math.abs(closing - runningBalance) > 0.005) {
+              errors.push({ row, message: `Closing balance ${closing} does not match computed balance ${runningBalance}` });
+            }
+            lastTransaction = null;
+            break;
+          }
+          case '24':
+          case '88':
+            break;
+          default:
+            errors.push({ row, message: `Unknown record type: ${type}` });
+        }
+      } catch (e) {
+        errors.push({ row, message: `Parse error: ${(e as Error).message}` });
+      }
+    });
+
+    if (groups.length === 0) {
+      return {
+        transactions: [],
+        errors: [{ row: 0, message: 'No account header (record 11) found' }],
+        detectedFormat: this.formatName,
+      };
+    }
+
+    // A file may bundle several accounts; only the first one is imported into the selected account
+    const [first, ...others] = groups;
+    for (const other of others) {
+      errors.push({ row: 0, message: `Account ${other.reference} in the same file was skipped (${other.transactions.length} movements)` });
+    }
+
+    return {
+      transactions: first.transactions,
+      errors,
+      detectedFormat: this.formatName,
+      openingBalance: first.openingBalance,
+      closingBalance: first.closingBalance,
+      accountReference: first.reference,
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { BankParser, ParseResult, ParsedTransaction, ParseError } from './types';
+import { sgmlValue } from './markup-utils';
+
+function parseOfxDate(value: string | undefined): string | undefined {
+  // YYYYMMDD[HHMMSS[.XXX]][[-5:EST]] → YYYY-MM-DD
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+function parseOfxAmount(value: string | undefined): number {
+  // Some banks emit a comma as decimal separator despite the spec
+  return value ? parseFloat(value.trim().replace(',', '.')) : NaN;
+}
+
+/**
+ * Split the statement into <STMTTRN> blocks. In SGML files the closing tag is optional,
+ * so a block ends at the next <STMTTRN> or at </BANKTRANLIST>.
+ */
+function transactionBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  const re = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+}
+
+/**
+ * Parser for OFX/QFX statements (OFX 1.x SGML and OFX 2.x XML).
+ */
+export class OFXParser implements BankParser {
+  readonly formatName = 'OFX';
+
+  detect(text: string): boolean {
+    const head = text.slice(0, 2000).toUpperCase();
+    return head.includes('OFXHEADER') || head.includes('<OFX>');
+  }
+
+  parse(text: string): ParseResult {
+    const transactions: ParsedTransaction[] = [];
+    const errors: ParseError[] = [];
+
+    const currency = sgmlValue(text, 'CURDEF') || 'EUR';
+    const blocks = transactionBlocks(text);
+
+    blocks.forEach((block, i) => {
+      const row = i + 1;
+      try {
+        const date = parseOfxDate(sgmlValue(block, 'DTPOSTED'));
+        if (!date) {
+          errors.push({ row, message: 'Missing or invalid DTPOSTED' });
+          return;
+        }
+
+        const amountStr = sgmlValue(block, 'TRNAMT');
+        const amount = parseOfxAmount(amountStr);
+        if (isNaN(amount)) {
+          errors.push({ row, message: `Invalid amount: ${amountStr}` });
+          return;
+        }
+
+        const userDate = parseOfxDate(sgmlValue(block, 'DTUSER'));
+        const name = sgmlValue(block, 'NAME') || sgmlValue(block, 'PAYEE');
+        const memo = sgmlValue(block, 'MEMO');
+
+        transactions.push({
+          date,
+          valueDate: userDate && userDate !== date ? userDate : undefined,
+          description: name || memo || sgmlValue(block, 'TRNTYPE') || '',
+          detail: name && memo ? memo : undefined,
+          amount,
+          currency: sgmlValue(block, 'CURRENCY') || currency,
+          movementType: sgmlValue(block, 'TRNTYPE'),
+          externalId: sgmlValue(block, 'FITID'),
+        });
+      } catch (e) {
+        errors.push({ row, message: `Parse error: ${(e as Error).message}` });
+      }
+    });
+
+    if (blocks.length === 0) {
+      errors.push({ row: 0, message: 'No <STMTTRN> entries found in OFX file' });
+    }
+
+    // LEDGERBAL is the booked balance at DTASOF
+    const ledgerBlock = /<LEDGERBAL>([\s\S]*?)(?=<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|$)/i.exec(text)?.[1];
+    const closingAmount = ledgerBlock ? parseOfxAmount(sgmlValue(ledgerBlock, 'BALAMT')) : NaN;
+    const closingDate = ledgerBlock ? parseOfxDate(sgmlValue(ledgerBlock, 'DTASOF')) : undefined;
+
+    return {
+      transactions,
+      errors,
+      detectedFormat: this.formatName,
+      closingBalance: !isNaN(closingAmount) && closingDate
+        ? { amount: closingAmount, date: closingDate }
+        : undefined,
+    };
+  }
+}
@@ -8,6 +8,7 @@ export interface ParsedTransaction {
   movementType?: string;
   balanceAfter?: number;
   observations?: string;
+  externalId?: string;     // Bank-assigned id (OFX FITID, CAMT AcctSvcrRef) used for exact dedup
 }
 
 export interface ParseError {
@@ -15,10 +16,18 @@ export interface ParseError {
   message: string;
 }
 
+export interface StatementBalance {
+  amount: number;
+  date: string;            // ISO YYYY-MM-DD
+}
+
 export interface ParseResult {
   transactions: ParsedTransaction[];
   errors: ParseError[];
   detectedFormat: string;
+  openingBalance?: StatementBalance;   // Only statement formats (OFX, CAMT, Norma 43) carry these
+  closingBalance?: StatementBalance;
+  accountReference?: string;           // IBAN or bank account number identified in the statement
 }
 
 export interface BankParser {
@@ -26,3 +35,32 @@ export interface BankParser {
   detect(csvText: string): boolean;
   parse(csvText: string): ParseResult;
 }
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvDateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'DD-MM-YYYY' | 'DD.MM.YYYY';
+export type DecimalSeparator = ',' | '.';
+
+/**
+ * Maps the ParsedTransaction fields to header names of a generic CSV export.
+ * Either `amount` or at least one of `debit`/`credit` must be set.
+ */
+export interface CsvColumnMapping {
+  date: string;
+  valueDate?: string;
+  description: string;
+  detail?: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  balance?: string;
+  currency?: string;
+}
+
+export interface CsvProfileConfig {
+  name: string;
+  delimiter: CsvDelimiter;
+  dateFormat: CsvDateFormat;
+  decimalSeparator: DecimalSeparator;
+  columns: CsvColumnMapping;
+  defaultCurrency: string;
+}
@@ -1,6 +1,8 @@
 import crypto from 'crypto';
 import { getDatabase } from './database';
 import { hashPassword } from './auth';
+import { SessionService } from './session-service';
+import { AccountLockoutService } from './account-lockout-service';
 
 const TOKEN_EXPIRY_HOURS = 1;
 
@@ -110,6 +112,11 @@ export class PasswordResetService {
       );
 
       await db.run('COMMIT');
+
+      // A reset often means the password leaked: sign out every device. Proving access
+      // to the mailbox also lifts a lockout.
+      await SessionService.revokeAllSessions(userId);
+      await AccountLockoutService.clear(userId);
       return { success: true };
     } catch (error) {
       await db.run('ROLLBACK');
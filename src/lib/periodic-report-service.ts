@@ -0,0 +1,234 @@
+import { getDatabase } from './database';
+import { TransactionService } from './transaction-service';
+import { amortizationService } from './amortization-service';
+import { NotificationPreferencesService } from './notification-preferences-service';
+import { FamilyService } from './family-service';
+import type { AccountViewer } from './account-access-service';
+import type {
+  FamilyPreferences, MonthlySummary, PeriodicReportData, PeriodicReportType, ReportCategory, ReportMover, ReportDebt, ReportTotals
+} from '@/types';
+
+const TOP_CATEGORIES = 5;
+const BIGGEST_MOVERS = 5;
+
+interface PeriodAggregate {
+  totals: ReportTotals;
+  expensesByCategory: Map<number, { categoryName: string; categoryColor: string; amount: number }>;
+  months: Array<{ month: string } & ReportTotals>;
+}
+
+function toTotals(income: number, expenses: number): ReportTotals {
+  const net = income - expenses;
+  return { income, expenses, net, savingsRate: income > 0 ? (net / income) * 100 : null };
+}
+
+export class PeriodicReportService {
+
+  /**
+   * Report for a month (YYYY-MM); defaults to the month before the current one in the
+   * family's timezone. With a viewer, only the accounts they can see are included.
+   */
+  static async generateMonthlyReport(familyId: number, month?: string, viewer?: AccountViewer): Promise<PeriodicReportData> {
+    const settings = await FamilyService.getSettings(familyId);
+    const label = month || this.shiftMonth(FamilyService.today(settings).substring(0, 7), -1);
+    return this.generateReport(familyId, settings, 'monthly', label, [label], [this.shiftMonth(label, -1)], viewer);
+  }
+
+  /**
+   * Report for the family's fiscal year starting in the given year (a calendar year when
+   * it starts in January); defaults to the last complete one
+   */
+  static async generateYearlyReport(familyId: number, year?: number, viewer?: AccountViewer): Promise<PeriodicReportData> {
+    const settings = await FamilyService.getSettings(familyId);
+    const startMonth = settings.fiscal_year_start_month;
+    const reportYear = year || this.fiscalYearOf(FamilyService.today(settings).substring(0, 7), startMonth) - 1;
+    return this.generateReport(
+      familyId,
+      settings,
+      'yearly',
+      startMonth === 1 ? String(reportYear) : `${reportYear}/${String(reportYear + 1).slice(2)}`,
+      this.monthsOfYear(reportYear, startMonth),
+      this.monthsOfYear(reportYear - 1, startMonth),
+      viewer
+    );
+  }
+
+  /**
+   * Year in which the fiscal year containing the month (YYYY-MM) starts
+   */
+  static fiscalYearOf(month: string, startMonth: number): number {
+    const [year, m] = month.split('-').map(Number);
+    return m >= startMonth ? year : year - 1;
+  }
+
+  static isValidMonth(month: string): boolean {
+    return /^\d{4}-(0[1-9]|1[0-2])$/.test(month);
+  }
+
+  private static async generateReport(
+    familyId: number,
+    settings: FamilyPreferences,
+    type: PeriodicReportType,
+    label: string,
+    months: string[],
+    previousMonths: string[],
+    viewer?: AccountViewer
+  ): Promise<PeriodicReportData> {
+    const db = await getDatabase();
+
+    const member = await db.get('SELECT 1 FROM users WHERE family_id = ? LIMIT 1', [familyId]);
+    if (!member) {
+      throw new Error('Family not found');
+    }
+
+    const current = await this.aggregate(familyId, months, viewer);
+    const previous = await this.aggregate(familyId, previousMonths, viewer);
+
+    const start = `${months[0]}-01`;
+    const end = this.lastDayOfMonth(months[months.length - 1]);
+    const debts = await this.getDebtPaydown(familyId, start, end, viewer);
+
+    return {
+      familyId,
+      familyName: settings.name,
+      type,
+      period: { start, end, label },
+      currency: settings.base_currency,
+      totals: current.totals,
+      previousTotals: previous.totals,
+      topCategories: this.getTopCategories(current),
+      biggestMovers: this.getBiggestMovers(current, previous),
+      debts,
+      totalDebtPaydown: debts.reduce((sum, d) => sum + d.paidDown, 0),
+      months: type === 'yearly' ? current.months : [],
+      recipients: await NotificationPreferencesService.getFamilyRecipients(familyId, type),
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Add up the monthly summaries of the given months
+   */
+  private static async aggregate(familyId: number, months: string[], viewer?: AccountViewer): Promise<PeriodAggregate> {
+    const expensesByCategory: PeriodAggregate['expensesByCategory'] = new Map();
+    const monthTotals: PeriodAggregate['months'] = [];
+    let income = 0;
+    let expenses = 0;
+
+    for (const month of months) {
+      const summary: MonthlySummary = await TransactionService.getMonthlySummary(familyId, month, viewer);
+      income += summary.totalIncome;
+      expenses += summary.totalExpenses;
+      monthTotals.push({ month, ...toTotals(summary.totalIncome, summary.totalExpenses) });
+
+      for (const cat of summary.byCategory) {
+        if (cat.type === 'non_computable' || cat.amount >= 0) continue;
+        const existing = expensesByCategory.get(cat.categoryId);
+        if (existing) {
+          existing.amount += Math.abs(cat.amount);
+        } else {
+          expensesByCategory.set(cat.categoryId, {
+            categoryName: cat.categoryName,
+            categoryColor: cat.categoryColor,
+            amount: Math.abs(cat.amount),
+          });
+        }
+      }
+    }
+
+    return { totals: toTotals(income, expenses), expensesByCategory, months: monthTotals };
+  }
+
+  private static getTopCategories(current: PeriodAggregate): ReportCategory[] {
+    return [...current.expensesByCategory.entries()]
+      .sort((a, b) => b[1].amount - a[1].amount)
+      .slice(0, TOP_CATEGORIES)
+      .map(([categoryId, cat]) => ({
+        categoryId,
+        categoryName: cat.categoryName,
+        categoryColor: cat.categoryColor,
+        amount: cat.amount,
+        percentage: current.totals.expenses > 0 ? (cat.amount / current.totals.expenses) * 100 : 0,
+      }));
+  }
+
+  /**
+   * Expense categories whose spending changed the most against the previous period
+   */
+  private static getBiggestMovers(current: PeriodAggregate, previous: PeriodAggregate): ReportMover[] {
+    const ids = new Set([...current.expensesByCategory.keys(), ...previous.expensesByCategory.keys()]);
+    const movers: ReportMover[] = [];
+
+    for (const categoryId of ids) {
+      const now = current.expensesByCategory.get(categoryId);
+      const before = previous.expensesByCategory.get(categoryId);
+      const amount = now?.amount || 0;
+      const previousAmount = before?.amount || 0;
+      const change = Math.round((amount - previousAmount) * 100) / 100;
+      if (change === 0) continue;
+      movers.push({
+        categoryId,
+        categoryName: (now || before)!.categoryName,
+        categoryColor: (now || before)!.categoryColor,
+        amount,
+        previousAmount,
+        change,
+      });
+    }
+
+    return movers
+      .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+      .slice(0, BIGGEST_MOVERS);
+  }
+
+  /**
+   * Balance of each debt account at the start and end of the period
+   */
+  private static async getDebtPaydown(familyId: number, start: string, end: string, viewer?: AccountViewer): Promise<ReportDebt[]> {
+    const db = await getDatabase();
+    const summaries = await amortizationService.getDebtSummaries(familyId, viewer);
+    const debts: ReportDebt[] = [];
+
+    for (const summary of summaries) {
+      const balanceAt = async (date: string, inclusive: boolean) => {
+        const row = await db.get(
+          `SELECT amount FROM balances WHERE account_id = ? AND date ${inclusive ? '<=' : '<'} ? ORDER BY date DESC, id DESC LIMIT 1`,
+          [summary.accountId, date]
+        ) as { amount: number } | undefined;
+        return row?.amount || 0;
+      };
+
+      const startBalance = await balanceAt(start, false);
+      const endBalance = await balanceAt(end, true);
+      if (startBalance === 0 && endBalance === 0) continue;
+
+      debts.push({
+        accountName: summary.accountName,
+        startBalance,
+        endBalance,
+        paidDown: startBalance - endBalance,
+        monthlyPayment: summary.monthlyPayment,
+        payoffDate: summary.payoffDate,
+        isSettled: summary.isSettled,
+      });
+    }
+
+    return debts;
+  }
+
+  private static shiftMonth(month: string, delta: number): string {
+    const [year, m] = month.split('-').map(Number);
+    const date = new Date(year, m - 1 + delta, 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  }
+
+  private static monthsOfYear(year: number, startMonth: number): string[] {
+    const start = `${year}-${String(startMonth).padStart(2, '0')}`;
+    return Array.from({ length: 12 }, (_, i) => this.shiftMonth(start, i));
+  }
+
+  private static lastDayOfMonth(month: string): string {
+    const [year, m] = month.split('-').map(Number);
+    return `${month}-${String(new Date(year, m, 0).getDate()).padStart(2, '0')}`;
+  }
+}
@@ -7,6 +7,8 @@ export interface PermissionConfig {
   canViewAllData: boolean;
   canDeleteUsers: boolean;
   canChangeRoles: boolean;
+  canEditData: boolean;
+  canManageSystem: boolean;
 }
 
 export function getUserPermissions(role: UserRole): PermissionConfig {
@@ -19,6 +21,8 @@ export function getUserPermissions(role: UserRole): PermissionConfig {
         canViewAllData: true,
         canDeleteUsers: true,
         canChangeRoles: true,
+        canEditData: true,
+        canManageSystem: true,
       };
     case 'user':
       return {
@@ -28,6 +32,8 @@ export function getUserPermissions(role: UserRole): PermissionConfig {
         canViewAllData: true,
         canDeleteUsers: false,
         canChangeRoles: false,
+        canEditData: true,
+        canManageSystem: false,
       };
     case 'guest':
       return {
@@ -37,6 +43,8 @@ export function getUserPermissions(role: UserRole): PermissionConfig {
         canViewAllData: false,
         canDeleteUsers: false,
         canChangeRoles: false,
+        canEditData: false,
+        canManageSystem: false,
       };
     default:
       return {
@@ -46,10 +54,20 @@ export function getUserPermissions(role: UserRole): PermissionConfig {
         canViewAllData: false,
         canDeleteUsers: false,
         canChangeRoles: false,
+        canEditData: false,
+        canManageSystem: false,
       };
   }
 }
 
+/**
+ * Whether the user's role grants a permission
+ */
+export function hasPermission(user: Pick<User, 'role'> | null | undefined, permission: keyof PermissionConfig): boolean {
+  if (!user) return false;
+  return getUserPermissions(user.role)[permission];
+}
+
 export function isAdmin(user: User | null): boolean {
   return user?.role === 'administrator';
 }
@@ -0,0 +1,79 @@
+import { SettingsService, type AuthRateLimitSettings, type RateLimitRule } from './settings-service';
+import { systemLogger } from './system-logger';
+import type { ClientInfo } from './session-service';
+
+export type AuthRateLimitAction = keyof AuthRateLimitSettings;
+
+interface AttemptWindow {
+  count: number;
+  resetAt: number;
+}
+
+// Counters live in this process only; a restart clears them, which is acceptable for
+// a single-instance deployment
+const windows = new Map<string, AttemptWindow>();
+const SWEEP_INTERVAL_MS = 60 * 1000;
+let lastSweep = 0;
+
+function sweep(now: number): void {
+  if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+  lastSweep = now;
+  for (const [key, entry] of windows) {
+    if (entry.resetAt <= now) windows.delete(key);
+  }
+}
+
+/**
+ * Counts an attempt against key's current window. retryAfter is the seconds until the
+ * window resets when the attempt is over the limit, 0 when it is allowed.
+ */
+function countAttempt(key: string, rule: RateLimitRule, now: number): { retryAfter: number; justExceeded: boolean } {
+  sweep(now);
+  let entry = windows.get(key);
+  if (!entry || entry.resetAt <= now) {
+    entry = { count: 0, resetAt: now + rule.windowMinutes * 60 * 1000 };
+    windows.set(key, entry);
+  }
+  entry.count++;
+  if (entry.count <= rule.maxAttempts) return { retryAfter: 0, justExceeded: false };
+  return {
+    retryAfter: Math.ceil((entry.resetAt - now) / 1000),
+    justExceeded: entry.count === rule.maxAttempts + 1,
+  };
+}
+
+/**
+ * In-memory rate limiting for the public auth endpoints, so it works in a single Node
+ * process without Redis or similar
+ */
+export class RateLimiter {
+  /**
+   * Counts a request against both the client's IP and the email it names, with the
+   * limits from app settings. Returns the seconds to wait, 0 when the request may go
+   * ahead. Clients without a known IP are only limited by email.
+   */
+  static async checkAuth(action: AuthRateLimitAction, client: ClientInfo, email: string): Promise<number> {
+    const limits = (await SettingsService.getAuthRateLimits())[action];
+    const normalizedEmail = email.trim().toLowerCase();
+    const now = Date.now();
+
+    const byIp = client.ip
+      ? countAttempt(`${action}:ip:${client.ip}`, limits.perIp, now)
+      : { retryAfter: 0, justExceeded: false };
+    const byEmail = countAttempt(`${action}:email:${normalizedEmail}`, limits.perEmail, now);
+    const retryAfter = Math.max(byIp.retryAfter, byEmail.retryAfter);
+
+    // Log when a key first goes over its limit, not on every rejected request
+    if (byIp.justExceeded || byEmail.justExceeded) {
+      await systemLogger.logWarning(
+        'auth',
+        'rate_limited',
+        `Too many ${action} requests ${byIp.justExceeded ? `from ${client.ip}` : `for ${normalizedEmail}`}`,
+        undefined,
+        undefined,
+        { action, email: normalizedEmail, ip: client.ip, retryAfter }
+      );
+    }
+    return retryAfter;
+  }
+}
@@ -0,0 +1,266 @@
+import { getDatabase } from './database';
+import { AccountAccessService, type AccountViewer } from './account-access-service';
+import type { RecurringCadence, RecurringSeries } from '@/types';
+
+type SeriesRow = Omit<RecurringSeries, 'dismissed' | 'price_increase' | 'missed'> & { dismissed: number };
+
+interface CandidateTransaction {
+  id: number;
+  account_id: number;
+  amount: number;
+  currency: string;
+  date: string;
+  description: string;
+  category_id: number | null;
+}
+
+interface CadenceSpec {
+  days: number;           // Typical interval between charges
+  tolerance: number;      // Allowed deviation of an interval, in days
+  minOccurrences: number;
+  grace: number;          // Days past the expected date before a charge counts as missed
+}
+
+const CADENCES: Record<RecurringCadence, CadenceSpec> = {
+  weekly: { days: 7, tolerance: 1, minOccurrences: 4, grace: 3 },
+  monthly: { days: 30.4, tolerance: 4, minOccurrences: 3, grace: 7 },
+  yearly: { days: 365, tolerance: 10, minOccurrences: 2, grace: 21 },
+};
+
+// Share of intervals/amounts that must fit the pattern
+const MIN_MATCH_RATIO = 0.75;
+// Amounts within this fraction of the median count as "similar"
+const AMOUNT_TOLERANCE = 0.25;
+// Series with no charge for this many periods are considered ended and dropped
+const ENDED_AFTER_PERIODS = 3;
+// How far back transactions are scanned
+const LOOKBACK_MONTHS = 24;
+
+const DAY_MS = 86400000;
+
+/**
+ * Reduce a bank description to a stable counterparty key: accents, digits,
+ * dates, references and punctuation are stripped and only the first words kept,
+ * so "RECIBO NETFLIX.COM 12/03 REF 99812" and "RECIBO NETFLIX.COM 12/04 REF 10233"
+ * group together.
+ */
+export function normalizeCounterparty(description: string): string {
+  return description
+    .toLowerCase()
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1)
+    .slice(0, 4)
+    .join(' ');
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/**
+ * Classify charge dates (sorted ascending) as weekly, monthly or yearly, or null
+ * when the intervals don't follow any of them closely enough
+ */
+export function detectCadence(dates: string[]): RecurringCadence | null {
+  if (dates.length < 2) return null;
+  const intervals = dates.slice(1).map((d, i) => daysBetween(dates[i], d));
+  const typical = median(intervals);
+
+  for (const [cadence, spec] of Object.entries(CADENCES) as Array<[RecurringCadence, CadenceSpec]>) {
+    if (dates.length < spec.minOccurrences) continue;
+    if (Math.abs(typical - spec.days) > spec.tolerance) continue;
+    const fitting = intervals.filter(i => Math.abs(i - spec.days) <= spec.tolerance).length;
+    if (fitting / intervals.length >= MIN_MATCH_RATIO) return cadence;
+  }
+  return null;
+}
+
+export function addCadence(date: string, cadence: RecurringCadence): string {
+  const [year, month, day] = date.split('-').map(Number);
+  if (cadence === 'weekly') {
+    return new Date(Date.UTC(year, month - 1, day + 7)).toISOString().slice(0, 10);
+  }
+  const months = cadence === 'monthly' ? 1 : 12;
+  // Clamp to the end of shorter months (Jan 31 → Feb 28)
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
+
+function rowToSeries(row: SeriesRow, today: string = new Date().toISOString().slice(0, 10)): RecurringSeries {
+  return {
+    ...row,
+    dismissed: !!row.dismissed,
+    price_increase: row.previous_amount != null,
+    missed: daysBetween(row.next_expected_date, today) > CADENCES[row.cadence].grace,
+  };
+}
+
+export class RecurringService {
+  static async getSeriesByFamily(familyId: number, includeDismissed: boolean = false, viewer?: AccountViewer): Promise<RecurringSeries[]> {
+    const db = await getDatabase();
+    const visible = AccountAccessService.visibleCondition(viewer);
+    const rows = await db.all(
+      `SELECT rs.*, a.name as account_name, tc.name as category_name, tc.color as category_color,
+        sc.name as suggested_category_name
+       FROM recurring_series rs
+       JOIN accounts a ON rs.account_id = a.id
+       LEFT JOIN transaction_categories tc ON rs.category_id = tc.id
+       LEFT JOIN transaction_categories sc ON rs.suggested_category_id = sc.id
+       WHERE rs.family_id = ? ${includeDismissed ? '' : 'AND rs.dismissed = 0'} AND ${visible.sql}
+       ORDER BY rs.next_expected_date`,
+      [familyId, ...visible.params]
+    ) as SeriesRow[];
+    return rows.map(row => rowToSeries(row));
+  }
+
+  static async getSeriesById(id: number, familyId: number): Promise<RecurringSeries | null> {
+    const db = await getDatabase();
+    const row = await db.get(
+      'SELECT * FROM recurring_series WHERE id = ? AND family_id = ?',
+      [id, familyId]
+    ) as SeriesRow | undefined;
+    return row ? rowToSeries(row) : null;
+  }
+
+  static async setDismissed(id: number, familyId: number, dismissed: boolean): Promise<void> {
+    const db = await getDatabase();
+    await db.run(
+      "UPDATE recurring_series SET dismissed = ?, updated_at = datetime('now') WHERE id = ? AND family_id = ?",
+      [dismissed ? 1 : 0, id, familyId]
+    );
+  }
+
+  /**
+   * Assign a category to every transaction of a series, returning how many were updated
+   */
+  static async applyCategory(id: number, familyId: number, categoryId: number): Promise<number> {
+    const db = await getDatabase();
+    const result = await db.run(
+      "UPDATE transactions SET category_id = ?, updated_at = datetime('now') WHERE recurring_series_id = ? AND family_id = ?",
+      [categoryId, id, familyId]
+    );
+    await db.run(
+      "UPDATE recurring_series SET category_id = ?, suggested_category_id = NULL, updated_at = datetime('now') WHERE id = ? AND family_id = ?",
+      [categoryId, id, familyId]
+    );
+    return result.changes;
+  }
+
+  /**
+   * Rescan the family's charges and rebuild its recurring series. Series keep
+   * their id and dismissed flag across scans; series no longer detected are removed.
+   */
+  static async detectRecurring(familyId: number): Promise<{ detected: number }> {
+    const db = await getDatabase();
+    const today = new Date().toISOString().slice(0, 10);
+
+    const transactions = await db.all(
+      `SELECT id, account_id, amount, currency, date, description, category_id
+       FROM transactions
+       WHERE family_id = ? AND amount < 0 AND is_transfer = 0 AND date >= date('now', ?)
+       ORDER BY date, id`,
+      [familyId, `-${LOOKBACK_MONTHS} months`]
+    ) as CandidateTransaction[];
+
+    const groups = new Map<string, CandidateTransaction[]>();
+    for (const tx of transactions) {
+      const key = normalizeCounterparty(tx.description);
+      if (!key) continue;
+      const groupKey = `${tx.account_id}|${key}`;
+      if (!groups.has(groupKey)) groups.set(groupKey, []);
+      groups.get(groupKey)!.push(tx);
+    }
+
+    const subscriptions = await db.get(
+      "SELECT id FROM transaction_categories WHERE family_id = ? AND name = 'Subscriptions' AND is_system = TRUE",
+      [familyId]
+    ) as { id: number } | undefined;
+
+    await db.run('UPDATE transactions SET recurring_series_id = NULL WHERE family_id = ? AND recurring_series_id IS NOT NULL', [familyId]);
+
+    const keptIds: number[] = [];
+    for (const [groupKey, group] of groups) {
+      const cadence = detectCadence(group.map(tx => tx.date));
+      if (!cadence) continue;
+
+      const amounts = group.map(tx => Math.abs(tx.amount));
+      const typicalAmount = median(amounts);
+      const similar = amounts.filter(a => Math.abs(a - typicalAmount) <= typicalAmount * AMOUNT_TOLERANCE).length;
+      if (similar / amounts.length < MIN_MATCH_RATIO) continue;
+
+      const last = group[group.length - 1];
+      if (daysBetween(last.date, today) > CADENCES[cadence].days * ENDED_AFTER_PERIODS) continue;
+
+      const lastAmount = Math.abs(last.amount);
+      const previousAmount = Math.abs(group[group.length - 2].amount);
+      const priceIncrease = lastAmount - previousAmount >= 0.01;
+
+      // The category most of the series' transactions already have
+      const categoryCounts = new Map<number, number>();
+      for (const tx of group) {
+        if (tx.category_id) categoryCounts.set(tx.category_id, (categoryCounts.get(tx.category_id) || 0) + 1);
+      }
+      const categoryId = [...categoryCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+      const counterpartyKey = groupKey.slice(groupKey.indexOf('|') + 1);
+      await db.run(
+        `INSERT INTO recurring_series (
+          family_id, account_id, counterparty_key, name, cadence, currency,
+          average_amount, last_amount, previous_amount, occurrences,
+          first_date, last_date, next_expected_date, category_id, suggested_category_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(family_id, account_id, counterparty_key) DO UPDATE SET
+          name = excluded.name, cadence = excluded.cadence, currency = excluded.currency,
+          average_amount = excluded.average_amount, last_amount = excluded.last_amount,
+          previous_amount = excluded.previous_amount, occurrences = excluded.occurrences,
+          first_date = excluded.first_date, last_date = excluded.last_date,
+          next_expected_date = excluded.next_expected_date, category_id = excluded.category_id,
+          suggested_category_id = excluded.suggested_category_id, updated_at = CURRENT_TIMESTAMP`,
+        [
+          familyId,
+          last.account_id,
+          counterpartyKey,
+          last.description,
+          cadence,
+          last.currency,
+          Math.round((amounts.reduce((s, a) => s + a, 0) / amounts.length) * 100) / 100,
+          lastAmount,
+          priceIncrease ? previousAmount : null,
+          group.length,
+          group[0].date,
+          last.date,
+          addCadence(last.date, cadence),
+          categoryId,
+          // Uncategorized series are offered the seeded Subscriptions category
+          categoryId === null && subscriptions ? subscriptions.id : null,
+        ]
+      );
+
+      const series = await db.get(
+        'SELECT id FROM recurring_series WHERE family_id = ? AND account_id = ? AND counterparty_key = ?',
+        [familyId, last.account_id, counterpartyKey]
+      ) as { id: number };
+      keptIds.push(series.id);
+
+      await db.run(
+        `UPDATE transactions SET recurring_series_id = ? WHERE id IN (${group.map(() => '?').join(',')})`,
+        [series.id, ...group.map(tx => tx.id)]
+      );
+    }
+
+    await db.run(
+      `DELETE FROM recurring_series WHERE family_id = ? ${keptIds.length ? `AND id NOT IN (${keptIds.map(() => '?').join(',')})` : ''}`,
+      [familyId, ...keptIds]
+    );
+
+    return { detected: keptIds.length };
+  }
+}
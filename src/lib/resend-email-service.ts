@@ -17,6 +17,7 @@ export interface SendEmailOptions {
     content: Buffer | string;
     contentType?: string;
   }>;
+  headers?: Record<string, string>;
 }
 
 export class ResendEmailService {
@@ -100,7 +101,8 @@ export class ResendEmailService {
         subject: options.subject,
         html: options.html,
         text: options.text,
-        attachments
+        attachments,
+        headers: options.headers
       });
 
       return {
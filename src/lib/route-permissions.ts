@@ -0,0 +1,202 @@
+import type { PermissionConfig } from './permissions';
+
+/**
+ * What a request needs: nothing ('public'), a signed-in user of any role
+ * ('authenticated'), or a permission of the user's role
+ */
+export type RoutePermission = 'public' | 'authenticated' | keyof PermissionConfig;
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * The permission each API route needs, per method, keyed by the route's folder under
+ * src/app ([param] segments match any value). Reading family data only needs a session,
+ * so guests get a read-only view; changing it needs canEditData. A guest can still look
+ * after their own sign-in, alerts and notifications. Methods missing here are refused.
+ */
+export const ROUTE_PERMISSIONS: Record<string, Partial<Record<HttpMethod, RoutePermission>>> = {
+  '/api/health': { GET: 'public' },
+
+  // Sign-in and the signed-in user's own account
+  '/api/auth/login': { POST: 'public' },
+  '/api/auth/register': { POST: 'public' },
+  '/api/auth/registration-status': { GET: 'public' },
+  '/api/auth/forgot-password': { POST: 'public' },
+  '/api/auth/verify-reset-token': { POST: 'public' },
+  '/api/auth/reset-password': { POST: 'public' },
+  // Steps of a sign-in that is waiting for its second factor, and routes that deal with a
+  // missing session themselves
+  '/api/auth/two-factor/setup': { POST: 'public' },
+  '/api/auth/two-factor/enable': { POST: 'public' },
+  '/api/auth/two-factor/verify': { POST: 'public' },
+  '/api/auth/logout': { POST: 'public' },
+  '/api/auth/me': { GET: 'public' },
+  '/api/auth/change-password': { POST: 'authenticated' },
+  '/api/auth/sessions': { GET: 'authenticated' },
+  '/api/auth/sessions/[id]': { DELETE: 'authenticated' },
+  '/api/auth/sessions/revoke-all': { POST: 'authenticated' },
+  '/api/auth/two-factor': { GET: 'authenticated' },
+  '/api/auth/two-factor/disable': { POST: 'authenticated' },
+  '/api/auth/two-factor/recovery-codes': { POST: 'authenticated' },
+  '/api/auth/dropbox': { GET: 'canAccessBackups' },
+  '/api/auth/dropbox/callback': { GET: 'canAccessBackups' },
+  '/api/auth/google-drive': { GET: 'canAccessBackups' },
+  '/api/auth/google-drive/callback': { GET: 'canAccessBackups' },
+  '/api/tokens': { GET: 'authenticated', POST: 'authenticated' },
+  '/api/tokens/[id]': { DELETE: 'authenticated' },
+  '/api/users/notification-preferences': { GET: 'authenticated', POST: 'authenticated' },
+  '/api/notifications': { GET: 'authenticated' },
+  '/api/notifications/[id]': { PUT: 'authenticated' },
+  '/api/notifications/read-all': { POST: 'authenticated' },
+  '/api/notifications/unsubscribe': { GET: 'public', POST: 'public' },
+  '/api/invitations/[token]': { GET: 'public', POST: 'authenticated' },
+
+  // Family data
+  '/api/dashboard': { GET: 'authenticated' },
+  '/api/dashboard/history': { GET: 'authenticated' },
+  '/api/accounts': { GET: 'authenticated', POST: 'canEditData' },
+  '/api/accounts/[id]': { PUT: 'canEditData', DELETE: 'canEditData' },
+  '/api/accounts/[id]/amortization': { GET: 'authenticated', POST: 'canEditData' },
+  '/api/accounts/[id]/auto-update': { POST: 'canEditData' },
+  '/api/accounts/[id]/payment': { GET: 'authenticated', POST: 'canEditData' },
+  '/api/accounts/[id]/settle': { POST: 'canEditData' },
+  '/api/accounts/[id]/sharing': { GET: 'authenticated', PUT: 'canEditData' },
+  '/api/balances': { GET: 'authenticated', POST: 'canEditData' },
+  '/api/balances/[id]': { PUT: 'canEditData', DELETE: 'canEditData' },
+  '/api/debts/summary': { GET: 'authenticated' },
+  '/api/budgets': { GET: 'authenticated', POST: 'canEditData' },
+  '/api/budgets/[id]': { PUT: 'canEditData', DELETE: 'canEditData' },
+  '/api/budgets/progress': { GET: 'authenticated' },
+  '/api/transactions': { GET: 'authenticated' },
+  '/api/transactions/[id]': { GET: 'authenticated', PUT: 'canEditData', DELETE: 'canEditData' },
+  '/api/transactions/[id]/splits': { GET: 'authenticated', PUT: 'canEditData' },
+  '/api/transactions/analytics/monthly': { GET: 'authenticated' },
+  '/api/transactions/analytics/trends': { GET: 'authenticated' },
+  '/api/transactions/batch-delete': { POST: 'canEditData' },
+  '/api/transactions/batch-update': { POST: 'canEditData' },
+  '/api/transactions/categories': { GET: 'authenticated', POST: 'canEditData' },
+  '/api/transactions/categories/[id]': { PUT: 'canEditData', DELETE: 'canEditData' },
+  '/api/transactions/categorize': { POST: 'canEditData' },
+  '/api/transactions/categorize/preview': { POST: 'canEditData' },
+  '/api/transactions/category-rules': { GET: 'authenticated', POST: 'canEditData' },
+  '/api/transactions/category-rules/[id]': { PUT: 'canEditData', DELETE: 'canEditData' },
+  '/api/transactions/category-rules/apply': { POST: 'canEditData' },
+  '/api/transactions/category-rules/suggestions': { GET: 'authenticated', POST: 'canEditData' },
+  '/api/transactions/category-rules/suggestions/dismiss': { POST: 'canEditData' },
+  '/api/transactions/import-profiles': { GET: 'authenticated', POST: 'canEditData' },
+  '/api/transactions/import-profiles/[id]': { PUT: 'canEditData', DELETE: 'canEditData' },
+  '/api/transactions/import/parse': { POST: 'canEditData' },
+  '/api/transactions/import/confirm': { POST: 'canEditData' },
+  '/api/import/csv': { POST: 'canEditData' },
+  '/api/transactions/transfer-pairs': { GET: 'authenticated', POST: 'canEditData' },
+  '/api/transactions/transfer-pairs/[id]': { PUT: 'canEditData' },
+  '/api/transactions/transfer-pairs/candidates': { GET: 'authenticated' },
+  '/api/transactions/transfer-pairs/match': { POST: 'canEditData' },
+  '/api/transactions/transfer-rules': { GET: 'authenticated', POST: 'canEditData' },
+  '/api/transactions/transfer-rules/[id]': { PUT: 'canEditData', DELETE: 'canEditData' },
+  '/api/recurring': { GET: 'authenticated' },
+  '/api/recurring/[id]': { PUT: 'canEditData' },
+  '/api/recurring/detect': { POST: 'canEditData' },
+  '/api/analytics/category-evolution': { GET: 'authenticated' },
+  '/api/analytics/reports/monthly': { GET: 'authenticated' },
+  '/api/analytics/reports/yearly': { GET: 'authenticated' },
+  '/api/export': { GET: 'authenticated' },
+
+  // Alert rules belong to the member who made them
+  '/api/alerts': { GET: 'authenticated' },
+  '/api/alerts/[id]': { PUT: 'authenticated' },
+  '/api/alerts/read-all': { POST: 'authenticated' },
+  '/api/alerts/evaluate': { POST: 'authenticated' },
+  '/api/alerts/rules': { GET: 'authenticated', POST: 'authenticated' },
+  '/api/alerts/rules/[id]': { PUT: 'authenticated', DELETE: 'authenticated' },
+
+  // The assistant only runs actions the member's role allows, see AIActionExecutor
+  '/api/ai/chat': { POST: 'authenticated' },
+  '/api/chat/conversations': { GET: 'authenticated', POST: 'authenticated' },
+  '/api/chat/conversations/[id]': { GET: 'authenticated', PATCH: 'authenticated', DELETE: 'authenticated' },
+  '/api/chat/conversations/[id]/messages': { GET: 'authenticated', POST: 'authenticated' },
+
+  // Family settings and members
+  '/api/settings/family': { GET: 'authenticated', PUT: 'canManageUsers' },
+  '/api/settings/currency': { GET: 'authenticated', PUT: 'canManageUsers' },
+  '/api/settings/currency/rates': { POST: 'canEditData' },
+  '/api/settings/currency/rates/[id]': { DELETE: 'canEditData' },
+  '/api/settings/currency/rates/import': { POST: 'canEditData' },
+  '/api/settings/ai': { GET: 'authenticated', PUT: 'canEditData' },
+  '/api/settings/ai/test': { POST: 'canEditData' },
+  '/api/members': { GET: 'authenticated' },
+  '/api/members/[id]': { PUT: 'canChangeRoles', DELETE: 'canDeleteUsers' },
+  '/api/members/invitations': { GET: 'canManageUsers', POST: 'canManageUsers' },
+  '/api/members/invitations/[id]': { DELETE: 'canManageUsers' },
+  '/api/members/registration': { GET: 'authenticated', PUT: 'canToggleRegistration' },
+  '/api/webhooks': { GET: 'canManageSystem', POST: 'canManageSystem' },
+  '/api/webhooks/[id]': { PUT: 'canManageSystem', DELETE: 'canManageSystem' },
+  '/api/webhooks/[id]/deliveries': { GET: 'canManageSystem' },
+  '/api/webhooks/[id]/test': { POST: 'canManageSystem' },
+
+  // Backups and cloud storage hold every family's data
+  '/api/backups': { GET: 'canAccessBackups', POST: 'canAccessBackups' },
+  '/api/backups/[id]': { DELETE: 'canAccessBackups' },
+  '/api/backups/[id]/download': { GET: 'canAccessBackups' },
+  '/api/backups/[id]/restore': { POST: 'canAccessBackups' },
+  '/api/backups/schedule': { GET: 'canAccessBackups', PUT: 'canAccessBackups' },
+  '/api/backups/upload': { POST: 'canAccessBackups' },
+  '/api/cloud-storage': { GET: 'canAccessBackups', PUT: 'canAccessBackups' },
+
+  // Administration
+  '/api/admin/users': { GET: 'canManageUsers', POST: 'canManageUsers', PUT: 'canManageUsers' },
+  '/api/admin/users/[id]': { GET: 'canManageUsers', PUT: 'canManageUsers', DELETE: 'canDeleteUsers' },
+  '/api/admin/users/[id]/two-factor': { DELETE: 'canManageUsers' },
+  '/api/admin/users/[id]/unlock': { POST: 'canManageUsers' },
+  '/api/admin/locked-accounts': { GET: 'canManageUsers' },
+  '/api/admin/two-factor': { GET: 'canManageSystem', PUT: 'canManageSystem' },
+  '/api/admin/encryption': { GET: 'canManageSystem', POST: 'canManageSystem' },
+  '/api/admin/email/init': { POST: 'canManageSystem' },
+  '/api/admin/email/providers': { GET: 'canManageSystem' },
+  '/api/admin/email/resend': { GET: 'canManageSystem', POST: 'canManageSystem', PUT: 'canManageSystem' },
+  '/api/admin/logs': { GET: 'canManageSystem', DELETE: 'canManageSystem' },
+  '/api/admin/logs/stats': { GET: 'canManageSystem' },
+  '/api/admin/notifications/config': { GET: 'canManageSystem', POST: 'canManageSystem' },
+  '/api/admin/notifications/history': { GET: 'canManageSystem', DELETE: 'canManageSystem' },
+  '/api/admin/notifications/send': { POST: 'canManageSystem' },
+  '/api/admin/notifications/test': { POST: 'canManageSystem' },
+  '/api/debug/families': { GET: 'canManageSystem' },
+};
+
+const ROUTES = Object.keys(ROUTE_PERMISSIONS).map(route => ({ route, segments: route.split('/').filter(Boolean) }));
+
+// When several routes fit, the one whose first [param] comes latest is the most specific,
+// so /api/transactions/batch-delete wins over /api/transactions/[id]
+function isMoreSpecific(a: string[], b: string[]): boolean {
+  for (let i = 0; i < a.length; i++) {
+    const aParam = a[i].startsWith('[');
+    const bParam = b[i].startsWith('[');
+    if (aParam !== bParam) return bParam;
+  }
+  return false;
+}
+
+/**
+ * The route pattern a request path belongs to, or null for paths no route handles
+ */
+export function matchRoute(pathname: string): string | null {
+  const parts = pathname.split('/').filter(Boolean);
+  let best: { route: string; segments: string[] } | null = null;
+  for (const candidate of ROUTES) {
+    const { segments } = candidate;
+    if (segments.length !== parts.length) continue;
+    if (!segments.every((segment, i) => segment.startsWith('[') || segment === parts[i])) continue;
+    if (!best || isMoreSpecific(segments, best.segments)) best = candidate;
+  }
+  return best?.route ?? null;
+}
+
+/**
+ * The permission a request needs, or null when the method is not declared for the path
+ */
+export function getRoutePermission(method: string, pathname: string): RoutePermission | null {
+  const route = matchRoute(pathname);
+  if (!route) return null;
+  const upper = method.toUpperCase();
+  return ROUTE_PERMISSIONS[route][(upper === 'HEAD' ? 'GET' : upper) as HttpMethod] ?? null;
+}
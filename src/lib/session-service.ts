@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import { getDatabase } from './database';
+import type { LoginEvent, LoginFailureReason, User, UserSession } from '@/types';
+
+export interface ClientInfo {
+  ip: string | null;
+  userAgent: string | null;
+}
+
+// Same lifetime as the session cookie (sessionOptions in auth.ts)
+const SESSION_LIFETIME_DAYS = 7;
+// last_seen_at is only rewritten when older than this, to spare a write per request
+const LAST_SEEN_RESOLUTION_MINUTES = 5;
+const LOGIN_EVENT_RETENTION_DAYS = 90;
+
+// Login backoff: after FREE_FAILURES consecutive failures for an email, each further
+// attempt waits BASE_DELAY_SECONDS, doubling per failure up to MAX_DELAY_SECONDS.
+// Failures older than FAILURE_WINDOW_HOURS are forgotten.
+const FREE_FAILURES = 3;
+const BASE_DELAY_SECONDS = 30;
+const MAX_DELAY_SECONDS = 60 * 60;
+const FAILURE_WINDOW_HOURS = 24;
+
+/**
+ * Short device label such as "Chrome on Windows", or null when the agent is unknown
+ */
+function describeDevice(userAgent: string | null): string | null {
+  if (!userAgent) return null;
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os;
+}
+
+function loginDelaySeconds(consecutiveFailures: number): number {
+  if (consecutiveFailures < FREE_FAILURES) return 0;
+  return Math.min(BASE_DELAY_SECONDS * 2 ** (consecutiveFailures - FREE_FAILURES), MAX_DELAY_SECONDS);
+}
+
+/**
+ * Server-side session registry and login audit. iron-session cookies can't be revoked
+ * on their own, so each one carries a key that must match a live row here.
+ */
+export class SessionService {
+  static async createSession(userId: number, client: ClientInfo): Promise<string> {
+    const db = await getDatabase();
+    const key = crypto.randomBytes(32).toString('hex');
+    await db.run(
+      `INSERT INTO user_sessions (user_id, session_key, device, ip_address, user_agent)
+       VALUES (?, ?, ?, ?, ?)`,
+      [userId, key, describeDevice(client.userAgent), client.ip, client.userAgent]
+    );
+
+    // Housekeeping while we are here
+    await db.run(
+      `DELETE FROM user_sessions WHERE revoked_at IS NOT NULL OR created_at < datetime('now', ?)`,
+      [`-${SESSION_LIFETIME_DAYS} days`]
+    );
+    await db.run(
+      `DELETE FROM login_events WHERE created_at < datetime('now', ?)`,
+      [`-${LOGIN_EVENT_RETENTION_DAYS} days`]
+    );
+    return key;
+  }
+
+  /**
+   * The user's current role and family when the cookie's session is still live, or null;
+   * refreshes last_seen_at
+   */
+  static async getActiveUser(key: string, userId: number): Promise<Pick<User, 'role' | 'family_id'> | null> {
+    const db = await getDatabase();
+    const row = await db.get(
+      `SELECT s.id, s.last_seen_at < datetime('now', ?) as stale, u.role, u.family_id
+       FROM user_sessions s
+       JOIN users u ON u.id = s.user_id
+       WHERE s.session_key = ? AND s.user_id = ? AND s.revoked_at IS NULL
+         AND s.created_at > datetime('now', ?)`,
+      [`-${LAST_SEEN_RESOLUTION_MINUTES} minutes`, key, userId, `-${SESSION_LIFETIME_DAYS} days`]
+    ) as { id: number; stale: number; role: User['role']; family_id: number } | undefined;
+    if (!row) return null;
+
+    if (row.stale) {
+      await db.run("UPDATE user_sessions SET last_seen_at = datetime('now') WHERE id = ?", [row.id]);
+    }
+    return { role: row.role, family_id: row.family_id };
+  }
+
+  static async getSessions(userId: number, currentKey?: string): Promise<UserSession[]> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      `SELECT id, session_key, device, ip_address, user_agent, created_at, last_seen_at
+       FROM user_sessions
+       WHERE user_id = ? AND revoked_at IS NULL AND created_at > datetime('now', ?)
+       ORDER BY last_seen_at DESC, id DESC`,
+      [userId, `-${SESSION_LIFETIME_DAYS} days`]
+    ) as Array<Omit<UserSession, 'current'> & { session_key: string }>;
+    return rows.map(({ session_key, ...session }) => ({ ...session, current: session_key === currentKey }));
+  }
+
+  static async revokeSession(id: number, userId: number): Promise<boolean> {
+    const db = await getDatabase();
+    const result = await db.run(
+      "UPDATE user_sessions SET revoked_at = datetime('now') WHERE id = ? AND user_id = ? AND revoked_at IS NULL",
+      [id, userId]
+    );
+    return result.changes > 0;
+  }
+
+  static async revokeByKey(key: string): Promise<void> {
+    const db = await getDatabase();
+    await db.run(
+      "UPDATE user_sessions SET revoked_at = datetime('now') WHERE session_key = ? AND revoked_at IS NULL",
+      [key]
+    );
+  }
+
+  /**
+   * Signs the user out everywhere, except the session with exceptKey when given
+   */
+  static async revokeAllSessions(userId: number, exceptKey?: string): Promise<number> {
+    const db = await getDatabase();
+    const result = await db.run(
+      `UPDATE user_sessions SET revoked_at = datetime('now')
+       WHERE user_id = ? AND revoked_at IS NULL AND session_key != ?`,
+      [userId, exceptKey || '']
+    );
+    return result.changes;
+  }
+
+  static async recordLogin(
+    email: string,
+    userId: number | null,
+    client: ClientInfo,
+    failure: LoginFailureReason | null = null
+  ): Promise<void> {
+    const db = await getDatabase();
+    await db.run(
+      `INSERT INTO login_events (user_id, email, success, reason, ip_address, user_agent)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [userId, email.trim().toLowerCase(), failure ? 0 : 1, failure, client.ip, client.userAgent]
+    );
+  }
+
+  static async getLoginHistory(userId: number, limit = 20): Promise<LoginEvent[]> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      `SELECT id, success, reason, ip_address, user_agent, created_at FROM login_events
+       WHERE user_id = ?
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?`,
+      [userId, limit]
+    ) as Array<Omit<LoginEvent, 'success'> & { success: number }>;
+    return rows.map(row => ({ ...row, success: !!row.success }));
+  }
+
+  /**
+   * Seconds until the email may try to sign in again, 0 when it isn't held back.
+   * Counts wrong passwords and 2FA codes since the last successful sign-in.
+   */
+  static async getLoginDelay(email: string): Promise<number> {
+    const db = await getDatabase();
+    const row = await db.get(
+      `SELECT COUNT(*) as failures, MAX(created_at) as last_failure FROM login_events
+       WHERE email = ? AND success = 0 AND reason NOT IN ('throttled', 'locked')
+         AND created_at > datetime('now', ?)
+         AND id > COALESCE((SELECT MAX(id) FROM login_events WHERE email = ? AND success = 1), 0)`,
+      [email.trim().toLowerCase(), `-${FAILURE_WINDOW_HOURS} hours`, email.trim().toLowerCase()]
+    ) as { failures: number; last_failure: string | null };
+
+    const delay = loginDelaySeconds(row.failures);
+    if (!delay || !row.last_failure) return 0;
+
+    const lastFailure = new Date(`${row.last_failure.replace(' ', 'T')}Z`).getTime();
+    return Math.max(0, Math.ceil((lastFailure + delay * 1000 - Date.now()) / 1000));
+  }
+}
@@ -1,6 +1,16 @@
 import { promises as fs } from 'fs'
 import path from 'path'
 
+export interface PeriodicReportSchedule {
+  enabled: boolean;
+  dayOfMonth: number; // 1-28; the report covers the previous month or year
+  time: string; // HH:MM format
+}
+
+export interface YearlyReportSchedule extends PeriodicReportSchedule {
+  month: number; // 1-12
+}
+
 export interface NotificationSettings {
   enabled: boolean;
   day: 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
@@ -8,11 +18,38 @@ export interface NotificationSettings {
   timezone: string;
   includeCharts: boolean;
   customMessage?: string;
+  monthlyReport: PeriodicReportSchedule;
+  yearlyReport: YearlyReportSchedule;
+}
+
+export interface RateLimitRule {
+  maxAttempts: number;
+  windowMinutes: number;
+}
+
+export interface EndpointRateLimit {
+  perIp: RateLimitRule;
+  perEmail: RateLimitRule;
+}
+
+export interface AuthRateLimitSettings {
+  login: EndpointRateLimit;
+  forgotPassword: EndpointRateLimit;
+  register: EndpointRateLimit;
+}
+
+export interface AccountLockoutSettings {
+  maxFailures: number; // wrong passwords or 2FA codes within windowMinutes
+  windowMinutes: number;
+  lockMinutes: number;
 }
 
 export interface AppSettings {
   registrationEnabled: boolean;
+  requireAdminTwoFactor: boolean;
   notifications: NotificationSettings;
+  authRateLimits: AuthRateLimitSettings;
+  accountLockout: AccountLockoutSettings;
 }
 
 export class SettingsService {
@@ -21,20 +58,45 @@ export class SettingsService {
   static async getSettings(): Promise<AppSettings> {
     const defaultSettings: AppSettings = {
       registrationEnabled: true,
+      requireAdminTwoFactor: false,
       notifications: {
         enabled: false,
         day: 'sunday',
         time: '09:00',
         timezone: 'UTC',
         includeCharts: true,
-        customMessage: undefined
-      }
+        customMessage: undefined,
+        monthlyReport: { enabled: false, dayOfMonth: 1, time: '09:00' },
+        yearlyReport: { enabled: false, month: 1, dayOfMonth: 2, time: '09:00' }
+      },
+      authRateLimits: {
+        login: {
+          perIp: { maxAttempts: 30, windowMinutes: 15 },
+          perEmail: { maxAttempts: 10, windowMinutes: 15 }
+        },
+        forgotPassword: {
+          perIp: { maxAttempts: 10, windowMinutes: 60 },
+          perEmail: { maxAttempts: 3, windowMinutes: 60 }
+        },
+        register: {
+          perIp: { maxAttempts: 5, windowMinutes: 60 },
+          perEmail: { maxAttempts: 3, windowMinutes: 60 }
+        }
+      },
+      accountLockout: { maxFailures: 10, windowMinutes: 60, lockMinutes: 30 }
     }
 
     try {
       const settingsContent = await fs.readFile(this.settingsPath, 'utf-8')
       const settings = JSON.parse(settingsContent)
-      return { ...defaultSettings, ...settings }
+      // Settings saved by older versions lack the newer notification and security fields
+      return {
+        ...defaultSettings,
+        ...settings,
+        notifications: { ...defaultSettings.notifications, ...settings.notifications },
+        authRateLimits: { ...defaultSettings.authRateLimits, ...settings.authRateLimits },
+        accountLockout: { ...defaultSettings.accountLockout, ...settings.accountLockout }
+      }
     } catch {
       return defaultSettings
     }
@@ -59,6 +121,21 @@ export class SettingsService {
     return settings.registrationEnabled
   }
 
+  static async isAdminTwoFactorRequired(): Promise<boolean> {
+    const settings = await this.getSettings()
+    return settings.requireAdminTwoFactor
+  }
+
+  static async getAuthRateLimits(): Promise<AuthRateLimitSettings> {
+    const settings = await this.getSettings()
+    return settings.authRateLimits
+  }
+
+  static async getAccountLockoutSettings(): Promise<AccountLockoutSettings> {
+    const settings = await this.getSettings()
+    return settings.accountLockout
+  }
+
   static async getNotificationSettings(): Promise<NotificationSettings> {
     const settings = await this.getSettings()
     return settings.notifications
@@ -2,7 +2,11 @@ import { getDatabase } from './database';
 import { computeSourceHash } from './hash';
 import { CategoryService } from './category-service';
 import { TransferRuleService } from './transfer-rule-service';
-import type { Transaction, ParsedTransaction, MonthlySummary, CategoryEvolution, CategoryType } from '@/types';
+import { TransferPairService } from './transfer-pair-service';
+import { AccountAccessService, type AccountViewer } from './account-access-service';
+import type {
+  Transaction, TransactionSplit, TransactionSplitInput, ParsedTransaction, MonthlySummary, CategoryEvolution, CategoryType,
+} from '@/types';
 
 export interface TransactionFilters {
   accountId?: number;
@@ -12,6 +16,7 @@ export interface TransactionFilters {
   search?: string;
   page?: number;
   limit?: number;
+  viewer?: AccountViewer; // Only transactions of accounts this member can see
 }
 
 export interface CreateTransactionInput {
@@ -35,8 +40,9 @@ export class TransactionService {
     total: number;
   }> {
     const db = await getDatabase();
-    const conditions: string[] = ['t.family_id = ?'];
-    const params: unknown[] = [familyId];
+    const visible = AccountAccessService.accountFilter('t.account_id', filters.viewer);
+    const conditions: string[] = ['t.family_id = ?', visible.sql];
+    const params: unknown[] = [familyId, ...visible.params];
 
     if (filters.accountId) {
       conditions.push('t.account_id = ?');
@@ -47,8 +53,8 @@ export class TransactionService {
       params.push(filters.month);
     }
     if (filters.categoryId) {
-      conditions.push('t.category_id = ?');
-      params.push(filters.categoryId);
+      conditions.push('(t.category_id = ? OR EXISTS (SELECT 1 FROM transaction_splits s WHERE s.transaction_id = t.id AND s.category_id = ?))');
+      params.push(filters.categoryId, filters.categoryId);
     }
     if (filters.isTransfer !== undefined) {
       conditions.push('t.is_transfer = ?');
@@ -114,7 +120,8 @@ export class TransactionService {
           input.parsed.date,
           input.parsed.amount,
           input.parsed.description,
-          input.parsed.detail || ''
+          input.parsed.detail || '',
+          input.parsed.externalId
         );
 
         // Check if already exists
@@ -188,46 +195,148 @@ export class TransactionService {
 
   static async deleteTransaction(id: number): Promise<void> {
     const db = await getDatabase();
+    await TransferPairService.unlinkTransactions([id]);
+    // Foreign keys are not enforced, so ON DELETE CASCADE never runs
+    await db.run('DELETE FROM transaction_splits WHERE transaction_id = ?', [id]);
     await db.run('DELETE FROM transactions WHERE id = ?', [id]);
   }
 
-  static async batchDelete(ids: number[], familyId: number): Promise<number> {
+  /**
+   * Deletes the given transactions of the family; with a viewer, only those in accounts
+   * they can edit
+   */
+  static async batchDelete(ids: number[], familyId: number, viewer?: AccountViewer): Promise<number> {
     const db = await getDatabase();
     if (ids.length === 0) return 0;
+    const editable = AccountAccessService.accountFilter('account_id', viewer, true);
     const placeholders = ids.map(() => '?').join(',');
+    const allowed = await db.all(
+      `SELECT id FROM transactions WHERE id IN (${placeholders}) AND family_id = ? AND ${editable.sql}`,
+      [...ids, familyId, ...editable.params]
+    ) as Array<{ id: number }>;
+    if (allowed.length === 0) return 0;
+
+    const allowedIds = allowed.map(row => row.id);
+    const allowedPlaceholders = allowedIds.map(() => '?').join(',');
+    await TransferPairService.unlinkTransactions(allowedIds);
+    await db.run(`DELETE FROM transaction_splits WHERE transaction_id IN (${allowedPlaceholders})`, allowedIds);
     const result = await db.run(
-      `DELETE FROM transactions WHERE id IN (${placeholders}) AND family_id = ?`,
-      [...ids, familyId]
+      `DELETE FROM transactions WHERE id IN (${allowedPlaceholders})`,
+      allowedIds
     );
     return result.changes;
   }
 
+  /**
+   * Updates the given transactions of the family; with a viewer, only those in accounts
+   * they can edit. Returns the ids that were updated.
+   */
   static async batchUpdate(ids: number[], familyId: number, updates: {
     category_id?: number | null;
     notes?: string;
     is_transfer?: boolean;
-  }): Promise<number> {
+  }, viewer?: AccountViewer): Promise<number[]> {
     const db = await getDatabase();
-    if (ids.length === 0) return 0;
+    if (ids.length === 0) return [];
 
     const sets: string[] = [];
     const params: unknown[] = [];
 
-    if (updates.category_id !== undefined) { sets.push('category_id = ?'); params.push(updates.category_id); }
+    // Split transactions are categorized through their splits and keep them
+    if (updates.category_id !== undefined) {
+      sets.push('category_id = CASE WHEN is_split = 1 THEN category_id ELSE ? END');
+      params.push(updates.category_id);
+    }
     if (updates.notes !== undefined) { sets.push('notes = ?'); params.push(updates.notes); }
     if (updates.is_transfer !== undefined) { sets.push('is_transfer = ?'); params.push(updates.is_transfer ? 1 : 0); }
 
-    if (sets.length === 0) return 0;
+    if (sets.length === 0) return [];
+
+    const editable = AccountAccessService.accountFilter('account_id', viewer, true);
+    const allowed = await db.all(
+      `SELECT id FROM transactions WHERE id IN (${ids.map(() => '?').join(',')}) AND family_id = ? AND ${editable.sql}`,
+      [...ids, familyId, ...editable.params]
+    ) as Array<{ id: number }>;
+    if (allowed.length === 0) return [];
 
+    const allowedIds = allowed.map(row => row.id);
     sets.push("updated_at = datetime('now')");
-    const placeholders = ids.map(() => '?').join(',');
-    params.push(...ids, familyId);
+    await db.run(
+      `UPDATE transactions SET ${sets.join(', ')} WHERE id IN (${allowedIds.map(() => '?').join(',')})`,
+      [...params, ...allowedIds]
+    );
+    return allowedIds;
+  }
 
-    const result = await db.run(
-      `UPDATE transactions SET ${sets.join(', ')} WHERE id IN (${placeholders}) AND family_id = ?`,
-      params
+  static async getSplits(transactionId: number): Promise<TransactionSplit[]> {
+    const db = await getDatabase();
+    return await db.all(
+      `SELECT s.*, tc.name as category_name, tc.color as category_color
+       FROM transaction_splits s
+       LEFT JOIN transaction_categories tc ON s.category_id = tc.id
+       WHERE s.transaction_id = ?
+       ORDER BY s.id`,
+      [transactionId]
+    ) as TransactionSplit[];
+  }
+
+  /**
+   * Validate split allocations for a transaction, returning an error message or null
+   */
+  static async validateSplits(transaction: Transaction, splits: TransactionSplitInput[]): Promise<string | null> {
+    if (splits.length < 2) return 'A split needs at least two allocations';
+
+    const db = await getDatabase();
+    for (const split of splits) {
+      if (typeof split.amount !== 'number' || !isFinite(split.amount) || split.amount === 0) {
+        return 'Each split needs a non-zero amount';
+      }
+      if (Math.sign(split.amount) !== Math.sign(transaction.amount)) {
+        return 'Split amounts must have the same sign as the transaction';
+      }
+      const category = await db.get(
+        'SELECT id FROM transaction_categories WHERE id = ? AND family_id = ?',
+        [split.category_id, transaction.family_id]
+      );
+      if (!category) return 'Category not found';
+    }
+
+    // Compare in cents to avoid floating point drift
+    const total = splits.reduce((sum, split) => sum + Math.round(split.amount * 100), 0);
+    if (total !== Math.round(transaction.amount * 100)) {
+      return 'Split amounts must add up to the transaction amount';
+    }
+    return null;
+  }
+
+  /**
+   * Replace a transaction's splits. An empty list removes the split and gives the
+   * transaction back the category of its largest allocation.
+   */
+  static async setSplits(transaction: Transaction, splits: TransactionSplitInput[]): Promise<void> {
+    const db = await getDatabase();
+    const previous = await this.getSplits(transaction.id);
+    await db.run('DELETE FROM transaction_splits WHERE transaction_id = ?', [transaction.id]);
+
+    if (splits.length === 0) {
+      const largest = [...previous].sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))[0];
+      await db.run(
+        "UPDATE transactions SET is_split = 0, category_id = ?, updated_at = datetime('now') WHERE id = ?",
+        [transaction.is_split ? largest?.category_id ?? null : transaction.category_id ?? null, transaction.id]
+      );
+      return;
+    }
+
+    for (const split of splits) {
+      await db.run(
+        'INSERT INTO transaction_splits (transaction_id, family_id, amount, category_id, notes) VALUES (?, ?, ?, ?, ?)',
+        [transaction.id, transaction.family_id, split.amount, split.category_id, split.notes?.trim() || null]
+      );
+    }
+    await db.run(
+      "UPDATE transactions SET is_split = 1, category_id = NULL, updated_at = datetime('now') WHERE id = ?",
+      [transaction.id]
     );
-    return result.changes;
   }
 
   /**
@@ -247,7 +356,8 @@ export class TransactionService {
         tx.date,
         tx.amount,
         tx.description,
-        tx.detail || ''
+        tx.detail || '',
+        tx.externalId
       );
 
       const existing = await db.get(
@@ -282,37 +392,47 @@ export class TransactionService {
   /**
    * Get monthly summary for analytics
    */
-  static async getMonthlySummary(familyId: number, month: string): Promise<MonthlySummary> {
+  static async getMonthlySummary(familyId: number, month: string, viewer?: AccountViewer): Promise<MonthlySummary> {
     const db = await getDatabase();
     await CategoryService.seedDefaultCategories(familyId);
+    const visible = AccountAccessService.accountFilter('account_id', viewer);
+    const allocationsVisible = AccountAccessService.accountFilter('t.account_id', viewer);
 
-    // Get all non-transfer, non-non_computable transactions for the month
+    // Get all non-transfer allocations for the month (splits count instead of their parent)
     const transactions = await db.all(
       `SELECT t.amount, t.category_id, tc.name as category_name, tc.color as category_color,
         tc.icon as category_icon, tc.type as category_type
-      FROM transactions t
+      FROM transaction_allocations t
       LEFT JOIN transaction_categories tc ON t.category_id = tc.id
-      WHERE t.family_id = ? AND strftime('%Y-%m', t.date) = ? AND t.is_transfer = 0
+      WHERE t.family_id = ? AND strftime('%Y-%m', t.date) = ? AND t.is_transfer = 0 AND ${allocationsVisible.sql}
       ORDER BY tc.name`,
-      [familyId, month]
+      [familyId, month, ...allocationsVisible.params]
     ) as any[];
 
     // Also get transfer totals
     const transfers = await db.all(
       `SELECT COALESCE(SUM(amount), 0) as total, COUNT(*) as count
       FROM transactions
-      WHERE family_id = ? AND strftime('%Y-%m', date) = ? AND is_transfer = 1`,
-      [familyId, month]
+      WHERE family_id = ? AND strftime('%Y-%m', date) = ? AND is_transfer = 1 AND ${visible.sql}`,
+      [familyId, month, ...visible.params]
     ) as any[];
 
+    // Transfers with no counterpart in another account
+    const unmatchedTransfers = await db.get(
+      `SELECT COALESCE(SUM(amount), 0) as total, COUNT(*) as count
+      FROM transactions
+      WHERE family_id = ? AND strftime('%Y-%m', date) = ? AND is_transfer = 1 AND transfer_pair_id IS NULL AND ${visible.sql}`,
+      [familyId, month, ...visible.params]
+    ) as { total: number; count: number };
+
     // Get non-computable totals
     const nonComputable = await db.all(
       `SELECT COALESCE(SUM(t.amount), 0) as total, COUNT(*) as count
-      FROM transactions t
+      FROM transaction_allocations t
       JOIN transaction_categories tc ON t.category_id = tc.id
       WHERE t.family_id = ? AND strftime('%Y-%m', t.date) = ?
-        AND t.is_transfer = 0 AND tc.type = 'non_computable'`,
-      [familyId, month]
+        AND t.is_transfer = 0 AND tc.type = 'non_computable' AND ${allocationsVisible.sql}`,
+      [familyId, month, ...allocationsVisible.params]
     ) as any[];
 
     const totalIncome = transactions
@@ -364,20 +484,22 @@ export class TransactionService {
       transfersTotal: transfers[0]?.total || 0,
       nonComputableCount: nonComputable[0]?.count || 0,
       nonComputableTotal: nonComputable[0]?.total || 0,
+      unmatchedTransfersCount: unmatchedTransfers.count,
+      unmatchedTransfersTotal: unmatchedTransfers.total,
     };
   }
 
   /**
    * Get multi-month trend data
    */
-  static async getTrends(familyId: number, months: number = 6): Promise<MonthlySummary[]> {
+  static async getTrends(familyId: number, months: number = 6, viewer?: AccountViewer): Promise<MonthlySummary[]> {
     const results: MonthlySummary[] = [];
     const now = new Date();
 
     for (let i = 0; i < months; i++) {
       const d = new Date(now.getFullYear(), now.getMonth() - i, 1);
       const monthStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
-      const summary = await this.getMonthlySummary(familyId, monthStr);
+      const summary = await this.getMonthlySummary(familyId, monthStr, viewer);
       results.push(summary);
     }
 
@@ -387,8 +509,9 @@ export class TransactionService {
   /**
    * Get how specific categories evolve over N months
    */
-  static async getCategoryEvolution(familyId: number, months: number = 6): Promise<CategoryEvolution[]> {
+  static async getCategoryEvolution(familyId: number, months: number = 6, viewer?: AccountViewer): Promise<CategoryEvolution[]> {
     const db = await getDatabase();
+    const visible = AccountAccessService.accountFilter('t.account_id', viewer);
     const now = new Date();
     const monthStrings: string[] = [];
 
@@ -404,14 +527,15 @@ export class TransactionService {
         t.category_id, t.amount,
         tc.name as category_name, tc.color as category_color,
         tc.icon as category_icon, tc.type as category_type
-      FROM transactions t
+      FROM transaction_allocations t
       LEFT JOIN transaction_categories tc ON t.category_id = tc.id
       WHERE t.family_id = ?
         AND strftime('%Y-%m', t.date) IN (${placeholders})
         AND t.is_transfer = 0
         AND (tc.type IS NULL OR tc.type != 'non_computable')
+        AND ${visible.sql}
       ORDER BY tc.name, month`,
-      [familyId, ...monthStrings]
+      [familyId, ...monthStrings, ...visible.params]
     ) as any[];
 
     const map = new Map<number, CategoryEvolution>();
@@ -0,0 +1,254 @@
+import { getDatabase } from './database';
+import { AccountAccessService, type AccountViewer } from './account-access-service';
+import type { Transaction, TransferPair, TransferPairStatus } from '@/types';
+
+interface CandidateTransaction {
+  id: number;
+  account_id: number;
+  amount: number;
+  currency: string;
+  date: string;
+  is_transfer: number;
+}
+
+// Max days between the transfer out and the deposit
+const DATE_WINDOW_DAYS = 3;
+// Window used to offer counterparts when linking by hand
+const MANUAL_WINDOW_DAYS = 10;
+// How far back the matcher looks
+const LOOKBACK_MONTHS = 12;
+
+const DAY_MS = 86400000;
+
+const PAIR_SELECT = `
+  SELECT p.*,
+    o.date as out_date, o.amount as out_amount, o.description as out_description, oa.name as out_account_name,
+    i.date as in_date, i.amount as in_amount, i.description as in_description, ia.name as in_account_name
+  FROM transfer_pairs p
+  JOIN transactions o ON p.out_transaction_id = o.id
+  JOIN transactions i ON p.in_transaction_id = i.id
+  LEFT JOIN accounts oa ON o.account_id = oa.id
+  LEFT JOIN accounts ia ON i.account_id = ia.id`;
+
+// Pairs only show up for, and can only be changed by, members with access to both accounts
+function bothSides(viewer: AccountViewer | undefined, editable: boolean): { sql: string; params: unknown[] } {
+  const out = AccountAccessService.accountFilter('o.account_id', viewer, editable);
+  const deposit = AccountAccessService.accountFilter('i.account_id', viewer, editable);
+  return { sql: `${out.sql} AND ${deposit.sql}`, params: [...out.params, ...deposit.params] };
+}
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(Math.round((Date.parse(a) - Date.parse(b)) / DAY_MS));
+}
+
+export class TransferPairService {
+  /**
+   * Suggested and confirmed pairs whose transfer out falls in the month (YYYY-MM).
+   * With a viewer, only pairs between two accounts they can see.
+   */
+  static async getPairs(familyId: number, month?: string, viewer?: AccountViewer): Promise<TransferPair[]> {
+    const db = await getDatabase();
+    const visible = bothSides(viewer, false);
+    return await db.all(
+      `${PAIR_SELECT}
+       WHERE p.family_id = ? AND p.status != 'rejected' ${month ? "AND strftime('%Y-%m', o.date) = ?" : ''} AND ${visible.sql}
+       ORDER BY p.status DESC, o.date DESC`,
+      [familyId, ...(month ? [month] : []), ...visible.params]
+    ) as TransferPair[];
+  }
+
+  /**
+   * A pair of the family; with a viewer, only when they can change both of its accounts
+   */
+  static async getPairById(id: number, familyId: number, viewer?: AccountViewer): Promise<TransferPair | null> {
+    const db = await getDatabase();
+    const editable = bothSides(viewer, true);
+    const pair = await db.get(
+      `${PAIR_SELECT} WHERE p.id = ? AND p.family_id = ? AND ${editable.sql}`,
+      [id, familyId, ...editable.params]
+    ) as TransferPair | undefined;
+    return pair || null;
+  }
+
+  /**
+   * Transactions marked as transfers with no counterpart in another account;
+   * often expenses or income miscategorised as transfers
+   */
+  static async getUnmatchedTransfers(familyId: number, month?: string, viewer?: AccountViewer): Promise<Transaction[]> {
+    const db = await getDatabase();
+    const visible = AccountAccessService.accountFilter('t.account_id', viewer);
+    return await db.all(
+      `SELECT t.*, a.name as account_name
+       FROM transactions t
+       LEFT JOIN accounts a ON t.account_id = a.id
+       WHERE t.family_id = ? AND t.is_transfer = 1 AND t.transfer_pair_id IS NULL
+         ${month ? "AND strftime('%Y-%m', t.date) = ?" : ''} AND ${visible.sql}
+       ORDER BY t.date DESC, t.id DESC`,
+      [familyId, ...(month ? [month] : []), ...visible.params]
+    ) as Transaction[];
+  }
+
+  /**
+   * Opposite-sign transactions in other accounts, close in date, that the given
+   * transaction could be linked to by hand. Same amounts come first. With a viewer,
+   * only transactions in accounts they can change.
+   */
+  static async getCandidates(transaction: Transaction, viewer?: AccountViewer): Promise<Transaction[]> {
+    const db = await getDatabase();
+    const editable = AccountAccessService.accountFilter('t.account_id', viewer, true);
+    const candidates = await db.all(
+      `SELECT t.*, a.name as account_name
+       FROM transactions t
+       LEFT JOIN accounts a ON t.account_id = a.id
+       WHERE t.family_id = ? AND t.account_id != ? AND t.transfer_pair_id IS NULL AND t.is_split = 0
+         AND ${transaction.amount < 0 ? 't.amount > 0' : 't.amount < 0'}
+         AND ABS(julianday(t.date) - julianday(?)) <= ? AND ${editable.sql}`,
+      [transaction.family_id, transaction.account_id, transaction.date, MANUAL_WINDOW_DAYS, ...editable.params]
+    ) as Transaction[];
+
+    const target = Math.round(Math.abs(transaction.amount) * 100);
+    const score = (tx: Transaction) => Math.abs(Math.round(Math.abs(tx.amount) * 100) - target);
+    return candidates.sort((a, b) => score(a) - score(b) || daysApart(a.date, transaction.date) - daysApart(b.date, transaction.date));
+  }
+
+  /**
+   * Pair unlinked transfers out with deposits of the same amount and currency into
+   * another of the family's accounts within DATE_WINDOW_DAYS. Closest dates win;
+   * pairs where both sides are already marked as transfers are confirmed directly.
+   */
+  static async matchTransfers(familyId: number): Promise<{ matched: number }> {
+    const db = await getDatabase();
+
+    const transactions = await db.all(
+      `SELECT id, account_id, amount, currency, date, is_transfer
+       FROM transactions
+       WHERE family_id = ? AND transfer_pair_id IS NULL AND is_split = 0 AND amount != 0
+         AND date >= date('now', ?)
+       ORDER BY date, id`,
+      [familyId, `-${LOOKBACK_MONTHS} months`]
+    ) as CandidateTransaction[];
+
+    const rejected = await db.all(
+      "SELECT out_transaction_id, in_transaction_id FROM transfer_pairs WHERE family_id = ? AND status = 'rejected'",
+      [familyId]
+    ) as Array<{ out_transaction_id: number; in_transaction_id: number }>;
+    const rejectedKeys = new Set(rejected.map(r => `${r.out_transaction_id}|${r.in_transaction_id}`));
+
+    // Deposits indexed by amount in cents and currency
+    const deposits = new Map<string, CandidateTransaction[]>();
+    for (const tx of transactions) {
+      if (tx.amount <= 0) continue;
+      const key = `${Math.round(tx.amount * 100)}|${tx.currency}`;
+      if (!deposits.has(key)) deposits.set(key, []);
+      deposits.get(key)!.push(tx);
+    }
+
+    const options: Array<{ out: CandidateTransaction; in: CandidateTransaction; gap: number; flagged: boolean }> = [];
+    for (const out of transactions) {
+      if (out.amount >= 0) continue;
+      for (const deposit of deposits.get(`${Math.round(-out.amount * 100)}|${out.currency}`) || []) {
+        if (deposit.account_id === out.account_id) continue;
+        if (rejectedKeys.has(`${out.id}|${deposit.id}`)) continue;
+        const gap = daysApart(out.date, deposit.date);
+        if (gap > DATE_WINDOW_DAYS) continue;
+        options.push({ out, in: deposit, gap, flagged: !!out.is_transfer && !!deposit.is_transfer });
+      }
+    }
+
+    // Already flagged pairs first, then the closest dates
+    options.sort((a, b) => Number(b.flagged) - Number(a.flagged) || a.gap - b.gap);
+
+    const used = new Set<number>();
+    let matched = 0;
+    for (const option of options) {
+      if (used.has(option.out.id) || used.has(option.in.id)) continue;
+      used.add(option.out.id);
+      used.add(option.in.id);
+      await this.createPair(familyId, option.out.id, option.in.id, option.flagged ? 'confirmed' : 'suggested');
+      matched++;
+    }
+
+    return { matched };
+  }
+
+  /**
+   * Link two transactions by hand. Returns an error message, or the new pair id. With a
+   * viewer, both transactions must be in accounts they can change.
+   */
+  static async linkTransactions(familyId: number, firstId: number, secondId: number, viewer?: AccountViewer): Promise<{ id?: number; error?: string }> {
+    const db = await getDatabase();
+    const editable = AccountAccessService.accountFilter('account_id', viewer, true);
+    const rows = await db.all(
+      `SELECT id, account_id, amount, transfer_pair_id, is_split FROM transactions WHERE id IN (?, ?) AND family_id = ? AND ${editable.sql}`,
+      [firstId, secondId, familyId, ...editable.params]
+    ) as Array<{ id: number; account_id: number; amount: number; transfer_pair_id: number | null; is_split: number }>;
+
+    if (rows.length !== 2) return { error: 'Transaction not found' };
+    const out = rows.find(r => r.amount < 0);
+    const deposit = rows.find(r => r.amount > 0);
+    if (!out || !deposit) return { error: 'A transfer pair needs one outgoing and one incoming transaction' };
+    if (out.account_id === deposit.account_id) return { error: 'Both transactions belong to the same account' };
+    if (out.transfer_pair_id || deposit.transfer_pair_id) return { error: 'Transaction is already paired' };
+    if (out.is_split || deposit.is_split) return { error: 'Split transactions cannot be paired' };
+
+    const id = await this.createPair(familyId, out.id, deposit.id, 'confirmed');
+    return { id };
+  }
+
+  /**
+   * Confirm a pair (both sides become transfers) or reject it (both sides are unlinked
+   * and the matcher won't propose it again)
+   */
+  static async setStatus(pair: TransferPair, status: Exclude<TransferPairStatus, 'suggested'>): Promise<void> {
+    const db = await getDatabase();
+    await db.run(
+      "UPDATE transfer_pairs SET status = ?, updated_at = datetime('now') WHERE id = ?",
+      [status, pair.id]
+    );
+
+    if (status === 'confirmed') {
+      await db.run(
+        "UPDATE transactions SET is_transfer = 1, updated_at = datetime('now') WHERE id IN (?, ?)",
+        [pair.out_transaction_id, pair.in_transaction_id]
+      );
+    } else {
+      await db.run(
+        "UPDATE transactions SET transfer_pair_id = NULL, updated_at = datetime('now') WHERE transfer_pair_id = ?",
+        [pair.id]
+      );
+    }
+  }
+
+  /**
+   * Drop the pairs of transactions about to be deleted, unlinking their counterparts
+   */
+  static async unlinkTransactions(transactionIds: number[]): Promise<void> {
+    if (transactionIds.length === 0) return;
+    const db = await getDatabase();
+    const placeholders = transactionIds.map(() => '?').join(',');
+    const pairs = await db.all(
+      `SELECT id FROM transfer_pairs WHERE out_transaction_id IN (${placeholders}) OR in_transaction_id IN (${placeholders})`,
+      [...transactionIds, ...transactionIds]
+    ) as Array<{ id: number }>;
+    if (pairs.length === 0) return;
+
+    const pairIds = pairs.map(p => p.id);
+    const pairPlaceholders = pairIds.map(() => '?').join(',');
+    await db.run(`UPDATE transactions SET transfer_pair_id = NULL WHERE transfer_pair_id IN (${pairPlaceholders})`, pairIds);
+    await db.run(`DELETE FROM transfer_pairs WHERE id IN (${pairPlaceholders})`, pairIds);
+  }
+
+  private static async createPair(familyId: number, outId: number, inId: number, status: TransferPairStatus): Promise<number> {
+    const db = await getDatabase();
+    const result = await db.run(
+      'INSERT INTO transfer_pairs (family_id, out_transaction_id, in_transaction_id, status) VALUES (?, ?, ?, ?)',
+      [familyId, outId, inId, status]
+    );
+    await db.run(
+      `UPDATE transactions SET transfer_pair_id = ?${status === 'confirmed' ? ', is_transfer = 1' : ''}, updated_at = datetime('now')
+       WHERE id IN (?, ?)`,
+      [result.lastID, outId, inId]
+    );
+    return result.lastID;
+  }
+}
@@ -0,0 +1,282 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { getDatabase } from './database';
+import { encryptIBAN, decryptIBAN } from './encryption';
+import { SettingsService } from './settings-service';
+import { systemLogger } from './system-logger';
+import type { TwoFactorStatus, User } from '@/types';
+
+type TwoFactorRow = {
+  user_id: number;
+  secret_encrypted: string | null;
+  pending_secret_encrypted: string | null;
+  enabled_at: string | null;
+  last_used_step: number;
+};
+
+const ISSUER = 'Family Wealth Tracker';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from the previous and next 30 s window are accepted to absorb clock drift
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.toUpperCase().replace(/=+$/, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * RFC 6238 TOTP (HMAC-SHA1, 6 digits, 30 s steps) for a given time step
+ */
+function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+/**
+ * Returns the time step the code belongs to, or null when it matches none in the
+ * accepted window. Steps at or before lastUsedStep are refused so a code works once.
+ */
+function matchTotp(secret: string, code: string, lastUsedStep: number): number | null {
+  // timingSafeEqual throws on buffers of different lengths
+  if (Buffer.byteLength(code) !== DIGITS) return null;
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (step <= lastUsedStep) continue;
+    const expected = totpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.substring(0, 5)}-${hex.substring(5)}`;
+  });
+}
+
+/**
+ * Optional TOTP second factor with single-use recovery codes. Every change is logged
+ * under the auth category of the system log.
+ */
+export class TwoFactorService {
+  static async getStatus(user: User): Promise<TwoFactorStatus> {
+    const db = await getDatabase();
+    const row = await this.getRow(user.id);
+    const remaining = await db.get(
+      'SELECT COUNT(*) as count FROM two_factor_recovery_codes WHERE user_id = ? AND used_at IS NULL',
+      [user.id]
+    ) as { count: number };
+    return {
+      enabled: !!row?.enabled_at,
+      enabled_at: row?.enabled_at || null,
+      recoveryCodesRemaining: remaining.count,
+      required: await this.isRequiredFor(user),
+    };
+  }
+
+  static async isEnabled(userId: number): Promise<boolean> {
+    const row = await this.getRow(userId);
+    return !!row?.enabled_at;
+  }
+
+  static async getEnabledUserIds(): Promise<number[]> {
+    const db = await getDatabase();
+    const rows = await db.all('SELECT user_id FROM two_factor_auth WHERE enabled_at IS NOT NULL') as Array<{ user_id: number }>;
+    return rows.map(row => row.user_id);
+  }
+
+  static async isRequiredFor(user: Pick<User, 'role'>): Promise<boolean> {
+    return user.role === 'administrator' && await SettingsService.isAdminTwoFactorRequired();
+  }
+
+  /**
+   * Starts enrollment with a fresh secret, returned with its otpauth:// URL and a QR
+   * code (PNG data URL) for authenticator apps. 2FA stays off until confirmEnrollment.
+   */
+  static async beginEnrollment(user: User): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+    const db = await getDatabase();
+    const secret = base32Encode(crypto.randomBytes(20));
+    await db.run(
+      `INSERT INTO two_factor_auth (user_id, pending_secret_encrypted) VALUES (?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET pending_secret_encrypted = excluded.pending_secret_encrypted`,
+      [user.id, encryptIBAN(secret)]
+    );
+
+    const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    await systemLogger.logStart('auth', 'two_factor_enrollment', `${user.email} started two-factor enrollment`, user.family_id, user.id);
+    return { secret, otpauthUrl, qrCode };
+  }
+
+  /**
+   * Turns 2FA on when the code matches the pending secret and returns the recovery
+   * codes, which are only shown this once. Returns null for a wrong code.
+   */
+  static async confirmEnrollment(user: User, code: string): Promise<string[] | null> {
+    const row = await this.getRow(user.id);
+    if (!row?.pending_secret_encrypted) return null;
+
+    const compact = code.replace(/\s/g, '');
+    const step = /^\d{6}$/.test(compact) ? matchTotp(decryptIBAN(row.pending_secret_encrypted), compact, 0) : null;
+    if (step === null) {
+      await systemLogger.logWarning('auth', 'two_factor_enrollment', `${user.email} entered a wrong code while enrolling`, user.family_id, user.id);
+      return null;
+    }
+
+    const db = await getDatabase();
+    await db.run(
+      `UPDATE two_factor_auth
+       SET secret_encrypted = pending_secret_encrypted, pending_secret_encrypted = NULL,
+           enabled_at = datetime('now'), last_used_step = ?
+       WHERE user_id = ?`,
+      [step, user.id]
+    );
+    const codes = await this.replaceRecoveryCodes(user.id);
+    await systemLogger.logSuccess('auth', 'two_factor_enabled', `${user.email} enabled two-factor authentication`, user.family_id, user.id);
+    return codes;
+  }
+
+  /**
+   * Checks a login code: a 6-digit authenticator code or an unused recovery code
+   */
+  static async verify(user: User, code: string): Promise<'totp' | 'recovery' | null> {
+    const row = await this.getRow(user.id);
+    if (!row?.enabled_at || !row.secret_encrypted) return null;
+
+    const db = await getDatabase();
+    const compact = code.replace(/\s/g, '');
+    let method: 'totp' | 'recovery' | null = null;
+
+    if (/^\d{6}$/.test(compact)) {
+      const step = matchTotp(decryptIBAN(row.secret_encrypted), compact, row.last_used_step);
+      if (step !== null) {
+        await db.run('UPDATE two_factor_auth SET last_used_step = ? WHERE user_id = ?', [step, user.id]);
+        method = 'totp';
+      }
+    } else {
+      const result = await db.run(
+        `UPDATE two_factor_recovery_codes SET used_at = datetime('now')
+         WHERE id = (SELECT id FROM two_factor_recovery_codes WHERE user_id = ? AND code_hash = ? AND used_at IS NULL LIMIT 1)`,
+        [user.id, hashRecoveryCode(compact)]
+      );
+      if (result.changes > 0) method = 'recovery';
+    }
+
+    if (method) {
+      await systemLogger.logSuccess('auth', 'two_factor_verified', `${user.email} passed two-factor verification`, user.family_id, user.id, undefined, { method });
+    } else {
+      await systemLogger.logWarning('auth', 'two_factor_failed', `Wrong two-factor code for ${user.email}`, user.family_id, user.id);
+    }
+    return method;
+  }
+
+  static async regenerateRecoveryCodes(user: User): Promise<string[]> {
+    const codes = await this.replaceRecoveryCodes(user.id);
+    await systemLogger.logSuccess('auth', 'two_factor_recovery_codes_regenerated', `${user.email} generated new recovery codes`, user.family_id, user.id);
+    return codes;
+  }
+
+  static async disable(user: User): Promise<void> {
+    await this.remove(user.id);
+    await systemLogger.logSuccess('auth', 'two_factor_disabled', `${user.email} disabled two-factor authentication`, user.family_id, user.id);
+  }
+
+  /**
+   * Administrator reset for a user who lost their authenticator and recovery codes
+   */
+  static async reset(user: User, admin: User): Promise<void> {
+    await this.remove(user.id);
+    await systemLogger.logSuccess(
+      'auth',
+      'two_factor_reset',
+      `${admin.email} reset two-factor authentication for ${user.email}`,
+      user.family_id,
+      user.id,
+      undefined,
+      { resetBy: admin.id }
+    );
+  }
+
+  static async setAdminRequirement(required: boolean, admin: User): Promise<void> {
+    await SettingsService.updateSettings({ requireAdminTwoFactor: required });
+    await systemLogger.logSuccess(
+      'auth',
+      'two_factor_requirement',
+      `${admin.email} ${required ? 'required' : 'stopped requiring'} two-factor authentication for administrators`,
+      admin.family_id,
+      admin.id,
+      undefined,
+      { required }
+    );
+  }
+
+  private static async getRow(userId: number): Promise<TwoFactorRow | undefined> {
+    const db = await getDatabase();
+    return await db.get('SELECT * FROM two_factor_auth WHERE user_id = ?', [userId]) as TwoFactorRow | undefined;
+  }
+
+  private static async replaceRecoveryCodes(userId: number): Promise<string[]> {
+    const db = await getDatabase();
+    const codes = generateRecoveryCodes();
+    await db.run('DELETE FROM two_factor_recovery_codes WHERE user_id = ?', [userId]);
+    for (const code of codes) {
+      await db.run(
+        'INSERT INTO two_factor_recovery_codes (user_id, code_hash) VALUES (?, ?)',
+        [userId, hashRecoveryCode(code)]
+      );
+    }
+    return codes;
+  }
+
+  private static async remove(userId: number): Promise<void> {
+    const db = await getDatabase();
+    await db.run('DELETE FROM two_factor_auth WHERE user_id = ?', [userId]);
+    await db.run('DELETE FROM two_factor_recovery_codes WHERE user_id = ?', [userId]);
+  }
+}
@@ -20,6 +20,7 @@ export interface SendEmailOptions {
     content: Buffer | string;
     contentType?: string;
   }>;
+  headers?: Record<string, string>;
 }
 
 export class UnifiedEmailService {
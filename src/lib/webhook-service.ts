@@ -0,0 +1,315 @@
+import crypto from 'crypto';
+import { getDatabase } from './database';
+import { encryptIBAN, decryptIBAN } from './encryption';
+import type { Webhook, WebhookDelivery, WebhookEvent } from '@/types';
+
+type WebhookInput = {
+  url: string;
+  description?: string | null;
+  events: WebhookEvent[];
+  is_active?: boolean;
+};
+
+type WebhookRow = Omit<Webhook, 'events' | 'is_active'> & { events: string; is_active: number };
+type DeliveryEvent = WebhookDelivery['event'];
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'balance.created', 'transaction.imported', 'debt.auto_updated', 'backup.completed', 'alert.triggered'
+];
+
+// Minutes to wait after each failed attempt; a delivery gives up after the last one
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+const REQUEST_TIMEOUT_MS = 10000;
+const DELIVERY_RETENTION_DAYS = 30;
+
+const DELIVERY_COLUMNS = `id, webhook_id, event, status, attempts, response_status, error,
+  next_attempt_at, delivered_at, created_at`;
+
+function rowToWebhook(row: WebhookRow): Webhook {
+  // The encrypted secret never leaves the service
+  const { id, family_id, url, description, events, is_active, created_at, updated_at } = row;
+  return { id, family_id, url, description, events: JSON.parse(events), is_active: !!is_active, created_at, updated_at };
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature sent in X-Webhook-Signature: HMAC-SHA256 of "<timestamp>.<body>" with the
+ * webhook's secret. Receivers recompute it and reject stale timestamps.
+ */
+function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export class WebhookService {
+  private static retrying = false;
+
+  static async getWebhooks(familyId: number): Promise<Webhook[]> {
+    const db = await getDatabase();
+    const rows = await db.all(
+      'SELECT * FROM webhooks WHERE family_id = ? ORDER BY created_at, id',
+      [familyId]
+    ) as WebhookRow[];
+    return rows.map(rowToWebhook);
+  }
+
+  static async getWebhookById(id: number, familyId: number): Promise<Webhook | null> {
+    const db = await getDatabase();
+    const row = await db.get(
+      'SELECT * FROM webhooks WHERE id = ? AND family_id = ?',
+      [id, familyId]
+    ) as WebhookRow | undefined;
+    return row ? rowToWebhook(row) : null;
+  }
+
+  /**
+   * Returns an error message when the URL or the event list is not usable
+   */
+  static validate(data: WebhookInput): string | null {
+    let url: URL;
+    try {
+      url = new URL(data.url);
+    } catch {
+      return 'A valid URL is required';
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'The URL must use http or https';
+    if (!Array.isArray(data.events) || data.events.length === 0) return 'Subscribe to at least one event';
+    if (data.events.some(event => !WEBHOOK_EVENTS.includes(event))) return 'Unknown webhook event';
+    return null;
+  }
+
+  /**
+   * Creates the webhook and returns its signing secret, which is only shown this once
+   */
+  static async createWebhook(familyId: number, data: WebhookInput): Promise<{ id: number; secret: string }> {
+    const db = await getDatabase();
+    const secret = generateSecret();
+    const result = await db.run(
+      `INSERT INTO webhooks (family_id, url, description, secret_encrypted, events, is_active)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        familyId,
+        data.url.trim(),
+        data.description?.trim() || null,
+        encryptIBAN(secret),
+        JSON.stringify(Array.from(new Set(data.events))),
+        data.is_active === false ? 0 : 1,
+      ]
+    );
+    return { id: result.lastID, secret };
+  }
+
+  static async updateWebhook(id: number, data: WebhookInput): Promise<void> {
+    const db = await getDatabase();
+    await db.run(
+      `UPDATE webhooks SET url = ?, description = ?, events = ?, is_active = ?, updated_at = datetime('now')
+       WHERE id = ?`,
+      [
+        data.url.trim(),
+        data.description?.trim() || null,
+        JSON.stringify(Array.from(new Set(data.events))),
+        data.is_active === false ? 0 : 1,
+        id,
+      ]
+    );
+  }
+
+  static async rotateSecret(id: number): Promise<string> {
+    const db = await getDatabase();
+    const secret = generateSecret();
+    await db.run(
+      "UPDATE webhooks SET secret_encrypted = ?, updated_at = datetime('now') WHERE id = ?",
+      [encryptIBAN(secret), id]
+    );
+    return secret;
+  }
+
+  static async deleteWebhook(id: number, familyId: number): Promise<void> {
+    const db = await getDatabase();
+    const result = await db.run('DELETE FROM webhooks WHERE id = ? AND family_id = ?', [id, familyId]);
+    if (result.changes > 0) {
+      await db.run('DELETE FROM webhook_deliveries WHERE webhook_id = ?', [id]);
+    }
+  }
+
+  static async getDeliveries(webhookId: number, limit = 50): Promise<WebhookDelivery[]> {
+    const db = await getDatabase();
+    return await db.all(
+      `SELECT ${DELIVERY_COLUMNS} FROM webhook_deliveries
+       WHERE webhook_id = ?
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?`,
+      [webhookId, limit]
+    ) as WebhookDelivery[];
+  }
+
+  /**
+   * Queue the event for every active webhook of the family subscribed to it and try
+   * to deliver right away. Never throws and doesn't wait for the receivers.
+   */
+  static async emit(familyId: number, event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.all(
+        'SELECT * FROM webhooks WHERE family_id = ? AND is_active = 1',
+        [familyId]
+      ) as WebhookRow[];
+      await this.enqueue(rows.map(rowToWebhook), event, data);
+    } catch (error) {
+      console.error(`Error emitting webhook event ${event} for family ${familyId}:`, error);
+    }
+  }
+
+  /**
+   * For system-wide events such as backups: every family's subscribed webhooks
+   */
+  static async emitToAllFamilies(event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.all('SELECT * FROM webhooks WHERE is_active = 1') as WebhookRow[];
+      await this.enqueue(rows.map(rowToWebhook), event, data);
+    } catch (error) {
+      console.error(`Error emitting webhook event ${event}:`, error);
+    }
+  }
+
+  /**
+   * Send a ping to check the receiver, waiting for the outcome. Failed pings are not retried.
+   */
+  static async sendTest(webhook: Webhook): Promise<WebhookDelivery> {
+    const deliveryId = await this.createDelivery(webhook, 'ping', { message: 'Webhook test from Family Wealth Tracker' });
+    await this.attempt(deliveryId, false);
+    const db = await getDatabase();
+    return await db.get(
+      `SELECT ${DELIVERY_COLUMNS} FROM webhook_deliveries WHERE id = ?`,
+      [deliveryId]
+    ) as WebhookDelivery;
+  }
+
+  /**
+   * Cron entry point: retry pending deliveries that are due and drop old log entries
+   */
+  static async retryDueDeliveries(): Promise<{ attempted: number }> {
+    if (this.retrying) return { attempted: 0 };
+    this.retrying = true;
+    try {
+      const db = await getDatabase();
+      const due = await db.all(
+        `SELECT id FROM webhook_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= datetime('now')
+         ORDER BY next_attempt_at, id`
+      ) as Array<{ id: number }>;
+
+      for (const { id } of due) {
+        await this.attempt(id, true);
+      }
+
+      await db.run(
+        `DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < datetime('now', ?)`,
+        [`-${DELIVERY_RETENTION_DAYS} days`]
+      );
+      return { attempted: due.length };
+    } finally {
+      this.retrying = false;
+    }
+  }
+
+  private static async enqueue(webhooks: Webhook[], event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    const ids: number[] = [];
+    for (const webhook of webhooks.filter(w => w.events.includes(event))) {
+      ids.push(await this.createDelivery(webhook, event, data));
+    }
+    if (ids.length === 0) return;
+
+    // Receivers can be slow; whatever fails here is picked up by the retry cron
+    Promise.all(ids.map(id => this.attempt(id, true))).catch(error => {
+      console.error(`Error delivering webhook event ${event}:`, error);
+    });
+  }
+
+  private static async createDelivery(webhook: Webhook, event: DeliveryEvent, data: Record<string, unknown>): Promise<number> {
+    const db = await getDatabase();
+    const payload = JSON.stringify({ event, family_id: webhook.family_id, created_at: new Date().toISOString(), data });
+    // The first attempt happens right away; next_attempt_at keeps the retry cron off
+    // the row meanwhile
+    const result = await db.run(
+      `INSERT INTO webhook_deliveries (webhook_id, family_id, event, payload, next_attempt_at)
+       VALUES (?, ?, ?, ?, datetime('now', '+1 minutes'))`,
+      [webhook.id, webhook.family_id, event, payload]
+    );
+    return result.lastID;
+  }
+
+  private static async attempt(deliveryId: number, retry: boolean): Promise<void> {
+    const db = await getDatabase();
+    const delivery = await db.get(
+      `SELECT d.id, d.event, d.payload, d.attempts, w.url, w.secret_encrypted, w.is_active
+       FROM webhook_deliveries d
+       JOIN webhooks w ON d.webhook_id = w.id
+       WHERE d.id = ?`,
+      [deliveryId]
+    ) as {
+      id: number; event: DeliveryEvent; payload: string; attempts: number; url: string; secret_encrypted: string; is_active: number;
+    } | undefined;
+    if (!delivery) return;
+
+    // Queued events stop once the webhook is deactivated; test pings still go out
+    if (!delivery.is_active && delivery.event !== 'ping') {
+      await db.run(
+        `UPDATE webhook_deliveries SET status = 'failed', error = 'Webhook deactivated', next_attempt_at = NULL WHERE id = ?`,
+        [deliveryId]
+      );
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'FamilyWealthTracker-Webhooks',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': String(delivery.id),
+          'X-Webhook-Signature': signWebhookPayload(decryptIBAN(delivery.secret_encrypted), timestamp, delivery.payload),
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Request failed';
+    }
+
+    if (!error) {
+      await db.run(
+        `UPDATE webhook_deliveries
+         SET status = 'success', attempts = ?, response_status = ?, error = NULL,
+             next_attempt_at = NULL, delivered_at = datetime('now')
+         WHERE id = ?`,
+        [attempts, responseStatus, deliveryId]
+      );
+      return;
+    }
+
+    const giveUp = !retry || attempts >= MAX_ATTEMPTS;
+    await db.run(
+      `UPDATE webhook_deliveries
+       SET status = ?, attempts = ?, response_status = ?, error = ?,
+           next_attempt_at = ${giveUp ? 'NULL' : "datetime('now', ?)"}
+       WHERE id = ?`,
+      giveUp
+        ? ['failed', attempts, responseStatus, error, deliveryId]
+        : ['pending', attempts, responseStatus, error, `+${RETRY_DELAYS_MINUTES[attempts - 1]} minutes`, deliveryId]
+    );
+  }
+}
@@ -1,11 +1,17 @@
 import { getDatabase } from './database';
-import type { Account, Balance, User } from '@/types';
+import { ExchangeRateService } from './exchange-rate-service';
+import { BudgetService } from './budget-service';
+import { NotificationPreferencesService } from './notification-preferences-service';
+import { FamilyService } from './family-service';
+import { AccountAccessService, FAMILY_VIEWER } from './account-access-service';
+import type { Account, Balance, BudgetProgress, ReportRecipient, User } from '@/types';
 
 export interface WeeklyReportAccount {
   name: string;
   category: string;
   currency: string;
   currentBalance: number;
+  convertedBalance: number; // currentBalance in the family base currency
   weekChange: number;
   weekChangePercentage: number;
 }
@@ -18,6 +24,8 @@ export interface WeeklyReportSummary {
   weekOverWeekChange: number;
   weekOverWeekPercentage: number;
   previousWeekNetWorth: number;
+  baseCurrency: string;     // Currency of every total above
+  missingRates: string[];   // Account currencies summed unconverted for lack of a rate
 }
 
 export interface WeeklyReportData {
@@ -31,11 +39,8 @@ export interface WeeklyReportData {
   };
   summary: WeeklyReportSummary;
   accounts: WeeklyReportAccount[];
-  recipients: Array<{
-    email: string;
-    name: string;
-    notificationsEnabled: boolean;
-  }>;
+  budgetsAtRisk: BudgetProgress[]; // Current-month budgets over, or projected over, their limit
+  recipients: ReportRecipient[];
   generatedAt: string;
 }
 
@@ -63,11 +68,19 @@ export class WeeklyReportService {
       throw new Error('Family not found');
     }
 
-    // Get all accounts for the family
+    // The report goes to the whole family: private accounts are left out, or only added
+    // to the totals when their owner shares them that way
+    const visible = AccountAccessService.visibleCondition(FAMILY_VIEWER);
     const accounts = await db.all(
-      'SELECT * FROM accounts WHERE family_id = ? ORDER BY category, name',
-      [familyId]
-    ) as Account[];
+      `SELECT a.*, CASE WHEN ${visible.sql} THEN 1 ELSE 0 END as visible
+       FROM accounts a
+       WHERE a.family_id = ? AND (${visible.sql} OR a.count_in_family_totals = 1)
+       ORDER BY a.category, a.name`,
+      [...visible.params, familyId, ...visible.params]
+    ) as Array<Account & { visible: number }>;
+
+    // Totals are converted to the family base currency with the rate nearest each balance date
+    const converter = await ExchangeRateService.getConverter(familyId);
 
     // Generate account reports
     const accountReports: WeeklyReportAccount[] = [];
@@ -79,33 +92,44 @@ export class WeeklyReportService {
     let previousWeekDebt = 0;
 
     for (const account of accounts) {
-      const currentBalance = await this.getLatestBalance(account.id, currentWeekEnd);
-      const previousWeekBalance = await this.getLatestBalance(account.id, previousWeekEnd);
+      const current = await this.getLatestBalance(account.id, currentWeekEnd);
+      const previous = await this.getLatestBalance(account.id, previousWeekEnd);
+      const currentBalance = current.amount;
+      const previousWeekBalance = previous.amount;
+      const convertedBalance = current.date
+        ? converter.convert(currentBalance, account.currency, current.date)
+        : 0;
+      const convertedPrevious = previous.date
+        ? converter.convert(previousWeekBalance, account.currency, previous.date)
+        : 0;
       
       const weekChange = currentBalance - previousWeekBalance;
       const weekChangePercentage = previousWeekBalance !== 0 
         ? (weekChange / Math.abs(previousWeekBalance)) * 100 
         : 0;
 
-      accountReports.push({
-        name: account.name,
-        category: account.category,
-        currency: account.currency,
-        currentBalance,
-        weekChange,
-        weekChangePercentage
-      });
+      if (account.visible) {
+        accountReports.push({
+          name: account.name,
+          category: account.category,
+          currency: account.currency,
+          currentBalance,
+          convertedBalance,
+          weekChange,
+          weekChangePercentage
+        });
+      }
 
       // Accumulate totals
       if (account.category === 'Banking') {
-        totalBanking += currentBalance;
-        previousWeekBanking += previousWeekBalance;
+        totalBanking += convertedBalance;
+        previousWeekBanking += convertedPrevious;
       } else if (account.category === 'Investment') {
-        totalInvestment += currentBalance;
-        previousWeekInvestment += previousWeekBalance;
+        totalInvestment += convertedBalance;
+        previousWeekInvestment += convertedPrevious;
       } else if (account.category === 'Debt') {
-        totalDebt += currentBalance;
-        previousWeekDebt += previousWeekBalance;
+        totalDebt += convertedBalance;
+        previousWeekDebt += convertedPrevious;
       }
     }
 
@@ -117,10 +141,7 @@ export class WeeklyReportService {
       ? (weekOverWeekChange / Math.abs(previousWeekNetWorth)) * 100 
       : 0;
 
-    // Get family name (use first family member's name or generate from family ID)
-    const familyName = family.length > 0 
-      ? `${family[0].name}'s Family` 
-      : `Family ${familyId}`;
+    const { name: familyName } = await FamilyService.getSettings(familyId);
 
     return {
       familyId,
@@ -138,14 +159,13 @@ export class WeeklyReportService {
         netWorth,
         weekOverWeekChange,
         weekOverWeekPercentage,
-        previousWeekNetWorth
+        previousWeekNetWorth,
+        baseCurrency: converter.baseCurrency,
+        missingRates: Array.from(converter.missingRates)
       },
       accounts: accountReports,
-      recipients: family.map(member => ({
-        email: member.email,
-        name: member.name,
-        notificationsEnabled: true // TODO: Add user preference check
-      })),
+      budgetsAtRisk: await BudgetService.getAtRiskBudgets(familyId, undefined, FAMILY_VIEWER),
+      recipients: await NotificationPreferencesService.getFamilyRecipients(familyId, 'weekly'),
       generatedAt: new Date().toISOString()
     };
   }
@@ -159,15 +179,15 @@ export class WeeklyReportService {
     return families.map(f => f.family_id);
   }
 
-  private static async getLatestBalance(accountId: number, beforeDate: Date): Promise<number> {
+  private static async getLatestBalance(accountId: number, beforeDate: Date): Promise<{ amount: number; date: string | null }> {
     const db = await getDatabase();
 
     const balance = await db.get(
-      'SELECT amount FROM balances WHERE account_id = ? AND date <= ? ORDER BY date DESC, id DESC LIMIT 1',
+      'SELECT amount, date FROM balances WHERE account_id = ? AND date <= ? ORDER BY date DESC, id DESC LIMIT 1',
       [accountId, this.formatDate(beforeDate)]
-    ) as { amount: number } | null;
+    ) as { amount: number; date: string } | null;
 
-    return balance?.amount || 0;
+    return { amount: balance?.amount || 0, date: balance?.date || null };
   }
 
   private static getWeekStart(date: Date): Date {
@@ -8,9 +8,25 @@ export interface User {
   role: UserRole;
   created_at: string;
   password_hash?: string; // Only present in database operations
-  notifications_enabled?: boolean; // Weekly report notifications
+  notifications_enabled?: boolean; // Legacy weekly report switch, superseded by notification_preferences
+  two_factor_enabled?: boolean; // Only present in the admin user list
 }
 
+// A family and the preferences its members share
+export interface Family {
+  id: number; // The family_id used by every other table
+  name: string;
+  owner_id: number | null;
+  base_currency: Account["currency"];
+  locale: NotificationLocale; // Default language of members' emails
+  timezone: string; // IANA name; decides what "this month" and "this year" mean in reports
+  fiscal_year_start_month: number; // 1-12; yearly reports run from this month
+  created_at: string;
+  updated_at: string;
+}
+
+export type FamilyPreferences = Pick<Family, 'name' | 'base_currency' | 'locale' | 'timezone' | 'fiscal_year_start_month'>;
+
 export interface Account {
   id: number;
   family_id: number;
@@ -33,6 +49,30 @@ export interface Account {
   loan_start_date?: string; // When the loan started
   is_settled?: boolean; // Loan fully paid off (total amortization) - stops auto updates
   settled_date?: string; // Date the loan was fully paid off
+  // Sharing
+  owner_id?: number | null; // null for accounts from before sharing; administrators act as their owner
+  family_access: AccountFamilyAccess; // What members without their own permission can do
+  count_in_family_totals?: boolean; // Hidden accounts still add to family totals, without details
+}
+
+// Account sharing
+export type AccountFamilyAccess = 'edit' | 'view' | 'none'; // 'none' makes the account private
+export type AccountAccess = 'owner' | 'edit' | 'view';
+
+export interface AccountPermission {
+  id: number;
+  account_id: number;
+  user_id: number;
+  user_name?: string;
+  access: Exclude<AccountAccess, 'owner'>;
+  created_at: string;
+}
+
+export interface AccountSharing {
+  owner_id: number | null;
+  family_access: AccountFamilyAccess;
+  count_in_family_totals: boolean;
+  permissions: AccountPermission[];
 }
 
 export interface Balance {
@@ -47,6 +87,7 @@ export interface Balance {
 export interface AccountWithBalance extends Account {
   current_balance?: number;
   last_balance_date?: string;
+  access?: AccountAccess; // The requesting member's access
 }
 
 export interface DashboardData {
@@ -55,14 +96,172 @@ export interface DashboardData {
   total_debt: number;
   net_worth: number;
   month_over_month_change: number;
+  // Totals above are in base_currency; per-account balances converted with the rate nearest their date
+  base_currency: Account["currency"];
+  converted_balances: Record<number, number>;
+  missing_rates: string[];
+  private_accounts: number; // Hidden from the viewer, but counted in the totals by their owners
+}
+
+export type BudgetScope = 'family' | 'member';
+export type BudgetStatus = 'on_track' | 'at_risk' | 'over';
+
+export interface Budget {
+  id: number;
+  family_id: number;
+  category_id: number;
+  amount: number; // Monthly limit
+  rollover: boolean; // Carry unspent amounts into the following month
+  scope: BudgetScope;
+  user_id: number | null; // Member the budget belongs to (scope = 'member')
+  account_ids: number[] | null; // Accounts whose spending counts for a member budget
+  start_month: string; // YYYY-MM
+  created_at: string;
+  updated_at: string;
+  // Joined fields
+  category_name?: string;
+  category_color?: string;
+  category_icon?: string;
+  user_name?: string;
+}
+
+export interface BudgetProgress {
+  budget: Budget;
+  month: string;
+  limit: number;
+  rolloverAmount: number; // Unspent amount carried over from previous months
+  available: number; // limit + rolloverAmount
+  spent: number;
+  remaining: number;
+  projected: number; // Month-end spend at the current daily pace
+  percentUsed: number;
+  status: BudgetStatus;
+}
+
+export interface ExchangeRate {
+  id: number;
+  family_id: number;
+  date: string;
+  currency: Account["currency"];
+  rate: number; // 1 unit of currency = rate units of the base currency
+  source: 'manual' | 'csv';
+  created_at: string;
+  updated_at: string;
 }
 
 export interface AuthSession {
   user?: User;
+  pendingTwoFactor?: PendingTwoFactor; // Password checked, second factor still missing
+  sessionId?: string; // Key of the user_sessions row, checked on every request
   save?: () => Promise<void>;
   destroy?: () => void;
 }
 
+// Login halfway through two-factor authentication: setup is set when the user must
+// enroll before signing in, because 2FA is required for their role
+export interface PendingTwoFactor {
+  userId: number;
+  setup: boolean;
+  expiresAt: number; // Epoch milliseconds
+  attempts: number;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean; // Administrators can't turn it off while the requirement is on
+}
+
+// Session registry and login audit
+export interface UserSession {
+  id: number;
+  device: string | null; // e.g. "Firefox on macOS", from the user agent
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean; // The session making the request
+}
+
+export type LoginFailureReason =
+  | 'unknown_email'
+  | 'invalid_password'
+  | 'invalid_two_factor_code'
+  | 'throttled'
+  | 'locked';
+
+export interface LoginEvent {
+  id: number;
+  success: boolean;
+  reason: LoginFailureReason | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+// Account lockout
+export interface LockedAccount {
+  user_id: number;
+  email: string;
+  name: string;
+  family_id: number;
+  locked_at: string;
+  locked_until: string;
+}
+
+// Encryption key management
+export interface EncryptionKeyInfo {
+  id: string;
+  created_at: string | null; // null for values whose key is missing
+  active: boolean;
+  values: number; // Encrypted values still written with this key
+}
+
+export interface KeyRotationProgress {
+  status: 'running' | 'completed' | 'failed';
+  newKeyId: string;
+  processed: number;
+  total: number;
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+}
+
+export interface EncryptionStatus {
+  keys: EncryptionKeyInfo[];
+  legacyValues: number; // Values in the pre-v2 format, rewritten by the next rotation
+  rotation: KeyRotationProgress | null;
+}
+
+// Family invitations
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface FamilyInvitation {
+  id: number;
+  family_id: number;
+  code: string;
+  role: UserRole;
+  created_by: number;
+  created_by_name?: string;
+  expires_at: string;
+  accepted_by: number | null;
+  accepted_by_name?: string | null;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  status: InvitationStatus;
+  token?: string; // Signed link token; only for pending invitations
+}
+
+// What someone opening an invitation sees before joining
+export interface InvitationPreview {
+  familyName: string;
+  invitedBy: string;
+  role: UserRole;
+  expires_at: string;
+}
+
 // Transaction types
 export type CategoryType = 'income' | 'expense' | 'both' | 'non_computable';
 
@@ -98,6 +297,9 @@ export interface Transaction {
   source_hash: string;
   ai_confidence?: number | null;
   notes?: string | null;
+  recurring_series_id?: number | null;
+  is_split?: boolean;
+  transfer_pair_id?: number | null;
   created_at: string;
   updated_at: string;
   // Joined fields
@@ -107,6 +309,46 @@ export interface Transaction {
   account_name?: string;
 }
 
+export interface TransactionSplit {
+  id: number;
+  transaction_id: number;
+  family_id: number;
+  amount: number;
+  category_id?: number | null;
+  notes?: string | null;
+  created_at: string;
+  // Joined fields
+  category_name?: string;
+  category_color?: string;
+}
+
+export interface TransactionSplitInput {
+  amount: number;
+  category_id: number;
+  notes?: string | null;
+}
+
+export type TransferPairStatus = 'suggested' | 'confirmed' | 'rejected';
+
+export interface TransferPair {
+  id: number;
+  family_id: number;
+  out_transaction_id: number;
+  in_transaction_id: number;
+  status: TransferPairStatus;
+  created_at: string;
+  updated_at: string;
+  // Joined fields
+  out_date?: string;
+  out_amount?: number;
+  out_description?: string;
+  out_account_name?: string;
+  in_date?: string;
+  in_amount?: number;
+  in_description?: string;
+  in_account_name?: string;
+}
+
 export type RuleType = 'contains_text' | 'sender_is' | 'description_matches';
 export type RuleField = 'description' | 'detail' | 'observations' | 'any';
 
@@ -120,6 +362,75 @@ export interface TransferRule {
   created_at: string;
 }
 
+export type CategoryRuleMatchType = 'contains' | 'regex' | 'equals';
+export type CategoryRuleSign = 'any' | 'expense' | 'income';
+
+export interface CategoryRule {
+  id: number;
+  family_id: number;
+  name: string;
+  category_id: number;
+  priority: number;
+  field: RuleField;
+  match_type?: CategoryRuleMatchType | null;
+  pattern?: string | null;
+  amount_min?: number | null;
+  amount_max?: number | null;
+  sign: CategoryRuleSign;
+  account_id?: number | null;
+  movement_type?: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  // Joined fields
+  category_name?: string;
+  category_color?: string;
+  account_name?: string;
+}
+
+// Rule proposed from repeated manual corrections of the same counterparty
+export interface CategoryRuleSuggestion {
+  counterparty_key: string;
+  pattern: string;
+  category_id: number;
+  category_name: string;
+  category_color?: string;
+  corrections: number;
+  sample_description: string;
+}
+
+export type RecurringCadence = 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringSeries {
+  id: number;
+  family_id: number;
+  account_id: number;
+  counterparty_key: string;
+  name: string;
+  cadence: RecurringCadence;
+  currency: string;
+  average_amount: number;
+  last_amount: number;
+  previous_amount?: number | null;
+  occurrences: number;
+  first_date: string;
+  last_date: string;
+  next_expected_date: string;
+  category_id?: number | null;
+  suggested_category_id?: number | null;
+  dismissed: boolean;
+  created_at: string;
+  updated_at: string;
+  // Derived flags
+  price_increase: boolean;
+  missed: boolean;
+  // Joined fields
+  account_name?: string;
+  category_name?: string;
+  category_color?: string;
+  suggested_category_name?: string;
+}
+
 export interface FamilySettings {
   id: number;
   family_id: number;
@@ -132,6 +443,29 @@ export interface FamilySettings {
   updated_at: string;
 }
 
+export interface ImportProfile {
+  id: number;
+  family_id: number;
+  name: string;
+  delimiter: ',' | ';' | '\t' | '|';
+  date_format: 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'DD-MM-YYYY' | 'DD.MM.YYYY';
+  decimal_separator: ',' | '.';
+  column_mapping: {
+    date: string;
+    valueDate?: string;
+    description: string;
+    detail?: string;
+    amount?: string;
+    debit?: string;
+    credit?: string;
+    balance?: string;
+    currency?: string;
+  };
+  default_currency: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ParsedTransaction {
   date: string;            // ISO YYYY-MM-DD
   valueDate?: string;      // ISO YYYY-MM-DD
@@ -142,6 +476,7 @@ export interface ParsedTransaction {
   movementType?: string;
   balanceAfter?: number;
   observations?: string;
+  externalId?: string;     // Bank-assigned id (OFX FITID, CAMT AcctSvcrRef)
 }
 
 export interface ParseError {
@@ -153,6 +488,9 @@ export interface ParseResult {
   transactions: ParsedTransaction[];
   errors: ParseError[];
   detectedFormat: string;
+  openingBalance?: { amount: number; date: string };
+  closingBalance?: { amount: number; date: string };
+  accountReference?: string;
 }
 
 export interface MonthlySummary {
@@ -173,6 +511,198 @@ export interface MonthlySummary {
   transfersTotal: number;
   nonComputableCount: number;
   nonComputableTotal: number;
+  // Transfers without a paired transaction: possibly miscategorised expenses or income
+  unmatchedTransfersCount: number;
+  unmatchedTransfersTotal: number;
+}
+
+// Monthly and yearly reports
+export type PeriodicReportType = 'monthly' | 'yearly';
+
+export interface ReportCategory {
+  categoryId: number;
+  categoryName: string;
+  categoryColor: string;
+  amount: number;       // Spent in the period, positive
+  percentage: number;   // Share of total expenses
+}
+
+export interface ReportMover {
+  categoryId: number;
+  categoryName: string;
+  categoryColor: string;
+  amount: number;
+  previousAmount: number;
+  change: number;       // amount - previousAmount; positive means more spending
+}
+
+export interface ReportDebt {
+  accountName: string;
+  startBalance: number;
+  endBalance: number;
+  paidDown: number;     // startBalance - endBalance
+  monthlyPayment: number;
+  payoffDate?: string;
+  isSettled: boolean;
+}
+
+export interface ReportTotals {
+  income: number;
+  expenses: number;
+  net: number;
+  savingsRate: number | null; // net / income as a percentage; null without income
+}
+
+export interface PeriodicReportData {
+  familyId: number;
+  familyName: string;
+  type: PeriodicReportType;
+  period: {
+    start: string;
+    end: string;
+    label: string;      // YYYY-MM for monthly reports, YYYY for yearly ones
+  };
+  currency: string;
+  totals: ReportTotals;
+  previousTotals: ReportTotals; // Previous month, or previous year
+  topCategories: ReportCategory[];
+  biggestMovers: ReportMover[];
+  debts: ReportDebt[];
+  totalDebtPaydown: number;
+  months: Array<{ month: string } & ReportTotals>; // Month by month; yearly reports only
+  recipients: ReportRecipient[];
+  generatedAt: string;
+}
+
+// Per-user notification preferences
+export type NotificationType = 'weekly' | 'monthly' | 'yearly' | 'alerts';
+export type NotificationLocale = 'en' | 'es';
+export type DigestDay = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export interface NotificationPreferences {
+  weeklyReport: boolean;
+  monthlyReport: boolean;
+  yearlyReport: boolean;
+  alerts: boolean;
+  locale: NotificationLocale;   // Language of the emails
+  digestDay: DigestDay | null;  // Weekly report day; null follows the administrator's schedule
+}
+
+export interface ReportRecipient {
+  userId: number;
+  email: string;
+  name: string;
+  notificationsEnabled: boolean; // Wants the kind of report being sent
+  locale: NotificationLocale;
+  digestDay: DigestDay | null;
+}
+
+// Threshold alerts
+export type AlertRuleType = 'balance_below' | 'category_spending_above' | 'transaction_above' | 'stale_balance' | 'debt_milestone';
+
+export interface AlertRule {
+  id: number;
+  family_id: number;
+  user_id: number; // Owner, who receives the alerts
+  name: string;
+  type: AlertRuleType;
+  account_id: number | null; // Required except for transaction_above and stale_balance (all accounts)
+  category_id: number | null; // category_spending_above only
+  threshold: number; // Amount, days without a balance (stale_balance) or remaining months (debt_milestone)
+  is_active: boolean;
+  snoozed_until: string | null; // Not evaluated until then
+  created_at: string;
+  updated_at: string;
+  // Joined fields
+  account_name?: string;
+  category_name?: string;
+}
+
+// What the rule saw when it fired; rendered in the reader's language
+export interface AlertDetails {
+  accountName?: string;
+  categoryName?: string;
+  description?: string;
+  amount?: number;
+  currency?: string;
+  threshold: number;
+  date?: string;
+  days?: number;
+  remainingMonths?: number;
+}
+
+export interface Alert {
+  id: number;
+  family_id: number;
+  user_id: number;
+  rule_id: number;
+  dedup_key: string;
+  details: AlertDetails;
+  read_at: string | null;
+  emailed_at: string | null;
+  created_at: string;
+  // Joined fields
+  rule_name?: string;
+  rule_type?: AlertRuleType;
+  rule_snoozed_until?: string | null;
+}
+
+// In-app notification center
+export type NotificationEvent = 'debt_update' | 'backup_completed' | 'import_completed' | 'balance_import_completed' | 'ai_categorization' | 'member_joined';
+
+export interface AppNotification {
+  id: number;
+  family_id: number;
+  user_id: number;
+  type: NotificationEvent;
+  data: Record<string, string | number>; // Values of the localized message for the type
+  link: string | null; // App path without the locale, e.g. /transactions
+  read_at: string | null;
+  created_at: string;
+}
+
+// Outgoing webhooks
+export type WebhookEvent = 'balance.created' | 'transaction.imported' | 'debt.auto_updated' | 'backup.completed' | 'alert.triggered';
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+export interface Webhook {
+  id: number;
+  family_id: number;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  event: WebhookEvent | 'ping'; // ping is the test event sent from settings
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  next_attempt_at: string | null; // Next retry while pending
+  delivered_at: string | null;
+  created_at: string;
+}
+
+// Personal API tokens
+export type ApiTokenScope = 'read' | 'balances:write' | 'transactions:import' | 'admin';
+
+export interface ApiToken {
+  id: number;
+  user_id: number;
+  family_id: number;
+  name: string;
+  token_prefix: string; // First characters of the token, to recognise it
+  scopes: ApiTokenScope[];
+  expires_at: string | null; // null never expires
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
 }
 
 export interface CategoryEvolution {
@@ -224,4 +754,4 @@ export interface ChatMessageDB {
   role: ChatMessageRole;
   content: string;
   timestamp: string;
-}
\ No newline at end of file
+}
@@ -36,8 +36,10 @@ function parseEuropeanNumber(value) {
   return parseFloat(cleaned);
 }
 
-function computeSourceHash(accountId, date, amount, description, detail) {
-  const raw = `${accountId}|${date}|${amount}|${description}|${detail || ''}`;
+function computeSourceHash(accountId, date, amount, description, detail, externalId) {
+  const raw = externalId
+    ? `${accountId}|ext|${externalId}`
+    : `${accountId}|${date}|${amount}|${description}|${detail || ''}`;
   return crypto.createHash('sha256').update(raw, 'utf8').digest('hex');
 }
 
@@ -158,6 +160,10 @@ assert(h1 === h2, 'Same input → same hash (deterministic)');
 assert(h1 !== h3, 'Different accountId → different hash');
 assertEqual(h1.length, 64, 'Hash is 64 chars (SHA-256 hex)');
 assert(/^[a-f0-9]{64}$/.test(h1), 'Hash is valid hex');
+const f1 = computeSourceHash(1, '2026-04-12', -3.5, 'CAFE', '', 'FITID-1');
+const f2 = computeSourceHash(1, '2026-04-12', -3.5, 'CAFE', '', 'FITID-2');
+assert(f1 !== f2, 'Identical same-day movements with different FITIDs are kept apart');
+assert(f1 === computeSourceHash(1, '2026-04-13', -3.5, 'CAFE (edited)', '', 'FITID-1'), 'FITID alone identifies the movement');
 
 console.log('\n🔄 Transfer Rules');
 console.log('─'.repeat(40));
@@ -229,6 +235,1050 @@ if (bbvaFiles.length > 0) {
   console.log('  ⚠ BBVA CSV not found, skipping');
 }
 
+console.log('\n📄 Generic CSV Parser (import profiles)');
+console.log('─'.repeat(40));
+
+function parseDateWithFormat(dateStr, format) {
+  const parts = dateStr.trim().split(/[/.\-]/);
+  if (parts.length !== 3) return dateStr.trim();
+  let day, month, year;
+  if (format === 'MM/DD/YYYY') [month, day, year] = parts;
+  else if (format === 'YYYY-MM-DD') [year, month, day] = parts;
+  else [day, month, year] = parts;
+  if (year.length === 2) year = `20${year}`;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+function parseProfileNumber(value, decimalSeparator) {
+  let cleaned = value.trim().replace(/[^\d,.\-+]/g, '');
+  cleaned = decimalSeparator === ',' ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  return parseFloat(cleaned);
+}
+
+function parseWithProfile(csvText, profile) {
+  const lines = csvText.split(/\r?\n/).filter(l => l.trim());
+  const split = (l) => l.split(profile.delimiter).map(f => f.trim().replace(/^"|"$/g, ''));
+  const keys = Object.keys(profile.columns).filter(k => profile.columns[k]);
+  let headerIndex = -1;
+  let idx = {};
+  for (let i = 0; i < Math.min(lines.length, 30) && headerIndex === -1; i++) {
+    const headers = split(lines[i]).map(h => h.toLowerCase());
+    const found = {};
+    if (keys.every(k => (found[k] = headers.indexOf(profile.columns[k].toLowerCase())) !== -1)) {
+      headerIndex = i; idx = found;
+    }
+  }
+  if (headerIndex === -1) return null;
+  return lines.slice(headerIndex + 1).map(line => {
+    const f = split(line);
+    let amount;
+    if (idx.amount !== undefined) amount = parseProfileNumber(f[idx.amount], profile.decimalSeparator);
+    else {
+      const debit = f[idx.debit] ? parseProfileNumber(f[idx.debit], profile.decimalSeparator) : 0;
+      const credit = f[idx.credit] ? parseProfileNumber(f[idx.credit], profile.decimalSeparator) : 0;
+      amount = Math.abs(credit) - Math.abs(debit);
+    }
+    return { date: parseDateWithFormat(f[idx.date], profile.dateFormat), description: f[idx.description], amount };
+  });
+}
+
+assertEqual(parseDateWithFormat('04/12/2026', 'MM/DD/YYYY'), '2026-04-12', 'MM/DD/YYYY → ISO');
+assertEqual(parseDateWithFormat('2026-04-12', 'YYYY-MM-DD'), '2026-04-12', 'YYYY-MM-DD stays ISO');
+assertEqual(parseDateWithFormat('12.04.26', 'DD.MM.YYYY'), '2026-04-12', 'Two-digit year expanded');
+assertEqual(parseProfileNumber('1,234.56', '.'), 1234.56, '1,234.56 with dot decimals');
+assertEqual(parseProfileNumber('-1.234,56 €', ','), -1234.56, 'Currency symbol stripped');
+
+const ingCsv = 'Cuenta: ES00 1234\n\nFecha;Concepto;Cargo;Abono;Saldo\n01/03/2026;MERCADONA;45,20;;1.000,00\n02/03/2026;NOMINA;;2.100,00;3.100,00\n';
+const ingProfile = {
+  delimiter: ';', dateFormat: 'DD/MM/YYYY', decimalSeparator: ',',
+  columns: { date: 'Fecha', description: 'Concepto', debit: 'Cargo', credit: 'Abono', balance: 'Saldo' },
+};
+const ingRows = parseWithProfile(ingCsv, ingProfile);
+assert(ingRows !== null, 'Header found after metadata rows');
+assertEqual(ingRows && ingRows.map(r => r.amount), [-45.2, 2100], 'Debit/credit columns → signed amounts');
+assertEqual(parseWithProfile('Date,Payee,Amount\n', { ...ingProfile, delimiter: ',' }), null, 'Profile not detected on other layout');
+
+console.log('\n📄 OFX/QFX Parser');
+console.log('─'.repeat(40));
+
+function decodeEntities(value) {
+  const entities = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&apos;': "'", '&nbsp;': ' ' };
+  return value.replace(/&(amp|lt|gt|quot|apos|nbsp);/g, m => entities[m]).trim();
+}
+
+function sgmlValue(block, tag) {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  return match ? decodeEntities(match[1]) || undefined : undefined;
+}
+
+function parseOfxDate(value) {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+function parseOfxAmount(value) {
+  return value ? parseFloat(value.trim().replace(',', '.')) : NaN;
+}
+
+function parseOFX(text) {
+  const transactions = [];
+  const errors = [];
+  const currency = sgmlValue(text, 'CURDEF') || 'EUR';
+  const blocks = [...text.matchAll(/<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi)].map(m => m[1]);
+  blocks.forEach((block, i) => {
+    const date = parseOfxDate(sgmlValue(block, 'DTPOSTED'));
+    if (!date) { errors.push({ row: i + 1, message: 'Missing or invalid DTPOSTED' }); return; }
+    const amount = parseOfxAmount(sgmlValue(block, 'TRNAMT'));
+    if (isNaN(amount)) { errors.push({ row: i + 1, message: 'Invalid amount' }); return; }
+    const userDate = parseOfxDate(sgmlValue(block, 'DTUSER'));
+    const name = sgmlValue(block, 'NAME') || sgmlValue(block, 'PAYEE');
+    const memo = sgmlValue(block, 'MEMO');
+    transactions.push({
+      date, valueDate: userDate && userDate !== date ? userDate : undefined,
+      description: name || memo || sgmlValue(block, 'TRNTYPE') || '',
+      detail: name && memo ? memo : undefined, amount,
+      currency: sgmlValue(block, 'CURRENCY') || currency,
+      externalId: sgmlValue(block, 'FITID'),
+    });
+  });
+  const ledgerBlock = /<LEDGERBAL>([\s\S]*?)(?=<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|$)/i.exec(text)?.[1];
+  const closingAmount = ledgerBlock ? parseOfxAmount(sgmlValue(ledgerBlock, 'BALAMT')) : NaN;
+  const closingDate = ledgerBlock ? parseOfxDate(sgmlValue(ledgerBlock, 'DTASOF')) : undefined;
+  return {
+    transactions, errors,
+    closingBalance: !isNaN(closingAmount) && closingDate ? { amount: closingAmount, date: closingDate } : undefined,
+  };
+}
+
+const ofxSgml = [
+  'OFXHEADER:100', 'DATA:OFXSGML', 'VERSION:102', '',
+  '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>EUR',
+  '<BANKTRANLIST><DTSTART>20250101<DTEND>20250131',
+  '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250105120000[-5:EST]<DTUSER>20250104<TRNAMT>-45,50<FITID>A-1<NAME>MERCADONA<MEMO>Compra tarjeta',
+  '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250110<TRNAMT>2500.00<FITID>A-2<NAME>ACME &amp; SONS',
+  '</BANKTRANLIST><LEDGERBAL><BALAMT>3454.50<DTASOF>20250131</LEDGERBAL>',
+  '<AVAILBAL><BALAMT>3400.00<DTASOF>20250131</AVAILBAL></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+].join('\r\n');
+const ofxResult = parseOFX(ofxSgml);
+assertEqual(ofxResult.errors, [], 'SGML file without closing tags parses without errors');
+assertEqual(ofxResult.transactions.map(t => t.date), ['2025-01-05', '2025-01-10'], 'DTPOSTED with time and timezone → date');
+assertEqual(ofxResult.transactions[0].valueDate, '2025-01-04', 'DTUSER → value date');
+assertEqual(ofxResult.transactions.map(t => t.amount), [-45.5, 2500], 'TRNAMT keeps its sign, comma decimals too');
+assertEqual(ofxResult.transactions.map(t => t.externalId), ['A-1', 'A-2'], 'FITID → external id');
+assertEqual(ofxResult.transactions[1].description, 'ACME & SONS', 'Entities are decoded');
+assertEqual(ofxResult.closingBalance, { amount: 3454.5, date: '2025-01-31' }, 'LEDGERBAL (not AVAILBAL) → closing balance');
+
+const ofxXml = `<?xml version="1.0"?><?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD</CURDEF><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20250302</DTPOSTED><TRNAMT>-9.99</TRNAMT><FITID>X9</FITID><MEMO>STREAMING</MEMO></STMTTRN>
+</BANKTRANLIST><LEDGERBAL><BALAMT>-120.01</BALAMT><DTASOF>20250331</DTASOF></LEDGERBAL></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+const ofxXmlResult = parseOFX(ofxXml);
+assertEqual(ofxXmlResult.transactions, [{ date: '2025-03-02', valueDate: undefined, description: 'STREAMING', detail: undefined, amount: -9.99, currency: 'USD', externalId: 'X9' }], 'XML file: closing tags, CURDEF currency, MEMO as description');
+assertEqual(ofxXmlResult.closingBalance, { amount: -120.01, date: '2025-03-31' }, 'Negative closing balance from XML');
+assertEqual(parseOFX(ofxSgml.replace('<DTPOSTED>20250110', '<DTPOSTED>')).errors, [{ row: 2, message: 'Missing or invalid DTPOSTED' }], 'Missing DTPOSTED is reported per row');
+
+console.log('\n📄 CAMT.053 Parser');
+console.log('─'.repeat(40));
+
+function xmlBlocks(xml, tag) {
+  const re = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  return [...xml.matchAll(re)].map(m => m[1]);
+}
+
+function xmlText(xml, tags) {
+  let current = xml;
+  for (const tag of tags) {
+    if (current === undefined) return undefined;
+    current = xmlBlocks(current, tag)[0];
+  }
+  return current !== undefined ? decodeEntities(current) : undefined;
+}
+
+function camtAmount(block) {
+  const raw = xmlText(block, ['Amt']);
+  const amount = raw ? parseFloat(raw) : NaN;
+  return xmlText(block, ['CdtDbtInd']) === 'DBIT' ? -amount : amount;
+}
+
+function camtDate(block, tag) {
+  return xmlBlocks(block, tag)[0]?.match(/\d{4}-\d{2}-\d{2}/)?.[0];
+}
+
+function parseCamt053(text) {
+  const result = { transactions: [], openingBalance: undefined, closingBalance: undefined, accountReference: undefined };
+  for (const stmt of xmlBlocks(text, 'Stmt')) {
+    result.accountReference = result.accountReference || xmlText(stmt, ['Acct', 'Id', 'IBAN']);
+    for (const bal of xmlBlocks(stmt, 'Bal')) {
+      const code = xmlText(bal, ['Tp', 'CdOrPrtry', 'Cd']);
+      const balance = { amount: camtAmount(bal), date: camtDate(bal, 'Dt') };
+      if ((code === 'OPBD' || code === 'PRCD') && !result.openingBalance) result.openingBalance = balance;
+      if (code === 'CLBD') result.closingBalance = balance;
+    }
+    for (const entry of xmlBlocks(stmt, 'Ntry')) {
+      if (xmlText(entry, ['Sts']) === 'PDNG' || xmlText(entry, ['Sts', 'Cd']) === 'PDNG') continue;
+      const date = camtDate(entry, 'BookgDt');
+      const valueDate = camtDate(entry, 'ValDt');
+      const amount = camtAmount(entry);
+      const details = xmlBlocks(entry, 'TxDtls')[0] || '';
+      result.transactions.push({
+        date, valueDate: valueDate && valueDate !== date ? valueDate : undefined, amount,
+        description: xmlText(details, ['RltdPties', amount < 0 ? 'Cdtr' : 'Dbtr', 'Nm']) || xmlText(entry, ['AddtlNtryInf']) || '',
+        externalId: xmlText(entry, ['AcctSvcrRef']) || xmlText(entry, ['NtryRef']) || xmlText(details, ['Refs', 'AcctSvcrRef']),
+      });
+    }
+  }
+  return result;
+}
+
+const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+  <Acct><Id><IBAN>ES9121000418450200051332</IBAN></Id></Acct>
+  <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2025-01-01</Dt></Dt></Bal>
+  <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="EUR">3454.50</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2025-01-31</Dt></Dt></Bal>
+  <Ntry><Amt Ccy="EUR">45.50</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+    <BookgDt><Dt>2025-01-05</Dt></BookgDt><ValDt><Dt>2025-01-04</Dt></ValDt><AcctSvcrRef>REF-1</AcctSvcrRef>
+    <NtryDtls><TxDtls><RltdPties><Cdtr><Nm>MERCADONA</Nm></Cdtr></RltdPties></TxDtls></NtryDtls></Ntry>
+  <Ntry><Amt Ccy="EUR">2500.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts><Cd>BOOK</Cd></Sts>
+    <BookgDt><DtTm>2025-01-10T09:30:00</DtTm></BookgDt>
+    <NtryDtls><TxDtls><Refs><AcctSvcrRef>REF-2</AcctSvcrRef></Refs><RltdPties><Dbtr><Nm>ACME SL</Nm></Dbtr></RltdPties></TxDtls></NtryDtls></Ntry>
+  <Ntry><Amt Ccy="EUR">10.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>PDNG</Sts><BookgDt><Dt>2025-01-31</Dt></BookgDt></Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+const camtResult = parseCamt053(camt);
+assertEqual(camtResult.transactions.length, 2, 'Pending entries are skipped');
+assertEqual(camtResult.transactions.map(t => t.date), ['2025-01-05', '2025-01-10'], 'BookgDt Dt and DtTm → date');
+assertEqual(camtResult.transactions[0].valueDate, '2025-01-04', 'ValDt → value date');
+assertEqual(camtResult.transactions.map(t => t.amount), [-45.5, 2500], 'CdtDbtInd DBIT/CRDT → signed amounts');
+assertEqual(camtResult.transactions.map(t => t.description), ['MERCADONA', 'ACME SL'], 'Creditor for debits, debtor for credits');
+assertEqual(camtResult.transactions.map(t => t.externalId), ['REF-1', 'REF-2'], 'AcctSvcrRef (entry or TxDtls) → external id');
+assertEqual(camtResult.accountReference, 'ES9121000418450200051332', 'Account IBAN');
+assertEqual(camtResult.openingBalance, { amount: 1000, date: '2025-01-01' }, 'OPBD → opening balance');
+assertEqual(camtResult.closingBalance, { amount: 3454.5, date: '2025-01-31' }, 'CLBD → closing balance');
+
+console.log('\n📄 Norma 43 Parser');
+
+function parseN43Date(value) {
+  return /^\d{6}$/.test(value) ? `20${value.slice(0, 2)}-${value.slice(2, 4)}-${value.slice(4, 6)}` : undefined;
+}
+
+function parseN43Amount(signKey, digits) {
+  const value = parseInt(digits, 10) / 100;
+  return signKey === '1' ? -value : value;
+}
+
+function parseNorma43(text) {
+  const result = { transactions: [], opening: null, closing: null, reference: null };
+  let balance = 0;
+  let endDate;
+  let last = null;
+  for (const raw of text.split(/\r?\n/).filter(l => l.trim())) {
+    const line = raw.padEnd(80, ' ');
+    const type = line.slice(0, 2);
+    if (type === '11') {
+      result.reference = line.slice(2, 20);
+      endDate = parseN43Date(line.slice(26, 32));
+      balance = parseN43Amount(line[32], line.slice(33, 47));
+      result.opening = balance;
+    } else if (type === '22') {
+      const amount = parseN43Amount(line[27], line.slice(28, 42));
+      balance = Math.round((balance + amount) * 100) / 100;
+      last = { date: parseN43Date(line.slice(10, 16)), concept: line.slice(22, 24), description: null, amount, balanceAfter: balance };
+      result.transactions.push(last);
+    } else if (type === '23' && last && !last.description) {
+      last.description = [line.slice(4, 42).trim(), line.slice(42, 80).trim()].filter(Boolean).join(' ');
+    } else if (type === '33') {
+      result.closing = { amount: parseN43Amount(line[58], line.slice(59, 73)), date: endDate };
+    }
+  }
+  return result;
+}
+
+const n43 = [
+  '11210004180200051332250101250131200000000100000978' + '3' + 'CUENTA PRUEBA'.padEnd(29),
+  '22    0418250105250105121231000000000045500000000000000000000000' + 'REF1'.padEnd(16),
+  '2301' + 'COMPRA TARJETA MERCADONA'.padEnd(38) + 'VALENCIA'.padEnd(38),
+  '22    0418250110250110151232000000002500000000000000',
+  '2301' + 'NOMINA ACME SL',
+  '3321000418020005133200001000000000045500000100000000250000200000000345450978',
+  '88' + '9'.repeat(18) + '000006',
+].join('\r\n');
+const n43Result = parseNorma43(n43);
+assertEqual(n43Result.reference, '210004180200051332', 'Account reference = bank + branch + account');
+assertEqual(n43Result.opening, 1000, 'Opening balance from record 11');
+assertEqual(n43Result.transactions.map(t => t.amount), [-45.5, 2500], 'D/H key → signed amounts');
+assertEqual(n43Result.transactions[0].description, 'COMPRA TARJETA MERCADONA VALENCIA', 'Record 23 → description');
+assertEqual(n43Result.transactions[1].balanceAfter, 3454.5, 'Running balance from opening balance');
+assertEqual(n43Result.closing, { amount: 3454.5, date: '2025-01-31' }, 'Closing balance from record 33 at end date');
+
+console.log('\n💱 Exchange Rates (nearest date)');
+console.log('─'.repeat(40));
+
+function nearestRate(series, date) {
+  // series sorted by date ascending: [{ date, rate }]
+  const target = Date.parse(date);
+  let best = null;
+  for (const r of series) {
+    const dist = Math.abs(Date.parse(r.date) - target);
+    if (best === null || dist < best.dist) best = { dist, rate: r.rate };
+  }
+  return best ? best.rate : null;
+}
+
+function convertAmount(amount, currency, date, base, rates) {
+  if (currency === base) return amount;
+  const rate = nearestRate(rates[currency] || [], date);
+  return rate === null ? amount : Math.round(amount * rate * 100) / 100;
+}
+
+const fxRates = { USD: [{ date: '2026-01-01', rate: 0.9 }, { date: '2026-02-01', rate: 0.95 }], JPY: [{ date: '2026-01-15', rate: 0.0062 }] };
+assertEqual(nearestRate(fxRates.USD, '2026-01-10'), 0.9, 'Earlier rate is nearer');
+assertEqual(nearestRate(fxRates.USD, '2026-01-25'), 0.95, 'Later rate is nearer');
+assertEqual(nearestRate(fxRates.USD, '2027-06-01'), 0.95, 'Dates past the last rate use the last one');
+assertEqual(convertAmount(1000000, 'JPY', '2026-03-01', 'EUR', fxRates), 6200, 'JPY balance converted to EUR');
+assertEqual(convertAmount(500, 'EUR', '2026-03-01', 'EUR', fxRates), 500, 'Base currency left as-is');
+assertEqual(convertAmount(100, 'GBP', '2026-03-01', 'EUR', fxRates), 100, 'Currency without rates passes through');
+
+console.log('\n🎯 Budgets (rollover & projection)');
+console.log('─'.repeat(40));
+
+function budgetRollover(limit, spentByPreviousMonth) {
+  // Unspent amounts carry forward; overspending never does
+  let carry = 0;
+  for (const spent of spentByPreviousMonth) {
+    carry = Math.max(0, limit + carry - spent);
+  }
+  return carry;
+}
+
+function budgetStatus(available, spent, dayOfMonth, daysInMonth) {
+  const projected = Math.round((spent / dayOfMonth) * daysInMonth * 100) / 100;
+  if (spent > available) return { projected, status: 'over' };
+  if (projected > available) return { projected, status: 'at_risk' };
+  return { projected, status: 'on_track' };
+}
+
+assertEqual(budgetRollover(300, [200, 250]), 150, 'Unspent amounts accumulate');
+assertEqual(budgetRollover(300, [500, 100]), 200, 'Overspending resets the carry to zero');
+assertEqual(budgetRollover(300, []), 0, 'No rollover in the first month');
+assertEqual(budgetStatus(300, 150, 10, 30).status, 'at_risk', 'Projected 450 over 300 is at risk');
+assertEqual(budgetStatus(300, 150, 10, 30).projected, 450, 'Projection follows the daily pace');
+assertEqual(budgetStatus(300, 320, 20, 30).status, 'over', 'Spending past the limit is over');
+assertEqual(budgetStatus(300, 90, 15, 30).status, 'on_track', 'Projected 180 is on track');
+
+console.log('\n🔁 Recurring Detection');
+console.log('─'.repeat(40));
+
+function normalizeCounterparty(description) {
+  return description
+    .toLowerCase()
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1)
+    .slice(0, 4)
+    .join(' ');
+}
+
+const CADENCES = {
+  weekly: { days: 7, tolerance: 1, minOccurrences: 4 },
+  monthly: { days: 30.4, tolerance: 4, minOccurrences: 3 },
+  yearly: { days: 365, tolerance: 10, minOccurrences: 2 },
+};
+
+function detectCadence(dates) {
+  if (dates.length < 2) return null;
+  const intervals = dates.slice(1).map((d, i) => Math.round((Date.parse(d) - Date.parse(dates[i])) / 86400000));
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  const typical = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  for (const [cadence, spec] of Object.entries(CADENCES)) {
+    if (dates.length < spec.minOccurrences) continue;
+    if (Math.abs(typical - spec.days) > spec.tolerance) continue;
+    const fitting = intervals.filter(i => Math.abs(i - spec.days) <= spec.tolerance).length;
+    if (fitting / intervals.length >= 0.75) return cadence;
+  }
+  return null;
+}
+
+assertEqual(
+  normalizeCounterparty('RECIBO NETFLIX.COM 12/03 REF 99812'),
+  normalizeCounterparty('Recibo Netflix.com 12/04 ref 10233'),
+  'References and dates do not split a counterparty'
+);
+assertEqual(normalizeCounterparty('Compra Café Ñandú'), 'compra cafe nandu', 'Accents are folded');
+assertEqual(detectCadence(['2026-01-03', '2026-02-03', '2026-03-02', '2026-04-03']), 'monthly', 'Monthly charges');
+assertEqual(detectCadence(['2026-03-02', '2026-03-09', '2026-03-16', '2026-03-23']), 'weekly', 'Weekly charges');
+assertEqual(detectCadence(['2024-05-10', '2025-05-12']), 'yearly', 'Yearly charges');
+assertEqual(detectCadence(['2026-01-03', '2026-02-03']), null, 'Two monthly charges are not enough');
+assertEqual(detectCadence(['2026-01-03', '2026-01-20', '2026-03-01', '2026-03-05']), null, 'Irregular dates are not recurring');
+
+console.log('\n🏷️  Categorization Rules');
+console.log('─'.repeat(40));
+
+function ruleFieldValue(tx, field) {
+  if (field === 'any') return [tx.description, tx.detail, tx.observations].filter(Boolean).join(' ');
+  return tx[field] || '';
+}
+
+function matchesCategoryRule(rule, tx) {
+  if (rule.match_type && rule.pattern) {
+    const value = ruleFieldValue(tx, rule.field);
+    if (!value) return false;
+    if (rule.match_type === 'contains' && !value.toLowerCase().includes(rule.pattern.toLowerCase())) return false;
+    if (rule.match_type === 'equals' && value.trim().toUpperCase() !== rule.pattern.trim().toUpperCase()) return false;
+    if (rule.match_type === 'regex' && !new RegExp(rule.pattern, 'i').test(value)) return false;
+  }
+  const absAmount = Math.abs(tx.amount);
+  if (rule.amount_min != null && absAmount < rule.amount_min) return false;
+  if (rule.amount_max != null && absAmount > rule.amount_max) return false;
+  if (rule.sign === 'expense' && tx.amount >= 0) return false;
+  if (rule.sign === 'income' && tx.amount <= 0) return false;
+  if (rule.account_id != null && tx.accountId !== rule.account_id) return false;
+  return true;
+}
+
+function evaluateCategoryRules(tx, rules) {
+  const ordered = [...rules].sort((a, b) => b.priority - a.priority || a.id - b.id);
+  const rule = ordered.find(r => r.is_active && matchesCategoryRule(r, tx));
+  return rule ? rule.category_id : null;
+}
+
+const categoryRules = [
+  { id: 1, priority: 0, is_active: true, category_id: 10, field: 'description', match_type: 'contains', pattern: 'mercadona', sign: 'any' },
+  { id: 2, priority: 5, is_active: true, category_id: 20, field: 'any', match_type: 'contains', pattern: 'mercadona', amount_min: 200, sign: 'expense' },
+  { id: 3, priority: 0, is_active: false, category_id: 30, field: 'any', match_type: 'regex', pattern: '^NOMINA', sign: 'any' },
+  { id: 4, priority: 0, is_active: true, category_id: 40, field: 'any', match_type: null, pattern: null, sign: 'income', account_id: 7 },
+];
+
+assertEqual(evaluateCategoryRules({ description: 'COMPRA MERCADONA', amount: -45 }, categoryRules), 10, 'Contains match is case-insensitive');
+assertEqual(evaluateCategoryRules({ description: 'COMPRA MERCADONA', amount: -250 }, categoryRules), 20, 'Higher priority rule wins when its conditions hold');
+assertEqual(evaluateCategoryRules({ description: 'Devolución Mercadona', amount: 250 }, categoryRules), 10, 'Sign condition excludes income');
+assertEqual(evaluateCategoryRules({ description: 'NOMINA OCTUBRE', amount: 2000 }, categoryRules), null, 'Inactive rules are skipped');
+assertEqual(evaluateCategoryRules({ description: 'Bizum', amount: 20, accountId: 7 }, categoryRules), 40, 'Rule without text condition matches on account and sign');
+assertEqual(evaluateCategoryRules({ description: 'Bizum', amount: 20, accountId: 8 }, categoryRules), null, 'Account condition limits the rule');
+
+console.log('\n🧠 Rule Suggestions (from corrections)');
+console.log('─'.repeat(40));
+
+function foldForMatching(text) {
+  return text.split('').map(ch => ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().charAt(0) || ch).join('');
+}
+
+function suggestPattern(descriptions) {
+  descriptions = descriptions.map(d => d.normalize('NFC'));
+  const words = normalizeCounterparty(descriptions[0]).split(' ').filter(Boolean);
+  const lowered = descriptions.map(foldForMatching);
+  let best = '';
+  for (let start = 0; start < words.length; start++) {
+    for (let end = start + 1; end <= words.length; end++) {
+      const candidate = words.slice(start, end).join(' ');
+      if (candidate.length > best.length && lowered.every(d => d.includes(candidate))) best = candidate;
+    }
+  }
+  if (!best) return descriptions[0].trim();
+  const index = lowered[0].indexOf(best);
+  return descriptions[0].slice(index, index + best.length);
+}
+
+function isSuggested(corrections, keyTotal) {
+  return corrections >= 2 && corrections / keyTotal >= 0.8;
+}
+
+assertEqual(suggestPattern(['COMPRA MERCADONA 1234 VALENCIA', 'COMPRA MERCADONA 98 VALENCIA']), 'COMPRA MERCADONA', 'Longest shared run keeps bank casing');
+assertEqual(suggestPattern(['Netflix.com 12/03']), 'Netflix', 'Single description keeps its first words');
+assertEqual(suggestPattern(['12/03 4455']), '12/03 4455', 'Falls back to the description when no words remain');
+assertEqual(suggestPattern(['CAFÉ PEÑALARA 0412 MADRID', 'Café Peñalara 77 MADRID']), 'CAFÉ PEÑALARA', 'Accented merchants match and keep their accents');
+assertEqual(suggestPattern(['Cafe\u0301 Central 12', 'CAFÉ CENTRAL 9']), 'Café Central', 'Decomposed accents are matched too');
+assertEqual(isSuggested(1, 1), false, 'One correction is not enough');
+assertEqual(isSuggested(2, 2), true, 'Two agreeing corrections produce a suggestion');
+assertEqual(isSuggested(2, 3), false, 'Disagreeing corrections do not');
+
+console.log('\n✂️  Transaction Splits');
+console.log('─'.repeat(40));
+
+function validateSplits(parentAmount, splits) {
+  if (splits.length < 2) return 'A split needs at least two allocations';
+  for (const split of splits) {
+    if (!isFinite(split.amount) || split.amount === 0) return 'Each split needs a non-zero amount';
+    if (Math.sign(split.amount) !== Math.sign(parentAmount)) return 'Split amounts must have the same sign as the transaction';
+  }
+  const total = splits.reduce((sum, split) => sum + Math.round(split.amount * 100), 0);
+  if (total !== Math.round(parentAmount * 100)) return 'Split amounts must add up to the transaction amount';
+  return null;
+}
+
+assertEqual(validateSplits(-87.45, [{ amount: -52.1 }, { amount: -20.25 }, { amount: -15.1 }]), null, 'Allocations adding up to the parent are valid');
+assertEqual(validateSplits(-0.3, [{ amount: -0.1 }, { amount: -0.2 }]), null, 'Cent rounding does not break the sum');
+assertEqual(validateSplits(-50, [{ amount: -30 }, { amount: -15 }]), 'Split amounts must add up to the transaction amount', 'Short allocations are rejected');
+assertEqual(validateSplits(-50, [{ amount: -60 }, { amount: 10 }]), 'Split amounts must have the same sign as the transaction', 'Mixed signs are rejected');
+assertEqual(validateSplits(-50, [{ amount: -50 }]), 'A split needs at least two allocations', 'A single allocation is not a split');
+
+// ============================================
+console.log('\n🔁 Transfer Pairs');
+console.log('─'.repeat(40));
+
+function matchTransfers(transactions, rejectedKeys = new Set(), windowDays = 3) {
+  const daysApart = (a, b) => Math.abs(Math.round((Date.parse(a) - Date.parse(b)) / 86400000));
+  const options = [];
+  for (const out of transactions.filter(tx => tx.amount < 0)) {
+    for (const deposit of transactions.filter(tx => tx.amount > 0)) {
+      if (Math.round(deposit.amount * 100) !== Math.round(-out.amount * 100) || deposit.currency !== out.currency) continue;
+      if (deposit.account_id === out.account_id || rejectedKeys.has(`${out.id}|${deposit.id}`)) continue;
+      const gap = daysApart(out.date, deposit.date);
+      if (gap > windowDays) continue;
+      options.push({ out, in: deposit, gap, flagged: !!out.is_transfer && !!deposit.is_transfer });
+    }
+  }
+  options.sort((a, b) => Number(b.flagged) - Number(a.flagged) || a.gap - b.gap);
+
+  const used = new Set();
+  const pairs = [];
+  for (const option of options) {
+    if (used.has(option.out.id) || used.has(option.in.id)) continue;
+    used.add(option.out.id);
+    used.add(option.in.id);
+    pairs.push({ out: option.out.id, in: option.in.id, status: option.flagged ? 'confirmed' : 'suggested' });
+  }
+  return pairs;
+}
+
+const transferTxs = [
+  { id: 1, account_id: 1, amount: -500, currency: 'EUR', date: '2024-03-01', is_transfer: 1 },
+  { id: 2, account_id: 2, amount: 500, currency: 'EUR', date: '2024-03-02', is_transfer: 1 },
+  { id: 3, account_id: 1, amount: -120.5, currency: 'EUR', date: '2024-03-10', is_transfer: 0 },
+  { id: 4, account_id: 3, amount: 120.5, currency: 'EUR', date: '2024-03-15', is_transfer: 0 },
+  { id: 5, account_id: 3, amount: 120.5, currency: 'EUR', date: '2024-03-11', is_transfer: 0 },
+  { id: 6, account_id: 1, amount: 500, currency: 'EUR', date: '2024-03-01', is_transfer: 0 },
+  { id: 7, account_id: 2, amount: -80, currency: 'USD', date: '2024-03-20', is_transfer: 1 },
+  { id: 8, account_id: 3, amount: 80, currency: 'EUR', date: '2024-03-20', is_transfer: 1 },
+];
+const transferPairs = matchTransfers(transferTxs);
+
+assertEqual(transferPairs.find(p => p.out === 1)?.in, 2, 'Flagged transfers are paired across accounts');
+assertEqual(transferPairs.find(p => p.out === 1)?.status, 'confirmed', 'Pairs of flagged transfers are confirmed');
+assertEqual(transferPairs.find(p => p.out === 3)?.in, 5, 'The closest deposit within the window wins');
+assertEqual(transferPairs.find(p => p.out === 3)?.status, 'suggested', 'Unflagged matches are only suggested');
+assertEqual(transferPairs.some(p => p.in === 6), false, 'Deposits into the same account are never paired');
+assertEqual(transferPairs.some(p => p.out === 7), false, 'Different currencies are not paired');
+assertEqual(matchTransfers(transferTxs, new Set(['3|5'])).find(p => p.out === 3), undefined, 'Rejected pairs are not proposed again');
+
+// ============================================
+console.log('\n📅 Periodic Reports');
+console.log('─'.repeat(40));
+
+function reportTotals(income, expenses) {
+  const net = income - expenses;
+  return { income, expenses, net, savingsRate: income > 0 ? (net / income) * 100 : null };
+}
+
+function biggestMovers(current, previous, limit = 5) {
+  const ids = new Set([...current.keys(), ...previous.keys()]);
+  const movers = [];
+  for (const id of ids) {
+    const amount = current.get(id) || 0;
+    const previousAmount = previous.get(id) || 0;
+    const change = Math.round((amount - previousAmount) * 100) / 100;
+    if (change !== 0) movers.push({ id, amount, previousAmount, change });
+  }
+  return movers.sort((a, b) => Math.abs(b.change) - Math.abs(a.change)).slice(0, limit);
+}
+
+function shiftMonth(month, delta) {
+  const [year, m] = month.split('-').map(Number);
+  const date = new Date(year, m - 1 + delta, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+assertEqual(reportTotals(4000, 3000).savingsRate, 25, 'Savings rate is net over income');
+assertEqual(reportTotals(0, 120).savingsRate, null, 'No savings rate without income');
+
+const movers = biggestMovers(
+  new Map([[1, 450], [2, 80], [3, 300]]),
+  new Map([[1, 400], [2, 280], [4, 90]])
+);
+assertEqual(movers.map(m => m.id).join(','), '3,2,4,1', 'Movers are ordered by the size of the change');
+assertEqual(movers.find(m => m.id === 4).change, -90, 'Categories with no spending this period still count as movers');
+assertEqual(biggestMovers(new Map([[1, 10.1]]), new Map([[1, 10.1]])).length, 0, 'Unchanged categories are not movers');
+assertEqual(shiftMonth('2024-01', -1), '2023-12', 'The previous month of January is December of the year before');
+
+// ============================================
+console.log('\n🔔 Notification Preferences');
+console.log('─'.repeat(40));
+
+const UNSUBSCRIBE_SECRET = 'test-session-secret-32-chars-long';
+const NOTIFICATION_TYPES = ['weekly', 'monthly', 'yearly', 'alerts'];
+
+function signUnsubscribe(payload) {
+  return crypto.createHmac('sha256', UNSUBSCRIBE_SECRET).update(`unsubscribe:${payload}`).digest('base64url');
+}
+
+function createUnsubscribeToken(userId, type) {
+  const payload = `${userId}.${type}`;
+  return `${payload}.${signUnsubscribe(payload)}`;
+}
+
+function verifyUnsubscribeToken(token) {
+  const [userId, type, signature] = token.split('.');
+  if (!userId || !type || !signature || !/^\d+$/.test(userId)) return null;
+  if (!NOTIFICATION_TYPES.includes(type)) return null;
+  const expected = Buffer.from(signUnsubscribe(`${userId}.${type}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+  return { userId: parseInt(userId), type };
+}
+
+function isDigestDue(recipient, today, defaultDay) {
+  return !today || (recipient.digestDay || defaultDay) === today;
+}
+
+const unsubscribeToken = createUnsubscribeToken(7, 'monthly');
+assertEqual(JSON.stringify(verifyUnsubscribeToken(unsubscribeToken)), JSON.stringify({ userId: 7, type: 'monthly' }), 'Unsubscribe token round-trips user and type');
+assertEqual(verifyUnsubscribeToken(unsubscribeToken.replace('7.monthly', '8.monthly')), null, 'Token signed for another user is rejected');
+assertEqual(verifyUnsubscribeToken(unsubscribeToken.replace('monthly', 'weekly')), null, 'Token cannot be reused for another email type');
+assertEqual(verifyUnsubscribeToken('7.monthly'), null, 'Unsigned token is rejected');
+assertEqual(isDigestDue({ digestDay: null }, 'sunday', 'sunday'), true, 'Members without a digest day follow the default day');
+assertEqual(isDigestDue({ digestDay: 'friday' }, 'sunday', 'sunday'), false, 'Own digest day overrides the default day');
+assertEqual(isDigestDue({ digestDay: 'friday' }, undefined, 'sunday'), true, 'Manual sends ignore the digest day');
+
+// ============================================
+console.log('\n🚨 Alerts');
+console.log('─'.repeat(40));
+
+const ALERT_DAY_MS = 24 * 60 * 60 * 1000;
+
+function balanceBelowTrigger(latest, threshold) {
+  if (!latest || latest.amount >= threshold) return null;
+  return { key: latest.date.slice(0, 7) };
+}
+
+function staleBalanceTrigger(account, threshold, today) {
+  const days = Math.floor((Date.parse(today) - Date.parse(account.last_date)) / ALERT_DAY_MS);
+  if (days <= threshold) return null;
+  return { key: `${account.id}:${account.last_date}`, days };
+}
+
+function debtMilestoneTrigger(remainingMonths, threshold) {
+  if (remainingMonths == null || remainingMonths > threshold) return null;
+  return { key: `months:${threshold}` };
+}
+
+function fireAlerts(existingKeys, triggers) {
+  return triggers.filter(t => t && !existingKeys.has(t.key) && existingKeys.add(t.key));
+}
+
+assertEqual(balanceBelowTrigger({ amount: 499.99, date: '2024-03-15' }, 500).key, '2024-03', 'Low balance fires once per month');
+assertEqual(balanceBelowTrigger({ amount: 500, date: '2024-03-15' }, 500), null, 'Balance equal to the threshold does not fire');
+assertEqual(staleBalanceTrigger({ id: 2, last_date: '2024-01-01' }, 30, '2024-02-15').days, 45, 'Stale balance counts days since the last balance');
+assertEqual(staleBalanceTrigger({ id: 2, last_date: '2024-01-20' }, 30, '2024-02-15'), null, 'Recent balance is not stale');
+assertEqual(debtMilestoneTrigger(11, 12).key, 'months:12', 'Debt milestone fires at or under the remaining months');
+assertEqual(debtMilestoneTrigger(null, 12), null, 'Loans without a term never reach a milestone');
+const alertKeys = new Set(['2024-03']);
+assertEqual(fireAlerts(alertKeys, [balanceBelowTrigger({ amount: 10, date: '2024-03-20' }, 500), balanceBelowTrigger({ amount: 10, date: '2024-04-02' }, 500)]).length, 1, 'A condition already alerted is not repeated');
+
+// ============================================
+console.log('\n📬 Notification Center');
+console.log('─'.repeat(40));
+
+function notificationRecipients(users, { familyId, administratorsOnly = false, excludeUserIds = [] }) {
+  return users
+    .filter(u => administratorsOnly ? u.role === 'administrator' : u.family_id === familyId)
+    .filter(u => !excludeUserIds.includes(u.id))
+    .map(u => u.id);
+}
+
+const notificationUsers = [
+  { id: 1, family_id: 10, role: 'administrator' },
+  { id: 2, family_id: 10, role: 'user' },
+  { id: 3, family_id: 20, role: 'administrator' },
+];
+assertEqual(notificationRecipients(notificationUsers, { familyId: 10 }).join(','), '1,2', 'Family events reach every member of the family');
+assertEqual(notificationRecipients(notificationUsers, { familyId: 10, excludeUserIds: [2] }).join(','), '1', 'Whoever caused the event is not notified');
+assertEqual(notificationRecipients(notificationUsers, { administratorsOnly: true }).join(','), '1,3', 'Backups reach the administrators of every family');
+
+// ============================================
+console.log('\n🪝 Webhooks');
+console.log('─'.repeat(40));
+
+const WEBHOOK_RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+
+function signWebhookPayload(secret, timestamp, body) {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function nextWebhookAttempt(attempts, retry = true) {
+  if (!retry || attempts >= WEBHOOK_RETRY_DELAYS_MINUTES.length + 1) return { status: 'failed', delayMinutes: null };
+  return { status: 'pending', delayMinutes: WEBHOOK_RETRY_DELAYS_MINUTES[attempts - 1] };
+}
+
+const webhookBody = JSON.stringify({ event: 'balance.created', data: { amount: 10 } });
+const webhookSignature = signWebhookPayload('whsec_test', 1700000000, webhookBody);
+assert(webhookSignature.startsWith('t=1700000000,v1='), 'Signature carries the timestamp');
+assert(signWebhookPayload('whsec_test', 1700000000, webhookBody.replace('10', '11')) !== webhookSignature, 'Changing the body changes the signature');
+assert(signWebhookPayload('whsec_test', 1700000001, webhookBody) !== webhookSignature, 'The timestamp is part of the signed content');
+assertEqual(nextWebhookAttempt(1).delayMinutes, 1, 'First retry comes a minute after the first failure');
+assertEqual(nextWebhookAttempt(5).delayMinutes, 720, 'Retries back off up to 12 hours');
+assertEqual(nextWebhookAttempt(6).status, 'failed', 'Delivery gives up after six attempts');
+assertEqual(nextWebhookAttempt(1, false).status, 'failed', 'Test pings are not retried');
+
+// ============================================
+console.log('\n🔑 API Tokens');
+console.log('─'.repeat(40));
+
+const TOKEN_WRITE_SCOPE_ROUTES = {
+  'balances:write': ['/api/balances', '/api/import/csv'],
+  'transactions:import': ['/api/transactions/import'],
+};
+
+function matchesRoute(pathname, routes) {
+  return routes.some(route => pathname === route || pathname.startsWith(`${route}/`));
+}
+
+function tokenScopeAllows(scopes, method, pathname) {
+  if (matchesRoute(pathname, ['/api/auth', '/api/tokens', '/api/invitations'])) return false;
+  if (scopes.includes('admin')) return true;
+  if (matchesRoute(pathname, ['/api/admin', '/api/backups', '/api/debug'])) return false;
+  if (method === 'GET' || method === 'HEAD') return scopes.includes('read');
+  return scopes.some(scope => matchesRoute(pathname, TOKEN_WRITE_SCOPE_ROUTES[scope] || []));
+}
+
+assert(tokenScopeAllows(['read'], 'GET', '/api/accounts'), 'Read tokens can fetch accounts');
+assert(!tokenScopeAllows(['read'], 'POST', '/api/balances'), 'Read tokens cannot write');
+assert(tokenScopeAllows(['balances:write'], 'POST', '/api/balances'), 'balances:write can push balances');
+assert(tokenScopeAllows(['balances:write'], 'PUT', '/api/balances/12'), 'balances:write covers balance sub-routes');
+assert(!tokenScopeAllows(['balances:write'], 'GET', '/api/accounts'), 'Write scopes do not imply read');
+assert(!tokenScopeAllows(['balances:write'], 'POST', '/api/balances-export'), 'Route prefixes match whole path segments');
+assert(tokenScopeAllows(['transactions:import'], 'POST', '/api/transactions/import/confirm'), 'transactions:import can confirm imports');
+assert(!tokenScopeAllows(['read'], 'GET', '/api/backups'), 'Backups need the admin scope');
+assert(!tokenScopeAllows(['admin'], 'POST', '/api/tokens'), 'Tokens cannot mint more tokens');
+assert(!tokenScopeAllows(['admin'], 'POST', '/api/invitations/12.abc'), 'Tokens cannot accept family invitations');
+
+// ============================================
+console.log('\n🔐 Two-Factor Authentication');
+console.log('─'.repeat(40));
+
+const TOTP_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Decode(input) {
+  let bits = 0;
+  let value = 0;
+  const bytes = [];
+  for (const char of input.toUpperCase().replace(/=+$/, '')) {
+    const index = TOTP_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function totpCode(secret, step) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000).padStart(6, '0');
+}
+
+function matchTotp(secret, code, nowSeconds, lastUsedStep) {
+  if (Buffer.byteLength(code) !== 6) return null;
+  const current = Math.floor(nowSeconds / 30);
+  for (let step = current - 1; step <= current + 1; step++) {
+    if (step > lastUsedStep && crypto.timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+// RFC 6238 test secret "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+assertEqual(totpCode(RFC_SECRET, Math.floor(59 / 30)), '287082', 'Matches the RFC 6238 vector at T=59');
+assertEqual(totpCode(RFC_SECRET, Math.floor(1111111109 / 30)), '081804', 'Matches the RFC 6238 vector at T=1111111109');
+assertEqual(matchTotp(RFC_SECRET, '287082', 89, 0), 1, 'The previous step is still accepted');
+assertEqual(matchTotp(RFC_SECRET, '287082', 120, 0), null, 'Codes older than one step are refused');
+assertEqual(matchTotp(RFC_SECRET, '287082', 59, 1), null, 'A code cannot be used twice');
+assertEqual(matchTotp(RFC_SECRET, '2870820', 59, 0), null, 'Codes of the wrong length are refused without throwing');
+
+// ============================================
+console.log('\n🪪 Sessions');
+console.log('─'.repeat(40));
+
+function describeDevice(userAgent) {
+  if (!userAgent) return null;
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os;
+}
+
+function loginDelaySeconds(consecutiveFailures) {
+  if (consecutiveFailures < 3) return 0;
+  return Math.min(30 * 2 ** (consecutiveFailures - 3), 60 * 60);
+}
+
+assertEqual(
+  describeDevice('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0 Safari/537.36 Edg/128.0'),
+  'Edge on Windows',
+  'Edge is not mistaken for Chrome'
+);
+assertEqual(
+  describeDevice('Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1'),
+  'Safari on iOS',
+  'iPhones are reported as iOS, not macOS'
+);
+assertEqual(describeDevice('curl/8.5.0'), null, 'Unknown agents have no device label');
+assertEqual(loginDelaySeconds(2), 0, 'The first failures are not held back');
+assertEqual(loginDelaySeconds(3), 30, 'The third failure waits 30 seconds');
+assertEqual(loginDelaySeconds(5), 120, 'The wait doubles per failure');
+assertEqual(loginDelaySeconds(20), 3600, 'The wait is capped at an hour');
+
+// ============================================
+console.log('\n🚦 Rate Limiting');
+console.log('─'.repeat(40));
+
+function countAttempt(windows, key, rule, now) {
+  let entry = windows.get(key);
+  if (!entry || entry.resetAt <= now) {
+    entry = { count: 0, resetAt: now + rule.windowMinutes * 60 * 1000 };
+    windows.set(key, entry);
+  }
+  entry.count++;
+  if (entry.count <= rule.maxAttempts) return { retryAfter: 0, justExceeded: false };
+  return {
+    retryAfter: Math.ceil((entry.resetAt - now) / 1000),
+    justExceeded: entry.count === rule.maxAttempts + 1,
+  };
+}
+
+const limitWindows = new Map();
+const limitRule = { maxAttempts: 3, windowMinutes: 15 };
+const limitStart = Date.UTC(2026, 0, 1);
+for (let i = 0; i < 3; i++) countAttempt(limitWindows, 'login:ip:1.2.3.4', limitRule, limitStart);
+const overLimit = countAttempt(limitWindows, 'login:ip:1.2.3.4', limitRule, limitStart + 60 * 1000);
+assertEqual(overLimit.retryAfter, 14 * 60, 'The fourth attempt waits for the rest of the window');
+assert(overLimit.justExceeded, 'The first rejected attempt is flagged for logging');
+assert(!countAttempt(limitWindows, 'login:ip:1.2.3.4', limitRule, limitStart + 2 * 60 * 1000).justExceeded, 'Later rejections are not logged again');
+assertEqual(countAttempt(limitWindows, 'login:ip:5.6.7.8', limitRule, limitStart).retryAfter, 0, 'Other keys have their own window');
+assertEqual(countAttempt(limitWindows, 'login:ip:1.2.3.4', limitRule, limitStart + 15 * 60 * 1000).retryAfter, 0, 'A new window starts once the old one ends');
+
+function clientAddress(forwardedFor, trustProxy) {
+  const hops = trustProxy === 'true' ? 1 : Math.max(parseInt(trustProxy || '', 10) || 0, 0);
+  const forwarded = hops > 0 ? (forwardedFor || '').split(',').map(address => address.trim()).filter(Boolean) : [];
+  return forwarded.length >= hops && hops > 0 ? forwarded[forwarded.length - hops] : null;
+}
+
+assertEqual(clientAddress('6.6.6.6', undefined), null, 'Without TRUST_PROXY the forwarded header is ignored');
+assertEqual(clientAddress('6.6.6.6, 1.2.3.4', '1'), '1.2.3.4', 'Behind one proxy the address it appended is used');
+assertEqual(clientAddress('6.6.6.6, 1.2.3.4, 10.0.0.2', '2'), '1.2.3.4', 'Each trusted proxy is skipped from the end');
+assertEqual(clientAddress('1.2.3.4', '2'), null, 'Fewer entries than proxies gives no address');
+
+// ============================================
+console.log('\n🔒 Encryption');
+console.log('─'.repeat(40));
+
+function sealValue(key, keyId, plaintext) {
+  const prefix = `v2:${keyId}`;
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(prefix));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return `${prefix}:${[iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':')}`;
+}
+
+function openValue(key, value) {
+  const [version, keyId, ...sealed] = value.split(':');
+  const [iv, tag, ciphertext] = sealed.map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(Buffer.from(`${version}:${keyId}`));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+function valueKeyId(value) {
+  const parts = value.split(':');
+  if (parts[0] === 'v2' && parts.length === 5) return parts[1];
+  return /^[0-9a-f]{32}:[0-9a-f]+$/i.test(value) ? 'legacy' : null;
+}
+
+const dataKey = crypto.randomBytes(32);
+const sealedIban = sealValue(dataKey, 'a1b2c3d4', 'ES9121000418450200051332');
+assertEqual(openValue(dataKey, sealedIban), 'ES9121000418450200051332', 'Values decrypt with their data key');
+assertEqual(valueKeyId(sealedIban), 'a1b2c3d4', 'Values name the key they were written with');
+let relabelRejected = false;
+try {
+  openValue(dataKey, sealedIban.replace('v2:a1b2c3d4', 'v2:ffffffff'));
+} catch {
+  relabelRejected = true;
+}
+assert(relabelRejected, 'The key id is authenticated and cannot be changed');
+assertEqual(valueKeyId('00112233445566778899aabbccddeeff:abcdef'), 'legacy', 'Pre-v2 values are recognised as legacy');
+assertEqual(valueKeyId('ES9121000418450200051332'), null, 'Plain text is not taken for an encrypted value');
+
+// ============================================
+console.log('\n✉️  Family Invitations');
+console.log('─'.repeat(40));
+
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+function generateInviteCode() {
+  let code = '';
+  for (let i = 0; i < 8; i++) code += INVITE_CODE_ALPHABET[crypto.randomInt(INVITE_CODE_ALPHABET.length)];
+  return `${code.substring(0, 4)}-${code.substring(4)}`;
+}
+
+function normalizeInviteCode(input) {
+  const code = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return `${code.substring(0, 4)}-${code.substring(4)}`;
+}
+
+function signInvitation(secret, id, nonce) {
+  return crypto.createHmac('sha256', secret).update(`invitation:${id}:${nonce}`).digest('base64url');
+}
+
+const inviteCode = generateInviteCode();
+assert(/^[A-HJKMNP-Z2-9]{4}-[A-HJKMNP-Z2-9]{4}$/.test(inviteCode), 'Codes avoid characters that are easy to misread');
+assertEqual(normalizeInviteCode('k7qm 2xpr'), 'K7QM-2XPR', 'Typed codes match whatever the case and separator');
+assertEqual(normalizeInviteCode('K7QM-2XPR'), 'K7QM-2XPR', 'Codes in their stored form are unchanged');
+const inviteNonce = crypto.randomBytes(16).toString('hex');
+const inviteSignature = signInvitation('secret', 12, inviteNonce);
+assertEqual(inviteSignature, signInvitation('secret', 12, inviteNonce), 'Link tokens can be recomputed for the admin list');
+assert(inviteSignature !== signInvitation('secret', 13, inviteNonce), 'A signature does not carry over to another invitation');
+assert(inviteSignature !== signInvitation('other-secret', 12, inviteNonce), 'Link tokens depend on the server secret');
+
+// ============================================
+console.log('\n🏠 Families');
+console.log('─'.repeat(40));
+
+function fiscalYearOf(month, startMonth) {
+  const [year, m] = month.split('-').map(Number);
+  return m >= startMonth ? year : year - 1;
+}
+
+function monthsOfYear(year, startMonth) {
+  const start = `${year}-${String(startMonth).padStart(2, '0')}`;
+  return Array.from({ length: 12 }, (_, i) => shiftMonth(start, i));
+}
+
+function familyToday(timezone, now) {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+assertEqual(fiscalYearOf('2025-03', 1), 2025, 'Calendar fiscal years match the month\'s year');
+assertEqual(fiscalYearOf('2025-03', 4), 2024, 'Months before the start month belong to the fiscal year that started the year before');
+assertEqual(fiscalYearOf('2025-04', 4), 2025, 'The start month opens a new fiscal year');
+const fiscalMonths = monthsOfYear(2024, 4);
+assertEqual(`${fiscalMonths[0]}..${fiscalMonths[11]}`, '2024-04..2025-03', 'A fiscal year runs twelve months from its start month');
+const newYearsEve = new Date('2024-12-31T23:30:00Z');
+assertEqual(familyToday('UTC', newYearsEve), '2024-12-31', 'Today follows the family timezone');
+assertEqual(familyToday('Europe/Madrid', newYearsEve), '2025-01-01', 'Families ahead of UTC are already in the next day');
+
+// ============================================
+console.log('\n🔏 Account Sharing');
+console.log('─'.repeat(40));
+
+const ACCESS_RANK = { view: 1, edit: 2, owner: 3 };
+
+function resolveAccountAccess(account, grant, viewer) {
+  if (account.owner_id === viewer.id) return 'owner';
+  if (account.owner_id == null && viewer.role === 'administrator') return 'owner';
+  const familyAccess = account.family_access === 'none' ? null : account.family_access;
+  if (!grant) return familyAccess;
+  if (!familyAccess) return grant;
+  return ACCESS_RANK[grant] >= ACCESS_RANK[familyAccess] ? grant : familyAccess;
+}
+
+const sharingAdmin = { id: 1, role: 'administrator' };
+const sharingMember = { id: 2, role: 'user' };
+assertEqual(resolveAccountAccess({ owner_id: 2, family_access: 'none' }, null, sharingMember), 'owner', 'Owners keep full access to their private accounts');
+assertEqual(resolveAccountAccess({ owner_id: 2, family_access: 'none' }, null, sharingAdmin), null, 'Administrators cannot see another member\'s private account');
+assertEqual(resolveAccountAccess({ owner_id: null, family_access: 'edit' }, null, sharingAdmin), 'owner', 'Administrators manage accounts without an owner');
+assertEqual(resolveAccountAccess({ owner_id: null, family_access: 'edit' }, null, sharingMember), 'edit', 'Accounts from before sharing stay editable by the family');
+assertEqual(resolveAccountAccess({ owner_id: 1, family_access: 'none' }, 'view', sharingMember), 'view', 'A permission opens a private account to one member');
+assertEqual(resolveAccountAccess({ owner_id: 1, family_access: 'view' }, 'edit', sharingMember), 'edit', 'A permission can give more than the family gets');
+assertEqual(resolveAccountAccess({ owner_id: 1, family_access: 'edit' }, 'view', sharingMember), 'edit', 'A permission never takes away the family access');
+
+// ============================================
+console.log('\n💾 Verified Backups');
+console.log('─'.repeat(40));
+
+const zlib = require('zlib');
+const BACKUP_MAGIC = Buffer.from('FWTBACKUP1');
+const SQLITE_HEADER = Buffer.from('SQLite format 3\0');
+
+function startsWithMagic(buffer, magic) {
+  return buffer.length >= magic.length && buffer.subarray(0, magic.length).equals(magic);
+}
+
+function packBackup(database, { compress, passphrase } = {}) {
+  const packed = compress ? zlib.gzipSync(database) : database;
+  if (!passphrase) return packed;
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', crypto.scryptSync(passphrase, salt, 32), iv);
+  const ciphertext = Buffer.concat([cipher.update(packed), cipher.final()]);
+  return Buffer.concat([BACKUP_MAGIC, salt, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function unpackBackup(stored, passphrase) {
+  let database = stored;
+  if (startsWithMagic(database, BACKUP_MAGIC)) {
+    if (!passphrase) throw new Error('This backup is encrypted; enter its passphrase');
+    let offset = BACKUP_MAGIC.length;
+    const salt = database.subarray(offset, offset += 16);
+    const iv = database.subarray(offset, offset += 12);
+    const tag = database.subarray(offset, offset += 16);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', crypto.scryptSync(passphrase, salt, 32), iv);
+    decipher.setAuthTag(tag);
+    try {
+      database = Buffer.concat([decipher.update(database.subarray(offset)), decipher.final()]);
+    } catch {
+      throw new Error('Wrong passphrase for this backup');
+    }
+  }
+  if (startsWithMagic(database, Buffer.from([0x1f, 0x8b]))) database = zlib.gunzipSync(database);
+  if (!startsWithMagic(database, SQLITE_HEADER)) throw new Error('The backup is not a valid database');
+  return database;
+}
+
+function manifestsMatch(a, b) {
+  const tables = Object.keys(a);
+  return tables.length === Object.keys(b).length && tables.every(table => a[table] === b[table]);
+}
+
+function unpackError(stored, passphrase) {
+  try { unpackBackup(stored, passphrase); return null; } catch (err) { return err.message; }
+}
+
+const fakeDatabase = Buffer.concat([SQLITE_HEADER, Buffer.alloc(4096, 7)]);
+const sealedBackup = packBackup(fakeDatabase, { compress: true, passphrase: 'correct horse' });
+assert(unpackBackup(fakeDatabase).equals(fakeDatabase), 'Plain backups unpack as they are');
+assert(packBackup(fakeDatabase, { compress: true }).length < fakeDatabase.length, 'Compressed backups are smaller');
+assert(unpackBackup(sealedBackup, 'correct horse').equals(fakeDatabase), 'Encrypted and compressed backups round-trip');
+assert(!sealedBackup.includes(SQLITE_HEADER), 'Encrypted backups do not reveal the database');
+assertEqual(unpackError(sealedBackup), 'This backup is encrypted; enter its passphrase', 'Encrypted backups need the passphrase');
+assertEqual(unpackError(sealedBackup, 'wrong horse'), 'Wrong passphrase for this backup', 'A wrong passphrase is refused');
+assertEqual(unpackError(Buffer.from('not a database')), 'The backup is not a valid database', 'Files that are not databases are refused');
+const tamperedBackup = Buffer.from(sealedBackup);
+tamperedBackup[tamperedBackup.length - 1] ^= 1;
+assertEqual(unpackError(tamperedBackup, 'correct horse'), 'Wrong passphrase for this backup', 'Changed encrypted backups fail authentication');
+assert(manifestsMatch({ users: 2, accounts: 5 }, { accounts: 5, users: 2 }), 'Manifests match regardless of table order');
+assert(!manifestsMatch({ users: 2, accounts: 5 }, { users: 2, accounts: 4 }), 'A missing row fails the manifest');
+assert(!manifestsMatch({ users: 2 }, { users: 2, accounts: 0 }), 'An extra table fails the manifest');
+
 // ============================================
 console.log('\n' + '='.repeat(50));
 console.log(`Results: ${passed} passed, ${failed} failed`);
@@ -0,0 +1,228 @@
+/**
+ * Route authorization tests: walks every API route under src/app/api and checks it
+ * against ROUTE_PERMISSIONS for each role.
+ *
+ * Run: node tests/test-route-permissions.js
+ */
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const API_DIR = path.join(ROOT, 'src', 'app', 'api');
+
+// permissions.ts and route-permissions.ts only import types, so they load on their own
+require.extensions['.ts'] = (module, filename) => {
+  const source = fs.readFileSync(filename, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const { getUserPermissions, hasPermission } = require('../src/lib/permissions.ts');
+const { ROUTE_PERMISSIONS, matchRoute, getRoutePermission } = require('../src/lib/route-permissions.ts');
+
+const ROLES = ['administrator', 'user', 'guest'];
+// Where a guest can still change something: their own sign-in, tokens, alerts,
+// notifications and assistant chats
+const GUEST_WRITABLE = ['/api/auth', '/api/tokens', '/api/users', '/api/alerts', '/api/notifications', '/api/invitations', '/api/ai', '/api/chat'];
+
+let passed = 0;
+let failed = 0;
+const failures = [];
+
+function assertEqual(actual, expected, message) {
+  if (JSON.stringify(actual) === JSON.stringify(expected)) {
+    passed++; console.log(`  ✓ ${message}`);
+  } else {
+    failed++;
+    const f = `${message}\n    expected: ${JSON.stringify(expected)}\n    got:      ${JSON.stringify(actual)}`;
+    failures.push(f);
+    console.log(`  ✗ ${message}`);
+  }
+}
+
+function findRouteFiles(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findRouteFiles(full);
+    return entry.name === 'route.ts' ? [full] : [];
+  });
+}
+
+// Each exported handler with its source, up to the next one
+function readHandlers(file) {
+  const source = fs.readFileSync(file, 'utf8');
+  const pattern = /export (?:async function|const) (GET|POST|PUT|PATCH|DELETE)\b/g;
+  const starts = [...source.matchAll(pattern)];
+  return starts.map((match, i) => ({
+    method: match[1],
+    body: source.slice(match.index, i + 1 < starts.length ? starts[i + 1].index : source.length),
+  }));
+}
+
+// A request path for a route pattern, with a value in each [param]
+function samplePath(route) {
+  return route.replace(/\[[^\]]+\]/g, '42');
+}
+
+// What authorizeRequest decides, for a signed-in user of the role or nobody
+function decide(role, method, pathname) {
+  const permission = getRoutePermission(method, pathname);
+  if (permission === 'public') return 'allow';
+  if (!role) return 401;
+  if (permission === 'authenticated') return 'allow';
+  if (!permission || !hasPermission({ role }, permission)) return 403;
+  return 'allow';
+}
+
+const routes = findRouteFiles(API_DIR).map(file => ({
+  file: path.relative(ROOT, file),
+  route: '/api/' + path.relative(API_DIR, path.dirname(file)).split(path.sep).join('/'),
+  handlers: readHandlers(file),
+})).sort((a, b) => a.route.localeCompare(b.route));
+
+function testEveryRouteIsDeclared() {
+  console.log('\n📋 Every route declares its permissions');
+  console.log('='.repeat(50));
+
+  const undeclared = [];
+  for (const { route, handlers } of routes) {
+    for (const { method } of handlers) {
+      if (!ROUTE_PERMISSIONS[route] || !ROUTE_PERMISSIONS[route][method]) undeclared.push(`${method} ${route}`);
+    }
+  }
+  assertEqual(undeclared, [], `all ${routes.length} route files declare every method they export`);
+
+  const stale = [];
+  for (const [route, methods] of Object.entries(ROUTE_PERMISSIONS)) {
+    const found = routes.find(r => r.route === route);
+    for (const method of Object.keys(methods)) {
+      if (!found || !found.handlers.some(h => h.method === method)) stale.push(`${method} ${route}`);
+    }
+  }
+  assertEqual(stale, [], 'the table has no entries for routes or methods that do not exist');
+
+  const unknown = Object.values(ROUTE_PERMISSIONS)
+    .flatMap(methods => Object.values(methods))
+    .filter(p => p !== 'public' && p !== 'authenticated' && !(p in getUserPermissions('administrator')));
+  assertEqual(unknown, [], 'every declared permission exists');
+}
+
+function testEveryHandlerIsChecked() {
+  console.log('\n🔒 Every non-public handler calls authorizeRequest');
+  console.log('='.repeat(50));
+
+  const unchecked = [];
+  for (const { route, handlers } of routes) {
+    for (const { method, body } of handlers) {
+      const permission = ROUTE_PERMISSIONS[route] && ROUTE_PERMISSIONS[route][method];
+      if (permission === 'public') continue;
+      if (!/authorizeRequest\(session\.user, \w+\)/.test(body)) unchecked.push(`${method} ${route}`);
+    }
+  }
+  assertEqual(unchecked, [], 'no handler skips the check');
+}
+
+function testRouteMatching() {
+  console.log('\n🧭 Route matching');
+  console.log('='.repeat(50));
+
+  assertEqual(matchRoute('/api/transactions/batch-delete'), '/api/transactions/batch-delete', 'static segment beats [id]');
+  assertEqual(matchRoute('/api/transactions/17'), '/api/transactions/[id]', '[id] matches a number');
+  assertEqual(matchRoute('/api/transactions/17/splits'), '/api/transactions/[id]/splits', 'nested [id] route');
+  assertEqual(matchRoute('/api/transactions/category-rules/suggestions/dismiss'), '/api/transactions/category-rules/suggestions/dismiss', 'deep static route');
+  assertEqual(matchRoute('/api/accounts/'), '/api/accounts', 'trailing slash');
+  assertEqual(matchRoute('/api/nothing-here'), null, 'unknown path');
+  assertEqual(getRoutePermission('HEAD', '/api/accounts'), 'authenticated', 'HEAD is treated as GET');
+  assertEqual(getRoutePermission('PATCH', '/api/accounts'), null, 'undeclared method');
+}
+
+function testRoleMatrix() {
+  console.log('\n👥 Every route under each role');
+  console.log('='.repeat(50));
+
+  const counts = {};
+  const unexpected = [];
+  for (const { route, handlers } of routes) {
+    for (const { method } of handlers) {
+      const pathname = samplePath(route);
+      const permission = getRoutePermission(method, pathname);
+      const results = Object.fromEntries([null, ...ROLES].map(role => [role || 'anonymous', decide(role, method, pathname)]));
+      for (const [role, result] of Object.entries(results)) {
+        counts[role] = counts[role] || { allow: 0, 401: 0, 403: 0 };
+        counts[role][result]++;
+      }
+
+      // Administrators can do everything, anyone signed in can do at least what anonymous can
+      if (results.administrator !== 'allow') unexpected.push(`administrator denied ${method} ${route}`);
+      if (permission !== 'public' && results.anonymous !== 401) unexpected.push(`anonymous not 401 on ${method} ${route}`);
+      // A guest never gets what a user does not
+      if (results.guest === 'allow' && results.user !== 'allow') unexpected.push(`guest allowed but not user on ${method} ${route}`);
+      // Guests can read family data but change nothing outside their own things
+      if (method !== 'GET' && results.guest === 'allow' && !GUEST_WRITABLE.some(prefix => (route + '/').startsWith(prefix + '/'))) {
+        unexpected.push(`guest can ${method} ${route}`);
+      }
+    }
+  }
+
+  for (const role of ['anonymous', ...ROLES]) {
+    const c = counts[role];
+    console.log(`    ${role.padEnd(13)} allowed ${c.allow}, 401 ${c[401]}, 403 ${c[403]}`);
+  }
+  assertEqual(unexpected, [], 'the matrix holds for every route and role');
+}
+
+function testGuestIsReadOnly() {
+  console.log('\n👀 Guests are read-only');
+  console.log('='.repeat(50));
+
+  const cases = [
+    ['GET', '/api/balances', 'allow'],
+    ['POST', '/api/balances', 403],
+    ['GET', '/api/transactions', 'allow'],
+    ['POST', '/api/transactions/batch-delete', 403],
+    ['PUT', '/api/accounts/42', 403],
+    ['DELETE', '/api/accounts/42', 403],
+    ['POST', '/api/transactions/import/confirm', 403],
+    ['GET', '/api/export', 'allow'],
+    ['GET', '/api/backups', 403],
+    ['GET', '/api/admin/logs', 403],
+    ['GET', '/api/debug/families', 403],
+    ['POST', '/api/auth/change-password', 'allow'],
+    ['POST', '/api/alerts/rules', 'allow'],
+    ['POST', '/api/notifications/read-all', 'allow'],
+  ];
+  for (const [method, pathname, expected] of cases) {
+    assertEqual(decide('guest', method, pathname), expected, `guest ${method} ${pathname} → ${expected}`);
+  }
+
+  assertEqual(decide('user', 'POST', '/api/transactions/batch-delete'), 'allow', 'users still change data');
+  assertEqual(decide('user', 'GET', '/api/backups'), 403, 'users cannot reach backups');
+  assertEqual(decide('user', 'PUT', '/api/members/42'), 403, 'users cannot change roles');
+}
+
+function run() {
+  console.log('\n🧪 Route Authorization Tests');
+  console.log('='.repeat(50));
+
+  testEveryRouteIsDeclared();
+  testEveryHandlerIsChecked();
+  testRouteMatching();
+  testRoleMatrix();
+  testGuestIsReadOnly();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  if (failures.length > 0) {
+    console.log('\nFailures:');
+    failures.forEach(f => console.log(`  • ${f}`));
+  }
+  console.log('='.repeat(50));
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run();